@@ -0,0 +1,80 @@
+const logger = require('../utils/logger');
+
+// Grade points on the usual 10-point scale. F and Ab (absent) earn no points
+// but their credits still count towards the semester. Any grade worth no
+// points is a fail and leaves a backlog.
+const DEFAULT_SCALE = {
+    O: 10,
+    'A+': 9,
+    A: 8,
+    'B+': 7,
+    B: 6,
+    C: 5,
+    P: 4,
+    F: 0,
+    Ab: 0
+};
+
+/**
+ * Read GRADING_SCALE (JSON, e.g. {"S":10,"A":9,"B":8,"C":7,"D":6,"E":5,"F":0})
+ * in place of the default scale
+ * @returns {Object} - Grade points per grade
+ */
+const loadScale = () => {
+    if (!process.env.GRADING_SCALE) {
+        return DEFAULT_SCALE;
+    }
+
+    try {
+        const scale = JSON.parse(process.env.GRADING_SCALE);
+        const valid = Object.keys(scale).length > 0
+            && Object.values(scale).every((points) => typeof points === 'number' && points >= 0);
+
+        if (!valid) {
+            throw new Error('GRADING_SCALE must map grades to non-negative numbers');
+        }
+
+        return scale;
+    } catch (error) {
+        logger.error(error, 'Invalid GRADING_SCALE, using defaults');
+        return DEFAULT_SCALE;
+    }
+};
+
+let scale = null;
+
+/**
+ * Get the grading scale in use
+ * @returns {Object} - Grade points per grade, best grade first
+ */
+const getGradingScale = () => {
+    if (!scale) {
+        scale = loadScale();
+    }
+    return scale;
+};
+
+/**
+ * Grade points earned for a grade
+ * @param {string} grade - Grade as recorded, e.g. "A+"
+ * @returns {number|null} - Points, or null if the grade isn't on the scale
+ */
+const getGradePoints = (grade) => {
+    const scale = getGradingScale();
+    // Own keys only, so names like "toString" aren't taken for grades
+    return Object.prototype.hasOwnProperty.call(scale, grade) ? scale[grade] : null;
+};
+
+/**
+ * Whether a grade clears the subject
+ * @param {string} grade - Grade as recorded
+ * @returns {boolean}
+ */
+const isPassingGrade = (grade) => getGradePoints(grade) > 0;
+
+module.exports = {
+    DEFAULT_SCALE,
+    getGradingScale,
+    getGradePoints,
+    isPassingGrade
+};
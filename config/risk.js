@@ -0,0 +1,69 @@
+const logger = require('../utils/logger');
+
+// Rules used to flag mentees who may need attention. Each rule that fires
+// adds its weight to the mentee's risk score.
+// - gpaDrop: SGPA fell by at least `threshold` points from one semester to the next
+// - backlogs: at least `threshold` pending backlogs
+// - openIssues: at least `threshold` issues not yet resolved
+// - attendance: attendance recorded below `threshold` percent
+// - inactivity: not signed in for `threshold` days
+const DEFAULT_RULES = {
+    gpaDrop: { enabled: true, threshold: 1, weight: 2 },
+    backlogs: { enabled: true, threshold: 2, weight: 2 },
+    openIssues: { enabled: true, threshold: 3, weight: 1 },
+    attendance: { enabled: true, threshold: 75, weight: 2 },
+    inactivity: { enabled: true, threshold: 30, weight: 1 }
+};
+
+// Scores at which a mentee is flagged, and shown as high risk
+// (override with RISK_FLAG_SCORE and RISK_HIGH_SCORE)
+const FLAG_SCORE = Number(process.env.RISK_FLAG_SCORE) || 2;
+const HIGH_SCORE = Number(process.env.RISK_HIGH_SCORE) || 4;
+
+/**
+ * Merge RISK_RULES (JSON, e.g. {"attendance":{"threshold":80},"inactivity":{"enabled":false}})
+ * over the defaults
+ * @returns {Object} - Settings per rule
+ */
+const loadRules = () => {
+    if (!process.env.RISK_RULES) {
+        return DEFAULT_RULES;
+    }
+
+    try {
+        const overrides = JSON.parse(process.env.RISK_RULES);
+        const rules = { ...DEFAULT_RULES };
+
+        Object.keys(overrides).forEach((rule) => {
+            if (!DEFAULT_RULES[rule]) {
+                throw new Error(`Unknown risk rule "${rule}"`);
+            }
+            rules[rule] = { ...DEFAULT_RULES[rule], ...overrides[rule] };
+        });
+
+        return rules;
+    } catch (error) {
+        logger.error(error, 'Invalid RISK_RULES, using defaults');
+        return DEFAULT_RULES;
+    }
+};
+
+let rules = null;
+
+/**
+ * Get the risk rules in use
+ * @returns {Object} - { enabled, threshold, weight } per rule
+ */
+const getRiskRules = () => {
+    if (!rules) {
+        rules = loadRules();
+    }
+    return rules;
+};
+
+module.exports = {
+    DEFAULT_RULES,
+    FLAG_SCORE,
+    HIGH_SCORE,
+    getRiskRules
+};
@@ -0,0 +1,59 @@
+const logger = require('../utils/logger');
+
+// Hours allowed for the mentor's first response and for resolving an issue.
+// Safety-related grievances get much tighter deadlines.
+const DEFAULT_POLICY = {
+    Ragging: { responseHours: 4, resolutionHours: 48 },
+    Harassment: { responseHours: 4, resolutionHours: 48 },
+    Grievances: { responseHours: 48, resolutionHours: 7 * 24 },
+    Accommodation: { responseHours: 48, resolutionHours: 7 * 24 },
+    Academic: { responseHours: 72, resolutionHours: 14 * 24 },
+    Other: { responseHours: 72, resolutionHours: 14 * 24 }
+};
+
+// How long a mentee may reopen an issue after it is resolved (override with ISSUE_REOPEN_DAYS)
+const REOPEN_WINDOW_MS = (Number(process.env.ISSUE_REOPEN_DAYS) || 7) * 24 * 60 * 60 * 1000;
+
+/**
+ * Merge SLA_POLICY (JSON, e.g. {"Academic":{"responseHours":24}}) over the defaults
+ * @returns {Object} - Policy per issue type
+ */
+const loadPolicy = () => {
+    if (!process.env.SLA_POLICY) {
+        return DEFAULT_POLICY;
+    }
+
+    try {
+        const overrides = JSON.parse(process.env.SLA_POLICY);
+        const policy = { ...DEFAULT_POLICY };
+
+        Object.keys(overrides).forEach((issueType) => {
+            policy[issueType] = { ...(DEFAULT_POLICY[issueType] || DEFAULT_POLICY.Other), ...overrides[issueType] };
+        });
+
+        return policy;
+    } catch (error) {
+        logger.error(error, 'Invalid SLA_POLICY, using defaults');
+        return DEFAULT_POLICY;
+    }
+};
+
+let policy = null;
+
+/**
+ * Get the response and resolution deadlines for an issue type
+ * @param {string} issueType - Issue.issueType
+ * @returns {{ responseHours: number, resolutionHours: number }}
+ */
+const getSlaPolicy = (issueType) => {
+    if (!policy) {
+        policy = loadPolicy();
+    }
+    return policy[issueType] || policy.Other;
+};
+
+module.exports = {
+    DEFAULT_POLICY,
+    REOPEN_WINDOW_MS,
+    getSlaPolicy
+};
@@ -0,0 +1,566 @@
+const User = require('../models/User');
+const Issue = require('../models/Issue');
+const Achievement = require('../models/Achievement');
+const MentorInviteCode = require('../models/MentorInviteCode');
+const { reassignMentee, OPEN_ISSUE_STATUSES } = require('../utils/menteeAssignment');
+const { generateInviteCode } = require('../utils/mentorInviteCodes');
+const { notify } = require('../utils/notifications');
+const { disconnectUser } = require('../utils/realtime');
+
+// @desc    List all users
+// @route   GET /api/admin/users
+// @access  Private (Admin only)
+exports.getUsers = async (req, res) => {
+    try {
+        const { role, search, status, unassigned } = req.query;
+        const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+        const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 25, 1), 100);
+
+        if (role && !User.schema.path('role').enumValues.includes(role)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Invalid role'
+            });
+        }
+
+        if (search && typeof search !== 'string') {
+            return res.status(400).json({
+                success: false,
+                error: 'Search must be a single term'
+            });
+        }
+
+        const query = {};
+
+        if (role) {
+            query.role = role;
+        }
+
+        if (status === 'active') {
+            query.isActive = { $ne: false };
+        } else if (status === 'inactive') {
+            query.isActive = false;
+        }
+
+        // Only mentees without a mentor
+        if (unassigned === 'true') {
+            query.role = 'mentee';
+            query.assignedMentor = { $exists: false };
+        }
+
+        if (search) {
+            // Escape regex special characters in the search term
+            const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+            query.$or = [{ email: pattern }, { name: pattern }];
+        }
+
+        const [users, total] = await Promise.all([
+            User.find(query)
+                .sort('role email')
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .populate({
+                    path: 'assignedMentor',
+                    select: 'email name'
+                }),
+            User.countDocuments(query)
+        ]);
+
+        return res.status(200).json({
+            success: true,
+            count: users.length,
+            total,
+            page,
+            pages: Math.ceil(total / limit),
+            data: users.map((user) => ({
+                id: user._id,
+                email: user.email,
+                name: user.name,
+                phone: user.phone,
+                role: user.role,
+                isActive: user.isActive !== false,
+                profileCompleted: user.profileCompleted,
+                menteeCount: user.role === 'mentor' ? user.mentees.length : undefined,
+                assignedMentor: user.assignedMentor
+                    ? {
+                        id: user.assignedMentor._id,
+                        email: user.assignedMentor.email,
+                        name: user.assignedMentor.name
+                    }
+                    : null,
+                createdAt: user.createdAt
+            }))
+        });
+    } catch (error) {
+        console.error("Error listing users:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Activate or deactivate a user account
+// @route   PATCH /api/admin/users/:userId/status
+// @access  Private (Admin only)
+exports.updateUserStatus = async (req, res) => {
+    try {
+        const { isActive } = req.body;
+
+        if (typeof isActive !== 'boolean') {
+            return res.status(400).json({
+                success: false,
+                error: 'isActive must be true or false'
+            });
+        }
+
+        if (req.params.userId === req.user.id.toString()) {
+            return res.status(400).json({
+                success: false,
+                error: 'You cannot change the status of your own account'
+            });
+        }
+
+        const user = await User.findById(req.params.userId);
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                error: 'User not found'
+            });
+        }
+
+        user.isActive = isActive;
+        user.deactivatedAt = isActive ? undefined : new Date();
+        await user.save();
+
+        if (!isActive) {
+            disconnectUser(user._id);
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: user._id,
+                email: user.email,
+                role: user.role,
+                isActive: user.isActive
+            }
+        });
+    } catch (error) {
+        console.error("Error updating user status:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Assign a mentee to a different mentor (or unassign)
+// @route   PUT /api/admin/mentees/:menteeId/mentor
+// @access  Private (Admin only)
+exports.reassignMentee = async (req, res) => {
+    try {
+        const { mentorId } = req.body;
+
+        const mentee = await User.findOne({ _id: req.params.menteeId, role: 'mentee' });
+
+        if (!mentee) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentee not found'
+            });
+        }
+
+        let mentor = null;
+
+        if (mentorId) {
+            mentor = await User.findOne({ _id: mentorId, role: 'mentor' });
+
+            if (!mentor || !mentor.isApprovedMentor()) {
+                return res.status(404).json({
+                    success: false,
+                    error: 'Mentor not found'
+                });
+            }
+
+            if (mentor.isActive === false) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Cannot assign mentees to a deactivated mentor'
+                });
+            }
+        }
+
+        await reassignMentee(mentee, mentor, { assignedBy: req.user.id });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: mentee._id,
+                email: mentee.email,
+                assignedMentor: mentor
+                    ? { id: mentor._id, email: mentor.email, name: mentor.name }
+                    : null
+            }
+        });
+    } catch (error) {
+        console.error("Error reassigning mentee:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Get institution-wide statistics
+// @route   GET /api/admin/stats
+// @access  Private (Admin only)
+exports.getStats = async (req, res) => {
+    try {
+        const [usersByRole, unassignedMentees, inactiveUsers, issuesByStatus, issuesByType, achievementsByType, escalatedIssues] = await Promise.all([
+            User.aggregate([
+                { $group: { _id: '$role', count: { $sum: 1 } } }
+            ]),
+            User.countDocuments({ role: 'mentee', assignedMentor: { $exists: false } }),
+            User.countDocuments({ isActive: false }),
+            Issue.aggregate([
+                { $group: { _id: '$status', count: { $sum: 1 } } }
+            ]),
+            Issue.aggregate([
+                { $group: { _id: '$issueType', count: { $sum: 1 } } },
+                { $sort: { count: -1 } }
+            ]),
+            Achievement.aggregate([
+                { $group: { _id: '$type', count: { $sum: 1 } } },
+                { $sort: { count: -1 } }
+            ]),
+            Issue.countDocuments({
+                status: { $in: OPEN_ISSUE_STATUSES },
+                'escalations.0': { $exists: true },
+                confidential: { $ne: true }
+            })
+        ]);
+
+        // Turn [{ _id, count }] aggregation results into { key: count }
+        const toCounts = (groups) => groups.reduce((counts, group) => {
+            counts[group._id] = group.count;
+            return counts;
+        }, {});
+
+        const issueStatusCounts = toCounts(issuesByStatus);
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                users: {
+                    byRole: toCounts(usersByRole),
+                    unassignedMentees,
+                    inactive: inactiveUsers
+                },
+                issues: {
+                    total: issuesByStatus.reduce((sum, group) => sum + group.count, 0),
+                    open: (issueStatusCounts['Open'] || 0) + (issueStatusCounts['Under Review'] || 0),
+                    escalated: escalatedIssues,
+                    byStatus: issueStatusCounts,
+                    byType: toCounts(issuesByType)
+                },
+                achievements: {
+                    total: achievementsByType.reduce((sum, group) => sum + group.count, 0),
+                    byType: toCounts(achievementsByType)
+                }
+            }
+        });
+    } catch (error) {
+        console.error("Error getting admin stats:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    List issues escalated for missing their SLA deadlines
+// @route   GET /api/admin/issues/escalated
+// @access  Private (Admin only)
+exports.getEscalatedIssues = async (req, res) => {
+    try {
+        // Confidential issues are escalated to the committee instead
+        const query = { 'escalations.0': { $exists: true }, confidential: { $ne: true } };
+
+        // Resolved escalations are only shown on request
+        if (req.query.includeResolved !== 'true') {
+            query.status = { $in: OPEN_ISSUE_STATUSES };
+        }
+
+        const issues = await Issue.find(query)
+            .sort('-escalations.createdAt')
+            .limit(200)
+            .populate({
+                path: 'mentee',
+                select: 'email name'
+            })
+            .populate({
+                path: 'mentor',
+                select: 'email name'
+            });
+
+        return res.status(200).json({
+            success: true,
+            count: issues.length,
+            data: issues.map((issue) => ({
+                id: issue._id,
+                issueType: issue.issueType,
+                description: issue.description,
+                status: issue.status,
+                mentee: issue.mentee ? { id: issue.mentee._id, email: issue.mentee.email, name: issue.mentee.name } : null,
+                mentor: issue.mentor ? { id: issue.mentor._id, email: issue.mentor.email, name: issue.mentor.name } : null,
+                sla: issue.sla,
+                escalations: issue.escalations,
+                createdAt: issue.createdAt
+            }))
+        });
+    } catch (error) {
+        console.error("Error getting escalated issues:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// Invite codes are valid for a week and one registration unless set otherwise
+const DEFAULT_CODE_TTL_DAYS = 7;
+const MAX_CODE_TTL_DAYS = 365;
+const MAX_CODE_USES = 500;
+
+/**
+ * Helper function to shape an invite code for the admin console
+ * @param {Object} inviteCode - Invite code document, redemptions populated
+ * @returns {Object}
+ */
+const inviteCodeDetails = (inviteCode) => ({
+    id: inviteCode._id,
+    hint: inviteCode.hint,
+    label: inviteCode.label,
+    expiresAt: inviteCode.expiresAt,
+    maxUses: inviteCode.maxUses,
+    uses: inviteCode.uses,
+    revokedAt: inviteCode.revokedAt,
+    usable: inviteCode.isUsable(),
+    createdBy: inviteCode.createdBy && inviteCode.createdBy.email
+        ? { id: inviteCode.createdBy._id, email: inviteCode.createdBy.email, name: inviteCode.createdBy.name }
+        : null,
+    redemptions: inviteCode.redemptions.map((redemption) => ({
+        redeemedAt: redemption.redeemedAt,
+        user: redemption.user && redemption.user.email
+            ? { id: redemption.user._id, email: redemption.user.email, name: redemption.user.name }
+            : null
+    })),
+    createdAt: inviteCode.createdAt
+});
+
+// @desc    List mentor invite codes
+// @route   GET /api/admin/mentor-codes
+// @access  Private (Admin only)
+exports.getMentorInviteCodes = async (req, res) => {
+    try {
+        const inviteCodes = await MentorInviteCode.find()
+            .sort('-createdAt')
+            .limit(200)
+            .populate({ path: 'createdBy', select: 'email name' })
+            .populate({ path: 'redemptions.user', select: 'email name' });
+
+        return res.status(200).json({
+            success: true,
+            count: inviteCodes.length,
+            data: inviteCodes.map(inviteCodeDetails)
+        });
+    } catch (error) {
+        console.error("Error listing mentor invite codes:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Create a mentor invite code. The code itself is only returned here.
+// @route   POST /api/admin/mentor-codes
+// @access  Private (Admin only)
+exports.createMentorInviteCode = async (req, res) => {
+    try {
+        const expiresInDays = req.body.expiresInDays === undefined ? DEFAULT_CODE_TTL_DAYS : Number(req.body.expiresInDays);
+        const maxUses = req.body.maxUses === undefined ? 1 : Number(req.body.maxUses);
+
+        if (!Number.isFinite(expiresInDays) || expiresInDays <= 0 || expiresInDays > MAX_CODE_TTL_DAYS) {
+            return res.status(400).json({
+                success: false,
+                error: `expiresInDays must be between 1 and ${MAX_CODE_TTL_DAYS}`
+            });
+        }
+
+        if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_CODE_USES) {
+            return res.status(400).json({
+                success: false,
+                error: `maxUses must be a whole number between 1 and ${MAX_CODE_USES}`
+            });
+        }
+
+        const { code, hash, hint } = generateInviteCode();
+
+        const inviteCode = await MentorInviteCode.create({
+            codeHash: hash,
+            hint,
+            label: req.body.label,
+            createdBy: req.user.id,
+            expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+            maxUses
+        });
+
+        return res.status(201).json({
+            success: true,
+            data: {
+                ...inviteCodeDetails(inviteCode),
+                code
+            }
+        });
+    } catch (error) {
+        console.error("Error creating mentor invite code:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Revoke a mentor invite code so it can't be used again
+// @route   DELETE /api/admin/mentor-codes/:codeId
+// @access  Private (Admin only)
+exports.revokeMentorInviteCode = async (req, res) => {
+    try {
+        const inviteCode = await MentorInviteCode.findById(req.params.codeId);
+
+        if (!inviteCode) {
+            return res.status(404).json({
+                success: false,
+                error: 'Invite code not found'
+            });
+        }
+
+        if (!inviteCode.revokedAt) {
+            inviteCode.revokedAt = new Date();
+            await inviteCode.save();
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: inviteCodeDetails(inviteCode)
+        });
+    } catch (error) {
+        console.error("Error revoking mentor invite code:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    List mentors waiting for approval (or rejected, with ?status=rejected)
+// @route   GET /api/admin/mentors/pending
+// @access  Private (Admin only)
+exports.getPendingMentors = async (req, res) => {
+    try {
+        const status = req.query.status === 'rejected' ? 'rejected' : 'pending';
+
+        const mentors = await User.find({ role: 'mentor', approvalStatus: status })
+            .sort('createdAt')
+            .populate({ path: 'approvalReviewedBy', select: 'email name' });
+
+        return res.status(200).json({
+            success: true,
+            count: mentors.length,
+            data: mentors.map((mentor) => ({
+                id: mentor._id,
+                email: mentor.email,
+                name: mentor.name,
+                phone: mentor.phone,
+                emailVerified: mentor.emailVerified !== false,
+                approvalStatus: mentor.approvalStatus,
+                reviewedBy: mentor.approvalReviewedBy
+                    ? { id: mentor.approvalReviewedBy._id, email: mentor.approvalReviewedBy.email, name: mentor.approvalReviewedBy.name }
+                    : null,
+                reviewedAt: mentor.approvalReviewedAt,
+                createdAt: mentor.createdAt
+            }))
+        });
+    } catch (error) {
+        console.error("Error listing pending mentors:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Approve or reject a mentor who registered without an invite code
+// @route   PATCH /api/admin/mentors/:mentorId/approval
+// @access  Private (Admin only)
+exports.reviewMentor = async (req, res) => {
+    try {
+        const { approve } = req.body;
+
+        if (typeof approve !== 'boolean') {
+            return res.status(400).json({
+                success: false,
+                error: 'approve must be true or false'
+            });
+        }
+
+        const mentor = await User.findOne({ _id: req.params.mentorId, role: 'mentor' });
+
+        if (!mentor) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentor not found'
+            });
+        }
+
+        // Approved mentors may already have mentees; deactivate them instead
+        if (mentor.isApprovedMentor()) {
+            return res.status(400).json({
+                success: false,
+                error: 'This mentor has already been approved'
+            });
+        }
+
+        mentor.approvalStatus = approve ? 'approved' : 'rejected';
+        mentor.approvalReviewedBy = req.user.id;
+        mentor.approvalReviewedAt = new Date();
+        await mentor.save();
+
+        await notify(mentor._id, {
+            type: 'mentor_reviewed',
+            title: approve ? 'Mentor account approved' : 'Mentor account not approved',
+            message: approve
+                ? 'An administrator approved your mentor account. You can now use the mentor dashboard.'
+                : 'An administrator did not approve your mentor account. Contact them if you think this is a mistake.',
+            link: '/mentor/dashboard'
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: mentor._id,
+                email: mentor.email,
+                approvalStatus: mentor.approvalStatus
+            }
+        });
+    } catch (error) {
+        console.error("Error reviewing mentor:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
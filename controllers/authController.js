@@ -1,10 +1,91 @@
 const User = require('../models/User');
+const MenteeProfile = require('../models/MenteeProfile');
+const Session = require('../models/Session');
 const generateToken = require('../utils/jwtGenerator');
+const { reassignMentee } = require('../utils/menteeAssignment');
+const { redeemInviteCode, releaseInviteCode } = require('../utils/mentorInviteCodes');
+const { findUsableInviteLink, redeemInviteLink, releaseInviteLink } = require('../utils/menteeInviteLinks');
+const { notify, findActiveUserIds } = require('../utils/notifications');
+const { hashToken, createSecureToken } = require('../utils/secureToken');
+const {
+    startSession,
+    rotateSession,
+    revokeSessionByToken,
+    revokeUserSessions,
+    getRefreshToken,
+    setRefreshCookie,
+    clearRefreshCookie
+} = require('../utils/sessions');
+const { getLoginLockout, recordLoginFailure, clearLoginFailures } = require('../utils/loginThrottle');
+const { sendTooManyRequests } = require('../utils/rateLimit');
+const { sendMail } = require('../utils/mail');
+const { passwordReset, emailVerification } = require('../utils/mail/templates');
+const { disconnectUser } = require('../utils/realtime');
 
-// @desc    Register a mentor (TEMPORARY - for development)
+// Password reset links expire after an hour (override with PASSWORD_RESET_TTL_MINUTES)
+const PASSWORD_RESET_TTL_MS = (Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60) * 60 * 1000;
+
+// Verification links stay valid for two days (override with EMAIL_VERIFICATION_TTL_HOURS)
+const VERIFICATION_TTL_MS = (Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 48) * 60 * 60 * 1000;
+
+/**
+ * Helper function to check whether unverified accounts are kept from logging
+ * in (REQUIRE_EMAIL_VERIFICATION=true)
+ * @returns {boolean}
+ */
+const isVerificationRequired = () => process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+
+/**
+ * Helper function to issue a verification token on an account and email the link
+ * @param {Object} user - User document; saved with the new token
+ * @returns {Promise<boolean>} - Whether the email was handed to the mail transport
+ */
+const sendVerificationEmail = async (user) => {
+    const { token, hash, expires } = createSecureToken(VERIFICATION_TTL_MS);
+
+    user.verificationTokenHash = hash;
+    user.verificationExpires = expires;
+    await user.save();
+
+    return sendMail({ to: user.email, ...emailVerification({ recipient: user, token }) });
+};
+
+/**
+ * Helper function to answer a registration: sign the user in, or ask them to
+ * verify their email first when verification is required
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Object} user - Newly registered user
+ * @param {Object} data - User details for the response
+ */
+const sendRegistrationResponse = async (req, res, user, data) => {
+    if (isVerificationRequired()) {
+        return res.status(201).json({
+            success: true,
+            verificationRequired: true,
+            message: 'Account created. Check your email for a link to verify your address before logging in.',
+            data
+        });
+    }
+
+    // Start a session on this device
+    const token = await startSession(req, res, user);
+
+    return res.status(201).json({
+        success: true,
+        token,
+        data
+    });
+};
+
+// @desc    Register a mentor. With an invite code from an administrator the
+//          account is approved straight away; without one it waits for an
+//          administrator to approve it.
 // @route   POST /api/auth/register/mentor
 // @access  Public
 exports.registerMentor = async (req, res) => {
+    let inviteCode = null;
+
     try {
         const { email, password, name, phone } = req.body;
 
@@ -17,27 +98,103 @@ exports.registerMentor = async (req, res) => {
             });
         }
 
+        if (req.body.inviteCode) {
+            inviteCode = await redeemInviteCode(req.body.inviteCode);
+
+            if (!inviteCode) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'This invite code is invalid, has expired or has been used up'
+                });
+            }
+        }
+
         // Create new mentor
         const mentor = await User.create({
             email,
             password,
             name: name || email.split('@')[0], // Use name if provided or part of email as fallback
             phone,
-            role: 'mentor'
+            role: 'mentor',
+            emailVerified: false,
+            approvalStatus: inviteCode ? 'approved' : 'pending',
+            mentorInviteCode: inviteCode ? inviteCode._id : undefined
         });
 
-        // Generate token
-        const token = generateToken(mentor._id);
+        if (inviteCode) {
+            inviteCode.redemptions.push({ user: mentor._id });
+            await inviteCode.save();
+            inviteCode = null;
+        } else {
+            await notify(await findActiveUserIds('admin'), {
+                type: 'mentor_pending',
+                title: 'Mentor awaiting approval',
+                message: `${mentor.name} (${mentor.email}) registered as a mentor without an invite code`,
+                link: '/admin/mentor-access'
+            });
+        }
+
+        await sendVerificationEmail(mentor);
 
-        res.status(201).json({
+        await sendRegistrationResponse(req, res, mentor, {
+            id: mentor._id,
+            email: mentor.email,
+            name: mentor.name,
+            phone: mentor.phone,
+            role: mentor.role,
+            approvalStatus: mentor.approvalStatus
+        });
+    } catch (error) {
+        // The account wasn't created, so the code's use is given back
+        if (inviteCode) {
+            await releaseInviteCode(inviteCode).catch(() => {});
+        }
+
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Helper function to find the mentor behind an invite link, if they can
+ * still take on mentees
+ * @param {Object} inviteLink - Invite link document
+ * @returns {Promise<Object|null>} - Mentor user document
+ */
+const findInvitingMentor = async (inviteLink) => {
+    const mentor = await User.findById(inviteLink.mentor);
+
+    if (!mentor || !mentor.isApprovedMentor() || mentor.isActive === false) {
+        return null;
+    }
+
+    return mentor;
+};
+
+// @desc    Look up a mentee invite link before registering with it
+// @route   GET /api/auth/mentee-invite/:token
+// @access  Public
+exports.getMenteeInvite = async (req, res) => {
+    try {
+        const inviteLink = await findUsableInviteLink(req.params.token);
+        const mentor = inviteLink && await findInvitingMentor(inviteLink);
+
+        if (!mentor) {
+            return res.status(404).json({
+                success: false,
+                error: 'This invite link is invalid, has expired or has been used up'
+            });
+        }
+
+        res.status(200).json({
             success: true,
-            token,
             data: {
-                id: mentor._id,
-                email: mentor.email,
-                name: mentor.name,
-                phone: mentor.phone,
-                role: mentor.role
+                mentor: { name: mentor.name, email: mentor.email },
+                section: inviteLink.section,
+                branch: inviteLink.branch,
+                expiresAt: inviteLink.expiresAt
             }
         });
     } catch (error) {
@@ -48,12 +205,15 @@ exports.registerMentor = async (req, res) => {
     }
 };
 
-// @desc    Register a new mentee
+// @desc    Register a new mentee. With an invite link from a mentor the
+//          mentee is assigned to that mentor straight away.
 // @route   POST /api/auth/register/mentee
 // @access  Public
 exports.registerMentee = async (req, res) => {
+    let inviteLink = null;
+
     try {
-        const { email, password, name, phone, mentorId } = req.body;
+        const { email, password, name, phone, inviteToken } = req.body;
 
         // Check if email already exists
         const existingUser = await User.findOne({ email });
@@ -64,60 +224,64 @@ exports.registerMentee = async (req, res) => {
             });
         }
 
+        let mentor = null;
+
+        if (inviteToken) {
+            inviteLink = await redeemInviteLink(inviteToken);
+            mentor = inviteLink && await findInvitingMentor(inviteLink);
+
+            if (!mentor) {
+                if (inviteLink) {
+                    await releaseInviteLink(inviteLink);
+                    inviteLink = null;
+                }
+
+                return res.status(400).json({
+                    success: false,
+                    error: 'This invite link is invalid, has expired or has been used up'
+                });
+            }
+        }
+
         // Create new mentee (without assigned mentor for now)
         const mentee = await User.create({
             email,
             password,
             role: 'mentee',
             name: name || email.split('@')[0], // Use name if provided or part of email as fallback
-            phone
+            phone,
+            emailVerified: false
         });
 
-        // If a mentorId was provided, auto-assign the mentee to that mentor
-        if (mentorId) {
-            try {
-                // Find the mentor
-                const mentor = await User.findById(mentorId);
-
-                if (!mentor || mentor.role !== 'mentor') {
-                    console.log('Invalid mentor ID provided during registration:', mentorId);
-                } else {
-                    // Initialize mentees array if it doesn't exist
-                    if (!mentor.mentees) {
-                        mentor.mentees = [];
-                    }
-
-                    // Add mentee to mentor's list
-                    mentor.mentees.push(mentee._id);
-                    await mentor.save();
+        if (inviteLink) {
+            inviteLink.redemptions.push({ mentee: mentee._id });
+            await inviteLink.save();
+            const { section, branch } = inviteLink;
+            inviteLink = null;
 
-                    // Update mentee's assignedMentor field
-                    mentee.assignedMentor = mentor._id;
-                    await mentee.save();
-
-                    console.log(`Auto-assigned new mentee ${mentee._id} to mentor ${mentor._id}`);
-                }
-            } catch (assignError) {
-                // Log the error but don't fail the registration
-                console.error('Error auto-assigning mentee to mentor:', assignError);
+            // Prefill the profile with the section and branch the link was made for
+            if (section || branch) {
+                await MenteeProfile.create({ user: mentee._id, name: mentee.name, section, branch });
             }
+
+            await reassignMentee(mentee, mentor, { assignedBy: mentor._id });
         }
 
-        // Generate token
-        const token = generateToken(mentee._id);
+        await sendVerificationEmail(mentee);
 
-        res.status(201).json({
-            success: true,
-            token,
-            data: {
-                id: mentee._id,
-                email: mentee.email,
-                role: mentee.role,
-                name: mentee.name,
-                phone: mentee.phone
-            }
+        await sendRegistrationResponse(req, res, mentee, {
+            id: mentee._id,
+            email: mentee.email,
+            role: mentee.role,
+            name: mentee.name,
+            phone: mentee.phone
         });
     } catch (error) {
+        // The account wasn't created, so the link's use is given back
+        if (inviteLink) {
+            await releaseInviteLink(inviteLink).catch(() => {});
+        }
+
         console.error('Mentee registration error:', error);
         res.status(500).json({
             success: false,
@@ -141,9 +305,20 @@ exports.login = async (req, res) => {
             });
         }
 
+        // Refuse before checking the password so a locked account can't
+        // keep being guessed at
+        const lockout = await getLoginLockout(email, req.ip);
+        if (lockout) {
+            return sendTooManyRequests(res, lockout.resetAt, {
+                code: 'TOO_MANY_ATTEMPTS',
+                error: lockout.message
+            });
+        }
+
         // Check for user
         const user = await User.findOne({ email }).select('+password');
         if (!user) {
+            await recordLoginFailure(email, req.ip);
             return res.status(401).json({
                 success: false,
                 error: 'Invalid credentials'
@@ -153,14 +328,133 @@ exports.login = async (req, res) => {
         // Check if password matches
         const isMatch = await user.comparePassword(password);
         if (!isMatch) {
+            await recordLoginFailure(email, req.ip);
             return res.status(401).json({
                 success: false,
                 error: 'Invalid credentials'
             });
         }
 
-        // Generate token
-        const token = generateToken(user._id);
+        if (user.isActive === false) {
+            return res.status(403).json({
+                success: false,
+                error: 'This account has been deactivated'
+            });
+        }
+
+        if (isVerificationRequired() && user.emailVerified === false) {
+            return res.status(403).json({
+                success: false,
+                code: 'EMAIL_NOT_VERIFIED',
+                error: 'Please verify your email address before logging in'
+            });
+        }
+
+        await clearLoginFailures(email);
+
+        // Start a session on this device
+        const token = await startSession(req, res, user);
+
+        res.status(200).json({
+            success: true,
+            token,
+            data: {
+                id: user._id,
+                email: user.email,
+                role: user.role,
+                profileCompleted: user.profileCompleted
+            }
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Helper function to find the pending account an invite token belongs to
+ * @param {string} token - Raw invite token from the link
+ * @returns {Promise<Object|null>} - User document, or null if invalid or expired
+ */
+const findInvitedUser = (token) => User.findOne({
+    inviteTokenHash: hashToken(token),
+    inviteExpires: { $gt: new Date() }
+});
+
+// @desc    Look up an invite before accepting it
+// @route   GET /api/auth/invite/:token
+// @access  Public
+exports.getInvite = async (req, res) => {
+    try {
+        const user = await findInvitedUser(req.params.token).populate('assignedMentor', 'name email');
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                error: 'This invite link is invalid or has expired'
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                email: user.email,
+                name: user.name,
+                mentor: user.assignedMentor
+                    ? { name: user.assignedMentor.name, email: user.assignedMentor.email }
+                    : null
+            }
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Accept an invite by choosing a password
+// @route   POST /api/auth/invite/:token
+// @access  Public
+exports.acceptInvite = async (req, res) => {
+    try {
+        const { password } = req.body;
+
+        if (!password || password.length < 6) {
+            return res.status(400).json({
+                success: false,
+                error: 'Password must be at least 6 characters'
+            });
+        }
+
+        const user = await findInvitedUser(req.params.token);
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                error: 'This invite link is invalid or has expired'
+            });
+        }
+
+        if (user.isActive === false) {
+            return res.status(403).json({
+                success: false,
+                error: 'This account has been deactivated'
+            });
+        }
+
+        user.password = password;
+        user.inviteTokenHash = undefined;
+        user.inviteExpires = undefined;
+        // The invite link was sent to this address, so it is known to work
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+        await user.save();
+
+        // Start a session on this device
+        const token = await startSession(req, res, user);
 
         res.status(200).json({
             success: true,
@@ -196,6 +490,9 @@ exports.getMe = async (req, res) => {
                 phone: user.phone,
                 role: user.role,
                 profileCompleted: user.profileCompleted,
+                emailVerified: user.emailVerified !== false,
+                // Only sent for mentors; pending and rejected mentors can't use mentor routes
+                approvalStatus: user.role === 'mentor' ? user.approvalStatus || 'approved' : undefined,
                 assignedMentor: user.assignedMentor,
                 mentees: user.mentees
             }
@@ -206,4 +503,620 @@ exports.getMe = async (req, res) => {
             error: error.message
         });
     }
+};
+
+// @desc    Get the current user's email notification preferences
+// @route   GET /api/auth/email-preferences
+// @access  Private
+exports.getEmailPreferences = async (req, res) => {
+    try {
+        const user = await User.findById(req.user.id).select('emailPreferences');
+
+        return res.status(200).json({
+            success: true,
+            data: user.emailPreferences
+        });
+    } catch (error) {
+        console.error("Error getting email preferences:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Turn individual email notifications on or off
+// @route   PUT /api/auth/email-preferences
+// @access  Private
+exports.updateEmailPreferences = async (req, res) => {
+    try {
+        const user = await User.findById(req.user.id).select('emailPreferences');
+
+        // Only known events with a boolean value are changed
+        User.EMAIL_PREFERENCE_KEYS.forEach((key) => {
+            if (typeof req.body[key] === 'boolean') {
+                user.emailPreferences[key] = req.body[key];
+            }
+        });
+        await user.save();
+
+        return res.status(200).json({
+            success: true,
+            data: user.emailPreferences
+        });
+    } catch (error) {
+        console.error("Error updating email preferences:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Helper function to shape a user's account details for the settings page
+ * @param {Object} user - User document
+ * @returns {Object}
+ */
+const accountDetails = (user) => ({
+    id: user._id,
+    email: user.email,
+    name: user.name,
+    phone: user.phone,
+    role: user.role,
+    emailVerified: user.emailVerified !== false,
+    ...(user.role === 'mentor' && {
+        mentorProfile: User.MENTOR_PROFILE_KEYS.reduce((profile, key) => ({
+            ...profile,
+            [key]: (user.mentorProfile && user.mentorProfile[key]) || ''
+        }), {})
+    })
+});
+
+// @desc    Get the current user's account details
+// @route   GET /api/auth/account
+// @access  Private
+exports.getAccount = async (req, res) => {
+    try {
+        const user = await User.findById(req.user.id);
+
+        res.status(200).json({
+            success: true,
+            data: accountDetails(user)
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Update name, phone, email and (for mentors) profile details.
+//          Changing the email requires the current password.
+// @route   PUT /api/auth/account
+// @access  Private
+exports.updateAccount = async (req, res) => {
+    try {
+        const { name, phone, currentPassword, mentorProfile } = req.body;
+        const user = await User.findById(req.user.id).select('+password');
+
+        if (typeof name === 'string') {
+            if (!name.trim()) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Name cannot be empty'
+                });
+            }
+            user.name = name;
+        }
+
+        if (typeof phone === 'string') {
+            user.phone = phone;
+        }
+
+        if (user.role === 'mentor' && mentorProfile && typeof mentorProfile === 'object') {
+            User.MENTOR_PROFILE_KEYS.forEach((key) => {
+                if (typeof mentorProfile[key] === 'string') {
+                    user.mentorProfile[key] = mentorProfile[key];
+                }
+            });
+        }
+
+        const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+        const emailChanged = email && email !== user.email;
+
+        if (emailChanged) {
+            // Not 401: the client would take that as an expired session and retry
+            if (!currentPassword || !(await user.comparePassword(currentPassword))) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Current password is incorrect'
+                });
+            }
+
+            const existingUser = await User.findOne({ email });
+            if (existingUser) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Email already in use'
+                });
+            }
+
+            // The new address has to be confirmed like a new registration
+            user.email = email;
+            user.emailVerified = false;
+            user.emailVerifiedAt = undefined;
+        }
+
+        await user.save();
+
+        if (emailChanged) {
+            await sendVerificationEmail(user);
+        }
+
+        res.status(200).json({
+            success: true,
+            message: emailChanged
+                ? 'Account updated. Check your new email address for a verification link.'
+                : 'Account updated',
+            data: accountDetails(user)
+        });
+    } catch (error) {
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({
+                success: false,
+                error: Object.values(error.errors).map((err) => err.message).join(', ')
+            });
+        }
+
+        console.error('Update account error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Change the password, signing out every other device
+// @route   PUT /api/auth/account/password
+// @access  Private
+exports.changePassword = async (req, res) => {
+    try {
+        const { currentPassword, newPassword } = req.body;
+
+        if (!currentPassword || !newPassword) {
+            return res.status(400).json({
+                success: false,
+                error: 'Please provide your current and new password'
+            });
+        }
+
+        if (newPassword.length < 6) {
+            return res.status(400).json({
+                success: false,
+                error: 'Password must be at least 6 characters'
+            });
+        }
+
+        const user = await User.findById(req.user.id).select('+password');
+
+        // Not 401: the client would take that as an expired session and retry
+        if (!(await user.comparePassword(currentPassword))) {
+            return res.status(400).json({
+                success: false,
+                error: 'Current password is incorrect'
+            });
+        }
+
+        user.password = newPassword;
+        user.passwordChangedAt = new Date();
+        await user.save();
+
+        await revokeUserSessions(user._id, req.user.sessionId);
+
+        // Access tokens issued before the change are no longer accepted, so
+        // this device gets a fresh one
+        res.status(200).json({
+            success: true,
+            message: 'Your password has been changed. Other devices have been signed out.',
+            token: generateToken(user._id, req.user.sessionId)
+        });
+    } catch (error) {
+        console.error('Change password error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Email a password reset link
+// @route   POST /api/auth/forgot-password
+// @access  Public
+exports.forgotPassword = async (req, res) => {
+    try {
+        const email = (req.body.email || '').trim().toLowerCase();
+
+        if (!email) {
+            return res.status(400).json({
+                success: false,
+                error: 'Please provide your email address'
+            });
+        }
+
+        const user = await User.findOne({ email }).select('+inviteTokenHash');
+
+        // Deactivated and pending invite accounts can't reset; their owners
+        // need an administrator or a new invite instead
+        if (user && user.isActive !== false && !user.inviteTokenHash) {
+            const { token, hash, expires } = createSecureToken(PASSWORD_RESET_TTL_MS);
+
+            user.passwordResetTokenHash = hash;
+            user.passwordResetExpires = expires;
+            await user.save();
+
+            await sendMail({
+                to: user.email,
+                ...passwordReset({ recipient: user, token, ttlMinutes: Math.round(PASSWORD_RESET_TTL_MS / 60000) })
+            });
+        }
+
+        // Same answer whether or not the account exists, so the endpoint
+        // can't be used to find out who is registered
+        res.status(200).json({
+            success: true,
+            message: 'If an account exists for that email, a password reset link is on its way.'
+        });
+    } catch (error) {
+        console.error('Forgot password error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Helper function to find the account a password reset token belongs to
+ * @param {string} token - Raw reset token from the link
+ * @returns {Promise<Object|null>} - User document, or null if invalid or expired
+ */
+const findPasswordResetUser = (token) => User.findOne({
+    passwordResetTokenHash: hashToken(token),
+    passwordResetExpires: { $gt: new Date() }
+});
+
+// @desc    Check a password reset link before showing the form
+// @route   GET /api/auth/reset-password/:token
+// @access  Public
+exports.getPasswordReset = async (req, res) => {
+    try {
+        const user = await findPasswordResetUser(req.params.token);
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                error: 'This password reset link is invalid or has expired'
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                email: user.email
+            }
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Choose a new password with a reset link
+// @route   POST /api/auth/reset-password/:token
+// @access  Public
+exports.resetPassword = async (req, res) => {
+    try {
+        const { password } = req.body;
+
+        if (!password || password.length < 6) {
+            return res.status(400).json({
+                success: false,
+                error: 'Password must be at least 6 characters'
+            });
+        }
+
+        const user = await findPasswordResetUser(req.params.token);
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                error: 'This password reset link is invalid or has expired'
+            });
+        }
+
+        if (user.isActive === false) {
+            return res.status(403).json({
+                success: false,
+                error: 'This account has been deactivated'
+            });
+        }
+
+        user.password = password;
+        user.passwordChangedAt = new Date();
+        user.passwordResetTokenHash = undefined;
+        user.passwordResetExpires = undefined;
+        // The reset link was emailed, so the address is known to work
+        if (user.emailVerified === false) {
+            user.emailVerified = true;
+            user.emailVerifiedAt = new Date();
+        }
+        await user.save();
+
+        // Whoever knew the old password may still be signed in somewhere
+        await revokeUserSessions(user._id);
+        // Proving control of the inbox lifts any login lockout
+        await clearLoginFailures(user.email);
+
+        res.status(200).json({
+            success: true,
+            message: 'Your password has been reset. You can now log in.'
+        });
+    } catch (error) {
+        console.error('Reset password error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Confirm an email address with a verification link
+// @route   POST /api/auth/verify-email/:token
+// @access  Public
+exports.verifyEmail = async (req, res) => {
+    try {
+        const user = await User.findOne({
+            verificationTokenHash: hashToken(req.params.token),
+            verificationExpires: { $gt: new Date() }
+        });
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                error: 'This verification link is invalid or has expired'
+            });
+        }
+
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+        user.verificationTokenHash = undefined;
+        user.verificationExpires = undefined;
+        await user.save();
+
+        res.status(200).json({
+            success: true,
+            message: 'Your email address has been verified',
+            data: {
+                email: user.email
+            }
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Send a new verification link
+// @route   POST /api/auth/resend-verification
+// @access  Public
+exports.resendVerification = async (req, res) => {
+    try {
+        const email = (req.body.email || '').trim().toLowerCase();
+
+        if (!email) {
+            return res.status(400).json({
+                success: false,
+                error: 'Please provide your email address'
+            });
+        }
+
+        const user = await User.findOne({ email });
+
+        if (user && user.isActive !== false && user.emailVerified === false) {
+            await sendVerificationEmail(user);
+        }
+
+        // Same answer either way, as with password resets
+        res.status(200).json({
+            success: true,
+            message: 'If that account still needs verifying, a new link is on its way.'
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Exchange the refresh token cookie for a new access token
+// @route   POST /api/auth/refresh
+// @access  Public (refresh token cookie)
+exports.refresh = async (req, res) => {
+    try {
+        const refreshToken = getRefreshToken(req);
+
+        if (!refreshToken) {
+            return res.status(401).json({
+                success: false,
+                error: 'Not signed in'
+            });
+        }
+
+        const result = await rotateSession(refreshToken);
+
+        if (!result) {
+            clearRefreshCookie(res);
+            return res.status(401).json({
+                success: false,
+                error: 'Your session has expired; please log in again'
+            });
+        }
+
+        const { session } = result;
+        const user = await User.findById(session.user);
+
+        if (!user || user.isActive === false) {
+            session.revokedAt = new Date();
+            await session.save();
+            clearRefreshCookie(res);
+
+            return res.status(401).json({
+                success: false,
+                error: 'Your session has expired; please log in again'
+            });
+        }
+
+        // No new refresh token inside the rotation grace period; the browser
+        // already has the one issued moments ago
+        if (result.token) {
+            setRefreshCookie(res, result.token, session.expiresAt);
+        }
+
+        res.status(200).json({
+            success: true,
+            token: generateToken(user._id, session._id),
+            data: {
+                id: user._id,
+                email: user.email,
+                role: user.role,
+                profileCompleted: user.profileCompleted
+            }
+        });
+    } catch (error) {
+        console.error('Refresh token error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Sign out of this device
+// @route   POST /api/auth/logout
+// @access  Public (refresh token cookie)
+exports.logout = async (req, res) => {
+    try {
+        const refreshToken = getRefreshToken(req);
+
+        if (refreshToken) {
+            await revokeSessionByToken(refreshToken);
+        }
+
+        clearRefreshCookie(res);
+
+        res.status(200).json({
+            success: true,
+            message: 'Logged out'
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Sign out of every device
+// @route   POST /api/auth/logout-all
+// @access  Private
+exports.logoutAll = async (req, res) => {
+    try {
+        const revoked = await revokeUserSessions(req.user.id);
+
+        clearRefreshCookie(res);
+
+        res.status(200).json({
+            success: true,
+            message: 'Logged out of all devices',
+            data: {
+                revoked
+            }
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    List the devices the current user is signed in on
+// @route   GET /api/auth/sessions
+// @access  Private
+exports.getSessions = async (req, res) => {
+    try {
+        const sessions = await Session.find({
+            user: req.user.id,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() }
+        }).sort({ lastUsedAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            data: sessions.map((session) => ({
+                id: session._id,
+                userAgent: session.userAgent,
+                ip: session.ip,
+                createdAt: session.createdAt,
+                lastUsedAt: session.lastUsedAt,
+                current: String(session._id) === String(req.user.sessionId)
+            }))
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Sign out one of the current user's devices
+// @route   DELETE /api/auth/sessions/:sessionId
+// @access  Private
+exports.revokeSession = async (req, res) => {
+    try {
+        const session = await Session.findOne({
+            _id: req.params.sessionId,
+            user: req.user.id,
+            revokedAt: { $exists: false }
+        });
+
+        if (!session) {
+            return res.status(404).json({
+                success: false,
+                error: 'Session not found'
+            });
+        }
+
+        session.revokedAt = new Date();
+        await session.save();
+        disconnectUser(req.user.id, { sessionId: session._id });
+
+        res.status(200).json({
+            success: true,
+            message: 'Device signed out'
+        });
+    } catch (error) {
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
 };
\ No newline at end of file
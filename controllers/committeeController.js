@@ -0,0 +1,229 @@
+const Issue = require('../models/Issue');
+const { formatCommitteeIssue } = require('../utils/confidentialIssues');
+const { excerpt, notifyIssueReporter } = require('../utils/notifications');
+const { publishIssueUpdate } = require('../utils/realtime');
+
+/**
+ * Helper function to load a confidential issue with the users the committee
+ * view needs
+ * @param {string} issueId - Issue ID
+ * @returns {Promise<Object|null>} - Populated issue, or null if it is not confidential
+ */
+const findConfidentialIssue = (issueId) => Issue.findOne({ _id: issueId, confidential: true })
+    .populate({
+        path: 'mentee',
+        select: 'email name'
+    })
+    .populate({
+        path: 'comments.user',
+        select: 'email name role'
+    })
+    .populate({
+        path: 'statusHistory.changedBy',
+        select: 'email name role'
+    });
+
+// @desc    Get all confidential issues
+// @route   GET /api/committee/issues
+// @access  Private (Committee only)
+exports.getIssues = async (req, res) => {
+    try {
+        const query = { confidential: true };
+
+        if (req.query.status) {
+            if (!Issue.schema.path('status').enumValues.includes(req.query.status)) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Invalid issue status'
+                });
+            }
+            query.status = req.query.status;
+        }
+
+        const issues = await Issue.find(query)
+            .sort('-createdAt')
+            .populate({
+                path: 'mentee',
+                select: 'email name'
+            })
+            .populate({
+                path: 'comments.user',
+                select: 'email name role'
+            });
+
+        return res.status(200).json({
+            success: true,
+            count: issues.length,
+            data: issues.map(formatCommitteeIssue)
+        });
+    } catch (error) {
+        console.error("Error getting confidential issues:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Get details of a confidential issue
+// @route   GET /api/committee/issues/:issueId
+// @access  Private (Committee only)
+exports.getIssue = async (req, res) => {
+    try {
+        const issue = await findConfidentialIssue(req.params.issueId);
+
+        if (!issue) {
+            return res.status(404).json({
+                success: false,
+                error: 'Issue not found'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: formatCommitteeIssue(issue)
+        });
+    } catch (error) {
+        console.error("Error getting confidential issue:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Add a comment to a confidential issue, optionally updating its status
+// @route   POST /api/committee/issues/:issueId/comments
+// @access  Private (Committee only)
+exports.addComment = async (req, res) => {
+    try {
+        const { text, status, reason } = req.body;
+
+        if (!text) {
+            return res.status(400).json({
+                success: false,
+                error: 'Comment text is required'
+            });
+        }
+
+        if (reason !== undefined && typeof reason !== 'string') {
+            return res.status(400).json({
+                success: false,
+                error: 'Reason must be text'
+            });
+        }
+
+        const issue = await Issue.findOne({ _id: req.params.issueId, confidential: true });
+
+        if (!issue) {
+            return res.status(404).json({
+                success: false,
+                error: 'Issue not found'
+            });
+        }
+
+        issue.comments.push({
+            user: req.user.id,
+            text
+        });
+
+        const statusChanged = Boolean(status) && Issue.ISSUE_STATUSES.includes(status)
+            && issue.changeStatus(status, req.user.id, reason);
+
+        await issue.save();
+
+        await publishIssueUpdate(issue, statusChanged ? 'status' : 'comment');
+        await notifyIssueReporter(issue, statusChanged
+            ? {
+                type: 'issue_status',
+                title: `Your ${issue.issueType} report is now ${issue.status}`,
+                message: excerpt(text)
+            }
+            : {
+                type: 'issue_comment',
+                title: `The committee replied to your ${issue.issueType} report`,
+                message: excerpt(text)
+            });
+
+        const populated = await findConfidentialIssue(issue._id);
+
+        return res.status(200).json({
+            success: true,
+            data: formatCommitteeIssue(populated)
+        });
+    } catch (error) {
+        console.error("Error adding committee comment:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Ask an anonymous reporter to consent to revealing their identity
+// @route   POST /api/committee/issues/:issueId/identity-request
+// @access  Private (Committee only)
+exports.requestIdentity = async (req, res) => {
+    try {
+        const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+        if (!reason) {
+            return res.status(400).json({
+                success: false,
+                error: 'Please explain why the reporter\'s identity is needed'
+            });
+        }
+
+        const issue = await Issue.findOne({ _id: req.params.issueId, confidential: true });
+
+        if (!issue) {
+            return res.status(404).json({
+                success: false,
+                error: 'Issue not found'
+            });
+        }
+
+        if (!issue.anonymous || issue.identityDisclosure.status === 'granted') {
+            return res.status(400).json({
+                success: false,
+                error: 'The reporter\'s identity is already visible'
+            });
+        }
+
+        if (issue.identityDisclosure.status === 'requested') {
+            return res.status(400).json({
+                success: false,
+                error: 'A request is already awaiting the reporter\'s answer'
+            });
+        }
+
+        // A declined request can be asked again with a new reason
+        issue.identityDisclosure = {
+            status: 'requested',
+            reason,
+            requestedBy: req.user.id,
+            requestedAt: new Date()
+        };
+        await issue.save();
+
+        await publishIssueUpdate(issue, 'identity');
+        await notifyIssueReporter(issue, {
+            type: 'identity_request',
+            title: 'The committee asked to know who you are',
+            message: excerpt(reason)
+        });
+
+        const populated = await findConfidentialIssue(issue._id);
+
+        return res.status(200).json({
+            success: true,
+            data: formatCommitteeIssue(populated)
+        });
+    } catch (error) {
+        console.error("Error requesting reporter identity:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
@@ -0,0 +1,22 @@
+const { addClient } = require('../utils/realtime');
+
+// @desc    Stream live issue, dashboard and notification events (server-sent events)
+// @route   GET /api/events
+// @access  Private
+exports.stream = (req, res) => {
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Stop nginx from buffering the stream
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    // Tell the browser how long to wait before reconnecting
+    res.write('retry: 5000\n\n');
+    res.write(`event: ready\ndata: ${JSON.stringify({ userId: req.user.id })}\n\n`);
+
+    const removeClient = addClient(req.user, res);
+    req.on('close', removeClient);
+};
@@ -3,6 +3,13 @@ const MenteeProfile = require('../models/MenteeProfile');
 const Issue = require('../models/Issue');
 const AcademicRecord = require('../models/AcademicRecord');
 const Achievement = require('../models/Achievement');
+const crypto = require('crypto');
+const { getStorage, sendStoredFile } = require('../utils/storage');
+const { excerpt, notify, notifyIssueHandlers } = require('../utils/notifications');
+const { publishIssueUpdate } = require('../utils/realtime');
+const { OPEN_ISSUE_STATUSES } = require('../utils/menteeAssignment');
+const { withSubjectSGPAs, getAcademicSummary, getBacklogs } = require('../utils/academics');
+const { getGradingScale, getGradePoints, isPassingGrade } = require('../config/grading');
 
 // @desc    Create mentee profile
 // @route   POST /api/mentee/profile
@@ -58,6 +65,13 @@ exports.updateProfile = async (req, res) => {
             });
         }
 
+        // Saving a profile prefilled by a mentor's import completes it.
+        // req.user doesn't carry the flag, so the filter checks it.
+        await User.updateOne(
+            { _id: req.user._id, profileCompleted: { $ne: true } },
+            { profileCompleted: true }
+        );
+
         return res.status(200).json({
             success: true,
             data: profile
@@ -112,18 +126,34 @@ exports.createIssue = async (req, res) => {
             });
         }
 
-        if (!mentee.assignedMentor) {
+        // Ragging and harassment go to the committee, so they don't need a mentor
+        const confidential = Issue.CONFIDENTIAL_ISSUE_TYPES.includes(req.body.issueType);
+
+        if (!confidential && !mentee.assignedMentor) {
             return res.status(400).json({
                 success: false,
                 error: 'No assigned mentor found'
             });
         }
 
-        // Create issue
+        // Create issue; only take the fields a mentee may set so SLA and
+        // escalation data can't be forged
         const issue = await Issue.create({
             mentee: req.user._id,
-            mentor: mentee.assignedMentor,
-            ...req.body
+            mentor: confidential ? undefined : mentee.assignedMentor,
+            issueType: req.body.issueType,
+            description: req.body.description,
+            anonymous: confidential && req.body.anonymous === true,
+            statusHistory: [{ to: 'Open', changedBy: req.user._id }]
+        });
+
+        await publishIssueUpdate(issue, 'created');
+        await notifyIssueHandlers(issue, {
+            type: 'issue_created',
+            title: `New ${issue.issueType} issue`,
+            message: confidential
+                ? 'A new confidential report has been filed'
+                : `${mentee.name || mentee.email} reported: ${excerpt(issue.description)}`
         });
 
         return res.status(201).json({
@@ -167,10 +197,76 @@ exports.getIssues = async (req, res) => {
 // @access  Private (Mentee only)
 exports.getIssue = async (req, res) => {
     try {
-        const issue = await Issue.findById(req.params.issueId).populate({
-            path: 'comments.user',
-            select: 'email role'
+        const issue = await Issue.findById(req.params.issueId)
+            .populate({
+                path: 'comments.user',
+                select: 'email role'
+            })
+            .populate({
+                path: 'statusHistory.changedBy',
+                select: 'email name role'
+            });
+
+        if (!issue) {
+            return res.status(404).json({
+                success: false,
+                error: 'Issue not found'
+            });
+        }
+
+        // Check if issue belongs to mentee
+        if (issue.mentee.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to access this issue'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                ...issue.toObject(),
+                reopenableUntil: issue.getReopenDeadline()
+            }
         });
+    } catch (error) {
+        console.error("Error fetching issue:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Helper function to record the mentee's rating of a resolution (not saved)
+ * @param {Object} issue - Issue document
+ * @param {*} rating - Rating from the request body, 1 to 5
+ * @param {string} [comment] - Optional feedback text
+ * @returns {string|null} - Validation error, if any
+ */
+const applyFeedback = (issue, rating, comment) => {
+    const value = Number(rating);
+
+    if (!Number.isInteger(value) || value < 1 || value > 5) {
+        return 'Rating must be a whole number from 1 to 5';
+    }
+
+    issue.feedback = {
+        rating: value,
+        comment: comment ? String(comment).trim() : undefined,
+        submittedAt: new Date()
+    };
+    return null;
+};
+
+// @desc    Confirm that a resolved issue is fixed, closing it, optionally with a rating
+// @route   POST /api/mentee/issues/:issueId/confirm
+// @access  Private (Mentee only)
+exports.confirmResolution = async (req, res) => {
+    try {
+        const { rating, comment } = req.body;
+        const issue = await Issue.findById(req.params.issueId);
 
         if (!issue) {
             return res.status(404).json({
@@ -187,12 +283,237 @@ exports.getIssue = async (req, res) => {
             });
         }
 
+        if (issue.status !== 'Resolved') {
+            return res.status(400).json({
+                success: false,
+                error: 'Only resolved issues can be confirmed'
+            });
+        }
+
+        if (rating !== undefined && rating !== null) {
+            const feedbackError = applyFeedback(issue, rating, comment);
+            if (feedbackError) {
+                return res.status(400).json({
+                    success: false,
+                    error: feedbackError
+                });
+            }
+        }
+
+        issue.changeStatus('Closed', req.user._id, 'Resolution confirmed by mentee');
+        await issue.save();
+
+        await publishIssueUpdate(issue, 'status');
+        await notifyIssueHandlers(issue, {
+            type: 'issue_status',
+            title: `${issue.issueType} issue confirmed resolved`,
+            message: issue.feedback && issue.feedback.rating
+                ? `The mentee closed the issue and rated it ${issue.feedback.rating}/5`
+                : 'The mentee closed the issue'
+        });
+
         return res.status(200).json({
             success: true,
             data: issue
         });
     } catch (error) {
-        console.error("Error fetching issue:", error);
+        console.error("Error confirming resolution:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Reopen a resolved or closed issue within the reopen window
+// @route   POST /api/mentee/issues/:issueId/reopen
+// @access  Private (Mentee only)
+exports.reopenIssue = async (req, res) => {
+    try {
+        const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+        if (!reason) {
+            return res.status(400).json({
+                success: false,
+                error: 'Please explain why the issue is not resolved'
+            });
+        }
+
+        const issue = await Issue.findById(req.params.issueId);
+
+        if (!issue) {
+            return res.status(404).json({
+                success: false,
+                error: 'Issue not found'
+            });
+        }
+
+        // Check if issue belongs to mentee
+        if (issue.mentee.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to access this issue'
+            });
+        }
+
+        const deadline = issue.getReopenDeadline();
+
+        if (!deadline) {
+            return res.status(400).json({
+                success: false,
+                error: 'Only resolved or closed issues can be reopened'
+            });
+        }
+
+        if (deadline < new Date()) {
+            return res.status(400).json({
+                success: false,
+                error: 'The window for reopening this issue has passed; please report a new issue'
+            });
+        }
+
+        issue.changeStatus('Open', req.user._id, reason);
+        // The rating was for the resolution the mentee just rejected; they
+        // can rate again once the issue is resolved
+        issue.feedback = undefined;
+        await issue.save();
+
+        await publishIssueUpdate(issue, 'status');
+        await notifyIssueHandlers(issue, {
+            type: 'issue_status',
+            title: `${issue.issueType} issue reopened`,
+            message: excerpt(reason)
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: issue
+        });
+    } catch (error) {
+        console.error("Error reopening issue:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Rate how a resolved or closed issue was handled
+// @route   PUT /api/mentee/issues/:issueId/feedback
+// @access  Private (Mentee only)
+exports.submitFeedback = async (req, res) => {
+    try {
+        const { rating, comment } = req.body;
+        const issue = await Issue.findById(req.params.issueId);
+
+        if (!issue) {
+            return res.status(404).json({
+                success: false,
+                error: 'Issue not found'
+            });
+        }
+
+        // Check if issue belongs to mentee
+        if (issue.mentee.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to access this issue'
+            });
+        }
+
+        if (!['Resolved', 'Closed'].includes(issue.status)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Issues can only be rated once they are resolved'
+            });
+        }
+
+        const feedbackError = applyFeedback(issue, rating, comment);
+        if (feedbackError) {
+            return res.status(400).json({
+                success: false,
+                error: feedbackError
+            });
+        }
+
+        await issue.save();
+
+        return res.status(200).json({
+            success: true,
+            data: issue.feedback
+        });
+    } catch (error) {
+        console.error("Error submitting issue feedback:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Consent to, or refuse, revealing the mentee's identity on a confidential issue
+// @route   PATCH /api/mentee/issues/:issueId/identity
+// @access  Private (Mentee only)
+exports.respondToIdentityRequest = async (req, res) => {
+    try {
+        const { consent } = req.body;
+
+        if (typeof consent !== 'boolean') {
+            return res.status(400).json({
+                success: false,
+                error: 'consent must be true or false'
+            });
+        }
+
+        const issue = await Issue.findById(req.params.issueId);
+
+        if (!issue) {
+            return res.status(404).json({
+                success: false,
+                error: 'Issue not found'
+            });
+        }
+
+        // Check if issue belongs to mentee
+        if (issue.mentee.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to access this issue'
+            });
+        }
+
+        if (!issue.confidential || !issue.anonymous || issue.identityDisclosure.status === 'granted') {
+            return res.status(400).json({
+                success: false,
+                error: 'Your identity is already visible to the committee'
+            });
+        }
+
+        // Mentees may reveal themselves at any time, but can only refuse a request
+        if (!consent && issue.identityDisclosure.status !== 'requested') {
+            return res.status(400).json({
+                success: false,
+                error: 'There is no pending request to respond to'
+            });
+        }
+
+        issue.identityDisclosure.status = consent ? 'granted' : 'declined';
+        issue.identityDisclosure.respondedAt = new Date();
+        await issue.save();
+
+        await publishIssueUpdate(issue, 'identity');
+        await notifyIssueHandlers(issue, {
+            type: 'identity_request',
+            title: consent ? 'Reporter revealed their identity' : 'Reporter chose to stay anonymous',
+            message: `On a ${issue.issueType} report`
+        });
+
+        return res.status(200).json({
+            success: true,
+            data: issue
+        });
+    } catch (error) {
+        console.error("Error responding to identity request:", error);
         return res.status(500).json({
             success: false,
             error: error.message
@@ -205,8 +526,35 @@ exports.getIssue = async (req, res) => {
 // @access  Private (Mentee only)
 exports.updateAcademics = async (req, res) => {
     try {
-        // Log request body for debugging
-        console.log('Update academics request body:', JSON.stringify(req.body));
+        // Marksheets are managed through the upload endpoints, never through this body
+
+        let subjects;
+        if (req.body.subjects !== undefined) {
+            const { error, value } = normalizeSubjects(req.body.subjects);
+
+            if (error) {
+                return res.status(400).json({
+                    success: false,
+                    error
+                });
+            }
+            subjects = value;
+        }
+
+        // An empty value clears the attendance
+        let attendance;
+        if (req.body.attendance !== undefined) {
+            attendance = req.body.attendance === null || req.body.attendance === ''
+                ? undefined
+                : Number(req.body.attendance);
+
+            if (attendance !== undefined && !(attendance >= 0 && attendance <= 100)) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Attendance must be a percentage between 0 and 100'
+                });
+            }
+        }
 
         // Check if academic record exists
         let academicRecord = await AcademicRecord.findOne({ mentee: req.user._id });
@@ -214,9 +562,20 @@ exports.updateAcademics = async (req, res) => {
         if (academicRecord) {
             // Update existing record - only update the fields that are provided in the request
 
-            // Update semesterGPA if provided
-            if (req.body.semesterGPA !== undefined) {
-                academicRecord.semesterGPA = req.body.semesterGPA;
+            if (subjects !== undefined) {
+                academicRecord.subjects = subjects;
+            }
+
+            // Update semesterGPA if provided, keeping the review state of unchanged entries.
+            // Semesters with subjects always get the GPA calculated from their grades.
+            if (req.body.semesterGPA !== undefined || subjects !== undefined) {
+                academicRecord.semesterGPA = mergeSemesterGPA(
+                    academicRecord.semesterGPA,
+                    withSubjectSGPAs(
+                        req.body.semesterGPA !== undefined ? req.body.semesterGPA : academicRecord.semesterGPA,
+                        academicRecord.subjects
+                    )
+                );
             }
 
             // Update moocCourses if provided
@@ -224,19 +583,21 @@ exports.updateAcademics = async (req, res) => {
                 academicRecord.moocCourses = req.body.moocCourses;
             }
 
-            // Update certifications if provided
+            // Update certifications if provided, keeping the review state of unchanged entries
             if (req.body.certifications !== undefined) {
-                academicRecord.certifications = req.body.certifications;
+                academicRecord.certifications = mergeCertifications(academicRecord.certifications, req.body.certifications);
             }
 
-            // Handle semester marksheets update if provided
-            if (req.body.semesterMarksheets !== undefined) {
-                academicRecord.semesterMarksheets = req.body.semesterMarksheets;
+            // Backlogs are counted from the subjects once there are any;
+            // until then the mentee enters the number
+            if (academicRecord.subjects.length > 0) {
+                academicRecord.backlogs = getBacklogs(academicRecord.subjects).pending.length;
+            } else if (req.body.backlogs !== undefined) {
+                academicRecord.backlogs = Number(req.body.backlogs) || 0;
             }
 
-            // Handle backlogs update if provided
-            if (req.body.backlogs !== undefined) {
-                academicRecord.backlogs = Number(req.body.backlogs) || 0;
+            if (req.body.attendance !== undefined) {
+                academicRecord.attendance = attendance;
             }
 
             await academicRecord.save();
@@ -247,8 +608,12 @@ exports.updateAcademics = async (req, res) => {
             };
 
             // Only include fields that are provided in the request
-            if (req.body.semesterGPA !== undefined) {
-                newRecordData.semesterGPA = req.body.semesterGPA;
+            if (subjects !== undefined) {
+                newRecordData.subjects = subjects;
+            }
+
+            if (req.body.semesterGPA !== undefined || subjects !== undefined) {
+                newRecordData.semesterGPA = mergeSemesterGPA([], withSubjectSGPAs(req.body.semesterGPA, subjects));
             }
 
             if (req.body.moocCourses !== undefined) {
@@ -256,15 +621,17 @@ exports.updateAcademics = async (req, res) => {
             }
 
             if (req.body.certifications !== undefined) {
-                newRecordData.certifications = req.body.certifications;
+                newRecordData.certifications = mergeCertifications([], req.body.certifications);
             }
 
-            if (req.body.backlogs !== undefined) {
+            if (subjects && subjects.length > 0) {
+                newRecordData.backlogs = getBacklogs(subjects).pending.length;
+            } else if (req.body.backlogs !== undefined) {
                 newRecordData.backlogs = Number(req.body.backlogs) || 0;
             }
 
-            if (req.body.semesterMarksheets !== undefined) {
-                newRecordData.semesterMarksheets = req.body.semesterMarksheets;
+            if (attendance !== undefined) {
+                newRecordData.attendance = attendance;
             }
 
             academicRecord = await AcademicRecord.create(newRecordData);
@@ -272,7 +639,8 @@ exports.updateAcademics = async (req, res) => {
 
         return res.status(200).json({
             success: true,
-            data: academicRecord
+            data: academicRecord,
+            summary: getAcademicSummary(academicRecord)
         });
     } catch (error) {
         console.error('Error updating academics:', error);
@@ -283,6 +651,120 @@ exports.updateAcademics = async (req, res) => {
     }
 };
 
+/**
+ * Helper function to merge submitted semester GPAs with the stored ones
+ * Entries whose GPA is unchanged keep their verification, anything else
+ * (and any verification sent by the client) goes back to pending.
+ * @param {Array} existing - Stored semesterGPA entries
+ * @param {Array} incoming - Submitted semesterGPA entries
+ * @returns {Array} - semesterGPA entries to save
+ */
+const mergeSemesterGPA = (existing = [], incoming = []) => {
+    return incoming.map(({ semester, gpa }) => {
+        const previous = existing.find((entry) => entry.semester === Number(semester));
+        const unchanged = previous && previous.gpa === Number(gpa);
+
+        return {
+            ...(unchanged && { _id: previous._id }),
+            semester,
+            gpa,
+            verification: unchanged ? previous.verification.toObject() : {}
+        };
+    });
+};
+
+/**
+ * Helper function to check submitted subjects against the grading scale
+ * @param {Array} incoming - Submitted subjects
+ * @returns {{ error?: string, value?: Array }} - Subjects to save, or why they were refused
+ */
+const normalizeSubjects = (incoming) => {
+    if (!Array.isArray(incoming)) {
+        return { error: 'Subjects must be a list' };
+    }
+
+    const value = [];
+    // Marks are optional; blank means not entered
+    const optionalNumber = (input) => (input === undefined || input === null || input === '' ? undefined : Number(input));
+
+    for (const subject of incoming) {
+        const name = String(subject?.name || '').trim();
+        const semester = Number(subject?.semester);
+        const credits = Number(subject?.credits);
+        const grade = String(subject?.grade || '').trim();
+        const attempt = subject?.attempt === undefined ? 1 : Number(subject.attempt);
+        const examSemester = optionalNumber(subject?.examSemester) ?? semester;
+        const internalMarks = optionalNumber(subject?.internalMarks);
+        const externalMarks = optionalNumber(subject?.externalMarks);
+
+        if (!name) {
+            return { error: 'Every subject needs a name' };
+        }
+
+        if (!Number.isInteger(semester) || semester < 1 || semester > 12) {
+            return { error: `${name}: semester must be between 1 and 12` };
+        }
+
+        if (!Number.isFinite(credits) || credits < 0) {
+            return { error: `${name}: credits must be zero or more` };
+        }
+
+        if (getGradePoints(grade) === null) {
+            return {
+                error: `${name}: grade must be one of ${Object.keys(getGradingScale()).join(', ')}`
+            };
+        }
+
+        if ([internalMarks, externalMarks].some((marks) => marks !== undefined && (!Number.isFinite(marks) || marks < 0))) {
+            return { error: `${name}: marks must be zero or more` };
+        }
+
+        if (!Number.isInteger(attempt) || attempt < 1) {
+            return { error: `${name}: attempt must be a whole number from 1` };
+        }
+
+        if (!Number.isInteger(examSemester) || examSemester < semester || examSemester > 12) {
+            return { error: `${name}: exam semester must be between ${semester} and 12` };
+        }
+
+        value.push({
+            semester,
+            code: String(subject.code || '').trim() || undefined,
+            name,
+            credits,
+            internalMarks,
+            externalMarks,
+            grade,
+            passed: isPassingGrade(grade),
+            attempt,
+            examSemester
+        });
+    }
+
+    // Listed by semester; subjects keep their order within a semester
+    return { value: value.sort((a, b) => a.semester - b.semester) };
+};
+
+/**
+ * Helper function to merge submitted certifications with the stored ones
+ * Accepts plain names or { name } objects; matching is done by name.
+ * @param {Array} existing - Stored certification entries
+ * @param {Array} incoming - Submitted certifications
+ * @returns {Array} - Certification entries to save
+ */
+const mergeCertifications = (existing = [], incoming = []) => {
+    return incoming.map((item) => {
+        const name = (typeof item === 'string' ? item : item?.name || '').trim();
+        const previous = existing.find((entry) => entry.name === name);
+
+        return {
+            ...(previous && { _id: previous._id }),
+            name,
+            verification: previous ? previous.verification.toObject() : {}
+        };
+    });
+};
+
 // @desc    Get academic details
 // @route   GET /api/mentee/academics
 // @access  Private (Mentee only)
@@ -299,7 +781,8 @@ exports.getAcademics = async (req, res) => {
 
         return res.status(200).json({
             success: true,
-            data: academicRecord
+            data: academicRecord,
+            summary: getAcademicSummary(academicRecord)
         });
     } catch (error) {
         console.error("Error fetching academics:", error);
@@ -310,6 +793,161 @@ exports.getAcademics = async (req, res) => {
     }
 };
 
+// @desc    Get the grades subjects can be given and their grade points
+// @route   GET /api/mentee/academics/grading-scale
+// @access  Private (Mentee only)
+exports.getGradingScale = (req, res) => {
+    const scale = getGradingScale();
+
+    return res.status(200).json({
+        success: true,
+        data: Object.keys(scale).map((grade) => ({ grade, points: scale[grade] }))
+    });
+};
+
+// @desc    Upload a semester marksheet
+// @route   POST /api/mentee/academics/marksheets
+// @access  Private (Mentee only)
+exports.uploadMarksheet = async (req, res) => {
+    // Set while the new file is stored but not yet referenced by the record
+    let orphanKey = null;
+
+    try {
+        const semester = parseInt(req.body.semester, 10);
+
+        if (!semester || semester < 1 || semester > 12) {
+            return res.status(400).json({
+                success: false,
+                error: 'Semester must be between 1 and 12'
+            });
+        }
+
+        const storage = getStorage();
+        const fileKey = `marksheets/${req.user._id}/semester-${semester}-${crypto.randomUUID()}.${req.file.extension}`;
+
+        await storage.save(fileKey, req.file.buffer, req.file.mimetype);
+        orphanKey = fileKey;
+
+        const marksheet = {
+            semester,
+            fileKey,
+            fileName: req.file.originalname,
+            mimeType: req.file.mimetype,
+            size: req.file.size,
+            uploadedAt: new Date()
+        };
+
+        let academicRecord = await AcademicRecord.findOne({ mentee: req.user._id });
+        let previousKey = null;
+
+        if (academicRecord) {
+            const existing = academicRecord.semesterMarksheets.find((m) => m.semester === semester);
+
+            if (existing) {
+                previousKey = existing.fileKey;
+                // A replaced marksheet has to be reviewed again
+                existing.set({ ...marksheet, verification: {} });
+            } else {
+                academicRecord.semesterMarksheets.push(marksheet);
+            }
+
+            await academicRecord.save();
+        } else {
+            academicRecord = await AcademicRecord.create({
+                mentee: req.user._id,
+                semesterMarksheets: [marksheet]
+            });
+        }
+        orphanKey = null;
+
+        // Remove the file that was replaced, once the new one is saved
+        if (previousKey) {
+            storage.remove(previousKey).catch((error) => {
+                console.error('Error removing replaced marksheet:', error);
+            });
+        }
+
+        return res.status(201).json({
+            success: true,
+            data: academicRecord
+        });
+    } catch (error) {
+        console.error('Error uploading marksheet:', error);
+
+        if (orphanKey) {
+            getStorage().remove(orphanKey).catch((removeError) => {
+                console.error('Error removing unsaved marksheet:', removeError);
+            });
+        }
+
+        return res.status(500).json({
+            success: false,
+            error: error.message || 'Failed to upload marksheet'
+        });
+    }
+};
+
+// @desc    Download a semester marksheet
+// @route   GET /api/mentee/academics/marksheets/:semester
+// @access  Private (Mentee only)
+exports.getMarksheet = async (req, res) => {
+    try {
+        const semester = parseInt(req.params.semester, 10);
+        const academicRecord = await AcademicRecord.findOne({ mentee: req.user._id });
+        const marksheet = academicRecord?.semesterMarksheets.find((m) => m.semester === semester);
+
+        if (!marksheet) {
+            return res.status(404).json({
+                success: false,
+                error: 'Marksheet not found'
+            });
+        }
+
+        await sendStoredFile(res, marksheet);
+    } catch (error) {
+        console.error('Error fetching marksheet:', error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Delete a semester marksheet
+// @route   DELETE /api/mentee/academics/marksheets/:semester
+// @access  Private (Mentee only)
+exports.deleteMarksheet = async (req, res) => {
+    try {
+        const semester = parseInt(req.params.semester, 10);
+        const academicRecord = await AcademicRecord.findOne({ mentee: req.user._id });
+        const marksheet = academicRecord?.semesterMarksheets.find((m) => m.semester === semester);
+
+        if (!marksheet) {
+            return res.status(404).json({
+                success: false,
+                error: 'Marksheet not found'
+            });
+        }
+
+        const { fileKey } = marksheet;
+        academicRecord.semesterMarksheets.pull(marksheet._id);
+        await academicRecord.save();
+
+        await getStorage().remove(fileKey);
+
+        return res.status(200).json({
+            success: true,
+            data: academicRecord
+        });
+    } catch (error) {
+        console.error('Error deleting marksheet:', error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
 // @desc    Report a new achievement
 // @route   POST /api/mentee/achievements
 // @access  Private (Mentee only)
@@ -349,6 +987,13 @@ exports.createAchievement = async (req, res) => {
 
         console.log(`Achievement created: ${achievement._id} for mentee: ${mentee._id}, mentor: ${mentee.assignedMentor}`);
 
+        await notify(mentee.assignedMentor, {
+            type: 'achievement_added',
+            title: 'New achievement reported',
+            message: `${mentee.name || mentee.email}: ${excerpt(achievement.description)}`,
+            link: `/mentor/mentees/${mentee._id}`
+        });
+
         return res.status(201).json({
             success: true,
             data: achievement
@@ -402,7 +1047,7 @@ exports.getDashboard = async (req, res) => {
         // Count open issues
         const pendingIssues = await Issue.countDocuments({
             mentee: userId,
-            status: { $ne: "Resolved" },
+            status: { $in: OPEN_ISSUE_STATUSES },
         });
 
         // Get achievements count - default to checking all achievements if isCompleted is not set
@@ -450,6 +1095,8 @@ exports.getDashboard = async (req, res) => {
                 name: user.assignedMentor.name,
                 email: user.assignedMentor.email,
                 phone: user.assignedMentor.phone,
+                // Department, designation, office hours and cabin
+                ...(user.assignedMentor.mentorProfile && user.assignedMentor.mentorProfile.toObject()),
             };
         }
 
@@ -521,6 +1168,13 @@ exports.addComment = async (req, res) => {
 
         await issue.save();
 
+        await publishIssueUpdate(issue, 'comment');
+        await notifyIssueHandlers(issue, {
+            type: 'issue_comment',
+            title: `New comment on ${issue.issueType} issue`,
+            message: excerpt(text)
+        });
+
         // Get the newly added comment with proper timestamp
         const newComment = issue.comments[issue.comments.length - 1];
 
@@ -3,6 +3,21 @@ const MenteeProfile = require('../models/MenteeProfile');
 const Issue = require('../models/Issue');
 const AcademicRecord = require('../models/AcademicRecord');
 const Achievement = require('../models/Achievement');
+const ReportJob = require('../models/ReportJob');
+const MenteeInviteLink = require('../models/MenteeInviteLink');
+const { sendStoredFile } = require('../utils/storage');
+const { reassignMentee, OPEN_ISSUE_STATUSES } = require('../utils/menteeAssignment');
+const { mapColumns, importMentees } = require('../utils/menteeImport');
+const { getInviteLinkToken } = require('../utils/menteeInviteLinks');
+const { parseCsv } = require('../utils/csv');
+const { getAcademicSummary } = require('../utils/academics');
+const { getMenteeReportData, sendMenteeReportPdf } = require('../utils/reports/menteeReport');
+const { startBatchReportJob } = require('../utils/reports/batchReport');
+const { excerpt, notifyIssueReporter } = require('../utils/notifications');
+const { publishIssueUpdate } = require('../utils/realtime');
+const { getMentorResolutionMetrics } = require('../utils/issueMetrics');
+const { getAtRiskMentees } = require('../utils/riskScoring');
+const { getCohortAnalytics } = require('../utils/cohortAnalytics');
 
 // @desc    Get all assigned mentees
 // @route   GET /api/mentor/mentees
@@ -24,10 +39,8 @@ exports.getMentees = async (req, res) => {
         // Get additional basic info for each mentee
         const menteesWithProfiles = await Promise.all(
             mentor.mentees.map(async (mentee) => {
-                let profile = null;
-                if (mentee.profileCompleted) {
-                    profile = await MenteeProfile.findOne({ user: mentee._id }).select('name registrationNo branch');
-                }
+                // Imported mentees have a prefilled profile before completing it
+                const profile = await MenteeProfile.findOne({ user: mentee._id }).select('name registrationNo branch');
 
                 return {
                     id: mentee._id,
@@ -170,18 +183,21 @@ exports.getMenteeAcademics = async (req, res) => {
                 data: {
                     mentee: mentee._id,
                     semesterGPA: [],
+                    subjects: [],
                     moocCourses: [],
                     certifications: [],
                     semesterMarksheets: [],
                     backlogs: 0
                 },
+                summary: getAcademicSummary(null),
                 message: 'Mentee has not added any academic records yet'
             });
         }
 
         return res.status(200).json({
             success: true,
-            data: academicRecord
+            data: academicRecord,
+            summary: getAcademicSummary(academicRecord)
         });
     } catch (error) {
         console.error("Error getting mentee academics:", error);
@@ -230,6 +246,185 @@ exports.getMenteeAchievements = async (req, res) => {
     }
 };
 
+// @desc    Download a PDF report of a specific mentee
+// @route   GET /api/mentor/mentees/:menteeId/report
+// @access  Private (Mentor only)
+exports.getMenteeReport = async (req, res) => {
+    try {
+        const mentor = await User.findById(req.user.id);
+
+        if (!mentor) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentor not found'
+            });
+        }
+
+        // Check if mentee is assigned to this mentor
+        if (!mentor.mentees || !mentor.mentees.includes(req.params.menteeId)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to access this mentee\'s report'
+            });
+        }
+
+        const reportData = await getMenteeReportData(req.params.menteeId);
+
+        if (!reportData) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentee not found'
+            });
+        }
+
+        sendMenteeReportPdf(res, reportData);
+    } catch (error) {
+        console.error("Error generating mentee report:", error);
+        // Headers are already sent once the PDF has started streaming
+        if (res.headersSent) {
+            return res.end();
+        }
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Helper function to shape a report job for the API
+ * @param {Object} job - ReportJob document
+ * @returns {Object} - Job status without storage details
+ */
+const formatReportJob = (job) => ({
+    id: job._id,
+    format: job.format,
+    status: job.status,
+    progress: job.progress,
+    fileName: job.fileName,
+    error: job.error,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt
+});
+
+// @desc    Start generating a consolidated report for all mentees
+// @route   POST /api/mentor/reports/batch
+// @access  Private (Mentor only)
+exports.startBatchReport = async (req, res) => {
+    try {
+        const { format } = req.body;
+
+        if (!['pdf', 'xlsx'].includes(format)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Format must be pdf or xlsx'
+            });
+        }
+
+        // One report at a time per mentor; each one reads every collection
+        const activeJob = await ReportJob.findOne({
+            mentor: req.user.id,
+            status: { $in: ['queued', 'running'] }
+        });
+
+        if (activeJob) {
+            return res.status(409).json({
+                success: false,
+                error: 'A report is already being generated',
+                data: formatReportJob(activeJob)
+            });
+        }
+
+        const job = await ReportJob.create({ mentor: req.user.id, format });
+        startBatchReportJob(job);
+
+        return res.status(202).json({
+            success: true,
+            data: formatReportJob(job)
+        });
+    } catch (error) {
+        console.error("Error starting batch report:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    List recent consolidated reports
+// @route   GET /api/mentor/reports/batch
+// @access  Private (Mentor only)
+exports.getBatchReports = async (req, res) => {
+    try {
+        const jobs = await ReportJob.find({ mentor: req.user.id })
+            .sort('-createdAt')
+            .limit(5);
+
+        return res.status(200).json({
+            success: true,
+            count: jobs.length,
+            data: jobs.map(formatReportJob)
+        });
+    } catch (error) {
+        console.error("Error getting batch reports:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Get the progress of a consolidated report
+// @route   GET /api/mentor/reports/batch/:jobId
+// @access  Private (Mentor only)
+exports.getBatchReport = async (req, res) => {
+    try {
+        const job = await ReportJob.findOne({ _id: req.params.jobId, mentor: req.user.id });
+
+        if (!job) {
+            return res.status(404).json({
+                success: false,
+                error: 'Report not found'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: formatReportJob(job)
+        });
+    } catch (error) {
+        console.error("Error getting batch report:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Download a finished consolidated report
+// @route   GET /api/mentor/reports/batch/:jobId/download
+// @access  Private (Mentor only)
+exports.downloadBatchReport = async (req, res) => {
+    try {
+        const job = await ReportJob.findOne({ _id: req.params.jobId, mentor: req.user.id });
+
+        if (!job || job.status !== 'completed') {
+            return res.status(404).json({
+                success: false,
+                error: 'Report not found or not ready yet'
+            });
+        }
+
+        await sendStoredFile(res, job);
+    } catch (error) {
+        console.error("Error downloading batch report:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
 // @desc    Get all issues reported by mentees
 // @route   GET /api/mentor/issues
 // @access  Private (Mentor only)
@@ -294,6 +489,10 @@ exports.getIssue = async (req, res) => {
             .populate({
                 path: 'comments.user',
                 select: 'email role'
+            })
+            .populate({
+                path: 'statusHistory.changedBy',
+                select: 'email name role'
             });
 
         if (!issue) {
@@ -303,8 +502,8 @@ exports.getIssue = async (req, res) => {
             });
         }
 
-        // Check if issue is assigned to this mentor
-        if (issue.mentor.toString() !== req.user.id.toString()) {
+        // Check if issue is assigned to this mentor; confidential issues have none
+        if (!issue.mentor || issue.mentor.toString() !== req.user.id.toString()) {
             return res.status(403).json({
                 success: false,
                 error: 'Not authorized to access this issue'
@@ -329,7 +528,7 @@ exports.getIssue = async (req, res) => {
 // @access  Private (Mentor only)
 exports.addComment = async (req, res) => {
     try {
-        const { text } = req.body;
+        const { text, reason } = req.body;
 
         if (!text) {
             return res.status(400).json({
@@ -338,6 +537,13 @@ exports.addComment = async (req, res) => {
             });
         }
 
+        if (reason !== undefined && typeof reason !== 'string') {
+            return res.status(400).json({
+                success: false,
+                error: 'Reason must be text'
+            });
+        }
+
         const issue = await Issue.findById(req.params.issueId);
 
         if (!issue) {
@@ -347,8 +553,8 @@ exports.addComment = async (req, res) => {
             });
         }
 
-        // Check if issue is assigned to this mentor
-        if (issue.mentor.toString() !== req.user.id.toString()) {
+        // Check if issue is assigned to this mentor; confidential issues have none
+        if (!issue.mentor || issue.mentor.toString() !== req.user.id.toString()) {
             return res.status(403).json({
                 success: false,
                 error: 'Not authorized to comment on this issue'
@@ -362,15 +568,42 @@ exports.addComment = async (req, res) => {
         });
 
         // Update issue status if provided
-        if (req.body.status && ['Open', 'Under Review', 'Resolved', 'Closed'].includes(req.body.status)) {
-            issue.status = req.body.status;
-        }
+        const statusChanged = Boolean(req.body.status) && Issue.ISSUE_STATUSES.includes(req.body.status)
+            && issue.changeStatus(req.body.status, req.user.id, reason);
 
         await issue.save();
 
+        await publishIssueUpdate(issue, statusChanged ? 'status' : 'comment');
+        await notifyIssueReporter(issue, statusChanged
+            ? {
+                type: 'issue_status',
+                title: `Your ${issue.issueType} issue is now ${issue.status}`,
+                message: excerpt(text)
+            }
+            : {
+                type: 'issue_comment',
+                title: `Your mentor replied to your ${issue.issueType} issue`,
+                message: excerpt(text)
+            });
+
+        // Return the issue as GET does, with its users populated
+        const updatedIssue = await Issue.findById(issue._id)
+            .populate({
+                path: 'mentee',
+                select: 'email'
+            })
+            .populate({
+                path: 'comments.user',
+                select: 'email role'
+            })
+            .populate({
+                path: 'statusHistory.changedBy',
+                select: 'email name role'
+            });
+
         return res.status(200).json({
             success: true,
-            data: issue
+            data: updatedIssue
         });
     } catch (error) {
         console.error("Error adding comment:", error);
@@ -464,13 +697,13 @@ exports.getDashboard = async (req, res) => {
         // Count pending issues
         const pendingIssues = await Issue.countDocuments({
             mentor: mentorId,
-            status: { $ne: "Resolved" },
+            status: { $in: OPEN_ISSUE_STATUSES },
         });
 
         // Get recent issues (limited to 5)
         const recentIssues = await Issue.find({
             mentor: mentorId,
-            status: { $ne: "Resolved" }
+            status: { $in: OPEN_ISSUE_STATUSES }
         })
             .sort({ createdAt: -1 })
             .limit(5)
@@ -479,11 +712,18 @@ exports.getDashboard = async (req, res) => {
                 select: 'email'
             });
 
+        const resolutionQuality = await getMentorResolutionMetrics(mentor._id);
+
+        // Mentees flagged by the risk rules in config/risk.js
+        const atRiskMentees = await getAtRiskMentees(mentor.mentees || []);
+
         // Prepare the response
         const response = {
             totalMentees,
             pendingIssues,
-            recentIssues
+            recentIssues,
+            resolutionQuality,
+            atRiskMentees
         };
 
         return res.status(200).json({
@@ -500,6 +740,40 @@ exports.getDashboard = async (req, res) => {
     }
 };
 
+// @desc    Get analytics across all assigned mentees, optionally narrowed by branch and section
+// @route   GET /api/mentor/analytics?branch=&section=
+// @access  Private (Mentor only)
+exports.getAnalytics = async (req, res) => {
+    try {
+        const mentor = await User.findById(req.user.id);
+
+        if (!mentor) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentor not found'
+            });
+        }
+
+        const filters = {
+            branch: typeof req.query.branch === 'string' ? req.query.branch.trim() : undefined,
+            section: typeof req.query.section === 'string' ? req.query.section.trim() : undefined
+        };
+
+        const analytics = await getCohortAnalytics(mentor, filters);
+
+        return res.status(200).json({
+            success: true,
+            data: analytics
+        });
+    } catch (error) {
+        console.error("Error getting cohort analytics:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
 // @desc    Assign mentee to mentor by email
 // @route   POST /api/mentor/mentees/assign
 // @access  Private (Mentor only)
@@ -524,15 +798,346 @@ exports.assignMentee = async (req, res) => {
             });
         }
 
-        // Check if mentee is already assigned to any mentor
+        // Mentees with a mentor have to be handed over through a transfer
         if (mentee.assignedMentor) {
             return res.status(400).json({
                 success: false,
-                error: 'Mentee is already assigned to a mentor'
+                error: mentee.assignedMentor.equals(req.user.id)
+                    ? 'Mentee is already assigned to you'
+                    : 'Mentee is already assigned to a mentor. Ask their mentor to transfer them to you.'
+            });
+        }
+
+        const mentor = await User.findById(req.user.id);
+
+        if (!mentor) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentor not found'
+            });
+        }
+
+        await reassignMentee(mentee, mentor, { assignedBy: mentor._id });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: mentee._id,
+                email: mentee.email,
+                name: mentee.name,
+                profileCompleted: mentee.profileCompleted
+            }
+        });
+    } catch (error) {
+        console.error("Error assigning mentee:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// Largest batch accepted in one CSV import
+const MAX_IMPORT_ROWS = 200;
+
+// @desc    Import mentees from a CSV file
+// @route   POST /api/mentor/mentees/import
+// @access  Private (Mentor only)
+exports.importMentees = async (req, res) => {
+    try {
+        const rows = parseCsv(req.file.buffer.toString('utf8'));
+
+        if (rows.length < 2) {
+            return res.status(400).json({
+                success: false,
+                error: 'The file has no mentee rows'
+            });
+        }
+
+        if (mapColumns(rows[0]).email === undefined) {
+            return res.status(400).json({
+                success: false,
+                error: 'The first row must be a header with an "email" column'
+            });
+        }
+
+        if (rows.length - 1 > MAX_IMPORT_ROWS) {
+            return res.status(400).json({
+                success: false,
+                error: `A single import can contain at most ${MAX_IMPORT_ROWS} mentees`
+            });
+        }
+
+        const mentor = await User.findById(req.user.id);
+        const results = await importMentees(mentor, rows);
+
+        const summary = { created: 0, assigned: 0, skipped: 0, failed: 0 };
+        results.forEach((result) => {
+            summary[result.status] += 1;
+        });
+
+        return res.status(200).json({
+            success: true,
+            summary,
+            data: results
+        });
+    } catch (error) {
+        console.error("Error importing mentees:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// Invite links last a week and cover a typical class unless set otherwise
+const DEFAULT_LINK_TTL_DAYS = 7;
+const MAX_LINK_TTL_DAYS = 90;
+const DEFAULT_LINK_USES = 30;
+const MAX_LINK_USES = 500;
+
+/**
+ * Helper function to shape an invite link for its mentor
+ * @param {Object} inviteLink - Invite link document, redemptions populated
+ * @returns {Object}
+ */
+const inviteLinkDetails = (inviteLink) => ({
+    id: inviteLink._id,
+    token: getInviteLinkToken(inviteLink),
+    label: inviteLink.label,
+    section: inviteLink.section,
+    branch: inviteLink.branch,
+    expiresAt: inviteLink.expiresAt,
+    maxUses: inviteLink.maxUses,
+    uses: inviteLink.uses,
+    revokedAt: inviteLink.revokedAt,
+    usable: inviteLink.isUsable(),
+    redemptions: inviteLink.redemptions.map((redemption) => ({
+        redeemedAt: redemption.redeemedAt,
+        mentee: redemption.mentee && redemption.mentee.email
+            ? { id: redemption.mentee._id, email: redemption.mentee.email, name: redemption.mentee.name }
+            : null
+    })),
+    createdAt: inviteLink.createdAt
+});
+
+// @desc    List the current mentor's invite links and who registered with them
+// @route   GET /api/mentor/invite-links
+// @access  Private (Mentor only)
+exports.getInviteLinks = async (req, res) => {
+    try {
+        const inviteLinks = await MenteeInviteLink.find({ mentor: req.user.id })
+            .sort('-createdAt')
+            .limit(100)
+            .populate({ path: 'redemptions.mentee', select: 'email name' });
+
+        return res.status(200).json({
+            success: true,
+            count: inviteLinks.length,
+            data: inviteLinks.map(inviteLinkDetails)
+        });
+    } catch (error) {
+        console.error("Error listing invite links:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Create an invite link that registers mentees straight into the
+//          current mentor's group
+// @route   POST /api/mentor/invite-links
+// @access  Private (Mentor only)
+exports.createInviteLink = async (req, res) => {
+    try {
+        const expiresInDays = req.body.expiresInDays === undefined ? DEFAULT_LINK_TTL_DAYS : Number(req.body.expiresInDays);
+        const maxUses = req.body.maxUses === undefined ? DEFAULT_LINK_USES : Number(req.body.maxUses);
+
+        if (!Number.isFinite(expiresInDays) || expiresInDays <= 0 || expiresInDays > MAX_LINK_TTL_DAYS) {
+            return res.status(400).json({
+                success: false,
+                error: `expiresInDays must be between 1 and ${MAX_LINK_TTL_DAYS}`
             });
         }
 
-        // Update mentor's mentees array
+        if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_LINK_USES) {
+            return res.status(400).json({
+                success: false,
+                error: `maxUses must be a whole number between 1 and ${MAX_LINK_USES}`
+            });
+        }
+
+        const inviteLink = await MenteeInviteLink.create({
+            mentor: req.user.id,
+            label: req.body.label,
+            section: req.body.section || undefined,
+            branch: req.body.branch || undefined,
+            expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+            maxUses
+        });
+
+        return res.status(201).json({
+            success: true,
+            data: inviteLinkDetails(inviteLink)
+        });
+    } catch (error) {
+        console.error("Error creating invite link:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Revoke one of the current mentor's invite links
+// @route   DELETE /api/mentor/invite-links/:linkId
+// @access  Private (Mentor only)
+exports.revokeInviteLink = async (req, res) => {
+    try {
+        const inviteLink = await MenteeInviteLink.findOne({
+            _id: req.params.linkId,
+            mentor: req.user.id
+        }).populate({ path: 'redemptions.mentee', select: 'email name' });
+
+        if (!inviteLink) {
+            return res.status(404).json({
+                success: false,
+                error: 'Invite link not found'
+            });
+        }
+
+        if (!inviteLink.revokedAt) {
+            inviteLink.revokedAt = new Date();
+            await inviteLink.save();
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: inviteLinkDetails(inviteLink)
+        });
+    } catch (error) {
+        console.error("Error revoking invite link:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Remove a mentee from the current mentor
+// @route   DELETE /api/mentor/mentees/:menteeId
+// @access  Private (Mentor only)
+exports.unassignMentee = async (req, res) => {
+    try {
+        const mentee = await User.findOne({ _id: req.params.menteeId, role: 'mentee' });
+
+        if (!mentee) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentee not found'
+            });
+        }
+
+        if (!mentee.assignedMentor || !mentee.assignedMentor.equals(req.user.id)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to unassign this mentee'
+            });
+        }
+
+        await reassignMentee(mentee, null, { assignedBy: req.user.id });
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                id: mentee._id,
+                email: mentee.email
+            }
+        });
+    } catch (error) {
+        console.error("Error unassigning mentee:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Create an issue on behalf of a mentee
+// @route   POST /api/mentor/issues
+// @access  Private (Mentor only)
+exports.createIssue = async (req, res) => {
+    try {
+        const { menteeId, issueType, description } = req.body;
+
+        if (!menteeId || !issueType || !description) {
+            return res.status(400).json({
+                success: false,
+                error: 'Mentee, issue type and description are required'
+            });
+        }
+
+        // These are filed by the mentee, who decides what the committee learns
+        if (Issue.CONFIDENTIAL_ISSUE_TYPES.includes(issueType)) {
+            return res.status(400).json({
+                success: false,
+                error: `${issueType} issues are reported confidentially to the anti-ragging committee by the mentee`
+            });
+        }
+
+        const mentor = await User.findById(req.user.id);
+
+        if (!mentor) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentor not found'
+            });
+        }
+
+        // Check if mentee is assigned to this mentor
+        if (!mentor.mentees || !mentor.mentees.includes(menteeId)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to create issues for this mentee'
+            });
+        }
+
+        const issue = await Issue.create({
+            mentee: menteeId,
+            mentor: mentor._id,
+            issueType,
+            description,
+            statusHistory: [{ to: 'Open', changedBy: mentor._id }],
+            // The mentor raised it, so there is no first response to wait for
+            sla: { respondedAt: new Date() }
+        });
+
+        await publishIssueUpdate(issue, 'created');
+        await notifyIssueReporter(issue, {
+            type: 'issue_created',
+            title: `Your mentor opened a ${issue.issueType} issue for you`,
+            message: excerpt(description)
+        });
+
+        return res.status(201).json({
+            success: true,
+            data: issue
+        });
+    } catch (error) {
+        console.error("Error creating issue:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Download a semester marksheet of a specific mentee
+// @route   GET /api/mentor/mentees/:menteeId/marksheets/:semester
+// @access  Private (Mentor only)
+exports.getMenteeMarksheet = async (req, res) => {
+    try {
         const mentor = await User.findById(req.user.id);
 
         if (!mentor) {
@@ -542,23 +1147,111 @@ exports.assignMentee = async (req, res) => {
             });
         }
 
-        // Check if mentee is already in mentor's list
-        if (mentor.mentees && mentor.mentees.includes(mentee._id)) {
+        // Check if mentee is assigned to this mentor
+        if (!mentor.mentees || !mentor.mentees.includes(req.params.menteeId)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to access this mentee\'s academic records'
+            });
+        }
+
+        const semester = parseInt(req.params.semester, 10);
+        const academicRecord = await AcademicRecord.findOne({ mentee: req.params.menteeId });
+        const marksheet = academicRecord?.semesterMarksheets.find((m) => m.semester === semester);
+
+        if (!marksheet) {
+            return res.status(404).json({
+                success: false,
+                error: 'Marksheet not found'
+            });
+        }
+
+        await sendStoredFile(res, marksheet);
+    } catch (error) {
+        console.error("Error getting mentee marksheet:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Verify or reject a single academic entry of a mentee
+// @route   PATCH /api/mentor/mentees/:menteeId/academics/:entryType/:entryId/verification
+// @access  Private (Mentor only)
+exports.verifyAcademicEntry = async (req, res) => {
+    try {
+        const { menteeId, entryType, entryId } = req.params;
+        const { status, reason } = req.body;
+
+        if (!AcademicRecord.VERIFIABLE_ENTRIES.includes(entryType)) {
+            return res.status(400).json({
+                success: false,
+                error: `Entry type must be one of: ${AcademicRecord.VERIFIABLE_ENTRIES.join(', ')}`
+            });
+        }
+
+        if (!['verified', 'rejected', 'pending'].includes(status)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Status must be verified, rejected or pending'
+            });
+        }
+
+        if (status === 'rejected' && (typeof reason !== 'string' || !reason.trim())) {
             return res.status(400).json({
                 success: false,
-                error: 'Mentee is already assigned to you'
+                error: 'A reason is required when rejecting an entry'
+            });
+        }
+
+        const mentor = await User.findById(req.user.id);
+
+        if (!mentor) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentor not found'
             });
         }
 
-        // Add mentee to mentor's list
-        if (!mentor.mentees) {
-            mentor.mentees = [];
+        // Check if mentee is assigned to this mentor
+        if (!mentor.mentees || !mentor.mentees.includes(menteeId)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to access this mentee\'s academic records'
+            });
+        }
+
+        const academicRecord = await AcademicRecord.findOne({ mentee: menteeId });
+        const entry = academicRecord?.[entryType].id(entryId);
+
+        if (!entry) {
+            return res.status(404).json({
+                success: false,
+                error: 'Academic entry not found'
+            });
         }
-        mentor.mentees.push(mentee._id);
-        await mentor.save();
 
-        // Update mentee's assignedMentor field
-        mentee.assignedMentor = mentor._id;
-        await mentee.save();
+        entry.verification = status === 'pending'
+            ? {}
+            : {
+                status,
+                reviewedBy: mentor._id,
+                reviewedAt: new Date(),
+                reason: status === 'rejected' ? reason.trim() : undefined
+            };
+
+        await academicRecord.save();
 
- 
+        return res.status(200).json({
+            success: true,
+            data: academicRecord
+        });
+    } catch (error) {
+        console.error("Error verifying academic entry:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
@@ -0,0 +1,106 @@
+const mongoose = require('mongoose');
+const Notification = require('../models/Notification');
+
+// Most notifications returned in one request
+const MAX_LIMIT = 50;
+
+// @desc    Get the current user's notifications, newest first
+// @route   GET /api/notifications
+// @access  Private
+exports.getNotifications = async (req, res) => {
+    try {
+        const limit = Math.min(Number(req.query.limit) || 20, MAX_LIMIT);
+        const query = { recipient: req.user.id };
+
+        if (req.query.unread === 'true') {
+            query.readAt = null;
+        }
+
+        const [notifications, unreadCount] = await Promise.all([
+            Notification.find(query)
+                .sort('-createdAt')
+                .limit(limit),
+            Notification.countDocuments({ recipient: req.user.id, readAt: null })
+        ]);
+
+        return res.status(200).json({
+            success: true,
+            count: notifications.length,
+            unreadCount,
+            data: notifications
+        });
+    } catch (error) {
+        console.error("Error getting notifications:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Mark notifications as read: the given ids, or all of them
+// @route   PATCH /api/notifications
+// @access  Private
+exports.markAsRead = async (req, res) => {
+    try {
+        const query = { recipient: req.user.id, readAt: null };
+
+        if (Array.isArray(req.body.ids)) {
+            if (!req.body.ids.every((id) => mongoose.isValidObjectId(id))) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Invalid notification ID'
+                });
+            }
+            query._id = { $in: req.body.ids };
+        }
+
+        const result = await Notification.updateMany(query, { readAt: new Date() });
+        const unreadCount = await Notification.countDocuments({ recipient: req.user.id, readAt: null });
+
+        return res.status(200).json({
+            success: true,
+            updated: result.modifiedCount,
+            unreadCount
+        });
+    } catch (error) {
+        console.error("Error marking notifications as read:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Mark a single notification as read or unread
+// @route   PATCH /api/notifications/:notificationId
+// @access  Private
+exports.updateNotification = async (req, res) => {
+    try {
+        const notification = await Notification.findOne({
+            _id: req.params.notificationId,
+            recipient: req.user.id
+        });
+
+        if (!notification) {
+            return res.status(404).json({
+                success: false,
+                error: 'Notification not found'
+            });
+        }
+
+        notification.readAt = req.body.read === false ? undefined : (notification.readAt || new Date());
+        await notification.save();
+
+        return res.status(200).json({
+            success: true,
+            data: notification
+        });
+    } catch (error) {
+        console.error("Error updating notification:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
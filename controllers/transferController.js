@@ -0,0 +1,365 @@
+const User = require('../models/User');
+const MenteeTransfer = require('../models/MenteeTransfer');
+const { reassignMentee } = require('../utils/menteeAssignment');
+const { notify } = require('../utils/notifications');
+
+const USER_FIELDS = 'email name';
+
+/**
+ * Helper function to shape a populated transfer for the API
+ * @param {Object} transfer - Populated MenteeTransfer document
+ * @param {string} userId - ID of the requesting user
+ * @returns {Object} - Transfer summary
+ */
+const formatTransfer = (transfer, userId) => {
+    const formatUser = (user) => user
+        ? { id: user._id, email: user.email, name: user.name }
+        : null;
+
+    let direction = null;
+    if (transfer.toMentor && transfer.toMentor._id.toString() === userId) {
+        direction = 'incoming';
+    } else if (transfer.fromMentor && transfer.fromMentor._id.toString() === userId) {
+        direction = 'outgoing';
+    }
+
+    return {
+        id: transfer._id,
+        mentee: formatUser(transfer.mentee),
+        fromMentor: formatUser(transfer.fromMentor),
+        toMentor: formatUser(transfer.toMentor),
+        initiatedBy: formatUser(transfer.initiatedBy),
+        status: transfer.status,
+        note: transfer.note,
+        direction,
+        createdAt: transfer.createdAt,
+        respondedAt: transfer.respondedAt
+    };
+};
+
+/**
+ * Helper function to load a transfer with its users populated
+ * @param {string} transferId - MenteeTransfer ID
+ * @returns {Promise<Object|null>} - Populated transfer
+ */
+const findTransfer = (transferId) => MenteeTransfer.findById(transferId)
+    .populate('mentee', USER_FIELDS)
+    .populate('fromMentor', USER_FIELDS)
+    .populate('toMentor', USER_FIELDS)
+    .populate('initiatedBy', USER_FIELDS);
+
+// @desc    List transfers involving the current user (all transfers for admins)
+// @route   GET /api/transfers
+// @access  Private (Mentor, Admin)
+exports.getTransfers = async (req, res) => {
+    try {
+        const query = {};
+
+        if (req.user.role === 'mentor') {
+            query.$or = [{ fromMentor: req.user.id }, { toMentor: req.user.id }];
+        }
+
+        if (req.query.status) {
+            if (!MenteeTransfer.schema.path('status').enumValues.includes(req.query.status)) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Invalid transfer status'
+                });
+            }
+            query.status = req.query.status;
+        }
+
+        const transfers = await MenteeTransfer.find(query)
+            .sort('-createdAt')
+            .limit(100)
+            .populate('mentee', USER_FIELDS)
+            .populate('fromMentor', USER_FIELDS)
+            .populate('toMentor', USER_FIELDS)
+            .populate('initiatedBy', USER_FIELDS);
+
+        return res.status(200).json({
+            success: true,
+            count: transfers.length,
+            data: transfers.map((transfer) => formatTransfer(transfer, req.user.id.toString()))
+        });
+    } catch (error) {
+        console.error("Error getting transfers:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Propose handing a mentee over to another mentor
+// @route   POST /api/transfers
+// @access  Private (Mentor, Admin)
+exports.createTransfer = async (req, res) => {
+    try {
+        const { menteeId, toMentorEmail, note } = req.body;
+
+        if (!menteeId || typeof toMentorEmail !== 'string' || !toMentorEmail.trim()) {
+            return res.status(400).json({
+                success: false,
+                error: 'Mentee and receiving mentor email are required'
+            });
+        }
+
+        const mentee = await User.findOne({ _id: menteeId, role: 'mentee' });
+
+        if (!mentee) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentee not found'
+            });
+        }
+
+        if (!mentee.assignedMentor) {
+            return res.status(400).json({
+                success: false,
+                error: 'Mentee has no mentor to transfer from'
+            });
+        }
+
+        // Mentors may only hand over their own mentees
+        if (req.user.role === 'mentor' && !mentee.assignedMentor.equals(req.user.id)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to transfer this mentee'
+            });
+        }
+
+        const toMentor = await User.findOne({
+            email: toMentorEmail.toLowerCase().trim(),
+            role: 'mentor'
+        });
+
+        if (!toMentor || toMentor.isActive === false || !toMentor.isApprovedMentor()) {
+            return res.status(404).json({
+                success: false,
+                error: 'No active mentor found with this email'
+            });
+        }
+
+        if (toMentor._id.equals(mentee.assignedMentor)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Mentee is already assigned to this mentor'
+            });
+        }
+
+        const pending = await MenteeTransfer.exists({ mentee: mentee._id, status: 'pending' });
+
+        if (pending) {
+            return res.status(400).json({
+                success: false,
+                error: 'A transfer for this mentee is already awaiting a response'
+            });
+        }
+
+        const transfer = await MenteeTransfer.create({
+            mentee: mentee._id,
+            fromMentor: mentee.assignedMentor,
+            toMentor: toMentor._id,
+            initiatedBy: req.user.id,
+            note
+        });
+
+        const populated = await findTransfer(transfer._id);
+
+        await notify(toMentor._id, {
+            type: 'transfer_requested',
+            title: 'Mentee transfer awaiting your response',
+            message: `${populated.fromMentor.name || populated.fromMentor.email} wants to hand over `
+                + `${populated.mentee.name || populated.mentee.email}`,
+            link: '/mentor/mentees'
+        });
+
+        return res.status(201).json({
+            success: true,
+            data: formatTransfer(populated, req.user.id.toString())
+        });
+    } catch (error) {
+        console.error("Error creating transfer:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Accept or decline an incoming transfer
+// @route   PATCH /api/transfers/:transferId/respond
+// @access  Private (receiving Mentor)
+exports.respondToTransfer = async (req, res) => {
+    try {
+        const { accept } = req.body;
+
+        if (typeof accept !== 'boolean') {
+            return res.status(400).json({
+                success: false,
+                error: 'accept must be true or false'
+            });
+        }
+
+        const transfer = await MenteeTransfer.findById(req.params.transferId);
+
+        if (!transfer) {
+            return res.status(404).json({
+                success: false,
+                error: 'Transfer not found'
+            });
+        }
+
+        if (!transfer.toMentor.equals(req.user.id)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Only the receiving mentor can respond to this transfer'
+            });
+        }
+
+        if (transfer.status !== 'pending') {
+            return res.status(400).json({
+                success: false,
+                error: `Transfer has already been ${transfer.status}`
+            });
+        }
+
+        transfer.respondedAt = new Date();
+
+        if (!accept) {
+            transfer.status = 'declined';
+            await transfer.save();
+        } else {
+            const mentee = await User.findById(transfer.mentee);
+
+            // The mentee was moved some other way while the request was open
+            if (!mentee || !mentee.assignedMentor || !mentee.assignedMentor.equals(transfer.fromMentor)) {
+                transfer.status = 'cancelled';
+                await transfer.save();
+
+                return res.status(409).json({
+                    success: false,
+                    error: 'Mentee is no longer assigned to the requesting mentor'
+                });
+            }
+
+            transfer.status = 'accepted';
+            await transfer.save();
+
+            const mentor = await User.findById(req.user.id);
+            await reassignMentee(mentee, mentor, {
+                assignedBy: transfer.initiatedBy,
+                transfer: transfer._id
+            });
+        }
+
+        const populated = await findTransfer(transfer._id);
+
+        return res.status(200).json({
+            success: true,
+            data: formatTransfer(populated, req.user.id.toString())
+        });
+    } catch (error) {
+        console.error("Error responding to transfer:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Withdraw a pending transfer
+// @route   PATCH /api/transfers/:transferId/cancel
+// @access  Private (sending Mentor, Admin)
+exports.cancelTransfer = async (req, res) => {
+    try {
+        const transfer = await MenteeTransfer.findById(req.params.transferId);
+
+        if (!transfer) {
+            return res.status(404).json({
+                success: false,
+                error: 'Transfer not found'
+            });
+        }
+
+        if (req.user.role !== 'admin' && !transfer.fromMentor.equals(req.user.id)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to cancel this transfer'
+            });
+        }
+
+        if (transfer.status !== 'pending') {
+            return res.status(400).json({
+                success: false,
+                error: `Transfer has already been ${transfer.status}`
+            });
+        }
+
+        transfer.status = 'cancelled';
+        transfer.respondedAt = new Date();
+        await transfer.save();
+
+        const populated = await findTransfer(transfer._id);
+
+        return res.status(200).json({
+            success: true,
+            data: formatTransfer(populated, req.user.id.toString())
+        });
+    } catch (error) {
+        console.error("Error cancelling transfer:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
+
+// @desc    Get the mentor assignment history of a mentee
+// @route   GET /api/transfers/history/:menteeId
+// @access  Private (current Mentor, Admin)
+exports.getMentorHistory = async (req, res) => {
+    try {
+        const mentee = await User.findOne({ _id: req.params.menteeId, role: 'mentee' })
+            .populate('mentorHistory.mentor', USER_FIELDS)
+            .populate('mentorHistory.assignedBy', USER_FIELDS);
+
+        if (!mentee) {
+            return res.status(404).json({
+                success: false,
+                error: 'Mentee not found'
+            });
+        }
+
+        if (req.user.role === 'mentor' && (!mentee.assignedMentor || !mentee.assignedMentor.equals(req.user.id))) {
+            return res.status(403).json({
+                success: false,
+                error: 'Not authorized to access this mentee\'s history'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: mentee.mentorHistory
+                .map((entry) => ({
+                    mentor: entry.mentor
+                        ? { id: entry.mentor._id, email: entry.mentor.email, name: entry.mentor.name }
+                        : null,
+                    assignedBy: entry.assignedBy
+                        ? { id: entry.assignedBy._id, email: entry.assignedBy.email, name: entry.assignedBy.name }
+                        : null,
+                    assignedAt: entry.assignedAt,
+                    unassignedAt: entry.unassignedAt,
+                    viaTransfer: Boolean(entry.transfer)
+                }))
+                .reverse()
+        });
+    } catch (error) {
+        console.error("Error getting mentor history:", error);
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+};
@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const Session = require('../models/Session');
 
 // Middleware to protect routes
 exports.protect = async (req, res, next) => {
@@ -32,11 +33,39 @@ exports.protect = async (req, res, next) => {
             });
         }
 
+        if (user.isActive === false) {
+            return res.status(403).json({
+                success: false,
+                error: 'This account has been deactivated'
+            });
+        }
+
+        // A password reset signs out every existing session
+        if (user.passwordChangedAt && Math.floor(user.passwordChangedAt.getTime() / 1000) > decoded.iat) {
+            return res.status(401).json({
+                success: false,
+                error: 'Your password was changed; please log in again'
+            });
+        }
+
+        // Access tokens are tied to a session so signing out revokes them
+        // before they expire
+        const session = decoded.sid && await Session.findById(decoded.sid).select('user expiresAt revokedAt');
+
+        if (!session || !session.isActive() || !session.user.equals(user._id)) {
+            return res.status(401).json({
+                success: false,
+                error: 'Your session has expired; please log in again'
+            });
+        }
+
         // Add user to request object
         req.user = {
             id: user._id,
             _id: user._id,
-            role: user.role
+            role: user.role,
+            sessionId: session._id,
+            approvedMentor: user.isApprovedMentor()
         };
 
         next();
@@ -48,6 +77,15 @@ exports.protect = async (req, res, next) => {
     }
 };
 
+// Accept the JWT as ?token= for clients that can't set headers, such as
+// EventSource. Only use on routes where a token in the URL is acceptable.
+exports.allowQueryToken = (req, res, next) => {
+    if (!req.headers.authorization && typeof req.query.token === 'string') {
+        req.headers.authorization = `Bearer ${req.query.token}`;
+    }
+    next();
+};
+
 // Middleware to restrict access by role
 exports.authorize = (...roles) => {
     return (req, res, next) => {
@@ -57,6 +95,14 @@ exports.authorize = (...roles) => {
                 error: `User role ${req.user.role} is not authorized to access this route`
             });
         }
+
+        if (req.user.role === 'mentor' && !req.user.approvedMentor) {
+            return res.status(403).json({
+                success: false,
+                code: 'MENTOR_NOT_APPROVED',
+                error: 'Your mentor account is awaiting approval by an administrator'
+            });
+        }
         next();
     };
 };
@@ -69,6 +115,15 @@ exports.isMentor = (req, res, next) => {
             error: 'Only mentors can access this route'
         });
     }
+
+    // Mentors who registered without an invite code wait for an administrator
+    if (!req.user.approvedMentor) {
+        return res.status(403).json({
+            success: false,
+            code: 'MENTOR_NOT_APPROVED',
+            error: 'Your mentor account is awaiting approval by an administrator'
+        });
+    }
     next();
 };
 
@@ -81,4 +136,26 @@ exports.isMentee = (req, res, next) => {
         });
     }
     next();
+};
+
+// Middleware specifically for administrators
+exports.isAdmin = (req, res, next) => {
+    if (req.user.role !== 'admin') {
+        return res.status(403).json({
+            success: false,
+            error: 'Only administrators can access this route'
+        });
+    }
+    next();
+};
+
+// Middleware specifically for anti-ragging committee members
+exports.isCommittee = (req, res, next) => {
+    if (req.user.role !== 'committee') {
+        return res.status(403).json({
+            success: false,
+            error: 'Only committee members can access this route'
+        });
+    }
+    next();
 }; 
\ No newline at end of file
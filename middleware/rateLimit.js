@@ -0,0 +1,34 @@
+const logger = require('../utils/logger');
+const { getRateLimitStore, sendTooManyRequests } = require('../utils/rateLimit');
+
+/**
+ * Limit how often a client can call a route
+ * @param {Object} options - Limiter options
+ * @param {string} options.name - Counter name, so routes are limited separately
+ * @param {number} options.max - Requests allowed per window
+ * @param {number} options.windowMs - Window length
+ * @param {Function} [options.key] - Who is counted; the client IP by default
+ * @param {string} [options.message] - Error shown when the limit is hit
+ * @returns {Function} - Express middleware
+ */
+exports.rateLimit = ({
+    name,
+    max,
+    windowMs,
+    key = (req) => req.ip,
+    message = 'Too many requests. Please try again later.'
+}) => async (req, res, next) => {
+    try {
+        const { count, resetAt } = await getRateLimitStore().increment(`${name}:${key(req)}`, windowMs);
+
+        if (count > max) {
+            logger.warn(`Rate limit "${name}" hit by ${req.ip}`);
+            return sendTooManyRequests(res, resetAt, { code: 'RATE_LIMITED', error: message });
+        }
+    } catch (error) {
+        // Don't lock everyone out because the store is unavailable
+        logger.error(error, `Rate limit store failed for "${name}"`);
+    }
+
+    next();
+};
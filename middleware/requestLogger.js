@@ -14,7 +14,7 @@ const requestLogger = (req, res, next) => {
     // Log when the request is received
     if (req.originalUrl !== '/api/health') {
         // Don't log health checks to avoid spamming logs
-        logger.info(`Request received: ${req.method} ${req.originalUrl}`);
+        logger.info(`Request received: ${req.method} ${logger.redactUrl(req.originalUrl)}`);
     }
 
     // Once the request is complete
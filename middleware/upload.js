@@ -0,0 +1,130 @@
+const multer = require('multer');
+
+// Maximum upload size in bytes (defaults to 5MB)
+const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE) || 5 * 1024 * 1024;
+
+// Accepted marksheet formats and the leading bytes each format must start with
+const MARKSHEET_TYPES = {
+    'image/jpeg': { extension: 'jpg', signatures: [[0xFF, 0xD8, 0xFF]] },
+    'image/png': { extension: 'png', signatures: [[0x89, 0x50, 0x4E, 0x47]] },
+    'image/gif': { extension: 'gif', signatures: [[0x47, 0x49, 0x46, 0x38]] },
+    'image/webp': { extension: 'webp', signatures: [[0x52, 0x49, 0x46, 0x46]] },
+    'application/pdf': { extension: 'pdf', signatures: [[0x25, 0x50, 0x44, 0x46]] }
+};
+
+/**
+ * Check that a buffer starts with one of the signatures of the declared type
+ * @param {Buffer} buffer - File contents
+ * @param {string} mimeType - Declared MIME type
+ * @returns {boolean} - True if the contents match the declared type
+ */
+const matchesSignature = (buffer, mimeType) => {
+    const type = MARKSHEET_TYPES[mimeType];
+    if (!type || !buffer) return false;
+
+    return type.signatures.some((signature) =>
+        signature.every((byte, index) => buffer[index] === byte)
+    );
+};
+
+const marksheetMulter = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MAX_UPLOAD_SIZE,
+        files: 1
+    },
+    fileFilter: (req, file, cb) => {
+        if (!MARKSHEET_TYPES[file.mimetype]) {
+            return cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+        }
+        cb(null, true);
+    }
+});
+
+// Middleware to accept a single marksheet file in the "file" field
+exports.marksheetUpload = (req, res, next) => {
+    marksheetMulter.single('file')(req, res, (err) => {
+        if (err instanceof multer.MulterError) {
+            const error = err.code === 'LIMIT_FILE_SIZE'
+                ? `File is too large. Maximum size is ${Math.round(MAX_UPLOAD_SIZE / (1024 * 1024))}MB`
+                : 'Only image files (JPEG, PNG, GIF, WebP) and PDF documents are supported';
+
+            return res.status(400).json({
+                success: false,
+                error
+            });
+        }
+
+        if (err) {
+            return next(err);
+        }
+
+        if (!req.file) {
+            return res.status(400).json({
+                success: false,
+                error: 'Please attach a marksheet file'
+            });
+        }
+
+        // Don't trust the declared type alone, check the file contents too
+        if (!matchesSignature(req.file.buffer, req.file.mimetype)) {
+            return res.status(400).json({
+                success: false,
+                error: 'File contents do not match its type'
+            });
+        }
+
+        req.file.extension = MARKSHEET_TYPES[req.file.mimetype].extension;
+        next();
+    });
+};
+
+// Browsers report CSV files under several types depending on the OS
+const CSV_MIME_TYPES = ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'];
+const MAX_CSV_SIZE = 1024 * 1024;
+
+const csvMulter = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MAX_CSV_SIZE,
+        files: 1
+    },
+    fileFilter: (req, file, cb) => {
+        if (!CSV_MIME_TYPES.includes(file.mimetype) || !/\.csv$/i.test(file.originalname)) {
+            return cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+        }
+        cb(null, true);
+    }
+});
+
+// Middleware to accept a single CSV file in the "file" field
+exports.csvUpload = (req, res, next) => {
+    csvMulter.single('file')(req, res, (err) => {
+        if (err instanceof multer.MulterError) {
+            const error = err.code === 'LIMIT_FILE_SIZE'
+                ? 'File is too large. Maximum size is 1MB'
+                : 'Only .csv files are supported';
+
+            return res.status(400).json({
+                success: false,
+                error
+            });
+        }
+
+        if (err) {
+            return next(err);
+        }
+
+        // A NUL byte means a binary file (e.g. .xlsx) renamed to .csv
+        if (!req.file || req.file.buffer.includes(0)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Please attach a CSV file'
+            });
+        }
+
+        next();
+    });
+};
+
+exports.MAX_UPLOAD_SIZE = MAX_UPLOAD_SIZE;
@@ -1,5 +1,27 @@
 const mongoose = require('mongoose');
 
+// Mentor review state of a single academic entry
+const VerificationSchema = new mongoose.Schema({
+    status: {
+        type: String,
+        enum: ['pending', 'verified', 'rejected'],
+        default: 'pending'
+    },
+    reviewedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    reviewedAt: Date,
+    reason: String
+}, {
+    _id: false
+});
+
+const verificationField = {
+    type: VerificationSchema,
+    default: () => ({})
+};
+
 const AcademicRecordSchema = new mongoose.Schema({
     mentee: {
         type: mongoose.Schema.Types.ObjectId,
@@ -14,26 +36,110 @@ const AcademicRecordSchema = new mongoose.Schema({
         gpa: {
             type: Number,
             required: true
+        },
+        verification: verificationField
+    }],
+    // Subjects taken each semester, one entry per attempt. A failed subject
+    // is a backlog until a later attempt (same semester and code or name)
+    // passes it. For semesters with subjects the semesterGPA entry is
+    // calculated from the latest attempts (see utils/academics.js).
+    subjects: [{
+        semester: {
+            type: Number,
+            required: true,
+            min: 1
+        },
+        code: {
+            type: String,
+            trim: true
+        },
+        name: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        credits: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        internalMarks: {
+            type: Number,
+            min: 0
+        },
+        externalMarks: {
+            type: Number,
+            min: 0
+        },
+        // One of the grades in config/grading.js
+        grade: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        // Set from the grade when saved
+        passed: {
+            type: Boolean,
+            default: true
+        },
+        attempt: {
+            type: Number,
+            default: 1,
+            min: 1
+        },
+        // Semester in which this attempt's exam was written; later than
+        // `semester` for re-attempts
+        examSemester: {
+            type: Number,
+            min: 1
         }
     }],
     moocCourses: [String],
-    certifications: [String],
+    certifications: [{
+        name: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        verification: verificationField
+    }],
     semesterMarksheets: [{
         semester: {
             type: Number,
             required: true
         },
-        imageUrl: {
-            type: String
-        }
+        // Key of the file in the configured storage backend (see utils/storage)
+        fileKey: {
+            type: String,
+            required: true
+        },
+        fileName: String,
+        mimeType: String,
+        size: Number,
+        uploadedAt: {
+            type: Date,
+            default: Date.now
+        },
+        verification: verificationField
     }],
+    // Entered by the mentee until subjects are recorded, then the number of
+    // subjects whose latest attempt failed
     backlogs: {
         type: Number,
         default: 0,
         min: 0
+    },
+    // Overall attendance percentage as last entered by the mentee
+    attendance: {
+        type: Number,
+        min: 0,
+        max: 100
     }
 }, {
     timestamps: true
 });
 
+// Entry arrays that mentors can verify
+AcademicRecordSchema.statics.VERIFIABLE_ENTRIES = ['semesterGPA', 'certifications', 'semesterMarksheets'];
+
 module.exports = mongoose.model('AcademicRecord', AcademicRecordSchema); 
\ No newline at end of file
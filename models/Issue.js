@@ -1,4 +1,12 @@
 const mongoose = require('mongoose');
+const { getSlaPolicy, REOPEN_WINDOW_MS } = require('../config/sla');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const ISSUE_STATUSES = ['Open', 'Under Review', 'Resolved', 'Closed'];
+
+// Reported to the anti-ragging committee instead of the mentor
+const CONFIDENTIAL_ISSUE_TYPES = ['Ragging', 'Harassment'];
 
 const IssueSchema = new mongoose.Schema({
     mentee: {
@@ -6,10 +14,13 @@ const IssueSchema = new mongoose.Schema({
         ref: 'User',
         required: true
     },
+    // Confidential issues are handled by the committee and have no mentor
     mentor: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User',
-        required: true
+        required: function () {
+            return !this.confidential;
+        }
     },
     issueType: {
         type: String,
@@ -22,9 +33,54 @@ const IssueSchema = new mongoose.Schema({
     },
     status: {
         type: String,
-        enum: ['Open', 'Under Review', 'Resolved', 'Closed'],
+        enum: ISSUE_STATUSES,
         default: 'Open'
     },
+    // Every status change, oldest first. The entry recorded when the issue
+    // is opened has no from status.
+    statusHistory: [{
+        from: {
+            type: String,
+            enum: ISSUE_STATUSES
+        },
+        to: {
+            type: String,
+            enum: ISSUE_STATUSES,
+            required: true
+        },
+        changedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        reason: String,
+        changedAt: {
+            type: Date,
+            default: Date.now
+        }
+    }],
+    confidential: {
+        type: Boolean,
+        default: false
+    },
+    // Hides the mentee from the committee until they consent to disclosure
+    anonymous: {
+        type: Boolean,
+        default: false
+    },
+    identityDisclosure: {
+        status: {
+            type: String,
+            enum: ['none', 'requested', 'granted', 'declined'],
+            default: 'none'
+        },
+        reason: String,
+        requestedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        requestedAt: Date,
+        respondedAt: Date
+    },
     comments: [{
         user: {
             type: mongoose.Schema.Types.ObjectId,
@@ -39,9 +95,124 @@ const IssueSchema = new mongoose.Schema({
             type: Date,
             default: Date.now
         }
+    }],
+    // The mentee's rating of how the issue was resolved
+    feedback: {
+        rating: {
+            type: Number,
+            min: 1,
+            max: 5
+        },
+        comment: String,
+        submittedAt: Date
+    },
+    // Deadlines from config/sla.js, set when the issue is created
+    sla: {
+        responseDueAt: Date,
+        resolutionDueAt: Date,
+        respondedAt: Date,
+        resolvedAt: Date,
+        responseBreachedAt: Date,
+        resolutionBreachedAt: Date
+    },
+    // Raised by the SLA scheduler when a deadline passes
+    escalations: [{
+        kind: {
+            type: String,
+            enum: ['response', 'resolution'],
+            required: true
+        },
+        escalatedTo: [{
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        }],
+        note: String,
+        createdAt: {
+            type: Date,
+            default: Date.now
+        }
     }]
 }, {
     timestamps: true
 });
 
+// Route ragging and harassment reports to the committee, and start the SLA
+// clock for new issues
+IssueSchema.pre('validate', function (next) {
+    if (this.isNew && CONFIDENTIAL_ISSUE_TYPES.includes(this.issueType)) {
+        this.confidential = true;
+        this.mentor = undefined;
+    }
+
+    if (this.isNew && !this.sla.responseDueAt) {
+        const { responseHours, resolutionHours } = getSlaPolicy(this.issueType);
+        const openedAt = this.createdAt || new Date();
+
+        this.sla.responseDueAt = new Date(openedAt.getTime() + responseHours * HOUR_MS);
+        this.sla.resolutionDueAt = new Date(openedAt.getTime() + resolutionHours * HOUR_MS);
+    }
+    next();
+});
+
+// Stop the SLA clocks when the mentor (or committee) responds or the issue
+// is closed out
+IssueSchema.pre('save', function (next) {
+    const now = new Date();
+
+    if (!this.sla.respondedAt && !this.isNew) {
+        const handlerCommented = this.comments.some((comment) => !comment.user.equals(this.mentee));
+        if (handlerCommented || this.status !== 'Open') {
+            this.sla.respondedAt = now;
+        }
+    }
+
+    if (['Resolved', 'Closed'].includes(this.status)) {
+        if (!this.sla.resolvedAt) {
+            this.sla.resolvedAt = now;
+        }
+    } else if (this.sla.resolvedAt) {
+        // Reopened issues are unresolved again and get a fresh resolution deadline
+        const { resolutionHours } = getSlaPolicy(this.issueType);
+        this.sla.resolvedAt = undefined;
+        this.sla.resolutionDueAt = new Date(now.getTime() + resolutionHours * HOUR_MS);
+        this.sla.resolutionBreachedAt = undefined;
+    }
+
+    next();
+});
+
+/**
+ * Change the status, recording the transition in statusHistory
+ * @param {string} status - New status
+ * @param {string} userId - User making the change
+ * @param {string} [reason] - Optional explanation shown in the history
+ * @returns {boolean} - Whether the status actually changed
+ */
+IssueSchema.methods.changeStatus = function (status, userId, reason) {
+    if (status === this.status) return false;
+
+    this.statusHistory.push({
+        from: this.status,
+        to: status,
+        changedBy: userId,
+        reason: reason ? reason.trim() || undefined : undefined
+    });
+    this.status = status;
+    return true;
+};
+
+/**
+ * Latest time the mentee may reopen the issue
+ * @returns {Date|null} - null while the issue is unresolved
+ */
+IssueSchema.methods.getReopenDeadline = function () {
+    if (!['Resolved', 'Closed'].includes(this.status) || !this.sla.resolvedAt) {
+        return null;
+    }
+    return new Date(this.sla.resolvedAt.getTime() + REOPEN_WINDOW_MS);
+};
+
+IssueSchema.statics.ISSUE_STATUSES = ISSUE_STATUSES;
+IssueSchema.statics.CONFIDENTIAL_ISSUE_TYPES = CONFIDENTIAL_ISSUE_TYPES;
+
 module.exports = mongoose.model('Issue', IssueSchema); 
\ No newline at end of file
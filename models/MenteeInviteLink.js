@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// Link a mentor shares so students can register straight into their group.
+// The link carries a signed id rather than the mentor's id, so it can't be
+// guessed and stops working once it expires, is used up or is revoked.
+const MenteeInviteLinkSchema = new mongoose.Schema({
+    mentor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    label: {
+        type: String,
+        trim: true,
+        maxlength: 100
+    },
+    // Prefilled on the profile of everyone who registers through the link
+    section: {
+        type: String,
+        trim: true
+    },
+    branch: {
+        type: String,
+        trim: true
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+    maxUses: {
+        type: Number,
+        required: true,
+        min: 1
+    },
+    uses: {
+        type: Number,
+        default: 0
+    },
+    redemptions: [{
+        mentee: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        redeemedAt: {
+            type: Date,
+            default: Date.now
+        }
+    }],
+    revokedAt: Date
+}, {
+    timestamps: true
+});
+
+/**
+ * Whether the link can still be used to register
+ * @returns {boolean}
+ */
+MenteeInviteLinkSchema.methods.isUsable = function () {
+    return !this.revokedAt && this.expiresAt > new Date() && this.uses < this.maxUses;
+};
+
+module.exports = mongoose.model('MenteeInviteLink', MenteeInviteLinkSchema);
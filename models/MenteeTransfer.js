@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+const MenteeTransferSchema = new mongoose.Schema({
+    mentee: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    fromMentor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    toMentor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    // Mentor handing the mentee over, or an admin acting on their behalf
+    initiatedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'accepted', 'declined', 'cancelled'],
+        default: 'pending'
+    },
+    note: {
+        type: String,
+        trim: true,
+        maxlength: 500
+    },
+    respondedAt: Date
+}, {
+    timestamps: true
+});
+
+// Only one open transfer per mentee at a time
+MenteeTransferSchema.index(
+    { mentee: 1 },
+    { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+module.exports = mongoose.model('MenteeTransfer', MenteeTransferSchema);
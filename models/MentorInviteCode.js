@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// Code an administrator hands out so faculty can register as mentors without
+// waiting for approval. Only a hash of the code is stored; it is shown once
+// when created.
+const MentorInviteCodeSchema = new mongoose.Schema({
+    codeHash: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    // Last characters of the code, so admins can tell codes apart
+    hint: {
+        type: String,
+        required: true
+    },
+    label: {
+        type: String,
+        trim: true,
+        maxlength: 100
+    },
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+    maxUses: {
+        type: Number,
+        required: true,
+        min: 1
+    },
+    uses: {
+        type: Number,
+        default: 0
+    },
+    redemptions: [{
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        redeemedAt: {
+            type: Date,
+            default: Date.now
+        }
+    }],
+    revokedAt: Date
+}, {
+    timestamps: true
+});
+
+/**
+ * Whether the code can still be used to register
+ * @returns {boolean}
+ */
+MentorInviteCodeSchema.methods.isUsable = function () {
+    return !this.revokedAt && this.expiresAt > new Date() && this.uses < this.maxUses;
+};
+
+module.exports = mongoose.model('MentorInviteCode', MentorInviteCodeSchema);
@@ -0,0 +1,51 @@
+const mongoose = require('mongoose');
+
+const NOTIFICATION_TYPES = [
+    'issue_created',
+    'issue_comment',
+    'issue_status',
+    'issue_escalated',
+    'identity_request',
+    'mentee_assigned',
+    'transfer_requested',
+    'achievement_added',
+    'mentor_pending',
+    'mentor_reviewed'
+];
+
+// Persistent in-app notification shown in the header bell
+const NotificationSchema = new mongoose.Schema({
+    recipient: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    type: {
+        type: String,
+        enum: NOTIFICATION_TYPES,
+        required: true
+    },
+    title: {
+        type: String,
+        required: true
+    },
+    message: String,
+    // Dashboard path to open when the notification is clicked
+    link: String,
+    issue: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Issue'
+    },
+    readAt: Date
+}, {
+    timestamps: true
+});
+
+NotificationSchema.index({ recipient: 1, createdAt: -1 });
+NotificationSchema.index({ recipient: 1, readAt: 1 });
+// Let MongoDB drop notifications 90 days after they were read; unread ones are kept
+NotificationSchema.index({ readAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+NotificationSchema.statics.NOTIFICATION_TYPES = NOTIFICATION_TYPES;
+
+module.exports = mongoose.model('Notification', NotificationSchema);
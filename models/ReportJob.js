@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// Background generation of a consolidated report for all of a mentor's mentees
+const ReportJobSchema = new mongoose.Schema({
+    mentor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    format: {
+        type: String,
+        enum: ['pdf', 'xlsx'],
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ['queued', 'running', 'completed', 'failed'],
+        default: 'queued'
+    },
+    progress: {
+        completed: {
+            type: Number,
+            default: 0
+        },
+        total: {
+            type: Number,
+            default: 0
+        }
+    },
+    // Generated file in the configured storage backend (see utils/storage)
+    fileKey: String,
+    fileName: String,
+    mimeType: String,
+    error: String,
+    completedAt: Date,
+    // API instance generating the report, and when it last reported in; a
+    // job that stops reporting was left behind by an instance that stopped
+    owner: String,
+    heartbeatAt: {
+        type: Date,
+        default: Date.now
+    },
+    // When the finished report and its file are deleted
+    expiresAt: Date
+}, {
+    timestamps: true
+});
+
+ReportJobSchema.index({ mentor: 1, createdAt: -1 });
+ReportJobSchema.index({ status: 1, heartbeatAt: 1 });
+ReportJobSchema.index({ expiresAt: 1 });
+
+module.exports = mongoose.model('ReportJob', ReportJobSchema);
@@ -0,0 +1,48 @@
+const mongoose = require('mongoose');
+
+// One signed-in device. The refresh token cookie is exchanged for short-lived
+// access tokens and rotated on every use; revoking the session signs the
+// device out.
+const SessionSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    refreshTokenHash: {
+        type: String,
+        required: true
+    },
+    // Hash of the token this one replaced; seeing it again means a rotated
+    // token was stolen and replayed, so the whole session is revoked
+    previousTokenHash: String,
+    userAgent: String,
+    ip: String,
+    lastUsedAt: {
+        type: Date,
+        default: Date.now
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+    revokedAt: Date
+}, {
+    timestamps: true
+});
+
+SessionSchema.index({ refreshTokenHash: 1 }, { unique: true });
+SessionSchema.index({ previousTokenHash: 1 });
+SessionSchema.index({ user: 1, revokedAt: 1 });
+// Let MongoDB drop sessions once they can no longer be refreshed
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Whether the session can still be used to authenticate
+ * @returns {boolean}
+ */
+SessionSchema.methods.isActive = function () {
+    return !this.revokedAt && this.expiresAt > new Date();
+};
+
+module.exports = mongoose.model('Session', SessionSchema);
@@ -2,6 +2,12 @@ const mongoose = require('mongoose');
 const validator = require('validator');
 const bcrypt = require('bcryptjs');
 
+// Events a user can choose to be emailed about (see utils/mail)
+const EMAIL_PREFERENCE_KEYS = ['issueCreated', 'issueReply', 'issueStatus', 'slaBreach', 'menteeTransfer', 'weeklyDigest'];
+
+// Details mentors can fill in on the account settings page
+const MENTOR_PROFILE_KEYS = ['department', 'designation', 'officeHours', 'cabin'];
+
 const UserSchema = new mongoose.Schema({
     email: {
         type: String,
@@ -27,7 +33,8 @@ const UserSchema = new mongoose.Schema({
     },
     role: {
         type: String,
-        enum: ['mentor', 'mentee'],
+        // committee: anti-ragging committee members, who handle confidential issues
+        enum: ['mentor', 'mentee', 'admin', 'committee'],
         required: true
     },
     mentees: {
@@ -41,10 +48,98 @@ const UserSchema = new mongoose.Schema({
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User'
     },
+    // Every mentor a mentee has had; the entry without unassignedAt is current
+    mentorHistory: [{
+        mentor: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        assignedAt: {
+            type: Date,
+            default: Date.now
+        },
+        unassignedAt: Date,
+        assignedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        transfer: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'MenteeTransfer'
+        }
+    }],
     profileCompleted: {
         type: Boolean,
         default: false
-    }
+    },
+    // Mentors who registered without an invite code wait for an administrator.
+    // Accounts from before approval was introduced have no value and count as
+    // approved.
+    approvalStatus: {
+        type: String,
+        enum: ['pending', 'approved', 'rejected']
+    },
+    approvalReviewedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    approvalReviewedAt: Date,
+    mentorInviteCode: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'MentorInviteCode'
+    },
+    // Shown to mentees so they know where and when to find their mentor
+    mentorProfile: MENTOR_PROFILE_KEYS.reduce((profile, key) => ({
+        ...profile,
+        [key]: { type: String, trim: true }
+    }), {}),
+    // Deactivated accounts can no longer log in or use the API
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+    deactivatedAt: Date,
+    // Every email event is on until the user turns it off
+    emailPreferences: EMAIL_PREFERENCE_KEYS.reduce((preferences, key) => ({
+        ...preferences,
+        [key]: { type: Boolean, default: true }
+    }), {}),
+    digestSentAt: Date,
+    // Last sign-in or token refresh, used to spot inactive mentees
+    lastActiveAt: Date,
+    // Accounts created by a mentor's bulk import stay pending until the
+    // mentee sets a password through their invite link
+    inviteTokenHash: {
+        type: String,
+        select: false
+    },
+    inviteExpires: {
+        type: Date,
+        select: false
+    },
+    // Only accounts that registered after verification was introduced have
+    // this set; a missing value counts as verified
+    emailVerified: Boolean,
+    emailVerifiedAt: Date,
+    verificationTokenHash: {
+        type: String,
+        select: false
+    },
+    verificationExpires: {
+        type: Date,
+        select: false
+    },
+    passwordResetTokenHash: {
+        type: String,
+        select: false
+    },
+    passwordResetExpires: {
+        type: Date,
+        select: false
+    },
+    // Tokens issued before this are no longer accepted
+    passwordChangedAt: Date
 }, {
     timestamps: true
 });
@@ -63,9 +158,20 @@ UserSchema.pre('save', async function (next) {
     }
 });
 
+/**
+ * Whether the user is a mentor approved to use mentor features
+ * @returns {boolean}
+ */
+UserSchema.methods.isApprovedMentor = function () {
+    return this.role === 'mentor' && (!this.approvalStatus || this.approvalStatus === 'approved');
+};
+
 // Method to compare password
 UserSchema.methods.comparePassword = async function (candidatePassword) {
     return await bcrypt.compare(candidatePassword, this.password);
 };
 
+UserSchema.statics.EMAIL_PREFERENCE_KEYS = EMAIL_PREFERENCE_KEYS;
+UserSchema.statics.MENTOR_PROFILE_KEYS = MENTOR_PROFILE_KEYS;
+
 module.exports = mongoose.model('User', UserSchema); 
\ No newline at end of file
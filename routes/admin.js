@@ -0,0 +1,43 @@
+const express = require('express');
+const {
+    getUsers,
+    updateUserStatus,
+    reassignMentee,
+    getStats,
+    getEscalatedIssues,
+    getMentorInviteCodes,
+    createMentorInviteCode,
+    revokeMentorInviteCode,
+    getPendingMentors,
+    reviewMentor
+} = require('../controllers/adminController');
+const { protect, isAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Apply protection to all routes
+router.use(protect);
+router.use(isAdmin);
+
+// Statistics route
+router.get('/stats', getStats);
+
+// User routes
+router.get('/users', getUsers);
+router.patch('/users/:userId/status', updateUserStatus);
+
+// Issue routes
+router.get('/issues/escalated', getEscalatedIssues);
+
+// Mentee assignment routes
+router.put('/mentees/:menteeId/mentor', reassignMentee);
+
+// Mentor access: invite codes and approval of mentors who registered without one
+router.route('/mentor-codes')
+    .get(getMentorInviteCodes)
+    .post(createMentorInviteCode);
+router.delete('/mentor-codes/:codeId', revokeMentorInviteCode);
+router.get('/mentors/pending', getPendingMentors);
+router.patch('/mentors/:mentorId/approval', reviewMentor);
+
+module.exports = router;
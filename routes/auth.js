@@ -1,17 +1,98 @@
 const express = require('express');
-const { registerMentor, registerMentee, login, getMe } = require('../controllers/authController');
+const {
+    registerMentor,
+    registerMentee,
+    login,
+    getMe,
+    getInvite,
+    acceptInvite,
+    getMenteeInvite,
+    getEmailPreferences,
+    updateEmailPreferences,
+    forgotPassword,
+    getPasswordReset,
+    resetPassword,
+    verifyEmail,
+    resendVerification,
+    refresh,
+    logout,
+    logoutAll,
+    getSessions,
+    revokeSession,
+    getAccount,
+    updateAccount,
+    changePassword
+} = require('../controllers/authController');
 const { protect, isMentor } = require('../middleware/auth');
+const { rateLimit } = require('../middleware/rateLimit');
 
 const router = express.Router();
 
+// Per-IP limits for routes that are open to anyone, generous enough for a
+// campus behind one address. Failed logins are also counted per account in
+// the login controller (utils/loginThrottle.js).
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
+const loginLimit = rateLimit({ name: 'login', max: 100, windowMs: FIFTEEN_MINUTES });
+const registerLimit = rateLimit({
+    name: 'register',
+    max: 10,
+    windowMs: 60 * 60 * 1000,
+    message: 'Too many accounts created from this network. Please try again later.'
+});
+const emailLimit = rateLimit({
+    name: 'auth-email',
+    max: 5,
+    windowMs: FIFTEEN_MINUTES,
+    message: 'Too many emails requested. Please wait a few minutes before trying again.'
+});
+const tokenLimit = rateLimit({ name: 'auth-token', max: 60, windowMs: FIFTEEN_MINUTES });
+// Routes that check the current password are limited per account instead
+const passwordCheckLimit = rateLimit({
+    name: 'password-check',
+    max: 10,
+    windowMs: FIFTEEN_MINUTES,
+    key: (req) => req.user.id,
+    message: 'Too many attempts. Please wait a few minutes before trying again.'
+});
+
 // Register routes
-router.post('/register/mentor', registerMentor);
-router.post('/register/mentee', registerMentee); // Allow public registration of mentees
+router.post('/register/mentor', registerLimit, registerMentor);
+router.post('/register/mentee', registerLimit, registerMentee); // Allow public registration of mentees
 
 // Login route
-router.post('/login', login);
+router.post('/login', loginLimit, login);
+
+// Sessions; the refresh token travels in an httpOnly cookie
+router.post('/refresh', refresh);
+router.post('/logout', logout);
+
+// Invites from a mentor's bulk import
+router.route('/invite/:token')
+    .get(tokenLimit, getInvite)
+    .post(tokenLimit, acceptInvite);
+
+// Invite links a mentor shares; registering with one goes through /register/mentee
+router.get('/mentee-invite/:token', tokenLimit, getMenteeInvite);
+
+// Password reset and email verification links
+router.post('/forgot-password', emailLimit, forgotPassword);
+router.route('/reset-password/:token')
+    .get(tokenLimit, getPasswordReset)
+    .post(tokenLimit, resetPassword);
+router.post('/verify-email/:token', tokenLimit, verifyEmail);
+router.post('/resend-verification', emailLimit, resendVerification);
 
 // Protected routes
 router.get('/me', protect, getMe);
+router.route('/account')
+    .get(protect, getAccount)
+    .put(protect, passwordCheckLimit, updateAccount);
+router.put('/account/password', protect, passwordCheckLimit, changePassword);
+router.route('/email-preferences')
+    .get(protect, getEmailPreferences)
+    .put(protect, updateEmailPreferences);
+router.post('/logout-all', protect, logoutAll);
+router.get('/sessions', protect, getSessions);
+router.delete('/sessions/:sessionId', protect, revokeSession);
 
 module.exports = router; 
\ No newline at end of file
@@ -0,0 +1,22 @@
+const express = require('express');
+const {
+    getIssues,
+    getIssue,
+    addComment,
+    requestIdentity
+} = require('../controllers/committeeController');
+const { protect, isCommittee } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Apply protection to all routes
+router.use(protect);
+router.use(isCommittee);
+
+// Confidential issue routes
+router.get('/issues', getIssues);
+router.get('/issues/:issueId', getIssue);
+router.post('/issues/:issueId/comments', addComment);
+router.post('/issues/:issueId/identity-request', requestIdentity);
+
+module.exports = router;
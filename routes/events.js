@@ -0,0 +1,10 @@
+const express = require('express');
+const { stream } = require('../controllers/eventController');
+const { protect, allowQueryToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+// EventSource can't send headers, so the token may come in the query string
+router.get('/', allowQueryToken, protect, stream);
+
+module.exports = router;
@@ -7,13 +7,22 @@ const {
     getIssues,
     getIssue,
     addComment,
+    respondToIdentityRequest,
+    confirmResolution,
+    reopenIssue,
+    submitFeedback,
     updateAcademics,
     getAcademics,
+    getGradingScale,
+    uploadMarksheet,
+    getMarksheet,
+    deleteMarksheet,
     createAchievement,
     getAchievements,
     getDashboard
 } = require('../controllers/menteeController');
 const { protect, isMentee } = require('../middleware/auth');
+const { marksheetUpload } = require('../middleware/upload');
 
 const router = express.Router();
 
@@ -33,11 +42,20 @@ router.route('/issues')
     .get(getIssues);
 router.get('/issues/:issueId', getIssue);
 router.post('/issues/:issueId/comments', addComment);
+router.patch('/issues/:issueId/identity', respondToIdentityRequest);
+router.post('/issues/:issueId/confirm', confirmResolution);
+router.post('/issues/:issueId/reopen', reopenIssue);
+router.put('/issues/:issueId/feedback', submitFeedback);
 
 // Academic routes
 router.route('/academics')
     .post(updateAcademics)
     .get(getAcademics);
+router.get('/academics/grading-scale', getGradingScale);
+router.post('/academics/marksheets', marksheetUpload, uploadMarksheet);
+router.route('/academics/marksheets/:semester')
+    .get(getMarksheet)
+    .delete(deleteMarksheet);
 
 // Achievement routes
 router.route('/achievements')
@@ -4,15 +4,29 @@ const {
     getMenteeProfile,
     getMenteeAcademics,
     getMenteeAchievements,
+    getMenteeMarksheet,
+    getMenteeReport,
+    startBatchReport,
+    getBatchReports,
+    getBatchReport,
+    downloadBatchReport,
+    verifyAcademicEntry,
     getIssues,
     getIssue,
     addComment,
     getAchievements,
     getDashboard,
+    getAnalytics,
     assignMentee,
+    unassignMentee,
+    importMentees,
+    getInviteLinks,
+    createInviteLink,
+    revokeInviteLink,
     createIssue
 } = require('../controllers/mentorController');
 const { protect, isMentor } = require('../middleware/auth');
+const { csvUpload } = require('../middleware/upload');
 
 const router = express.Router();
 
@@ -23,12 +37,33 @@ router.use(isMentor);
 // Dashboard route
 router.get('/dashboard', getDashboard);
 
+// Cohort analytics across all mentees
+router.get('/analytics', getAnalytics);
+
 // Mentee routes
 router.get('/mentees', getMentees);
 router.post('/mentees/assign', assignMentee);
+router.post('/mentees/import', csvUpload, importMentees);
+router.delete('/mentees/:menteeId', unassignMentee);
 router.get('/mentees/:menteeId/profile', getMenteeProfile);
 router.get('/mentees/:menteeId/academics', getMenteeAcademics);
 router.get('/mentees/:menteeId/achievements', getMenteeAchievements);
+router.get('/mentees/:menteeId/marksheets/:semester', getMenteeMarksheet);
+router.get('/mentees/:menteeId/report', getMenteeReport);
+router.patch('/mentees/:menteeId/academics/:entryType/:entryId/verification', verifyAcademicEntry);
+
+// Invite links for new mentees to register with
+router.route('/invite-links')
+    .get(getInviteLinks)
+    .post(createInviteLink);
+router.delete('/invite-links/:linkId', revokeInviteLink);
+
+// Consolidated report routes
+router.route('/reports/batch')
+    .get(getBatchReports)
+    .post(startBatchReport);
+router.get('/reports/batch/:jobId', getBatchReport);
+router.get('/reports/batch/:jobId/download', downloadBatchReport);
 
 // Issues routes
 router.get('/issues', getIssues);
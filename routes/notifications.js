@@ -0,0 +1,19 @@
+const express = require('express');
+const {
+    getNotifications,
+    markAsRead,
+    updateNotification
+} = require('../controllers/notificationController');
+const { protect } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Every signed-in role has notifications
+router.use(protect);
+
+router.route('/')
+    .get(getNotifications)
+    .patch(markAsRead);
+router.patch('/:notificationId', updateNotification);
+
+module.exports = router;
@@ -0,0 +1,27 @@
+const express = require('express');
+const {
+    getTransfers,
+    createTransfer,
+    respondToTransfer,
+    cancelTransfer,
+    getMentorHistory
+} = require('../controllers/transferController');
+const { protect, authorize } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Apply protection to all routes
+router.use(protect);
+router.use(authorize('mentor', 'admin'));
+
+// Transfer routes
+router.route('/')
+    .get(getTransfers)
+    .post(createTransfer);
+router.patch('/:transferId/respond', authorize('mentor'), respondToTransfer);
+router.patch('/:transferId/cancel', cancelTransfer);
+
+// Assignment history
+router.get('/history/:menteeId', getMentorHistory);
+
+module.exports = router;
@@ -0,0 +1,55 @@
+// Sets SLA deadlines on issues created before SLA tracking existed, using
+// each issue's creation date. Issues that are already overdue are picked up
+// and escalated by the scheduler on its next run.
+const dotenv = require('dotenv');
+const mongoose = require('mongoose');
+
+// Load environment variables
+dotenv.config();
+
+const { getSlaPolicy } = require('../config/sla');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function backfillIssueSla() {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    // Use the raw collection so the model's save hooks don't stamp today's date
+    const issues = mongoose.connection.db.collection('issues');
+    const cursor = issues.find({ 'sla.responseDueAt': { $exists: false } });
+
+    let updated = 0;
+
+    for await (const issue of cursor) {
+        const { responseHours, resolutionHours } = getSlaPolicy(issue.issueType);
+        const createdAt = issue.createdAt || issue._id.getTimestamp();
+        const mentorCommented = (issue.comments || []).some((comment) =>
+            comment.user && comment.user.equals(issue.mentor));
+
+        const sla = {
+            responseDueAt: new Date(createdAt.getTime() + responseHours * HOUR_MS),
+            resolutionDueAt: new Date(createdAt.getTime() + resolutionHours * HOUR_MS)
+        };
+
+        // The last update is the best available estimate of when these happened
+        if (mentorCommented || issue.status !== 'Open') {
+            sla.respondedAt = issue.updatedAt || createdAt;
+        }
+        if (['Resolved', 'Closed'].includes(issue.status)) {
+            sla.resolvedAt = issue.updatedAt || createdAt;
+        }
+
+        await issues.updateOne({ _id: issue._id }, { $set: { sla } });
+        updated++;
+    }
+
+    console.log(`Set SLA deadlines on ${updated} issue(s)`);
+}
+
+backfillIssueSla()
+    .then(() => mongoose.connection.close())
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('Issue SLA backfill failed:', error);
+        process.exit(1);
+    });
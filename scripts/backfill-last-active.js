@@ -0,0 +1,41 @@
+// Sets lastActiveAt on users who haven't signed in since activity tracking
+// existed, from the most recent use of any of their sessions. Users without a
+// stored session are left unset and skipped by the inactivity risk rule until
+// they next sign in.
+const dotenv = require('dotenv');
+const mongoose = require('mongoose');
+
+// Load environment variables
+dotenv.config();
+
+async function backfillLastActive() {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    const db = mongoose.connection.db;
+    const users = db.collection('users');
+    const cursor = db.collection('sessions').aggregate([
+        { $group: { _id: '$user', lastUsedAt: { $max: '$lastUsedAt' } } }
+    ]);
+
+    let updated = 0;
+
+    for await (const { _id, lastUsedAt } of cursor) {
+        if (!lastUsedAt) continue;
+
+        const result = await users.updateOne(
+            { _id, lastActiveAt: { $exists: false } },
+            { $set: { lastActiveAt: lastUsedAt } }
+        );
+        updated += result.modifiedCount;
+    }
+
+    console.log(`Set last activity on ${updated} user(s)`);
+}
+
+backfillLastActive()
+    .then(() => mongoose.connection.close())
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('Last activity backfill failed:', error);
+        process.exit(1);
+    });
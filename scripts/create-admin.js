@@ -0,0 +1,49 @@
+// Creates an administrator account, or promotes an existing user to admin.
+// Usage: node scripts/create-admin.js <email> [password] [name]
+const dotenv = require('dotenv');
+const mongoose = require('mongoose');
+const User = require('../models/User');
+
+// Load environment variables
+dotenv.config();
+
+async function createAdmin() {
+    const [email, password, name] = process.argv.slice(2);
+
+    if (!email) {
+        throw new Error('Usage: node scripts/create-admin.js <email> [password] [name]');
+    }
+
+    await mongoose.connect(process.env.MONGO_URI);
+
+    const existingUser = await User.findOne({ email: email.toLowerCase() });
+
+    if (existingUser) {
+        existingUser.role = 'admin';
+        existingUser.isActive = true;
+        await existingUser.save();
+        console.log(`Promoted ${existingUser.email} to admin`);
+        return;
+    }
+
+    if (!password) {
+        throw new Error('A password is required to create a new admin account');
+    }
+
+    const admin = await User.create({
+        email,
+        password,
+        name: name || email.split('@')[0],
+        role: 'admin'
+    });
+
+    console.log(`Created admin account ${admin.email}`);
+}
+
+createAdmin()
+    .then(() => mongoose.connection.close())
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('Failed to create admin:', error.message);
+        process.exit(1);
+    });
@@ -0,0 +1,60 @@
+// Creates an anti-ragging committee account, or moves an existing staff
+// account onto the committee.
+// Usage: node scripts/create-committee-member.js <email> [password] [name]
+const dotenv = require('dotenv');
+const mongoose = require('mongoose');
+const User = require('../models/User');
+
+// Load environment variables
+dotenv.config();
+
+async function createCommitteeMember() {
+    const [email, password, name] = process.argv.slice(2);
+
+    if (!email) {
+        throw new Error('Usage: node scripts/create-committee-member.js <email> [password] [name]');
+    }
+
+    await mongoose.connect(process.env.MONGO_URI);
+
+    const existingUser = await User.findOne({ email: email.toLowerCase() });
+
+    if (existingUser) {
+        if (existingUser.role === 'mentee') {
+            throw new Error(`${existingUser.email} is a mentee account and can't join the committee`);
+        }
+
+        // Committee members only see confidential issues, so a mentor should
+        // hand their mentees over first
+        if (existingUser.mentees.length > 0) {
+            throw new Error(`${existingUser.email} still has ${existingUser.mentees.length} mentee(s); transfer them first`);
+        }
+
+        existingUser.role = 'committee';
+        existingUser.isActive = true;
+        await existingUser.save();
+        console.log(`Moved ${existingUser.email} to the committee`);
+        return;
+    }
+
+    if (!password) {
+        throw new Error('A password is required to create a new committee account');
+    }
+
+    const member = await User.create({
+        email,
+        password,
+        name: name || email.split('@')[0],
+        role: 'committee'
+    });
+
+    console.log(`Created committee account ${member.email}`);
+}
+
+createCommitteeMember()
+    .then(() => mongoose.connection.close())
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('Failed to create committee member:', error.message);
+        process.exit(1);
+    });
@@ -0,0 +1,42 @@
+// Converts certifications stored as plain strings in AcademicRecord
+// documents into { name, verification } entries awaiting mentor review.
+const dotenv = require('dotenv');
+const mongoose = require('mongoose');
+
+// Load environment variables
+dotenv.config();
+
+async function migrateCertifications() {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    // Use the raw collection: legacy string entries cannot be loaded through the schema
+    const records = mongoose.connection.db.collection('academicrecords');
+    const cursor = records.find({ certifications: { $elemMatch: { $type: 'string' } } });
+
+    let migrated = 0;
+
+    for await (const record of cursor) {
+        const certifications = record.certifications.map((certification) =>
+            typeof certification === 'string'
+                ? {
+                    _id: new mongoose.Types.ObjectId(),
+                    name: certification.trim(),
+                    verification: { status: 'pending' }
+                }
+                : certification
+        );
+
+        await records.updateOne({ _id: record._id }, { $set: { certifications } });
+        migrated++;
+    }
+
+    console.log(`Migrated certifications of ${migrated} academic record(s)`);
+}
+
+migrateCertifications()
+    .then(() => mongoose.connection.close())
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('Certification migration failed:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,80 @@
+// Moves base64 marksheets stored inline in AcademicRecord documents
+// into the configured file storage, keeping only the storage key.
+const crypto = require('crypto');
+const dotenv = require('dotenv');
+const mongoose = require('mongoose');
+const { getStorage } = require('../utils/storage');
+
+// Load environment variables
+dotenv.config();
+
+const DATA_URL_PATTERN = /^data:([\w/+.-]+);base64,(.+)$/s;
+
+const EXTENSIONS = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'application/pdf': 'pdf'
+};
+
+async function migrateMarksheets() {
+    await mongoose.connect(process.env.MONGO_URI);
+
+    const storage = getStorage();
+    // Use the raw collection: the legacy imageUrl field is no longer part of the schema
+    const records = mongoose.connection.db.collection('academicrecords');
+    const cursor = records.find({ 'semesterMarksheets.imageUrl': { $exists: true } });
+
+    let migrated = 0;
+    let skipped = 0;
+
+    for await (const record of cursor) {
+        const marksheets = [];
+
+        for (const marksheet of record.semesterMarksheets) {
+            if (!marksheet.imageUrl) {
+                marksheets.push(marksheet);
+                continue;
+            }
+
+            const match = marksheet.imageUrl.match(DATA_URL_PATTERN);
+            if (!match || !EXTENSIONS[match[1]]) {
+                console.warn(`Skipping semester ${marksheet.semester} of record ${record._id}: not a supported data URL`);
+                // Left as it is so it can be fixed by hand and migrated on a later run
+                marksheets.push(marksheet);
+                skipped++;
+                continue;
+            }
+
+            const [, mimeType, base64] = match;
+            const buffer = Buffer.from(base64, 'base64');
+            const fileKey = `marksheets/${record.mentee}/semester-${marksheet.semester}-${crypto.randomUUID()}.${EXTENSIONS[mimeType]}`;
+
+            await storage.save(fileKey, buffer, mimeType);
+
+            marksheets.push({
+                _id: marksheet._id,
+                semester: marksheet.semester,
+                fileKey,
+                fileName: `semester-${marksheet.semester}.${EXTENSIONS[mimeType]}`,
+                mimeType,
+                size: buffer.length,
+                uploadedAt: record.updatedAt || new Date()
+            });
+            migrated++;
+        }
+
+        await records.updateOne({ _id: record._id }, { $set: { semesterMarksheets: marksheets } });
+    }
+
+    console.log(`Migrated ${migrated} marksheet(s), skipped ${skipped}`);
+}
+
+migrateMarksheets()
+    .then(() => mongoose.connection.close())
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('Marksheet migration failed:', error);
+        process.exit(1);
+    });
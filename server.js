@@ -5,6 +5,10 @@ const dotenv = require('dotenv');
 const connectDB = require('./config/db');
 const logger = require('./utils/logger');
 const requestLogger = require('./middleware/requestLogger');
+const { startReportCleanup } = require('./utils/reports/batchReport');
+const { startSlaScheduler } = require('./utils/slaScheduler');
+const { startDigestScheduler } = require('./utils/mail/weeklyDigest');
+const { getMailTransport } = require('./utils/mail');
 
 // Load environment variables
 dotenv.config();
@@ -15,21 +19,41 @@ connectDB();
 // Initialize Express app
 const app = express();
 
+// Behind a reverse proxy, set TRUST_PROXY_HOPS so req.ip (used for rate
+// limiting) is the client's address rather than the proxy's
+if (process.env.TRUST_PROXY_HOPS) {
+    app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS));
+}
+
 // Middleware
 app.use(express.json());
-app.use(cors());
+// Credentials are allowed so the browser sends the refresh token cookie
+app.use(cors({
+    origin: process.env.APP_URL || 'http://localhost:3000',
+    credentials: true
+}));
 app.use(requestLogger);
 
 // Import routes
 const authRoutes = require('./routes/auth');
 const menteeRoutes = require('./routes/mentee');
 const mentorRoutes = require('./routes/mentor');
+const adminRoutes = require('./routes/admin');
+const transferRoutes = require('./routes/transfers');
+const committeeRoutes = require('./routes/committee');
+const notificationRoutes = require('./routes/notifications');
+const eventRoutes = require('./routes/events');
 const healthRoutes = require('./routes/health');
 
 // Mount routes
 app.use('/api/auth', authRoutes);
 app.use('/api/mentee', menteeRoutes);
 app.use('/api/mentor', mentorRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/transfers', transferRoutes);
+app.use('/api/committee', committeeRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/events', eventRoutes);
 app.use('/api/health', healthRoutes);
 
 // Root route for health check
@@ -39,7 +63,7 @@ app.get('/', (req, res) => {
 
 // 404 handler
 app.use((req, res, next) => {
-    logger.warn(`Route not found: ${req.method} ${req.originalUrl}`);
+    logger.warn(`Route not found: ${req.method} ${logger.redactUrl(req.originalUrl)}`);
     res.status(404).json({
         success: false,
         error: 'Resource not found'
@@ -51,7 +75,7 @@ app.use((err, req, res, next) => {
     const statusCode = err.statusCode || 500;
 
     // Log error details
-    logger.error(`${statusCode} - ${err.message} - ${req.method} ${req.originalUrl} - ${req.ip}`, err);
+    logger.error(`${statusCode} - ${err.message} - ${req.method} ${logger.redactUrl(req.originalUrl)} - ${req.ip}`, err);
 
     // Don't expose stack trace in production
     const errorResponse = {
@@ -79,8 +103,15 @@ process.on('unhandledRejection', (error) => {
     console.error(error.name, error.message);
 });
 
+// Fail on a missing mail configuration now rather than on the first email
+getMailTransport();
+
 // Start server
 const PORT = process.env.PORT || 5000;
 const server = app.listen(PORT, () => {
     logger.info(`Server running on port ${PORT}`);
+
+    startReportCleanup();
+    startSlaScheduler();
+    startDigestScheduler();
 }); 
\ No newline at end of file
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { authApi } from "@/services/api";
+import { EnvelopeIcon, CheckCircleIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+
+// Form validation schema
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setIsSubmitting(true);
+
+    try {
+      await authApi.forgotPassword(data.email);
+      setSentTo(data.email);
+    } catch (error: any) {
+      console.error("Forgot password error:", error);
+      toast.error(
+        error.response?.data?.error || "Failed to send password reset email"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full min-h-screen flex justify-center items-center bg-gradient-to-br from-blue-100 via-indigo-100 to-purple-100">
+      <div className="w-full max-w-md mx-auto px-4 py-8">
+        <div className="bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl overflow-hidden border border-white/20">
+          <div className="bg-primary text-white p-6 text-center">
+            <h2 className="text-2xl font-bold">Forgot your password?</h2>
+            <p className="text-white/80 text-sm mt-1">
+              We'll email you a link to choose a new one
+            </p>
+          </div>
+
+          <div className="p-6 sm:p-8">
+            {sentTo ? (
+              <div className="text-center py-6">
+                <CheckCircleIcon className="h-12 w-12 text-green-500 mx-auto mb-4" />
+                <p className="text-gray-700">
+                  If an account exists for{" "}
+                  <span className="font-medium">{sentTo}</span>, a password
+                  reset link is on its way.
+                </p>
+                <p className="text-sm text-gray-500 mt-2">
+                  The link expires after a while, so use it soon.
+                </p>
+                <Link
+                  href="/login"
+                  className="inline-block mt-4 font-medium text-primary hover:text-primary/80 transition-colors"
+                >
+                  Back to login
+                </Link>
+              </div>
+            ) : (
+              <form className="space-y-5" onSubmit={handleSubmit(onSubmit)}>
+                <div>
+                  <label
+                    htmlFor="email"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Email address
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <EnvelopeIcon className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="email"
+                      type="email"
+                      autoComplete="email"
+                      {...register("email")}
+                      className="pl-10 appearance-none rounded-lg block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="you@example.com"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  {errors.email && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {errors.email.message}
+                    </p>
+                  )}
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full py-2.5 px-4 rounded-lg text-white bg-primary hover:bg-primary/90 font-medium transition disabled:opacity-50"
+                >
+                  {isSubmitting ? "Sending..." : "Send reset link"}
+                </button>
+
+                <p className="text-center text-sm text-gray-600">
+                  Remembered it?{" "}
+                  <Link
+                    href="/login"
+                    className="font-medium text-primary hover:text-primary/80 transition-colors"
+                  >
+                    Sign in
+                  </Link>
+                </p>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { useAuth } from "@/lib/auth";
+import { authApi } from "@/services/api";
+import {
+  LockClosedIcon,
+  ExclamationCircleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+
+// Form validation schema
+const inviteSchema = z
+  .object({
+    password: z.string().min(6, "Password must be at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type InviteFormData = z.infer<typeof inviteSchema>;
+
+interface InviteDetails {
+  email: string;
+  name: string | null;
+  mentor: { name: string | null; email: string } | null;
+}
+
+export default function AcceptInvitePage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const { login } = useAuth();
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<InviteFormData>({
+    resolver: zodResolver(inviteSchema),
+  });
+
+  useEffect(() => {
+    authApi
+      .getInvite(params.token)
+      .then((response) => setInvite(response.data.data))
+      .catch((error) =>
+        setError(
+          error.response?.data?.error ||
+            "This invite link is invalid or has expired"
+        )
+      )
+      .finally(() => setIsLoading(false));
+  }, [params.token]);
+
+  const onSubmit = async (data: InviteFormData) => {
+    if (!invite) return;
+
+    setIsSubmitting(true);
+
+    try {
+      await authApi.acceptInvite(params.token, data.password);
+      // Sign in with the new password; useAuth handles the redirect
+      await login(invite.email, data.password);
+    } catch (error: any) {
+      console.error("Invite acceptance error:", error);
+      toast.error(error.response?.data?.error || "Failed to accept invite");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full min-h-screen flex justify-center items-center bg-gradient-to-br from-blue-100 via-indigo-100 to-purple-100">
+      <div className="w-full max-w-md mx-auto px-4 py-8">
+        <div className="bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl overflow-hidden border border-white/20">
+          <div className="bg-primary text-white p-6 text-center">
+            <h2 className="text-2xl font-bold">Join ReportVerse</h2>
+            <p className="text-white/80 text-sm mt-1">
+              Choose a password to activate your mentee account
+            </p>
+          </div>
+
+          <div className="p-6 sm:p-8">
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : error || !invite ? (
+              <div className="text-center py-6">
+                <ExclamationCircleIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <p className="text-gray-700">{error}</p>
+                <p className="text-sm text-gray-500 mt-2">
+                  Ask your mentor to send you a new invite link.
+                </p>
+                <Link
+                  href="/login"
+                  className="inline-block mt-4 font-medium text-primary hover:text-primary/80 transition-colors"
+                >
+                  Go to login
+                </Link>
+              </div>
+            ) : (
+              <form className="space-y-5" onSubmit={handleSubmit(onSubmit)}>
+                <div className="bg-blue-50 rounded-lg p-4 text-sm text-blue-900">
+                  <p>
+                    Signing up as{" "}
+                    <span className="font-medium">{invite.email}</span>
+                  </p>
+                  {invite.mentor && (
+                    <p className="mt-1">
+                      Mentor:{" "}
+                      <span className="font-medium">
+                        {invite.mentor.name || invite.mentor.email}
+                      </span>
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Password
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <LockClosedIcon className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="password"
+                      type="password"
+                      autoComplete="new-password"
+                      {...register("password")}
+                      className="pl-10 appearance-none rounded-lg block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="••••••••"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  {errors.password && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {errors.password.message}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="confirmPassword"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Confirm password
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <LockClosedIcon className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="confirmPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      {...register("confirmPassword")}
+                      className="pl-10 appearance-none rounded-lg block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="••••••••"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  {errors.confirmPassword && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {errors.confirmPassword.message}
+                    </p>
+                  )}
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full py-2.5 px-4 rounded-lg text-white bg-primary hover:bg-primary/90 font-medium transition disabled:opacity-50"
+                >
+                  {isSubmitting ? "Activating..." : "Activate account"}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
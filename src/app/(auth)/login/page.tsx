@@ -1,11 +1,14 @@
 "use client";
 
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import Link from "next/link";
 import { useAuth } from "@/lib/auth";
+import { authApi } from "@/services/api";
 import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
 import {
   EnvelopeIcon,
   LockClosedIcon,
@@ -23,6 +26,32 @@ type LoginFormData = z.infer<typeof loginSchema>;
 export default function LoginPage() {
   const { login, isLoading } = useAuth();
   const router = useRouter();
+  // Set when the server refused the login because the email isn't verified
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+  // Set when the server answered 429: too many attempts for this account or network
+  const [lockout, setLockout] = useState<{
+    message: string;
+    until: number;
+  } | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  // Count down until logging in is allowed again
+  useEffect(() => {
+    if (!lockout) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((lockout.until - Date.now()) / 1000);
+      if (remaining <= 0) {
+        setLockout(null);
+      }
+      setSecondsLeft(Math.max(remaining, 0));
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [lockout]);
 
   const {
     register,
@@ -33,12 +62,44 @@ export default function LoginPage() {
   });
 
   const onSubmit = async (data: LoginFormData) => {
+    setUnverifiedEmail(null);
     try {
       await login(data.email, data.password);
       // Success is handled by the useAuth hook (redirect, toast)
-    } catch (error) {
+    } catch (error: any) {
       // Error handling is done in the useAuth hook
       console.error("Login error:", error);
+      if (error.response?.data?.code === "EMAIL_NOT_VERIFIED") {
+        setUnverifiedEmail(data.email);
+      }
+      if (error.response?.status === 429) {
+        const retryAfter =
+          Number(error.response.data?.retryAfter) ||
+          Number(error.response.headers?.["retry-after"]) ||
+          60;
+        setLockout({
+          message:
+            error.response.data?.error ||
+            "Too many login attempts. Please try again later.",
+          until: Date.now() + retryAfter * 1000,
+        });
+      }
+    }
+  };
+
+  const handleResendVerification = async () => {
+    if (!unverifiedEmail) return;
+
+    setIsResending(true);
+    try {
+      const response = await authApi.resendVerification(unverifiedEmail);
+      toast.success(response.data.message || "Verification email sent");
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.error || "Failed to resend verification email"
+      );
+    } finally {
+      setIsResending(false);
     }
   };
 
@@ -83,6 +144,34 @@ export default function LoginPage() {
 
           {/* Form section */}
           <div className="p-6 sm:p-8">
+            {unverifiedEmail && (
+              <div className="mb-5 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-900">
+                <p>
+                  Please verify{" "}
+                  <span className="font-medium">{unverifiedEmail}</span> before
+                  signing in. Check your inbox for the verification link.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleResendVerification}
+                  disabled={isResending}
+                  className="mt-2 font-medium text-primary hover:text-primary/80 transition-colors disabled:opacity-50"
+                >
+                  {isResending ? "Sending..." : "Resend verification email"}
+                </button>
+              </div>
+            )}
+
+            {lockout && (
+              <div className="mb-5 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+                <p>{lockout.message}</p>
+                <p className="mt-1 font-medium">
+                  You can try again in {Math.floor(secondsLeft / 60)}:
+                  {String(secondsLeft % 60).padStart(2, "0")}.
+                </p>
+              </div>
+            )}
+
             <form className="space-y-5" onSubmit={handleSubmit(onSubmit)}>
               {/* Email field */}
               <div>
@@ -206,7 +295,7 @@ export default function LoginPage() {
               <div className="pt-2">
                 <button
                   type="submit"
-                  disabled={isLoading}
+                  disabled={isLoading || !!lockout}
                   className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:-translate-y-0.5"
                 >
                   {isLoading ? (
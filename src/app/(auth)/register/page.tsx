@@ -6,7 +6,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import Link from "next/link";
 import { useAuth } from "@/lib/auth";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import {
   EnvelopeIcon,
   LockClosedIcon,
@@ -16,8 +16,11 @@ import {
   UserGroupIcon,
   CheckCircleIcon,
   PhoneIcon,
+  KeyIcon,
+  LinkIcon,
 } from "@heroicons/react/24/outline";
 import { toast } from "react-hot-toast";
+import { authApi } from "@/services/api";
 
 // Form validation schema
 const registerSchema = z
@@ -30,6 +33,8 @@ const registerSchema = z
     role: z.enum(["mentor", "mentee"], {
       invalid_type_error: "Please select a role",
     }),
+    // Mentors without a code from an administrator wait for approval
+    inviteCode: z.string().optional(),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords do not match",
@@ -38,11 +43,22 @@ const registerSchema = z
 
 type RegisterFormData = z.infer<typeof registerSchema>;
 
+// Details of a mentor's invite link from GET /api/auth/mentee-invite/:token
+interface MenteeInvite {
+  mentor: { name: string; email: string };
+  section?: string;
+  branch?: string;
+}
+
 export default function RegisterPage() {
   const { register: registerUser, isLoading } = useAuth();
   const router = useRouter();
   const [localRole, setLocalRole] = useState<"mentee" | "mentor">("mentee");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Token from a mentor's invite link (?invite=...)
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [invite, setInvite] = useState<MenteeInvite | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
 
   const {
     register,
@@ -56,6 +72,22 @@ export default function RegisterPage() {
     },
   });
 
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("invite");
+    if (!token) return;
+
+    setInviteToken(token);
+    authApi
+      .getMenteeInvite(token)
+      .then((response) => setInvite(response.data.data))
+      .catch((error) => {
+        setInviteToken(null);
+        setInviteError(
+          error.response?.data?.error || "This invite link could not be checked"
+        );
+      });
+  }, []);
+
   const onSubmit = async (data: RegisterFormData) => {
     try {
       setIsSubmitting(true);
@@ -66,17 +98,18 @@ export default function RegisterPage() {
         role: localRole,
       };
 
-      // Check if URL has a mentorId query parameter
-      const params = new URLSearchParams(window.location.search);
-      const mentorId = params.get("mentorId");
+      // Mentees registering through an invite link are assigned to its mentor
+      if (inviteToken && localRole === "mentee") {
+        submissionData.inviteToken = inviteToken;
+      }
 
-      // If mentorId is present and we're registering a mentee, include it
-      if (mentorId && localRole === "mentee") {
-        submissionData.mentorId = mentorId;
+      if (localRole === "mentee" || !data.inviteCode?.trim()) {
+        delete submissionData.inviteCode;
       }
 
-      // Register the user
-      await registerUser(submissionData, localRole);
+      // Register the user; useAuth sends unverified accounts to /verify-email
+      const signedIn = await registerUser(submissionData, localRole);
+      if (!signedIn) return;
 
       toast.success(
         `Registration successful! Welcome to ReportVerse as a ${
@@ -177,6 +210,35 @@ export default function RegisterPage() {
               onSubmit={handleSubmit(onSubmit)}
               noValidate
             >
+              {/* Mentor invite link */}
+              {invite && (
+                <div className="flex items-start gap-3 bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-900">
+                  <LinkIcon
+                    className="h-5 w-5 flex-shrink-0 text-blue-600"
+                    aria-hidden="true"
+                  />
+                  <p>
+                    You were invited by <strong>{invite.mentor.name}</strong>.
+                    Registering as a mentee assigns you to them
+                    {invite.section || invite.branch
+                      ? ` (${[
+                          invite.section && `section ${invite.section}`,
+                          invite.branch,
+                        ]
+                          .filter(Boolean)
+                          .join(", ")})`
+                      : ""}
+                    .
+                  </p>
+                </div>
+              )}
+              {inviteError && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-900">
+                  {inviteError}. You can still register and ask your mentor to
+                  add you.
+                </div>
+              )}
+
               {/* Name field */}
               <div>
                 <label
@@ -532,6 +594,40 @@ export default function RegisterPage() {
                 </fieldset>
               </div>
 
+              {/* Invite code field (mentors only) */}
+              {localRole === "mentor" && (
+                <div>
+                  <label
+                    htmlFor="inviteCode"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Mentor Invite Code
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                      <KeyIcon
+                        className="h-5 w-5 text-gray-500"
+                        aria-hidden="true"
+                      />
+                    </div>
+                    <input
+                      id="inviteCode"
+                      type="text"
+                      autoComplete="off"
+                      {...register("inviteCode")}
+                      className="pl-12 appearance-none rounded-lg relative block w-full px-4 py-3.5 border border-gray-300 focus:ring-primary placeholder-gray-400 text-gray-900 font-mono uppercase focus:outline-none focus:ring-2 focus:border-transparent transition-all shadow-sm"
+                      placeholder="XXXX-XXXX-XXXX"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <p className="mt-2 text-sm text-gray-500">
+                    Ask your administrator for a code. Without one, your
+                    account has to be approved before you can use mentor
+                    features.
+                  </p>
+                </div>
+              )}
+
               {/* Submit button */}
               <div className="pt-4">
                 <button
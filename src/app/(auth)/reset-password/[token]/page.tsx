@@ -0,0 +1,180 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { authApi } from "@/services/api";
+import {
+  LockClosedIcon,
+  ExclamationCircleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+
+// Form validation schema
+const resetPasswordSchema = z
+  .object({
+    password: z.string().min(6, "Password must be at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordPage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const router = useRouter();
+  const [email, setEmail] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  useEffect(() => {
+    authApi
+      .getPasswordReset(params.token)
+      .then((response) => setEmail(response.data.data.email))
+      .catch((error) =>
+        setError(
+          error.response?.data?.error ||
+            "This password reset link is invalid or has expired"
+        )
+      )
+      .finally(() => setIsLoading(false));
+  }, [params.token]);
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await authApi.resetPassword(params.token, data.password);
+      toast.success(response.data.message || "Your password has been reset");
+      router.push("/login");
+    } catch (error: any) {
+      console.error("Password reset error:", error);
+      toast.error(error.response?.data?.error || "Failed to reset password");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="w-full min-h-screen flex justify-center items-center bg-gradient-to-br from-blue-100 via-indigo-100 to-purple-100">
+      <div className="w-full max-w-md mx-auto px-4 py-8">
+        <div className="bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl overflow-hidden border border-white/20">
+          <div className="bg-primary text-white p-6 text-center">
+            <h2 className="text-2xl font-bold">Reset your password</h2>
+            <p className="text-white/80 text-sm mt-1">
+              Choose a new password for your account
+            </p>
+          </div>
+
+          <div className="p-6 sm:p-8">
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : error || !email ? (
+              <div className="text-center py-6">
+                <ExclamationCircleIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <p className="text-gray-700">{error}</p>
+                <Link
+                  href="/forgot-password"
+                  className="inline-block mt-4 font-medium text-primary hover:text-primary/80 transition-colors"
+                >
+                  Request a new link
+                </Link>
+              </div>
+            ) : (
+              <form className="space-y-5" onSubmit={handleSubmit(onSubmit)}>
+                <div className="bg-blue-50 rounded-lg p-4 text-sm text-blue-900">
+                  Resetting the password for{" "}
+                  <span className="font-medium">{email}</span>. You'll be
+                  signed out everywhere else.
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    New password
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <LockClosedIcon className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="password"
+                      type="password"
+                      autoComplete="new-password"
+                      {...register("password")}
+                      className="pl-10 appearance-none rounded-lg block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="••••••••"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  {errors.password && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {errors.password.message}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="confirmPassword"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Confirm new password
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <LockClosedIcon className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                      id="confirmPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      {...register("confirmPassword")}
+                      className="pl-10 appearance-none rounded-lg block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="••••••••"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  {errors.confirmPassword && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {errors.confirmPassword.message}
+                    </p>
+                  )}
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full py-2.5 px-4 rounded-lg text-white bg-primary hover:bg-primary/90 font-medium transition disabled:opacity-50"
+                >
+                  {isSubmitting ? "Saving..." : "Reset password"}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { authApi } from "@/services/api";
+import { useAuth, getDashboardPath } from "@/lib/auth";
+import {
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+} from "@heroicons/react/24/outline";
+
+export default function VerifyEmailPage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const { user } = useAuth();
+  const [email, setEmail] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The token is single-use, so a second mount must not submit it again
+  const submittedRef = useRef(false);
+
+  useEffect(() => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+
+    authApi
+      .verifyEmail(params.token)
+      .then((response) => setEmail(response.data.data.email))
+      .catch((error) =>
+        setError(
+          error.response?.data?.error ||
+            "This verification link is invalid or has expired"
+        )
+      )
+      .finally(() => setIsLoading(false));
+  }, [params.token]);
+
+  return (
+    <div className="w-full min-h-screen flex justify-center items-center bg-gradient-to-br from-blue-100 via-indigo-100 to-purple-100">
+      <div className="w-full max-w-md mx-auto px-4 py-8">
+        <div className="bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl overflow-hidden border border-white/20">
+          <div className="bg-primary text-white p-6 text-center">
+            <h2 className="text-2xl font-bold">Verify your email</h2>
+          </div>
+
+          <div className="p-6 sm:p-8">
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : error || !email ? (
+              <div className="text-center py-6">
+                <ExclamationCircleIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <p className="text-gray-700">{error}</p>
+                <Link
+                  href="/verify-email"
+                  className="inline-block mt-4 font-medium text-primary hover:text-primary/80 transition-colors"
+                >
+                  Send a new link
+                </Link>
+              </div>
+            ) : (
+              <div className="text-center py-6">
+                <CheckCircleIcon className="h-12 w-12 text-green-500 mx-auto mb-4" />
+                <p className="text-gray-700">
+                  <span className="font-medium">{email}</span> is verified.
+                </p>
+                <Link
+                  href={user ? getDashboardPath(user.role) : "/login"}
+                  className="inline-block mt-4 font-medium text-primary hover:text-primary/80 transition-colors"
+                >
+                  {user ? "Continue" : "Sign in"}
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { authApi } from "@/services/api";
+import { EnvelopeIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+
+// Shown after registering when accounts must verify their email first
+export default function VerifyEmailPromptPage({
+  searchParams,
+}: {
+  searchParams: { email?: string };
+}) {
+  const [email, setEmail] = useState(searchParams.email || "");
+  const [isResending, setIsResending] = useState(false);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) return;
+
+    setIsResending(true);
+    try {
+      const response = await authApi.resendVerification(email);
+      toast.success(response.data.message || "Verification email sent");
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.error || "Failed to resend verification email"
+      );
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="w-full min-h-screen flex justify-center items-center bg-gradient-to-br from-blue-100 via-indigo-100 to-purple-100">
+      <div className="w-full max-w-md mx-auto px-4 py-8">
+        <div className="bg-white/90 backdrop-blur-lg rounded-2xl shadow-xl overflow-hidden border border-white/20">
+          <div className="bg-primary text-white p-6 text-center">
+            <h2 className="text-2xl font-bold">Check your inbox</h2>
+            <p className="text-white/80 text-sm mt-1">
+              Verify your email address to finish signing up
+            </p>
+          </div>
+
+          <div className="p-6 sm:p-8">
+            <div className="text-center">
+              <EnvelopeIcon className="h-12 w-12 text-primary mx-auto mb-4" />
+              <p className="text-gray-700">
+                We sent a verification link
+                {email ? (
+                  <>
+                    {" "}
+                    to <span className="font-medium">{email}</span>
+                  </>
+                ) : null}
+                . Open it to activate your account, then sign in.
+              </p>
+            </div>
+
+            <form className="mt-6 space-y-3" onSubmit={handleResend}>
+              <label
+                htmlFor="email"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Didn't get it? Send it again
+              </label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="appearance-none rounded-lg block w-full px-3 py-2 border border-gray-300 placeholder-gray-400 text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder="you@example.com"
+                required
+                disabled={isResending}
+              />
+              <button
+                type="submit"
+                disabled={isResending || !email}
+                className="w-full py-2.5 px-4 rounded-lg text-white bg-primary hover:bg-primary/90 font-medium transition disabled:opacity-50"
+              >
+                {isResending ? "Sending..." : "Resend verification email"}
+              </button>
+            </form>
+
+            <p className="mt-6 text-center text-sm text-gray-600">
+              Already verified?{" "}
+              <Link
+                href="/login"
+                className="font-medium text-primary hover:text-primary/80 transition-colors"
+              >
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
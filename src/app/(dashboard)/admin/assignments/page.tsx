@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSearchParams } from "next/navigation";
+import { adminApi } from "@/services/api";
+import {
+  UserIcon,
+  ArrowPathIcon,
+  ArrowsRightLeftIcon,
+  ExclamationCircleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+
+interface MentorOption {
+  id: string;
+  email: string;
+  name: string | null;
+  menteeCount?: number;
+}
+
+interface MenteeRow {
+  id: string;
+  email: string;
+  name: string | null;
+  isActive: boolean;
+  assignedMentor: { id: string; email: string; name: string | null } | null;
+}
+
+export default function AdminAssignmentsPage() {
+  const searchParams = useSearchParams();
+  const [mentees, setMentees] = useState<MenteeRow[]>([]);
+  const [mentors, setMentors] = useState<MentorOption[]>([]);
+  const [selectedMentor, setSelectedMentor] = useState<Record<string, string>>(
+    {}
+  );
+  const [unassignedOnly, setUnassignedOnly] = useState(
+    searchParams.get("unassigned") === "true"
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingMenteeId, setSavingMenteeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [unassignedOnly]);
+
+  const fetchData = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [menteeResponse, mentorResponse] = await Promise.all([
+        adminApi.getUsers({
+          role: "mentee",
+          status: "active",
+          unassigned: unassignedOnly || undefined,
+          limit: 100,
+        }),
+        adminApi.getUsers({ role: "mentor", status: "active", limit: 100 }),
+      ]);
+
+      const menteeRows: MenteeRow[] = menteeResponse.data.data || [];
+      setMentees(menteeRows);
+      setMentors(mentorResponse.data.data || []);
+      setSelectedMentor(
+        Object.fromEntries(
+          menteeRows.map((mentee) => [
+            mentee.id,
+            mentee.assignedMentor?.id || "",
+          ])
+        )
+      );
+    } catch (err: any) {
+      console.error("Error fetching assignments:", err);
+      setError(err.response?.data?.error || "Failed to load assignments");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveAssignment = async (mentee: MenteeRow) => {
+    const mentorId = selectedMentor[mentee.id] || null;
+    setSavingMenteeId(mentee.id);
+
+    try {
+      const response = await adminApi.reassignMentee(mentee.id, mentorId);
+      const assignedMentor = response.data.data.assignedMentor;
+
+      setMentees((prev) =>
+        prev.map((m) => (m.id === mentee.id ? { ...m, assignedMentor } : m))
+      );
+      toast.success(
+        mentorId ? "Mentee reassigned successfully" : "Mentee unassigned"
+      );
+    } catch (err: any) {
+      console.error("Error reassigning mentee:", err);
+      toast.error(err.response?.data?.error || "Failed to reassign mentee");
+    } finally {
+      setSavingMenteeId(null);
+    }
+  };
+
+  const mentorLabel = (mentor: { email: string; name: string | null }) =>
+    mentor.name ? `${mentor.name} (${mentor.email})` : mentor.email;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Mentor Assignments</h1>
+          <p className="text-gray-600">
+            Move mentees between mentors or leave them unassigned
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={unassignedOnly}
+              onChange={(e) => setUnassignedOnly(e.target.checked)}
+              className="rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Unassigned only
+          </label>
+          <button
+            onClick={fetchData}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+          >
+            <ArrowPathIcon
+              className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="text-center py-16">
+            <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-2 text-gray-500">Loading assignments...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <ExclamationCircleIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-gray-700">{error}</p>
+            <button
+              className="mt-4 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition"
+              onClick={fetchData}
+            >
+              Try Again
+            </button>
+          </div>
+        ) : mentees.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Mentee
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Current Mentor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    New Mentor
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {mentees.map((mentee) => {
+                  const selected = selectedMentor[mentee.id] || "";
+                  const unchanged =
+                    selected === (mentee.assignedMentor?.id || "");
+
+                  return (
+                    <tr
+                      key={mentee.id}
+                      className="hover:bg-gray-50 transition-colors"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="font-medium text-gray-900">
+                          {mentee.name || "N/A"}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {mentee.email}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {mentee.assignedMentor ? (
+                          mentorLabel(mentee.assignedMentor)
+                        ) : (
+                          <span className="text-amber-600">Unassigned</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <select
+                          value={selected}
+                          onChange={(e) =>
+                            setSelectedMentor((prev) => ({
+                              ...prev,
+                              [mentee.id]: e.target.value,
+                            }))
+                          }
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+                        >
+                          <option value="">No mentor</option>
+                          {mentors.map((mentor) => (
+                            <option key={mentor.id} value={mentor.id}>
+                              {mentorLabel(mentor)} · {mentor.menteeCount || 0}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => saveAssignment(mentee)}
+                          disabled={unchanged || savingMenteeId === mentee.id}
+                          className="inline-flex items-center gap-1 px-3 py-1.5 bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+                        >
+                          <ArrowsRightLeftIcon className="w-4 h-4" />
+                          {savingMenteeId === mentee.id ? "Saving..." : "Apply"}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-16">
+            <UserIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-700">
+              {unassignedOnly
+                ? "Every mentee has a mentor."
+                : "No mentees registered yet."}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { adminApi } from "@/services/api";
+import { useAPIService } from "@/hooks/useAPIService";
+import {
+  UserIcon,
+  UsersIcon,
+  UserMinusIcon,
+  ClipboardDocumentListIcon,
+  TrophyIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import IssueStatusChart from "@/components/ui/charts/IssueStatusChart";
+
+// Interface aligned with GET /api/admin/stats
+interface AdminStats {
+  users: {
+    byRole: Record<string, number>;
+    unassignedMentees: number;
+    inactive: number;
+  };
+  issues: {
+    total: number;
+    open: number;
+    escalated: number;
+    byStatus: Record<string, number>;
+    byType: Record<string, number>;
+  };
+  achievements: {
+    total: number;
+    byType: Record<string, number>;
+  };
+}
+
+// Horizontal bar list for a { label: count } breakdown
+function Breakdown({
+  title,
+  counts,
+  barColor,
+}: {
+  title: string;
+  counts: Record<string, number>;
+  barColor: string;
+}) {
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const max = Math.max(1, ...entries.map(([, count]) => count));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-lg font-semibold mb-4">{title}</h2>
+      {entries.length > 0 ? (
+        <div className="space-y-3">
+          {entries.map(([label, count]) => (
+            <div key={label}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-gray-700">{label}</span>
+                <span className="font-medium">{count}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${barColor}`}
+                  style={{ width: `${(count / max) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 text-center py-6">No data yet</p>
+      )}
+    </div>
+  );
+}
+
+export default function AdminDashboardPage() {
+  const router = useRouter();
+
+  const statsService = useAPIService<AdminStats>(null, {
+    cacheTime: 60 * 1000,
+    errorMessage: "Failed to load institution statistics",
+  });
+
+  useEffect(() => {
+    statsService
+      .execute(() => adminApi.getStats(), {
+        transform: (response) => response.data,
+      })
+      .catch(() => {});
+  }, []);
+
+  const refreshData = () => {
+    statsService
+      .execute(() => adminApi.getStats(), {
+        transform: (response) => response.data,
+        skipCache: true,
+      })
+      .catch(() => {});
+  };
+
+  const stats = statsService.data;
+
+  const statCards = [
+    {
+      title: "Mentors",
+      value: stats?.users.byRole.mentor || 0,
+      icon: UserIcon,
+      color: "bg-blue-50 text-blue-500",
+      onClick: () => router.push("/admin/users?role=mentor"),
+    },
+    {
+      title: "Mentees",
+      value: stats?.users.byRole.mentee || 0,
+      icon: UsersIcon,
+      color: "bg-green-50 text-green-500",
+      onClick: () => router.push("/admin/users?role=mentee"),
+    },
+    {
+      title: "Unassigned Mentees",
+      value: stats?.users.unassignedMentees || 0,
+      icon: UserMinusIcon,
+      color: "bg-amber-50 text-amber-500",
+      onClick: () => router.push("/admin/assignments?unassigned=true"),
+    },
+    {
+      title: "Open Issues",
+      value: stats?.issues.open || 0,
+      icon: ClipboardDocumentListIcon,
+      color: "bg-red-50 text-red-500",
+    },
+    {
+      title: "Escalated Issues",
+      value: stats?.issues.escalated || 0,
+      icon: ExclamationTriangleIcon,
+      color: "bg-orange-50 text-orange-500",
+      onClick: () => router.push("/admin/escalations"),
+    },
+    {
+      title: "Achievements",
+      value: stats?.achievements.total || 0,
+      icon: TrophyIcon,
+      color: "bg-purple-50 text-purple-500",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Institution Overview</h1>
+          <p className="text-gray-600">
+            Users, issues and achievements across all mentors
+          </p>
+        </div>
+        <button
+          onClick={refreshData}
+          disabled={statsService.isLoading}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+        >
+          <ArrowPathIcon
+            className={`w-4 h-4 ${statsService.isLoading ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
+        {statCards.map((stat) => (
+          <div
+            key={stat.title}
+            className={`bg-white rounded-lg shadow-sm p-5 ${
+              stat.onClick
+                ? "cursor-pointer hover:shadow-md transition-shadow"
+                : ""
+            }`}
+            onClick={stat.onClick}
+          >
+            <div className="flex items-center space-x-3">
+              <div className={`p-3 rounded-full ${stat.color}`}>
+                <stat.icon className="w-6 h-6" />
+              </div>
+              <div>
+                <p className="text-gray-500 text-sm">{stat.title}</p>
+                <p className="text-2xl font-bold">
+                  {statsService.isLoading && !stats ? (
+                    <span className="inline-block w-8 h-8 bg-gray-200 rounded-md animate-pulse"></span>
+                  ) : (
+                    stat.value
+                  )}
+                </p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {stats && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <IssueStatusChart
+            title="Issues by Status"
+            counts={stats.issues.byStatus}
+          />
+          <Breakdown
+            title="Issues by Type"
+            counts={stats.issues.byType}
+            barColor="bg-amber-400"
+          />
+          <Breakdown
+            title="Achievements by Type"
+            counts={stats.achievements.byType}
+            barColor="bg-primary"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { adminApi } from "@/services/api";
+import SlaBadge, { IssueSla } from "@/components/ui/SlaBadge";
+import {
+  ArrowPathIcon,
+  ExclamationCircleIcon,
+  ExclamationTriangleIcon,
+  CheckCircleIcon,
+} from "@heroicons/react/24/outline";
+
+interface IssueUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+// Interface aligned with GET /api/admin/issues/escalated
+interface EscalatedIssue {
+  id: string;
+  issueType: string;
+  description: string;
+  status: string;
+  mentee: IssueUser | null;
+  mentor: IssueUser | null;
+  sla?: IssueSla;
+  escalations: {
+    _id: string;
+    kind: "response" | "resolution";
+    note?: string;
+    createdAt: string;
+  }[];
+  createdAt: string;
+}
+
+const formatDateTime = (value?: string) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+const displayName = (user: IssueUser | null) =>
+  user ? user.name || user.email : "Unknown";
+
+export default function AdminEscalationsPage() {
+  const [issues, setIssues] = useState<EscalatedIssue[]>([]);
+  const [includeResolved, setIncludeResolved] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [includeResolved]);
+
+  const fetchIssues = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await adminApi.getEscalatedIssues(includeResolved);
+      setIssues(response.data.data || []);
+    } catch (err: any) {
+      console.error("Error fetching escalated issues:", err);
+      setError(err.response?.data?.error || "Failed to load escalated issues");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Escalations</h1>
+          <p className="text-gray-600">
+            Issues that missed their response or resolution deadline
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeResolved}
+              onChange={(e) => setIncludeResolved(e.target.checked)}
+              className="rounded border-gray-300 text-primary focus:ring-primary/50"
+            />
+            Include resolved
+          </label>
+          <button
+            onClick={fetchIssues}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+          >
+            <ArrowPathIcon
+              className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg shadow-sm text-center py-16">
+          <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          <p className="mt-2 text-gray-500">Loading escalations...</p>
+        </div>
+      ) : error ? (
+        <div className="bg-white rounded-lg shadow-sm text-center py-16">
+          <ExclamationCircleIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <p className="text-gray-700">{error}</p>
+          <button
+            className="mt-4 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition"
+            onClick={fetchIssues}
+          >
+            Try Again
+          </button>
+        </div>
+      ) : issues.length > 0 ? (
+        <div className="space-y-4">
+          {issues.map((issue) => (
+            <div key={issue.id} className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-3">
+                <div>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <h2 className="text-lg font-semibold">{issue.issueType}</h2>
+                    <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                      {issue.status}
+                    </span>
+                    <SlaBadge status={issue.status} sla={issue.sla} />
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Mentee: {displayName(issue.mentee)} · Mentor:{" "}
+                    {displayName(issue.mentor)}
+                  </p>
+                </div>
+                <p className="text-sm text-gray-500 whitespace-nowrap">
+                  Raised {formatDateTime(issue.createdAt)}
+                </p>
+              </div>
+
+              <p className="text-gray-700 mt-3 line-clamp-3">
+                {issue.description}
+              </p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4 text-sm">
+                <div className="bg-gray-50 rounded-md p-3">
+                  <p className="text-gray-500">Response due</p>
+                  <p className="font-medium">
+                    {formatDateTime(issue.sla?.responseDueAt)}
+                  </p>
+                  <p className="text-gray-500 mt-1">
+                    Responded: {formatDateTime(issue.sla?.respondedAt)}
+                  </p>
+                </div>
+                <div className="bg-gray-50 rounded-md p-3">
+                  <p className="text-gray-500">Resolution due</p>
+                  <p className="font-medium">
+                    {formatDateTime(issue.sla?.resolutionDueAt)}
+                  </p>
+                  <p className="text-gray-500 mt-1">
+                    Resolved: {formatDateTime(issue.sla?.resolvedAt)}
+                  </p>
+                </div>
+              </div>
+
+              <ul className="mt-4 space-y-2">
+                {issue.escalations.map((escalation) => (
+                  <li
+                    key={escalation._id}
+                    className="flex items-start gap-2 text-sm text-red-700"
+                  >
+                    <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {escalation.note ||
+                        (escalation.kind === "response"
+                          ? "Response deadline missed"
+                          : "Resolution deadline missed")}
+                      <span className="text-gray-500">
+                        {" "}
+                        · escalated {formatDateTime(escalation.createdAt)}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm text-center py-16">
+          <CheckCircleIcon className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <p className="text-gray-700">
+            {includeResolved
+              ? "No issue has been escalated yet."
+              : "No open issue is past its deadline."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
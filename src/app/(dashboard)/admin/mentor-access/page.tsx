@@ -0,0 +1,423 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { adminApi } from "@/services/api";
+import {
+  ArrowPathIcon,
+  ClipboardDocumentIcon,
+  KeyIcon,
+  UserPlusIcon,
+} from "@heroicons/react/24/outline";
+
+interface CodeUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+// Interface aligned with GET /api/admin/mentor-codes
+interface MentorInviteCode {
+  id: string;
+  hint: string;
+  label?: string;
+  expiresAt: string;
+  maxUses: number;
+  uses: number;
+  revokedAt?: string;
+  usable: boolean;
+  createdBy: CodeUser | null;
+  redemptions: { redeemedAt: string; user: CodeUser | null }[];
+  createdAt: string;
+}
+
+// Interface aligned with GET /api/admin/mentors/pending
+interface PendingMentor {
+  id: string;
+  email: string;
+  name: string | null;
+  phone?: string;
+  emailVerified: boolean;
+  approvalStatus: "pending" | "rejected";
+  reviewedBy: CodeUser | null;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString() : "—";
+
+const codeStatus = (code: MentorInviteCode) => {
+  if (code.revokedAt) return { label: "Revoked", color: "bg-gray-100 text-gray-700" };
+  if (code.uses >= code.maxUses) return { label: "Used up", color: "bg-blue-100 text-blue-700" };
+  if (new Date(code.expiresAt) <= new Date()) return { label: "Expired", color: "bg-amber-100 text-amber-700" };
+  return { label: "Active", color: "bg-green-100 text-green-700" };
+};
+
+export default function AdminMentorAccessPage() {
+  const [codes, setCodes] = useState<MentorInviteCode[]>([]);
+  const [mentors, setMentors] = useState<PendingMentor[]>([]);
+  const [mentorStatus, setMentorStatus] = useState<"pending" | "rejected">(
+    "pending"
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  // New code form
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [maxUses, setMaxUses] = useState(1);
+  const [isCreating, setIsCreating] = useState(false);
+  // Shown once, right after the code is created
+  const [newCode, setNewCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [mentorStatus]);
+
+  const fetchData = async () => {
+    setIsLoading(true);
+
+    try {
+      const [codesResponse, mentorsResponse] = await Promise.all([
+        adminApi.getMentorInviteCodes(),
+        adminApi.getPendingMentors(mentorStatus),
+      ]);
+      setCodes(codesResponse.data.data || []);
+      setMentors(mentorsResponse.data.data || []);
+    } catch (err: any) {
+      console.error("Error fetching mentor access data:", err);
+      toast.error(err.response?.data?.error || "Failed to load mentor access");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const response = await adminApi.createMentorInviteCode({
+        label: label.trim() || undefined,
+        expiresInDays,
+        maxUses,
+      });
+      const { code, ...created } = response.data.data;
+      setNewCode(code);
+      setCodes((current) => [created, ...current]);
+      setLabel("");
+    } catch (err: any) {
+      console.error("Error creating invite code:", err);
+      toast.error(err.response?.data?.error || "Failed to create invite code");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newCode) return;
+
+    try {
+      await navigator.clipboard.writeText(newCode);
+      toast.success("Invite code copied");
+    } catch {
+      toast.error("Could not copy the code");
+    }
+  };
+
+  const handleRevoke = async (codeId: string) => {
+    setActionId(codeId);
+
+    try {
+      const response = await adminApi.revokeMentorInviteCode(codeId);
+      setCodes((current) =>
+        current.map((code) => (code.id === codeId ? response.data.data : code))
+      );
+      toast.success("Invite code revoked");
+    } catch (err: any) {
+      console.error("Error revoking invite code:", err);
+      toast.error(err.response?.data?.error || "Failed to revoke invite code");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleReview = async (mentor: PendingMentor, approve: boolean) => {
+    setActionId(mentor.id);
+
+    try {
+      await adminApi.reviewMentor(mentor.id, approve);
+      setMentors((current) => current.filter((m) => m.id !== mentor.id));
+      toast.success(
+        `${mentor.name || mentor.email} ${approve ? "approved" : "rejected"}`
+      );
+    } catch (err: any) {
+      console.error("Error reviewing mentor:", err);
+      toast.error(err.response?.data?.error || "Failed to update mentor");
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Mentor Access</h1>
+          <p className="text-gray-600">
+            Invite codes for faculty, and mentors who registered without one
+          </p>
+        </div>
+        <button
+          onClick={fetchData}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+        >
+          <ArrowPathIcon
+            className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </button>
+      </div>
+
+      {/* Mentors awaiting approval */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex justify-between items-center mb-4 pb-2 border-b">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <UserPlusIcon className="w-5 h-5 mr-2 text-primary" />
+            Mentor Registrations
+          </h2>
+          <select
+            value={mentorStatus}
+            onChange={(e) =>
+              setMentorStatus(e.target.value as "pending" | "rejected")
+            }
+            className="p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-primary/50"
+          >
+            <option value="pending">Awaiting approval</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+          </div>
+        ) : mentors.length === 0 ? (
+          <p className="text-gray-500 text-sm py-4 text-center">
+            {mentorStatus === "pending"
+              ? "No mentor is waiting for approval."
+              : "No mentor registration has been rejected."}
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {mentors.map((mentor) => (
+              <li
+                key={mentor.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between py-3 gap-3"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {mentor.name || mentor.email}
+                    {!mentor.emailVerified && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-xs">
+                        Email not verified
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {mentor.email}
+                    {mentor.phone ? ` · ${mentor.phone}` : ""} · Registered{" "}
+                    {formatDate(mentor.createdAt)}
+                    {mentor.reviewedBy &&
+                      ` · Rejected by ${
+                        mentor.reviewedBy.name || mentor.reviewedBy.email
+                      } on ${formatDate(mentor.reviewedAt)}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleReview(mentor, true)}
+                    disabled={actionId === mentor.id}
+                    className="px-3 py-1.5 text-sm bg-primary text-white rounded hover:bg-primary/90 transition disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  {mentor.approvalStatus === "pending" && (
+                    <button
+                      onClick={() => handleReview(mentor, false)}
+                      disabled={actionId === mentor.id}
+                      className="px-3 py-1.5 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Invite codes */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center mb-4 pb-2 border-b">
+          <KeyIcon className="w-5 h-5 mr-2 text-primary" />
+          Invite Codes
+        </h2>
+
+        <form
+          onSubmit={handleCreate}
+          className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+        >
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Label
+            </label>
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              maxLength={100}
+              placeholder="e.g. CSE faculty, 2026 intake"
+              className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary/50"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Valid for (days)
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary/50"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Registrations allowed
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={maxUses}
+              onChange={(e) => setMaxUses(Number(e.target.value))}
+              className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary/50"
+            />
+          </div>
+          <div className="md:col-span-4 flex justify-end">
+            <button
+              type="submit"
+              disabled={isCreating}
+              className="px-4 py-2 bg-primary text-white rounded hover:bg-primary/90 transition disabled:opacity-50"
+            >
+              {isCreating ? "Creating..." : "Create code"}
+            </button>
+          </div>
+        </form>
+
+        {newCode && (
+          <div className="mt-4 bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-900">
+            <p>
+              Share this code with the faculty members it is for. It won't be
+              shown again.
+            </p>
+            <div className="mt-2 flex items-center gap-3">
+              <code className="text-lg font-mono font-semibold tracking-wider">
+                {newCode}
+              </code>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="flex items-center gap-1 text-primary hover:text-primary/80"
+              >
+                <ClipboardDocumentIcon className="w-4 h-4" />
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && codes.length === 0 ? (
+          <p className="text-gray-500 text-sm py-4 text-center">
+            No invite codes yet.
+          </p>
+        ) : (
+          <div className="overflow-x-auto mt-6">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">
+                    Code
+                  </th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">
+                    Status
+                  </th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">
+                    Used
+                  </th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">
+                    Expires
+                  </th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">
+                    Registered
+                  </th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {codes.map((code) => {
+                  const status = codeStatus(code);
+                  return (
+                    <tr key={code.id}>
+                      <td className="px-4 py-2">
+                        <p className="font-mono">…{code.hint}</p>
+                        {code.label && (
+                          <p className="text-gray-500">{code.label}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs ${status.color}`}
+                        >
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">
+                        {code.uses} / {code.maxUses}
+                      </td>
+                      <td className="px-4 py-2">{formatDate(code.expiresAt)}</td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {code.redemptions.length > 0
+                          ? code.redemptions
+                              .map((r) => r.user?.name || r.user?.email)
+                              .filter(Boolean)
+                              .join(", ")
+                          : "—"}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {code.usable && (
+                          <button
+                            onClick={() => handleRevoke(code.id)}
+                            disabled={actionId === code.id}
+                            className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
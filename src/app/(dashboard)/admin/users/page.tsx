@@ -0,0 +1,315 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSearchParams } from "next/navigation";
+import { adminApi, AdminUserFilters } from "@/services/api";
+import {
+  UserIcon,
+  ArrowPathIcon,
+  MagnifyingGlassIcon,
+  ExclamationCircleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { useAuth } from "@/lib/auth";
+
+// Interface aligned with GET /api/admin/users
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  phone: string | null;
+  role: "mentor" | "mentee" | "admin" | "committee";
+  isActive: boolean;
+  profileCompleted: boolean;
+  menteeCount?: number;
+  assignedMentor: { id: string; email: string; name: string | null } | null;
+  createdAt: string;
+}
+
+const PAGE_SIZE = 25;
+
+export default function AdminUsersPage() {
+  const searchParams = useSearchParams();
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pages, setPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState<AdminUserFilters>({
+    role: (searchParams.get("role") as AdminUserFilters["role"]) || undefined,
+    page: 1,
+    limit: PAGE_SIZE,
+  });
+  const [searchInput, setSearchInput] = useState("");
+
+  useEffect(() => {
+    fetchUsers();
+  }, [filters]);
+
+  const fetchUsers = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await adminApi.getUsers(filters);
+      setUsers(response.data.data || []);
+      setTotal(response.data.total || 0);
+      setPages(response.data.pages || 1);
+    } catch (err: any) {
+      console.error("Error fetching users:", err);
+      setError(err.response?.data?.error || "Failed to load users");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateFilter = (changes: Partial<AdminUserFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes, page: 1 }));
+  };
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    updateFilter({ search: searchInput.trim() || undefined });
+  };
+
+  const toggleStatus = async (user: AdminUser) => {
+    setUpdatingUserId(user.id);
+
+    try {
+      await adminApi.updateUserStatus(user.id, !user.isActive);
+      setUsers((prev) =>
+        prev.map((u) =>
+          u.id === user.id ? { ...u, isActive: !user.isActive } : u
+        )
+      );
+      toast.success(
+        user.isActive ? "Account deactivated" : "Account reactivated"
+      );
+    } catch (err: any) {
+      console.error("Error updating user status:", err);
+      toast.error(err.response?.data?.error || "Failed to update account");
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const page = filters.page || 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Users</h1>
+          <p className="text-gray-600">
+            {total} account{total === 1 ? "" : "s"} across the institution
+          </p>
+        </div>
+        <button
+          onClick={fetchUsers}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+        >
+          <ArrowPathIcon
+            className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm p-4 flex flex-col md:flex-row gap-3">
+        <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name or email"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition"
+          >
+            Search
+          </button>
+        </form>
+        <select
+          value={filters.role || ""}
+          onChange={(e) =>
+            updateFilter({
+              role: (e.target.value as AdminUserFilters["role"]) || undefined,
+            })
+          }
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+        >
+          <option value="">All roles</option>
+          <option value="mentor">Mentors</option>
+          <option value="mentee">Mentees</option>
+          <option value="admin">Admins</option>
+          <option value="committee">Committee</option>
+        </select>
+        <select
+          value={filters.status || ""}
+          onChange={(e) =>
+            updateFilter({
+              status:
+                (e.target.value as AdminUserFilters["status"]) || undefined,
+            })
+          }
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+        >
+          <option value="">Any status</option>
+          <option value="active">Active</option>
+          <option value="inactive">Deactivated</option>
+        </select>
+      </div>
+
+      {/* Users Table */}
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="text-center py-16">
+            <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-2 text-gray-500">Loading users...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <ExclamationCircleIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-gray-700">{error}</p>
+            <button
+              className="mt-4 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition"
+              onClick={fetchUsers}
+            >
+              Try Again
+            </button>
+          </div>
+        ) : users.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Mentor / Mentees
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map((user) => (
+                  <tr key={user.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <div className="flex-shrink-0 h-10 w-10 bg-blue-100 rounded-full flex items-center justify-center">
+                          <UserIcon className="h-5 w-5 text-blue-500" />
+                        </div>
+                        <div className="ml-4">
+                          <div className="font-medium text-gray-900">
+                            {user.name || "N/A"}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {user.email}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-600 capitalize">
+                      {user.role}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {user.role === "mentor"
+                        ? `${user.menteeCount || 0} mentee${
+                            user.menteeCount === 1 ? "" : "s"
+                          }`
+                        : user.role === "mentee"
+                        ? user.assignedMentor
+                          ? user.assignedMentor.name ||
+                            user.assignedMentor.email
+                          : "Unassigned"
+                        : "—"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          user.isActive
+                            ? "bg-green-100 text-green-800"
+                            : "bg-red-100 text-red-800"
+                        }`}
+                      >
+                        {user.isActive ? "Active" : "Deactivated"}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {user.id !== currentUser?.id && (
+                        <button
+                          onClick={() => toggleStatus(user)}
+                          disabled={updatingUserId === user.id}
+                          className={`transition disabled:opacity-50 ${
+                            user.isActive
+                              ? "text-red-600 hover:text-red-800"
+                              : "text-primary hover:text-primary/80"
+                          }`}
+                        >
+                          {updatingUserId === user.id
+                            ? "Saving..."
+                            : user.isActive
+                            ? "Deactivate"
+                            : "Reactivate"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-16">
+            <UserIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-700">No users match these filters.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pages > 1 && (
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-gray-600">
+            Page {page} of {pages}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setFilters((prev) => ({ ...prev, page: page - 1 }))}
+              disabled={page <= 1 || isLoading}
+              className="px-3 py-2 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setFilters((prev) => ({ ...prev, page: page + 1 }))}
+              disabled={page >= pages || isLoading}
+              className="px-3 py-2 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { committeeApi } from "@/services/api";
+import SlaBadge, { IssueSla } from "@/components/ui/SlaBadge";
+import {
+  ArrowPathIcon,
+  ExclamationCircleIcon,
+  FunnelIcon,
+  ShieldCheckIcon,
+  EyeSlashIcon,
+  UserIcon,
+} from "@heroicons/react/24/outline";
+
+// Interface aligned with GET /api/committee/issues
+interface ConfidentialIssue {
+  _id: string;
+  issueType: string;
+  description: string;
+  status: string;
+  anonymous: boolean;
+  identityDisclosure: {
+    status: "none" | "requested" | "granted" | "declined";
+  };
+  reporter: { _id: string; email: string; name?: string } | null;
+  sla?: IssueSla;
+  createdAt: string;
+}
+
+type StatusFilter = "All" | "Open" | "Under Review" | "Resolved" | "Closed";
+
+const statusOptions: StatusFilter[] = [
+  "All",
+  "Open",
+  "Under Review",
+  "Resolved",
+  "Closed",
+];
+
+// Get status badge color based on status
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "Open":
+      return "bg-red-100 text-red-800";
+    case "Under Review":
+      return "bg-amber-100 text-amber-800";
+    case "Resolved":
+      return "bg-green-100 text-green-800";
+    case "Closed":
+      return "bg-gray-100 text-gray-800";
+    default:
+      return "bg-blue-100 text-blue-800";
+  }
+};
+
+export default function CommitteeDashboardPage() {
+  const router = useRouter();
+  const [issues, setIssues] = useState<ConfidentialIssue[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("All");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [statusFilter]);
+
+  const fetchIssues = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await committeeApi.getIssues(
+        statusFilter === "All" ? undefined : statusFilter
+      );
+      setIssues(response.data.data || []);
+    } catch (err: any) {
+      console.error("Error fetching confidential issues:", err);
+      setError(err.response?.data?.error || "Failed to load cases");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Confidential Cases</h1>
+          <p className="text-gray-600">
+            Ragging and harassment reports for the anti-ragging committee
+          </p>
+        </div>
+        <button
+          onClick={fetchIssues}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+        >
+          <ArrowPathIcon
+            className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex items-center space-x-2">
+          <FunnelIcon className="w-5 h-5 text-gray-500" />
+          <span className="text-sm font-medium">Filter by status:</span>
+          <div className="flex flex-wrap gap-2">
+            {statusOptions.map((status) => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-3 py-1 text-xs font-medium rounded-full ${
+                  statusFilter === status
+                    ? "bg-primary text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {status}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Cases Table */}
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="text-center py-16">
+            <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-2 text-gray-500">Loading cases...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <ExclamationCircleIcon className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-gray-700">{error}</p>
+            <button
+              className="mt-4 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition"
+              onClick={fetchIssues}
+            >
+              Try Again
+            </button>
+          </div>
+        ) : issues.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Case
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reporter
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {issues.map((issue) => (
+                  <tr
+                    key={issue._id}
+                    className="hover:bg-gray-50 transition-colors"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <div className="flex-shrink-0 h-10 w-10 bg-red-100 rounded-full flex items-center justify-center">
+                          <ShieldCheckIcon className="h-5 w-5 text-red-500" />
+                        </div>
+                        <div className="ml-4">
+                          <div className="font-medium text-gray-900 truncate max-w-xs">
+                            {issue.issueType}
+                          </div>
+                          <div className="text-sm text-gray-500 truncate max-w-xs">
+                            {issue.description}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {issue.reporter ? (
+                        <span className="flex items-center">
+                          <UserIcon className="h-4 w-4 mr-2 text-blue-500" />
+                          {issue.reporter.name || issue.reporter.email}
+                        </span>
+                      ) : (
+                        <span className="flex items-center text-gray-500">
+                          <EyeSlashIcon className="h-4 w-4 mr-2" />
+                          Anonymous
+                          {issue.identityDisclosure.status === "requested" &&
+                            " · consent requested"}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex flex-col items-start gap-1">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(
+                            issue.status
+                          )}`}
+                        >
+                          {issue.status}
+                        </span>
+                        <SlaBadge status={issue.status} sla={issue.sla} />
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(issue.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() =>
+                          router.push(`/committee/issues/${issue._id}`)
+                        }
+                        className="text-primary hover:text-primary/80"
+                      >
+                        View
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-16">
+            <ShieldCheckIcon className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {statusFilter !== "All"
+                ? `No ${statusFilter.toLowerCase()} cases.`
+                : "No confidential cases have been reported."}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { committeeApi } from "@/services/api";
+import SlaBadge, { IssueSla } from "@/components/ui/SlaBadge";
+import StatusTimeline, { StatusChange } from "@/components/ui/StatusTimeline";
+import { useRealtimeEvent, IssueEvent } from "@/hooks/useRealtime";
+import {
+  ArrowLeftIcon,
+  ExclamationCircleIcon,
+  EyeSlashIcon,
+  UserCircleIcon,
+  ChatBubbleLeftIcon,
+  PaperAirplaneIcon,
+  ShieldCheckIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+
+// Interface aligned with GET /api/committee/issues/:issueId
+interface ConfidentialIssue {
+  _id: string;
+  issueType: string;
+  description: string;
+  status: string;
+  anonymous: boolean;
+  identityDisclosure: {
+    status: "none" | "requested" | "granted" | "declined";
+    reason?: string;
+    requestedAt?: string;
+    respondedAt?: string;
+  };
+  reporter: { _id: string; email: string; name?: string } | null;
+  comments: {
+    _id: string;
+    user: {
+      _id: string | null;
+      email: string | null;
+      name?: string;
+      role: string;
+    } | null;
+    text: string;
+    createdAt: string;
+  }[];
+  statusHistory: StatusChange[];
+  sla?: IssueSla;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const statusOptions = ["Open", "Under Review", "Resolved", "Closed"];
+
+const formatDate = (dateString?: string) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "";
+
+export default function CommitteeIssuePage() {
+  const params = useParams();
+  const router = useRouter();
+  const issueId = params.issueId as string;
+
+  const [issue, setIssue] = useState<ConfidentialIssue | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [comment, setComment] = useState("");
+  const [newStatus, setNewStatus] = useState("");
+  const [statusReason, setStatusReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showIdentityDialog, setShowIdentityDialog] = useState(false);
+  const [identityReason, setIdentityReason] = useState("");
+  const [isRequestingIdentity, setIsRequestingIdentity] = useState(false);
+
+  useEffect(() => {
+    fetchIssue();
+  }, [issueId]);
+
+  const fetchIssue = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await committeeApi.getIssue(issueId);
+      setIssue(response.data.data);
+      setNewStatus(response.data.data.status);
+    } catch (err: any) {
+      console.error("Error fetching confidential issue:", err);
+      setError(err.response?.data?.error || "Failed to load case");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Pick up the reporter's replies and consent answers without a reload
+  useRealtimeEvent<IssueEvent>("issue", async (event) => {
+    if (event.issueId !== issueId) return;
+
+    try {
+      const response = await committeeApi.getIssue(issueId);
+      setIssue(response.data.data);
+    } catch (err) {
+      console.error("Error refreshing confidential issue:", err);
+    }
+  });
+
+  const handleSubmitComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!comment.trim()) {
+      toast.error("Comment cannot be empty");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const statusChanged = newStatus !== issue?.status;
+      const response = await committeeApi.addComment(
+        issueId,
+        comment.trim(),
+        statusChanged ? newStatus : undefined,
+        statusChanged ? statusReason : undefined
+      );
+      setIssue(response.data.data);
+      setNewStatus(response.data.data.status);
+      setComment("");
+      setStatusReason("");
+      toast.success("Response added");
+    } catch (err: any) {
+      console.error("Error adding committee comment:", err);
+      toast.error(err.response?.data?.error || "Failed to add response");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRequestIdentity = async () => {
+    if (!identityReason.trim()) {
+      toast.error("Please give a reason for the request");
+      return;
+    }
+
+    setIsRequestingIdentity(true);
+
+    try {
+      const response = await committeeApi.requestIdentity(
+        issueId,
+        identityReason.trim()
+      );
+      setIssue(response.data.data);
+      setShowIdentityDialog(false);
+      setIdentityReason("");
+      toast.success("The reporter has been asked for consent");
+    } catch (err: any) {
+      console.error("Error requesting reporter identity:", err);
+      toast.error(err.response?.data?.error || "Failed to send request");
+    } finally {
+      setIsRequestingIdentity(false);
+    }
+  };
+
+  const disclosure = issue?.identityDisclosure;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center mb-6">
+        <button
+          onClick={() => router.push("/committee/dashboard")}
+          className="mr-4 flex items-center text-gray-500 hover:text-gray-700 transition"
+        >
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to Cases
+        </button>
+        <h1 className="text-2xl font-bold">Case Details</h1>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : error || !issue ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+          <p className="flex items-center">
+            <ExclamationCircleIcon className="h-5 w-5 mr-2" />
+            {error || "Case not found"}
+          </p>
+          <button
+            onClick={() => router.push("/committee/dashboard")}
+            className="mt-4 px-4 py-2 bg-white border border-red-300 text-red-700 rounded hover:bg-red-50 transition"
+          >
+            Return to Cases
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Case Details */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-6">
+              <div className="flex items-center">
+                <ShieldCheckIcon className="h-6 w-6 mr-2 text-red-500" />
+                <div>
+                  <div className="text-lg font-semibold">{issue.issueType}</div>
+                  <div className="text-sm text-gray-500">
+                    Reported {formatDate(issue.createdAt)}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <SlaBadge status={issue.status} sla={issue.sla} />
+                <span className="px-3 py-1 text-sm rounded-full bg-gray-100 text-gray-800">
+                  {issue.status}
+                </span>
+              </div>
+            </div>
+
+            <div className="mb-6">
+              <div className="text-sm text-gray-500 mb-1">Description</div>
+              <div className="bg-gray-50 p-4 rounded-lg whitespace-pre-wrap">
+                {issue.description}
+              </div>
+            </div>
+
+            {/* Reporter */}
+            <div className="border border-gray-200 rounded-lg p-4">
+              <div className="text-sm text-gray-500 mb-2">Reporter</div>
+              {issue.reporter ? (
+                <div className="flex items-center">
+                  <UserCircleIcon className="h-5 w-5 mr-2 text-blue-500" />
+                  <span className="font-medium">
+                    {issue.reporter.name || issue.reporter.email}
+                  </span>
+                  {issue.reporter.name && (
+                    <span className="text-gray-500 ml-2">
+                      {issue.reporter.email}
+                    </span>
+                  )}
+                  {issue.anonymous && (
+                    <span className="ml-3 text-xs text-green-700">
+                      Revealed with consent {formatDate(disclosure?.respondedAt)}
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="flex items-center text-gray-700">
+                    <EyeSlashIcon className="h-5 w-5 mr-2 text-gray-500" />
+                    <span>
+                      Filed anonymously.
+                      {disclosure?.status === "requested" &&
+                        ` Consent requested ${formatDate(
+                          disclosure.requestedAt
+                        )}; awaiting the reporter's answer.`}
+                      {disclosure?.status === "declined" &&
+                        ` The reporter declined to reveal their identity ${formatDate(
+                          disclosure.respondedAt
+                        )}.`}
+                    </span>
+                  </div>
+                  {disclosure?.status !== "requested" && (
+                    <button
+                      onClick={() => setShowIdentityDialog(true)}
+                      className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition"
+                    >
+                      Request Identity
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Status History */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold mb-4">Status History</h2>
+            <StatusTimeline
+              history={issue.statusHistory}
+              createdAt={issue.createdAt}
+            />
+          </div>
+
+          {/* Comments */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold mb-4 flex items-center">
+              <ChatBubbleLeftIcon className="h-5 w-5 mr-2 text-primary" />
+              Comments &amp; Updates
+            </h2>
+
+            {issue.comments.length > 0 ? (
+              <div className="space-y-4">
+                {issue.comments.map((item) => (
+                  <div key={item._id} className="bg-gray-50 p-4 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center">
+                        <UserCircleIcon className="h-5 w-5 mr-2 text-gray-500" />
+                        <span className="font-medium">
+                          {item.user?.role === "mentee"
+                            ? `Reporter: ${item.user.name || item.user.email}`
+                            : `Committee: ${
+                                item.user?.name || item.user?.email || "Unknown"
+                              }`}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {formatDate(item.createdAt)}
+                      </div>
+                    </div>
+                    <div className="text-gray-700 ml-7 whitespace-pre-wrap">
+                      {item.text}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                No responses yet.
+              </div>
+            )}
+
+            <form
+              onSubmit={handleSubmitComment}
+              className="mt-6 pt-6 border-t border-gray-200 space-y-3"
+            >
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-primary focus:border-primary"
+                rows={3}
+                placeholder="Respond to the reporter..."
+                disabled={isSubmitting}
+              ></textarea>
+              {newStatus !== issue.status && (
+                <input
+                  type="text"
+                  value={statusReason}
+                  onChange={(e) => setStatusReason(e.target.value)}
+                  maxLength={300}
+                  placeholder={`Reason for marking this case "${newStatus}" (optional)`}
+                  className="w-full border border-gray-300 rounded-md p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                />
+              )}
+              <div className="flex flex-col sm:flex-row justify-end gap-3">
+                <select
+                  value={newStatus}
+                  onChange={(e) => setNewStatus(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+                >
+                  {statusOptions.map((status) => (
+                    <option key={status} value={status}>
+                      {status}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !comment.trim()}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+                >
+                  <PaperAirplaneIcon className="h-4 w-4" />
+                  {isSubmitting ? "Sending..." : "Send Response"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Identity request dialog */}
+      {showIdentityDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold mb-2">
+              Request the reporter's identity
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              The reporter will see your reason and can accept or decline.
+              Their identity stays hidden unless they agree.
+            </p>
+            <textarea
+              value={identityReason}
+              onChange={(e) => setIdentityReason(e.target.value)}
+              rows={4}
+              placeholder="Why does the committee need to know who filed this report?"
+              className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-primary focus:border-primary"
+            />
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                onClick={() => setShowIdentityDialog(false)}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRequestIdentity}
+                disabled={isRequestingIdentity || !identityReason.trim()}
+                className="px-4 py-2 bg-primary text-white rounded hover:bg-primary/90 transition disabled:opacity-50"
+              >
+                {isRequestingIdentity ? "Sending..." : "Send Request"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
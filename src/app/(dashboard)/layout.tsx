@@ -7,6 +7,8 @@ import { useAuth } from "@/lib/auth";
 import Sidebar from "@/components/layout/Sidebar";
 import Header from "@/components/layout/Header";
 import Loading from "@/components/ui/Loading";
+import PendingApproval from "@/components/layout/PendingApproval";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
 import IssueNotifications from "./mentor/issues/components/IssueNotifications";
 
 export default function DashboardLayout({
@@ -14,7 +16,7 @@ export default function DashboardLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const { user, isLoading, isAuthenticated } = useAuth();
+  const { user, isLoading, isAuthenticated, refreshUser } = useAuth();
   const pathname = usePathname();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
@@ -25,6 +27,13 @@ export default function DashboardLayout({
     }
   }, [isLoading, isAuthenticated]);
 
+  // Let a pending mentor in as soon as an administrator approves them
+  useRealtimeEvent<{ type: string }>("notification", (notification) => {
+    if (notification.type === "mentor_reviewed") {
+      refreshUser().catch(() => {});
+    }
+  });
+
   // Log user role for debugging
   useEffect(() => {
     if (user) {
@@ -43,11 +52,24 @@ export default function DashboardLayout({
   }
 
   // Force refresh local user data from localStorage
-  const userRole = pathname?.startsWith("/mentor") ? "mentor" : "mentee";
+  const userRole = pathname?.startsWith("/mentor")
+    ? "mentor"
+    : pathname?.startsWith("/admin")
+    ? "admin"
+    : pathname?.startsWith("/committee")
+    ? "committee"
+    : "mentee";
 
   console.log("Path-based role:", userRole);
   console.log("User object role:", user.role);
 
+  // Unapproved mentors can only reach their account settings
+  const awaitingApproval =
+    user.role === "mentor" &&
+    (user.approvalStatus === "pending" || user.approvalStatus === "rejected")
+      ? user.approvalStatus
+      : null;
+
   return (
     <div className="min-h-screen bg-gray-50 flex">
       {/* Sidebar - explicitly use the userRole based on current path */}
@@ -60,8 +82,14 @@ export default function DashboardLayout({
       {/* Main content */}
       <div className="flex-1 flex flex-col">
         <Header user={user} onMenuClick={() => setIsSidebarOpen(true)} />
-        <main className="flex-1 p-4 md:p-6 overflow-auto">{children}</main>
-        {user?.role === "mentor" && <IssueNotifications />}
+        <main className="flex-1 p-4 md:p-6 overflow-auto">
+          {awaitingApproval && !pathname?.startsWith("/mentor/settings") ? (
+            <PendingApproval status={awaitingApproval} />
+          ) : (
+            children
+          )}
+        </main>
+        {user?.role === "mentor" && !awaitingApproval && <IssueNotifications />}
       </div>
     </div>
   );
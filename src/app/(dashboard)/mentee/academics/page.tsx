@@ -1,7 +1,7 @@
 // @ts-nocheck - Type checking disabled due to issues with useFieldArray and React Hook Form
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { toast } from "react-hot-toast";
 import {
   useForm,
@@ -11,7 +11,16 @@ import {
 } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { menteeApi } from "@/services/api";
+import {
+  menteeApi,
+  AcademicSummary,
+  GradeScaleEntry,
+} from "@/services/api";
+import VerificationBadge, {
+  Verification,
+} from "@/components/ui/VerificationBadge";
+import CgpaTrend from "@/components/ui/CgpaTrend";
+import BacklogList from "@/components/ui/BacklogList";
 import {
   AcademicCapIcon,
   PlusIcon,
@@ -22,6 +31,7 @@ import {
   CloudArrowUpIcon,
   GlobeAltIcon,
   DocumentTextIcon,
+  BookOpenIcon,
 } from "@heroicons/react/24/outline";
 
 // Define schema based on AcademicRecord model
@@ -38,14 +48,45 @@ const academicsSchema = z.object({
         .max(10, "GPA cannot exceed 10"),
     })
   ),
+  subjects: z.array(
+    z.object({
+      semester: z
+        .number()
+        .min(1, "Semester must be at least 1")
+        .max(12, "Semester cannot exceed 12"),
+      code: z.string().optional(),
+      name: z.string().min(1, "Subject name is required"),
+      credits: z.number().min(0, "Credits cannot be negative"),
+      internalMarks: z.number().min(0, "Marks cannot be negative").optional(),
+      externalMarks: z.number().min(0, "Marks cannot be negative").optional(),
+      grade: z.string().min(1, "Grade is required"),
+      attempt: z.number().min(1, "Attempt must be at least 1"),
+      examSemester: z
+        .number()
+        .min(1, "Semester must be at least 1")
+        .max(12, "Semester cannot exceed 12")
+        .optional(),
+    })
+  ),
   moocCourses: z.array(z.string().min(1, "Course name is required")),
-  certifications: z.array(z.string().min(1, "Certification name is required")),
+  certifications: z.array(
+    z.object({
+      name: z.string().min(1, "Certification name is required"),
+    })
+  ),
   backlogs: z.number().min(0, "Backlogs cannot be negative"),
+  attendance: z
+    .number()
+    .min(0, "Attendance cannot be negative")
+    .max(100, "Attendance cannot exceed 100%")
+    .nullable(),
   semesterMarksheets: z
     .array(
       z.object({
         semester: z.number().min(1, "Semester must be at least 1"),
-        imageUrl: z.string().optional(),
+        fileKey: z.string().optional(),
+        fileName: z.string().optional(),
+        mimeType: z.string().optional(),
       })
     )
     .optional(),
@@ -53,6 +94,27 @@ const academicsSchema = z.object({
 
 type AcademicsFormData = z.infer<typeof academicsSchema>;
 
+// Marksheet as stored on the server (only metadata, the file lives in storage)
+interface StoredMarksheet {
+  semester: number;
+  fileKey: string;
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  uploadedAt?: string;
+  verification?: Verification;
+}
+
+// Must match the limits enforced by the upload endpoint
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ACCEPTED_FILE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+];
+
 export default function AcademicsPage() {
   const [editMode, setEditMode] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -61,8 +123,15 @@ export default function AcademicsPage() {
   const [selectedFiles, setSelectedFiles] = useState<{
     [key: number]: File | null;
   }>({});
+  // Object URLs for previews of newly selected image files
   const [previewUrls, setPreviewUrls] = useState<{ [key: number]: string }>({});
+  const [savedMarksheets, setSavedMarksheets] = useState<{
+    [key: number]: StoredMarksheet;
+  }>({});
+  const [removedSemesters, setRemovedSemesters] = useState<number[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [summary, setSummary] = useState<AcademicSummary | null>(null);
+  const [gradingScale, setGradingScale] = useState<GradeScaleEntry[]>([]);
 
   // Initialize form with react-hook-form
   const {
@@ -70,14 +139,17 @@ export default function AcademicsPage() {
     handleSubmit,
     control,
     reset,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<AcademicsFormData>({
     resolver: zodResolver(academicsSchema),
     defaultValues: {
       semesterGPA: [],
+      subjects: [],
       moocCourses: [],
       certifications: [],
       backlogs: 0,
+      attendance: null,
       semesterMarksheets: [],
     },
   });
@@ -88,6 +160,24 @@ export default function AcademicsPage() {
     name: "semesterGPA",
   });
 
+  const subjectsArray = useFieldArray({
+    control,
+    name: "subjects",
+  });
+
+  // Semesters whose GPA is calculated from subject grades
+  const subjectSemesters = new Set(
+    (watch("subjects") || []).map((subject) => subject.semester)
+  );
+
+  // Grades worth no points are fails and leave a backlog
+  const isFailingGrade = (grade: string) =>
+    gradingScale.some((entry) => entry.grade === grade && entry.points === 0);
+
+  // Blank optional number inputs are stored as "not entered"
+  const parseOptionalNumber = (value: string) =>
+    value === "" ? undefined : parseFloat(value);
+
   // @ts-ignore - TypeScript issue with field paths
   const moocCoursesArray = useFieldArray({
     control,
@@ -100,9 +190,24 @@ export default function AcademicsPage() {
     name: "certifications",
   });
 
-  // Load academic data on mount
+  // Load academic data and the grades subjects can be given on mount
   useEffect(() => {
     loadAcademicData();
+    menteeApi
+      .getGradingScale()
+      .then((response) => setGradingScale(response.data.data || []))
+      .catch((error) => console.error("Grading scale load error:", error));
+  }, []);
+
+  // Release preview object URLs on unmount
+  const previewUrlsRef = useRef(previewUrls);
+  previewUrlsRef.current = previewUrls;
+  useEffect(() => {
+    return () => {
+      Object.values(previewUrlsRef.current).forEach((url) =>
+        URL.revokeObjectURL(url)
+      );
+    };
   }, []);
 
   // Function to load academic data
@@ -119,31 +224,36 @@ export default function AcademicsPage() {
       // Format and set form data
       reset({
         semesterGPA: academicData.semesterGPA || [],
+        subjects: academicData.subjects || [],
         moocCourses: academicData.moocCourses || [],
         certifications: academicData.certifications || [],
         backlogs: academicData.backlogs || 0,
+        attendance: academicData.attendance ?? null,
         semesterMarksheets: academicData.semesterMarksheets || [],
       });
 
-      // Set preview URLs for existing marksheets
-      const previews: { [key: number]: string } = {};
-      academicData.semesterMarksheets?.forEach((marksheet: any) => {
-        if (marksheet.imageUrl) {
-          previews[marksheet.semester] = marksheet.imageUrl;
-        }
+      // Index stored marksheets by semester
+      const marksheets: { [key: number]: StoredMarksheet } = {};
+      academicData.semesterMarksheets?.forEach((marksheet: StoredMarksheet) => {
+        marksheets[marksheet.semester] = marksheet;
       });
-      setPreviewUrls(previews);
+      setSavedMarksheets(marksheets);
+      setSummary(response.data.summary || null);
 
       setAcademicDataExists(true);
     } catch (error: any) {
       if (error.response?.status === 404) {
         // Handle 404 - academic record doesn't exist yet
         setAcademicDataExists(false);
+        setSavedMarksheets({});
+        setSummary(null);
         reset({
           semesterGPA: [],
+          subjects: [],
           moocCourses: [],
           certifications: [],
           backlogs: 0,
+          attendance: null,
           semesterMarksheets: [],
         });
         // No need to show error for 404
@@ -159,121 +269,61 @@ export default function AcademicsPage() {
 
   // Handle file change for marksheets
   const handleFileChange = (semester: number, file: File | null) => {
-    setSelectedFiles((prev) => ({
-      ...prev,
-      [semester]: file,
-    }));
-
     if (file) {
-      // Check if file is too large (5MB limit)
-      const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
       if (file.size > MAX_FILE_SIZE) {
         toast.error(`File is too large. Maximum size is 5MB.`);
         return;
       }
 
-      // Check file type
-      if (
-        !["image/jpeg", "image/png", "image/gif", "image/webp"].includes(
-          file.type
-        )
-      ) {
-        toast.error("Only image files (JPEG, PNG, GIF, WebP) are supported.");
+      if (!ACCEPTED_FILE_TYPES.includes(file.type)) {
+        toast.error(
+          "Only image files (JPEG, PNG, GIF, WebP) and PDF documents are supported."
+        );
         return;
       }
+    }
 
-      console.log(
-        `Processing image for semester ${semester}: ${file.name} (${file.size} bytes)`
-      );
+    setSelectedFiles((prev) => ({
+      ...prev,
+      [semester]: file,
+    }));
 
-      const reader = new FileReader();
-
-      reader.onloadend = () => {
-        try {
-          // Create a placeholder for the image to show it's processing
-          setPreviewUrls((prev) => ({
-            ...prev,
-            [semester]: reader.result as string,
-          }));
-
-          // Create an image for compression
-          const img = new Image();
-          img.onload = () => {
-            try {
-              // Create a canvas to resize the image
-              const canvas = document.createElement("canvas");
-
-              // Set max dimensions for the image (to reduce size)
-              const MAX_WIDTH = 800;
-              const MAX_HEIGHT = 800;
-
-              let width = img.width;
-              let height = img.height;
-
-              // Maintain aspect ratio while resizing
-              if (width > height) {
-                if (width > MAX_WIDTH) {
-                  height *= MAX_WIDTH / width;
-                  width = MAX_WIDTH;
-                }
-              } else {
-                if (height > MAX_HEIGHT) {
-                  width *= MAX_HEIGHT / height;
-                  height = MAX_HEIGHT;
-                }
-              }
-
-              // Set canvas dimensions
-              canvas.width = width;
-              canvas.height = height;
-
-              // Draw image on canvas
-              const ctx = canvas.getContext("2d");
-              if (ctx) {
-                ctx.drawImage(img, 0, 0, width, height);
-
-                // Get compressed image data (0.85 quality)
-                const compressedDataUrl = canvas.toDataURL("image/jpeg", 0.85);
-
-                // Update preview with compressed image
-                setPreviewUrls((prev) => ({
-                  ...prev,
-                  [semester]: compressedDataUrl,
-                }));
-
-                console.log(
-                  `Image for semester ${semester} compressed successfully`
-                );
-              }
-            } catch (err) {
-              console.error("Error compressing image:", err);
-              toast.error(
-                "Error processing image. Please try a different file."
-              );
-            }
-          };
-
-          img.onerror = () => {
-            console.error("Error loading image for compression");
-            toast.error("Error processing image. Please try a different file.");
-          };
-
-          // Start the image loading and compression process
-          img.src = reader.result as string;
-        } catch (err) {
-          console.error("Error processing image:", err);
-          toast.error(
-            "Error processing image. Please try again with a different file."
-          );
-        }
-      };
+    setPreviewUrls((prev) => {
+      const updated = { ...prev };
+      if (updated[semester]) {
+        URL.revokeObjectURL(updated[semester]);
+        delete updated[semester];
+      }
+      // Only images get an inline preview, PDFs are shown by name
+      if (file && file.type.startsWith("image/")) {
+        updated[semester] = URL.createObjectURL(file);
+      }
+      return updated;
+    });
+  };
 
-      reader.onerror = () => {
-        console.error("Error reading file");
-        toast.error("Error reading file. Please try again.");
-      };
+  // Remove a marksheet, either a newly selected file or a stored one
+  const handleRemoveMarksheet = (semester: number) => {
+    handleFileChange(semester, null);
 
-      reader.readAsDataURL(file);
+    if (savedMarksheets[semester]) {
+      setRemovedSemesters((prev) =>
+        prev.includes(semester) ? prev : [...prev, semester]
+      );
+    }
+  };
+
+  // Open a stored marksheet in a new tab
+  const viewMarksheet = async (semester: number) => {
+    try {
+      const response = await menteeApi.getMarksheet(semester);
+      const url = URL.createObjectURL(response.data);
+      window.open(url, "_blank", "noopener,noreferrer");
+      // Give the new tab time to load the file before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error) {
+      toast.error("Failed to open marksheet");
+      console.error("Marksheet download error:", error);
     }
   };
 
@@ -282,44 +332,15 @@ export default function AcademicsPage() {
     try {
       setIsUploading(true);
 
-      // Create an array for the semester marksheets
-      let semesterMarksheets = [...(data.semesterMarksheets || [])];
-
-      // Update marksheets with selected files
-      for (const [semesterStr, file] of Object.entries(selectedFiles)) {
-        if (!file) continue;
-
-        const semester = parseInt(semesterStr);
-        // In a real app, you would upload the file to a server here
-        // and get back a URL to store. For this demo, we'll use the data URL
-        // that we created in handleFileChange
-        const imageUrl = previewUrls[semester];
-
-        // Find if this semester already exists in the marksheets
-        const existingIndex = semesterMarksheets.findIndex(
-          (m) => m.semester === semester
-        );
-
-        if (existingIndex >= 0) {
-          // Update existing marksheet
-          semesterMarksheets[existingIndex].imageUrl = imageUrl;
-        } else {
-          // Add new marksheet
-          semesterMarksheets.push({
-            semester,
-            imageUrl,
-          });
+      // Delete stored marksheets that were removed and not replaced
+      for (const semester of removedSemesters) {
+        if (!selectedFiles[semester]) {
+          await menteeApi.deleteMarksheet(semester);
         }
       }
 
-      // Create the payload for the API call
-      const payload = {
-        ...data,
-        semesterMarksheets,
-      };
-
-      // Send the update to the API
-      await menteeApi.updateAcademics(payload);
+      // Upload selected files and save the remaining academic fields
+      await menteeApi.updateAcademics(data, selectedFiles);
 
       // Show success message
       toast.success("Academic records updated successfully");
@@ -329,22 +350,32 @@ export default function AcademicsPage() {
       setEditMode(false);
 
       // Clear selected files
-      setSelectedFiles({});
+      clearSelectedFiles();
 
       // Refresh data to ensure we have the latest from server
       loadAcademicData();
-    } catch (error) {
-      toast.error("Failed to save academic data");
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.error || "Failed to save academic data"
+      );
       console.error("Academic save error:", error);
     } finally {
       setIsUploading(false);
     }
   };
 
+  // Discard all newly selected files and their previews
+  const clearSelectedFiles = () => {
+    Object.values(previewUrls).forEach((url) => URL.revokeObjectURL(url));
+    setSelectedFiles({});
+    setPreviewUrls({});
+    setRemovedSemesters([]);
+  };
+
   // Handle cancel button click
   const handleCancel = () => {
     setEditMode(false);
-    setSelectedFiles({});
+    clearSelectedFiles();
     loadAcademicData(); // Reload data to reset form
   };
 
@@ -353,14 +384,42 @@ export default function AcademicsPage() {
     semesterGPAArray.append({ semester: 1, gpa: 0 });
   };
 
+  const addNewSubject = () => {
+    const subjects = watch("subjects") || [];
+    subjectsArray.append({
+      semester: subjects.length ? subjects[subjects.length - 1].semester : 1,
+      code: "",
+      name: "",
+      credits: 3,
+      grade: gradingScale[0]?.grade || "",
+      attempt: 1,
+    });
+  };
+
+  // Record another attempt at a failed subject, written in a later semester
+  const addReattempt = (index: number) => {
+    const failed = watch(`subjects.${index}`);
+    subjectsArray.append({
+      semester: failed.semester,
+      code: failed.code,
+      name: failed.name,
+      credits: failed.credits,
+      grade: gradingScale[0]?.grade || "",
+      attempt: (failed.attempt || 1) + 1,
+      examSemester: Math.min(
+        (failed.examSemester || failed.semester) + 1,
+        12
+      ),
+    });
+  };
+
   const addNewMOOC = () => {
     // @ts-ignore - TypeScript issue with append
     moocCoursesArray.append("");
   };
 
   const addNewCertification = () => {
-    // @ts-ignore - TypeScript issue with append
-    certificationsArray.append("");
+    certificationsArray.append({ name: "" });
   };
 
   // Helper function to safely get field value from field array objects
@@ -413,6 +472,13 @@ export default function AcademicsPage() {
         </div>
       </div>
 
+      {editMode && (
+        <p className="text-sm text-gray-500">
+          Changing an entry your mentor has already reviewed sends it back for
+          review.
+        </p>
+      )}
+
       {/* Loading state */}
       {isLoading ? (
         <div className="bg-white rounded-lg shadow p-6">
@@ -437,6 +503,11 @@ export default function AcademicsPage() {
       ) : (
         // Academic record form/display
         <div className="space-y-6">
+          {/* CGPA calculated on the server */}
+          {!editMode && summary && summary.semesters.length > 0 && (
+            <CgpaTrend summary={summary} />
+          )}
+
           {/* Semester GPA Section */}
           <div className="bg-white rounded-lg shadow p-6">
             <div className="flex items-center justify-between mb-4">
@@ -467,6 +538,11 @@ export default function AcademicsPage() {
                       <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">
                         GPA
                       </th>
+                      {!editMode && (
+                        <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">
+                          Mentor Review
+                        </th>
+                      )}
                       {editMode && (
                         <th className="px-4 py-2 text-right text-sm font-medium text-gray-500">
                           Action
@@ -522,10 +598,20 @@ export default function AcademicsPage() {
                                     onChange={(e) =>
                                       field.onChange(parseFloat(e.target.value))
                                     }
-                                    className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
+                                    disabled={subjectSemesters.has(
+                                      watch(`semesterGPA.${index}.semester`)
+                                    )}
+                                    className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50 disabled:bg-gray-50 disabled:text-gray-500"
                                   />
                                 )}
                               />
+                              {subjectSemesters.has(
+                                watch(`semesterGPA.${index}.semester`)
+                              ) && (
+                                <p className="mt-1 text-xs text-gray-500">
+                                  Calculated from your subject grades when saved
+                                </p>
+                              )}
                               {errors.semesterGPA?.[index]?.gpa && (
                                 <p className="mt-1 text-sm text-red-500">
                                   {errors.semesterGPA[index]?.gpa?.message}
@@ -536,6 +622,13 @@ export default function AcademicsPage() {
                             <span>{field.gpa.toFixed(2)}</span>
                           )}
                         </td>
+                        {!editMode && (
+                          <td className="px-4 py-3">
+                            <VerificationBadge
+                              verification={field.verification}
+                            />
+                          </td>
+                        )}
                         {editMode && (
                           <td className="px-4 py-3 text-right">
                             <button
@@ -571,6 +664,266 @@ export default function AcademicsPage() {
             )}
           </div>
 
+          {/* Subjects Section */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold flex items-center">
+                <BookOpenIcon className="w-5 h-5 mr-2 text-primary" />
+                Subjects & Grades
+              </h2>
+              {editMode && (
+                <button
+                  type="button"
+                  onClick={addNewSubject}
+                  className="flex items-center text-sm bg-primary text-white px-3 py-1.5 rounded hover:bg-primary/90 transition"
+                >
+                  <PlusIcon className="w-4 h-4 mr-1" />
+                  Add Subject
+                </button>
+              )}
+            </div>
+
+            {editMode && (
+              <p className="text-sm text-gray-500 mb-4">
+                The GPA of a semester with subjects is worked out from their
+                credits and grades
+                {gradingScale.length > 0 &&
+                  ` (${gradingScale
+                    .map((entry) => `${entry.grade} = ${entry.points}`)
+                    .join(", ")})`}
+                .
+              </p>
+            )}
+
+            {subjectsArray.fields.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      {[
+                        "Semester",
+                        "Code",
+                        "Subject",
+                        "Credits",
+                        "Internal",
+                        "External",
+                        "Grade",
+                        "Attempt",
+                        "Exam Semester",
+                      ].map((heading) => (
+                        <th
+                          key={heading}
+                          className="px-3 py-2 text-left text-sm font-medium text-gray-500"
+                        >
+                          {heading}
+                        </th>
+                      ))}
+                      {editMode && (
+                        <th className="px-3 py-2 text-right text-sm font-medium text-gray-500">
+                          Action
+                        </th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {subjectsArray.fields.map((field, index) => (
+                      <tr key={field.id} className="border-t border-gray-200">
+                        {editMode ? (
+                          <>
+                            <td className="px-3 py-3 w-20">
+                              <Controller
+                                control={control}
+                                name={`subjects.${index}.semester`}
+                                render={({ field }) => (
+                                  <input
+                                    {...field}
+                                    type="number"
+                                    min="1"
+                                    max="12"
+                                    onChange={(e) =>
+                                      field.onChange(parseInt(e.target.value))
+                                    }
+                                    className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
+                                  />
+                                )}
+                              />
+                            </td>
+                            <td className="px-3 py-3 w-28">
+                              <input
+                                {...register(`subjects.${index}.code`)}
+                                placeholder="e.g. CS201"
+                                className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
+                              />
+                            </td>
+                            <td className="px-3 py-3 min-w-[10rem]">
+                              <input
+                                {...register(`subjects.${index}.name`)}
+                                placeholder="Subject name"
+                                className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
+                              />
+                              {errors.subjects?.[index]?.name && (
+                                <p className="mt-1 text-sm text-red-500">
+                                  {errors.subjects[index]?.name?.message}
+                                </p>
+                              )}
+                            </td>
+                            {(
+                              [
+                                ["credits", "0.5"],
+                                ["internalMarks", "1"],
+                                ["externalMarks", "1"],
+                              ] as const
+                            ).map(([name, step]) => (
+                              <td key={name} className="px-3 py-3 w-20">
+                                <Controller
+                                  control={control}
+                                  name={`subjects.${index}.${name}`}
+                                  render={({ field }) => (
+                                    <input
+                                      {...field}
+                                      value={field.value ?? ""}
+                                      type="number"
+                                      step={step}
+                                      min="0"
+                                      onChange={(e) =>
+                                        field.onChange(
+                                          parseOptionalNumber(e.target.value)
+                                        )
+                                      }
+                                      className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
+                                    />
+                                  )}
+                                />
+                                {errors.subjects?.[index]?.[name] && (
+                                  <p className="mt-1 text-sm text-red-500">
+                                    {errors.subjects[index]?.[name]?.message}
+                                  </p>
+                                )}
+                              </td>
+                            ))}
+                            <td className="px-3 py-3 w-24">
+                              <select
+                                {...register(`subjects.${index}.grade`)}
+                                className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
+                              >
+                                {gradingScale.map((entry) => (
+                                  <option key={entry.grade} value={entry.grade}>
+                                    {entry.grade}
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                            <td className="px-3 py-3 w-20">
+                              <Controller
+                                control={control}
+                                name={`subjects.${index}.attempt`}
+                                render={({ field }) => (
+                                  <input
+                                    {...field}
+                                    type="number"
+                                    min="1"
+                                    onChange={(e) =>
+                                      field.onChange(parseInt(e.target.value))
+                                    }
+                                    className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
+                                  />
+                                )}
+                              />
+                            </td>
+                            <td className="px-3 py-3 w-20">
+                              <Controller
+                                control={control}
+                                name={`subjects.${index}.examSemester`}
+                                render={({ field }) => (
+                                  <input
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    type="number"
+                                    min="1"
+                                    max="12"
+                                    placeholder={String(
+                                      watch(`subjects.${index}.semester`) || ""
+                                    )}
+                                    onChange={(e) =>
+                                      field.onChange(
+                                        parseOptionalNumber(e.target.value)
+                                      )
+                                    }
+                                    className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
+                                  />
+                                )}
+                              />
+                            </td>
+                            <td className="px-3 py-3 text-right whitespace-nowrap">
+                              {isFailingGrade(
+                                watch(`subjects.${index}.grade`)
+                              ) && (
+                                <button
+                                  type="button"
+                                  onClick={() => addReattempt(index)}
+                                  className="text-sm text-primary hover:underline mr-3"
+                                >
+                                  Add re-attempt
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => subjectsArray.remove(index)}
+                                className="text-red-500 hover:text-red-700 align-middle"
+                              >
+                                <TrashIcon className="w-5 h-5" />
+                              </button>
+                            </td>
+                          </>
+                        ) : (
+                          <>
+                            <td className="px-3 py-3">{field.semester}</td>
+                            <td className="px-3 py-3 text-gray-500">
+                              {field.code || "—"}
+                            </td>
+                            <td className="px-3 py-3">{field.name}</td>
+                            <td className="px-3 py-3">{field.credits}</td>
+                            <td className="px-3 py-3">
+                              {field.internalMarks ?? "—"}
+                            </td>
+                            <td className="px-3 py-3">
+                              {field.externalMarks ?? "—"}
+                            </td>
+                            <td
+                              className={`px-3 py-3 font-medium ${
+                                field.passed === false ? "text-red-600" : ""
+                              }`}
+                            >
+                              {field.grade}
+                            </td>
+                            <td className="px-3 py-3">{field.attempt || 1}</td>
+                            <td className="px-3 py-3">
+                              {field.examSemester || field.semester}
+                            </td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-6 border border-dashed border-gray-300 rounded-lg bg-gray-50">
+                <BookOpenIcon className="w-10 h-10 mx-auto text-gray-400" />
+                <p className="mt-2 text-gray-500">No subjects added yet.</p>
+                {editMode && (
+                  <button
+                    type="button"
+                    onClick={addNewSubject}
+                    className="mt-4 bg-white border border-primary text-primary px-4 py-2 rounded hover:bg-primary hover:text-white transition"
+                  >
+                    Add First Subject
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* MOOC Courses Section */}
           <div className="bg-white rounded-lg shadow p-6">
             <div className="flex items-center justify-between mb-4">
@@ -674,19 +1027,20 @@ export default function AcademicsPage() {
                     {editMode ? (
                       <div className="flex-1 mr-3">
                         <input
-                          {...register(`certifications.${index}`)}
+                          {...register(`certifications.${index}.name`)}
                           className="w-full p-2 border rounded focus:ring-2 focus:ring-primary/50"
                           placeholder="Enter certification name or details"
                         />
-                        {errors.certifications?.[index] && (
+                        {errors.certifications?.[index]?.name && (
                           <p className="mt-1 text-sm text-red-500">
-                            {errors.certifications[index]?.message}
+                            {errors.certifications[index]?.name?.message}
                           </p>
                         )}
                       </div>
                     ) : (
-                      <div className="flex-1">
-                        <span>{getFieldValue(field)}</span>
+                      <div className="flex-1 flex items-center justify-between gap-3">
+                        <span>{field.name}</span>
+                        <VerificationBadge verification={field.verification} />
                       </div>
                     )}
 
@@ -724,53 +1078,106 @@ export default function AcademicsPage() {
           {/* Backlogs Section */}
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-lg font-semibold mb-4">Backlogs</h2>
-            <div className="flex items-center">
-              <label className="block text-sm font-medium text-gray-700 mr-4">
-                Number of Backlogs:
-              </label>
+            {subjectsArray.fields.length > 0 ? (
+              editMode || !summary ? (
+                <p className="text-sm text-gray-500">
+                  Backlogs are counted from your subject grades when you save.
+                </p>
+              ) : (
+                <BacklogList backlogs={summary.backlogs} />
+              )
+            ) : (
               <div className="flex items-center">
-                {editMode ? (
-                  <Controller
-                    control={control}
-                    name="backlogs"
-                    render={({ field }) => (
-                      <div className="flex items-center">
-                        <button
-                          type="button"
-                          onClick={() =>
-                            field.onChange(Math.max(0, field.value - 1))
-                          }
-                          className="px-3 py-1 border border-gray-300 rounded-l bg-gray-200 hover:bg-gray-300 text-gray-700"
-                        >
-                          -
-                        </button>
-                        <input
-                          value={field.value}
-                          onChange={(e) => {
-                            const value = parseInt(e.target.value);
-                            field.onChange(isNaN(value) ? 0 : value);
-                          }}
-                          className="w-16 py-1 px-2 text-center border-t border-b border-gray-300"
-                        />
-                        <button
-                          type="button"
-                          onClick={() => field.onChange(field.value + 1)}
-                          className="px-3 py-1 border border-gray-300 rounded-r bg-gray-200 hover:bg-gray-300 text-gray-700"
-                        >
-                          +
-                        </button>
-                      </div>
-                    )}
-                  />
-                ) : (
-                  <span className="text-lg font-medium">
-                    {control._formValues.backlogs}
-                  </span>
+                <label className="block text-sm font-medium text-gray-700 mr-4">
+                  Number of Backlogs:
+                </label>
+                <div className="flex items-center">
+                  {editMode ? (
+                    <Controller
+                      control={control}
+                      name="backlogs"
+                      render={({ field }) => (
+                        <div className="flex items-center">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              field.onChange(Math.max(0, field.value - 1))
+                            }
+                            className="px-3 py-1 border border-gray-300 rounded-l bg-gray-200 hover:bg-gray-300 text-gray-700"
+                          >
+                            -
+                          </button>
+                          <input
+                            value={field.value}
+                            onChange={(e) => {
+                              const value = parseInt(e.target.value);
+                              field.onChange(isNaN(value) ? 0 : value);
+                            }}
+                            className="w-16 py-1 px-2 text-center border-t border-b border-gray-300"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => field.onChange(field.value + 1)}
+                            className="px-3 py-1 border border-gray-300 rounded-r bg-gray-200 hover:bg-gray-300 text-gray-700"
+                          >
+                            +
+                          </button>
+                        </div>
+                      )}
+                    />
+                  ) : (
+                    <span className="text-lg font-medium">
+                      {control._formValues.backlogs}
+                    </span>
+                  )}
+                </div>
+                {errors.backlogs && (
+                  <p className="ml-4 text-sm text-red-500">
+                    {errors.backlogs.message}
+                  </p>
                 )}
               </div>
-              {errors.backlogs && (
+            )}
+          </div>
+
+          {/* Attendance Section */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold mb-4">Attendance</h2>
+            <div className="flex items-center">
+              <label className="block text-sm font-medium text-gray-700 mr-4">
+                Overall Attendance (%):
+              </label>
+              {editMode ? (
+                <Controller
+                  control={control}
+                  name="attendance"
+                  render={({ field }) => (
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.1"
+                      value={field.value ?? ""}
+                      onChange={(e) =>
+                        field.onChange(
+                          e.target.value === ""
+                            ? null
+                            : parseFloat(e.target.value)
+                        )
+                      }
+                      placeholder="Not recorded"
+                      className="w-32 p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary/50"
+                    />
+                  )}
+                />
+              ) : (
+                <span className="text-lg font-medium">
+                  {control._formValues.attendance ?? "Not recorded"}
+                </span>
+              )}
+              {errors.attendance && (
                 <p className="ml-4 text-sm text-red-500">
-                  {errors.backlogs.message}
+                  {errors.attendance.message}
                 </p>
               )}
             </div>
@@ -786,80 +1193,108 @@ export default function AcademicsPage() {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              {Array.from({ length: 8 }, (_, i) => i + 1).map((semester) => (
-                <div key={semester} className="border rounded-lg p-4">
-                  <h3 className="font-medium mb-2">Semester {semester}</h3>
-
-                  {previewUrls[semester] ? (
-                    <div className="relative">
-                      <img
-                        src={previewUrls[semester]}
-                        alt={`Semester ${semester} marksheet`}
-                        className="w-full h-32 object-cover rounded-md mb-2"
-                      />
-                      {editMode && (
-                        <button
-                          type="button"
-                          onClick={() => {
-                            handleFileChange(semester, null);
-                            setPreviewUrls((prev) => {
-                              const updated = { ...prev };
-                              delete updated[semester];
-                              return updated;
-                            });
-                          }}
-                          className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1"
-                          title="Remove image"
-                          aria-label="Remove image"
-                        >
-                          <XMarkIcon className="w-4 h-4" />
-                        </button>
-                      )}
-                    </div>
-                  ) : (
-                    <div className="border-2 border-dashed border-gray-300 rounded-md p-4 flex flex-col items-center justify-center h-32">
-                      {selectedFiles[semester] ? (
-                        <div className="text-center">
-                          <p className="text-sm text-green-600 font-medium">
-                            File selected:
-                          </p>
-                          <p className="text-xs text-gray-500 truncate max-w-[120px]">
-                            {selectedFiles[semester]?.name}
-                          </p>
-                        </div>
-                      ) : (
-                        <>
-                          <CloudArrowUpIcon className="w-8 h-8 text-gray-400" />
-                          <p className="text-sm text-gray-500 mt-2">
-                            No marksheet
+              {Array.from({ length: 8 }, (_, i) => i + 1).map((semester) => {
+                const selectedFile = selectedFiles[semester];
+                const storedMarksheet = removedSemesters.includes(semester)
+                  ? null
+                  : savedMarksheets[semester];
+                const hasMarksheet = Boolean(selectedFile || storedMarksheet);
+
+                return (
+                  <div key={semester} className="border rounded-lg p-4">
+                    <h3 className="font-medium mb-2">Semester {semester}</h3>
+
+                    {previewUrls[semester] ? (
+                      <div className="relative">
+                        <img
+                          src={previewUrls[semester]}
+                          alt={`Semester ${semester} marksheet`}
+                          className="w-full h-32 object-cover rounded-md mb-2"
+                        />
+                        {editMode && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveMarksheet(semester)}
+                            className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1"
+                            title="Remove file"
+                            aria-label="Remove file"
+                          >
+                            <XMarkIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ) : hasMarksheet ? (
+                      <div className="relative border border-gray-200 rounded-md p-4 flex flex-col items-center justify-center min-h-[8rem] bg-gray-50">
+                        <DocumentTextIcon className="w-8 h-8 text-primary" />
+                        <p className="text-xs text-gray-600 mt-2 truncate max-w-full">
+                          {selectedFile?.name ||
+                            storedMarksheet?.fileName ||
+                            "Marksheet"}
+                        </p>
+                        {selectedFile ? (
+                          <p className="text-xs text-green-600 font-medium">
+                            Ready to upload
                           </p>
-                        </>
-                      )}
-                    </div>
-                  )}
+                        ) : (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => viewMarksheet(semester)}
+                              className="text-sm text-primary hover:underline mt-1"
+                            >
+                              View Marksheet
+                            </button>
+                            <VerificationBadge
+                              verification={storedMarksheet?.verification}
+                            />
+                          </>
+                        )}
+                        {editMode && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveMarksheet(semester)}
+                            className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1"
+                            title="Remove file"
+                            aria-label="Remove file"
+                          >
+                            <XMarkIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="border-2 border-dashed border-gray-300 rounded-md p-4 flex flex-col items-center justify-center h-32">
+                        <CloudArrowUpIcon className="w-8 h-8 text-gray-400" />
+                        <p className="text-sm text-gray-500 mt-2">
+                          No marksheet
+                        </p>
+                      </div>
+                    )}
 
-                  {editMode && (
-                    <div className="mt-2">
-                      <label
-                        htmlFor={`marksheet-${semester}`}
-                        className="block w-full py-2 px-3 text-sm text-center bg-gray-100 hover:bg-gray-200 text-gray-700 rounded cursor-pointer border border-gray-300 transition"
-                      >
-                        {previewUrls[semester] ? "Change File" : "Select File"}
-                      </label>
-                      <input
-                        id={`marksheet-${semester}`}
-                        type="file"
-                        accept="image/*"
-                        onChange={(e) => {
-                          const file = e.target.files && e.target.files[0];
-                          handleFileChange(semester, file || null);
-                        }}
-                        className="hidden"
-                      />
-                    </div>
-                  )}
-                </div>
-              ))}
+                    {editMode && (
+                      <div className="mt-2">
+                        <label
+                          htmlFor={`marksheet-${semester}`}
+                          className="block w-full py-2 px-3 text-sm text-center bg-gray-100 hover:bg-gray-200 text-gray-700 rounded cursor-pointer border border-gray-300 transition"
+                        >
+                          {hasMarksheet ? "Change File" : "Select File"}
+                        </label>
+                        <input
+                          id={`marksheet-${semester}`}
+                          type="file"
+                          accept="image/jpeg,image/png,image/gif,image/webp,application/pdf"
+                          onChange={(e) => {
+                            const file = e.target.files && e.target.files[0];
+                            handleFileChange(semester, file || null);
+                            // Allow selecting the same file again after removing it
+                            e.target.value = "";
+                          }}
+                          className="hidden"
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
         </div>
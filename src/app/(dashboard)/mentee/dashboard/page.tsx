@@ -2,9 +2,10 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { menteeApi } from "@/services/api";
+import { menteeApi, AcademicSummary } from "@/services/api";
 import { useAuth } from "@/lib/auth";
 import { useAPIService } from "@/hooks/useAPIService";
+import { useLiveUpdates, DashboardEvent } from "@/hooks/useRealtime";
 import {
   ClipboardDocumentListIcon,
   TrophyIcon,
@@ -16,6 +17,11 @@ import {
 import { toast } from "react-hot-toast";
 import { showToast, trackPromise } from "@/components/ui/CustomToasts";
 import Link from "next/link";
+import GpaTrendChart from "@/components/ui/charts/GpaTrendChart";
+import AchievementTypeChart from "@/components/ui/charts/AchievementTypeChart";
+import IssueStatusChart, {
+  countIssueStatuses,
+} from "@/components/ui/charts/IssueStatusChart";
 
 // Interface representing the exact backend response structure
 interface DashboardData {
@@ -29,9 +35,20 @@ interface DashboardData {
     name: string;
     email: string;
     phone?: string;
+    department?: string;
+    designation?: string;
+    officeHours?: string;
+    cabin?: string;
   };
 }
 
+// Records behind the progress charts
+interface ChartData {
+  academicSummary: AcademicSummary | null;
+  achievements: { type: string; dateOfAchievement: string }[];
+  issueCounts: Record<string, number>;
+}
+
 interface Achievement {
   _id: string;
   title: string;
@@ -56,10 +73,19 @@ export default function MenteeDashboardPage() {
     showErrorToast: true,
   });
 
+  const [charts, setCharts] = useState<ChartData | null>(null);
+
   useEffect(() => {
     fetchDashboardData();
+    fetchChartData();
   }, []);
 
+  // Keep the open issue count live as mentors respond
+  useLiveUpdates<DashboardData, DashboardEvent>(dashboardService, "dashboard", {
+    merge: (current, event) =>
+      current && { ...current, pendingIssues: event.pendingIssues },
+  });
+
   // Function to fetch dashboard data
   const fetchDashboardData = async () => {
     try {
@@ -83,10 +109,28 @@ export default function MenteeDashboardPage() {
     }
   };
 
+  // Academics, achievements and issues for the progress charts. A mentee
+  // without an academic record yet gets a 404, which just means no GPA trend.
+  const fetchChartData = async () => {
+    const [academics, achievements, issues] = await Promise.all([
+      menteeApi.getAcademics().catch(() => null),
+      menteeApi.getAchievements().catch(() => null),
+      menteeApi.getIssues().catch(() => null),
+    ]);
+
+    setCharts({
+      academicSummary: academics?.data.summary || null,
+      achievements: achievements?.data.data || [],
+      issueCounts: countIssueStatuses(issues?.data.data || []),
+    });
+  };
+
   // Function to refresh dashboard data
   const refreshData = async () => {
     if (dashboardService.isLoading) return;
 
+    fetchChartData();
+
     try {
       await trackPromise(
         dashboardService.refresh(() => menteeApi.getDashboard()),
@@ -282,6 +326,37 @@ export default function MenteeDashboardPage() {
                   {dashboard.mentorInfo.phone || "Not provided"}
                 </p>
               </div>
+
+              {(dashboard.mentorInfo.designation ||
+                dashboard.mentorInfo.department) && (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-sm text-gray-500 mb-1">Designation</p>
+                  <p className="font-medium">
+                    {[
+                      dashboard.mentorInfo.designation,
+                      dashboard.mentorInfo.department,
+                    ]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </p>
+                </div>
+              )}
+
+              {dashboard.mentorInfo.officeHours && (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-sm text-gray-500 mb-1">Office Hours</p>
+                  <p className="font-medium">
+                    {dashboard.mentorInfo.officeHours}
+                  </p>
+                </div>
+              )}
+
+              {dashboard.mentorInfo.cabin && (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-sm text-gray-500 mb-1">Cabin</p>
+                  <p className="font-medium">{dashboard.mentorInfo.cabin}</p>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -394,6 +469,17 @@ export default function MenteeDashboardPage() {
           )}
         </div>
       </div>
+
+      {/* Progress charts */}
+      {charts && (
+        <div className="space-y-6">
+          <GpaTrendChart summary={charts.academicSummary} />
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <AchievementTypeChart achievements={charts.achievements} />
+            <IssueStatusChart counts={charts.issueCounts} title="My Issues" />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
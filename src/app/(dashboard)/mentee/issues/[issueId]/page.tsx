@@ -3,6 +3,10 @@
 import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { toast } from "react-hot-toast";
+import { menteeApi } from "@/services/api";
+import { useAuth } from "@/lib/auth";
+import StatusTimeline, { StatusChange } from "@/components/ui/StatusTimeline";
+import { useRealtimeEvent, IssueEvent } from "@/hooks/useRealtime";
 import {
   ArrowLeftIcon,
   CheckCircleIcon,
@@ -12,6 +16,9 @@ import {
   UserCircleIcon,
   ChatBubbleLeftIcon,
   ExclamationTriangleIcon,
+  ShieldCheckIcon,
+  ArrowUturnLeftIcon,
+  StarIcon,
 } from "@heroicons/react/24/outline";
 
 // Interface aligned with the backend Issue model
@@ -31,63 +38,106 @@ interface Issue {
   issueType: string; // enum: ['Academic', 'Grievances', 'Ragging', 'Harassment', 'Accommodation', 'Other']
   description: string;
   status: string; // enum: ['Open', 'Under Review', 'Resolved', 'Closed']
+  confidential?: boolean;
+  anonymous?: boolean;
+  identityDisclosure?: {
+    status: "none" | "requested" | "granted" | "declined";
+    reason?: string;
+    requestedAt?: string;
+    respondedAt?: string;
+  };
   comments: Comment[];
+  statusHistory?: StatusChange[];
+  feedback?: {
+    rating: number;
+    comment?: string;
+    submittedAt: string;
+  };
+  // Set while a resolved or closed issue can still be reopened
+  reopenableUntil?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+const RatingStars = ({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange?: (rating: number) => void;
+}) => (
+  <div className="flex items-center gap-1">
+    {[1, 2, 3, 4, 5].map((star) => (
+      <button
+        key={star}
+        type="button"
+        onClick={() => onChange?.(star)}
+        disabled={!onChange}
+        aria-label={`${star} star${star > 1 ? "s" : ""}`}
+        className={onChange ? "cursor-pointer" : "cursor-default"}
+      >
+        <StarIcon
+          className={`w-6 h-6 ${
+            star <= value ? "text-amber-400 fill-amber-400" : "text-gray-300"
+          }`}
+        />
+      </button>
+    ))}
+  </div>
+);
+
 export default function IssueDetailPage() {
   const params = useParams();
   const router = useRouter();
   const issueId = params.issueId as string;
+  const { user } = useAuth();
 
   const [issueData, setIssueData] = useState<Issue | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [newComment, setNewComment] = useState("");
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
+  const [isUpdatingConsent, setIsUpdatingConsent] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [feedbackComment, setFeedbackComment] = useState("");
+  const [reopenReason, setReopenReason] = useState("");
+  const [showReopenForm, setShowReopenForm] = useState(false);
+  const [isSubmittingResolution, setIsSubmittingResolution] = useState(false);
 
-  useEffect(() => {
-    async function fetchIssueDetail() {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const response = await fetch(
-          `${
-            process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api"
-          }/mentee/issues/${issueId}`,
-          {
-            headers: {
-              Authorization: `Bearer ${localStorage.getItem("token")}`,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error(`Error fetching issue: ${response.statusText}`);
-        }
+  async function fetchIssueDetail(showLoading = true) {
+    if (showLoading) setIsLoading(true);
+    setError(null);
 
-        const result = await response.json();
-        if (result.success) {
-          setIssueData(result.data);
-        } else {
-          throw new Error(result.error || "Failed to load issue details");
-        }
-      } catch (error) {
-        console.error("Failed to fetch issue:", error);
-        setError("Failed to load issue details. Please try again.");
-        toast.error("Failed to load issue details");
-      } finally {
-        setIsLoading(false);
+    try {
+      // Through the api client so an expired access token is refreshed
+      const { data: result } = await menteeApi.getIssue(issueId);
+      if (result.success) {
+        setIssueData(result.data);
+      } else {
+        throw new Error(result.error || "Failed to load issue details");
       }
+    } catch (error) {
+      console.error("Failed to fetch issue:", error);
+      setError("Failed to load issue details. Please try again.");
+      toast.error("Failed to load issue details");
+    } finally {
+      setIsLoading(false);
     }
+  }
 
+  useEffect(() => {
     if (issueId) {
       fetchIssueDetail();
     }
   }, [issueId]);
 
+  // Show replies and status changes as soon as they happen
+  useRealtimeEvent<IssueEvent>("issue", (event) => {
+    if (event.issueId === issueId) {
+      fetchIssueDetail(false);
+    }
+  });
+
   // Get status badge based on issue status
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -139,6 +189,118 @@ export default function IssueDetailPage() {
     });
   };
 
+  // Answer the committee's request to reveal who filed a confidential issue
+  const handleIdentityConsent = async (consent: boolean) => {
+    if (
+      consent &&
+      !window.confirm(
+        "The anti-ragging committee will see your name and email for this report. This cannot be undone. Continue?"
+      )
+    ) {
+      return;
+    }
+
+    setIsUpdatingConsent(true);
+
+    try {
+      const response = await menteeApi.respondToIdentityRequest(
+        issueId,
+        consent
+      );
+      if (issueData) {
+        setIssueData({
+          ...issueData,
+          identityDisclosure: response.data.data.identityDisclosure,
+        });
+      }
+      toast.success(
+        consent
+          ? "Your identity is now visible to the committee"
+          : "Your report stays anonymous"
+      );
+    } catch (error: any) {
+      console.error("Failed to update identity consent:", error);
+      toast.error(error.response?.data?.error || "Failed to save your answer");
+    } finally {
+      setIsUpdatingConsent(false);
+    }
+  };
+
+  // Close a resolved issue, rating the resolution if the mentee picked stars
+  const handleConfirmResolution = async () => {
+    setIsSubmittingResolution(true);
+
+    try {
+      await menteeApi.confirmResolution(
+        issueId,
+        rating > 0 ? { rating, comment: feedbackComment } : {}
+      );
+      toast.success("Thanks for confirming. The issue is now closed.");
+      setRating(0);
+      setFeedbackComment("");
+      await fetchIssueDetail(false);
+    } catch (error: any) {
+      console.error("Failed to confirm resolution:", error);
+      toast.error(
+        error.response?.data?.error || "Failed to confirm the resolution"
+      );
+    } finally {
+      setIsSubmittingResolution(false);
+    }
+  };
+
+  // Rate an issue that was closed without feedback
+  const handleSubmitFeedback = async () => {
+    if (rating < 1) {
+      toast.error("Please choose a rating");
+      return;
+    }
+
+    setIsSubmittingResolution(true);
+
+    try {
+      const response = await menteeApi.submitFeedback(issueId, {
+        rating,
+        comment: feedbackComment,
+      });
+      if (issueData) {
+        setIssueData({ ...issueData, feedback: response.data.data });
+      }
+      toast.success("Thanks for your feedback");
+      setRating(0);
+      setFeedbackComment("");
+    } catch (error: any) {
+      console.error("Failed to submit feedback:", error);
+      toast.error(error.response?.data?.error || "Failed to submit feedback");
+    } finally {
+      setIsSubmittingResolution(false);
+    }
+  };
+
+  const handleReopen = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reopenReason.trim()) {
+      toast.error("Please explain why the issue is not resolved");
+      return;
+    }
+
+    setIsSubmittingResolution(true);
+
+    try {
+      await menteeApi.reopenIssue(issueId, reopenReason.trim());
+      toast.success("Issue reopened");
+      setReopenReason("");
+      setShowReopenForm(false);
+      await fetchIssueDetail(false);
+    } catch (error: any) {
+      console.error("Failed to reopen issue:", error);
+      toast.error(error.response?.data?.error || "Failed to reopen the issue");
+    } finally {
+      setIsSubmittingResolution(false);
+    }
+  };
+
   // Handle new comment submission
   const handleCommentSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -151,25 +313,7 @@ export default function IssueDetailPage() {
     setIsSubmittingComment(true);
 
     try {
-      const response = await fetch(
-        `${
-          process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api"
-        }/mentee/issues/${issueId}/comments`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${localStorage.getItem("token")}`,
-          },
-          body: JSON.stringify({ text: newComment }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Error adding comment: ${response.statusText}`);
-      }
-
-      const result = await response.json();
+      const { data: result } = await menteeApi.addComment(issueId, newComment);
       if (result.success) {
         toast.success("Comment added successfully");
         setNewComment("");
@@ -256,6 +400,206 @@ export default function IssueDetailPage() {
             </div>
           </div>
 
+          {/* Resolution: confirm, reopen or rate */}
+          {["Resolved", "Closed"].includes(issueData.status) && (
+            <div className="bg-white rounded-lg shadow p-6 space-y-4">
+              <h2 className="text-lg font-semibold flex items-center">
+                <CheckCircleIcon className="h-5 w-5 mr-2 text-primary" />
+                {issueData.status === "Resolved"
+                  ? "Is this issue resolved?"
+                  : "Resolution"}
+              </h2>
+
+              {issueData.feedback ? (
+                <div className="space-y-1">
+                  <p className="text-sm text-gray-500">Your rating</p>
+                  <RatingStars value={issueData.feedback.rating} />
+                  {issueData.feedback.comment && (
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                      {issueData.feedback.comment}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    {issueData.status === "Resolved"
+                      ? "Let us know how it went. Rating is optional."
+                      : "How well was this issue handled?"}
+                  </p>
+                  <RatingStars value={rating} onChange={setRating} />
+                  <textarea
+                    value={feedbackComment}
+                    onChange={(e) => setFeedbackComment(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-primary focus:border-primary"
+                    rows={2}
+                    placeholder="Any comments on the resolution? (optional)"
+                    disabled={isSubmittingResolution}
+                  ></textarea>
+                  {issueData.status === "Closed" && (
+                    <div className="flex justify-end">
+                      <button
+                        onClick={handleSubmitFeedback}
+                        disabled={isSubmittingResolution || rating < 1}
+                        className="px-4 py-2 text-sm bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+                      >
+                        Submit Rating
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-3 justify-end">
+                {issueData.reopenableUntil &&
+                  new Date(issueData.reopenableUntil) > new Date() && (
+                    <button
+                      onClick={() => setShowReopenForm((prev) => !prev)}
+                      disabled={isSubmittingResolution}
+                      className="px-4 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition disabled:opacity-50 flex items-center"
+                    >
+                      <ArrowUturnLeftIcon className="h-4 w-4 mr-2" />
+                      Not resolved? Reopen
+                    </button>
+                  )}
+                {issueData.status === "Resolved" && (
+                  <button
+                    onClick={handleConfirmResolution}
+                    disabled={isSubmittingResolution}
+                    className="px-4 py-2 text-sm bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50 flex items-center"
+                  >
+                    <CheckCircleIcon className="h-4 w-4 mr-2" />
+                    Confirm &amp; Close
+                  </button>
+                )}
+              </div>
+
+              {issueData.reopenableUntil &&
+                new Date(issueData.reopenableUntil) > new Date() && (
+                  <p className="text-xs text-gray-500 text-right">
+                    You can reopen this issue until{" "}
+                    {formatDate(issueData.reopenableUntil)}.
+                  </p>
+                )}
+
+              {showReopenForm && (
+                <form
+                  onSubmit={handleReopen}
+                  className="border-t border-gray-200 pt-4 space-y-3"
+                >
+                  <label
+                    htmlFor="reopenReason"
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    What is still not resolved?
+                  </label>
+                  <textarea
+                    id="reopenReason"
+                    value={reopenReason}
+                    onChange={(e) => setReopenReason(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-primary focus:border-primary"
+                    rows={3}
+                    required
+                    disabled={isSubmittingResolution}
+                  ></textarea>
+                  <div className="flex justify-end gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setShowReopenForm(false)}
+                      className="px-4 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isSubmittingResolution || !reopenReason.trim()}
+                      className="px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 transition disabled:opacity-50"
+                    >
+                      Reopen Issue
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          )}
+
+          {/* Status History */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold mb-4 flex items-center">
+              <ClockIcon className="h-5 w-5 mr-2 text-primary" />
+              Status History
+            </h2>
+            <StatusTimeline
+              history={issueData.statusHistory}
+              createdAt={issueData.createdAt}
+              currentUserId={user?.id}
+            />
+          </div>
+
+          {/* Confidentiality */}
+          {issueData.confidential && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 space-y-3">
+              <p className="flex items-start text-blue-800">
+                <ShieldCheckIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                {issueData.anonymous &&
+                issueData.identityDisclosure?.status !== "granted"
+                  ? "This report is handled by the anti-ragging committee. You filed it anonymously, so the committee does not know who you are."
+                  : "This report is handled by the anti-ragging committee. Your mentor cannot see it."}
+              </p>
+
+              {issueData.anonymous &&
+                issueData.identityDisclosure?.status === "requested" && (
+                  <div className="bg-white border border-blue-200 rounded-md p-4">
+                    <p className="text-sm font-medium text-gray-900">
+                      The committee has asked to know who you are
+                    </p>
+                    {issueData.identityDisclosure.reason && (
+                      <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">
+                        {issueData.identityDisclosure.reason}
+                      </p>
+                    )}
+                    <div className="flex gap-3 mt-3">
+                      <button
+                        onClick={() => handleIdentityConsent(true)}
+                        disabled={isUpdatingConsent}
+                        className="px-4 py-2 text-sm bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+                      >
+                        Reveal my identity
+                      </button>
+                      <button
+                        onClick={() => handleIdentityConsent(false)}
+                        disabled={isUpdatingConsent}
+                        className="px-4 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+                      >
+                        Stay anonymous
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+              {issueData.anonymous &&
+                ["none", "declined"].includes(
+                  issueData.identityDisclosure?.status || "none"
+                ) && (
+                  <button
+                    onClick={() => handleIdentityConsent(true)}
+                    disabled={isUpdatingConsent}
+                    className="text-sm text-primary hover:text-primary/80 disabled:opacity-50"
+                  >
+                    Reveal my identity to the committee
+                  </button>
+                )}
+
+              {issueData.anonymous &&
+                issueData.identityDisclosure?.status === "granted" && (
+                  <p className="text-sm text-blue-800">
+                    You agreed to reveal your identity on{" "}
+                    {formatDate(issueData.identityDisclosure.respondedAt || "")}.
+                  </p>
+                )}
+            </div>
+          )}
+
           {/* Comments Section */}
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-lg font-semibold mb-4 flex items-center">
@@ -273,6 +617,8 @@ export default function IssueDetailPage() {
                         <span className="font-medium">
                           {comment.user.role === "mentor"
                             ? "Mentor: "
+                            : comment.user.role === "committee"
+                            ? "Committee: "
                             : "You: "}
                           {comment.user.email}
                         </span>
@@ -287,7 +633,10 @@ export default function IssueDetailPage() {
               </div>
             ) : (
               <div className="text-center py-8 text-gray-500">
-                No comments yet. Your mentor will respond to your issue soon.
+                No comments yet.{" "}
+                {issueData.confidential
+                  ? "The committee will respond to your report soon."
+                  : "Your mentor will respond to your issue soon."}
               </div>
             )}
 
@@ -6,14 +6,18 @@ import { toast } from "react-hot-toast";
 import { useForm } from "@/hooks/useForm";
 import { useAPIService } from "@/hooks/useAPIService";
 import { menteeApi } from "@/services/api";
-import { ArrowLeftIcon } from "@heroicons/react/24/outline";
+import { ArrowLeftIcon, ShieldCheckIcon } from "@heroicons/react/24/outline";
 
 // Interface aligned with the backend Issue model
 interface IssueFormData {
   issueType: string; // enum: ['Academic', 'Grievances', 'Ragging', 'Harassment', 'Accommodation', 'Other']
   description: string;
+  anonymous: boolean; // only used for confidential issue types
 }
 
+// Reported to the anti-ragging committee instead of the mentor
+const CONFIDENTIAL_ISSUE_TYPES = ["Ragging", "Harassment"];
+
 export default function ReportIssuePage() {
   const router = useRouter();
   const issueService = useAPIService();
@@ -22,6 +26,7 @@ export default function ReportIssuePage() {
     initialValues: {
       issueType: "",
       description: "",
+      anonymous: true,
     },
     onSubmit: handleSubmit,
     validate: validateForm,
@@ -45,13 +50,27 @@ export default function ReportIssuePage() {
   }
 
   async function handleSubmit(values: IssueFormData) {
+    const confidential = CONFIDENTIAL_ISSUE_TYPES.includes(values.issueType);
+
     try {
-      await issueService.execute(() => menteeApi.createIssue(values), {
-        onSuccess: () => {
-          toast.success("Issue reported successfully");
-          router.push("/mentee/issues");
-        },
-      });
+      await issueService.execute(
+        () =>
+          menteeApi.createIssue({
+            issueType: values.issueType,
+            description: values.description,
+            anonymous: confidential && values.anonymous,
+          }),
+        {
+          onSuccess: () => {
+            toast.success(
+              confidential
+                ? "Report sent to the anti-ragging committee"
+                : "Issue reported successfully"
+            );
+            router.push("/mentee/issues");
+          },
+        }
+      );
     } catch (error) {
       console.error("Failed to create issue:", error);
     }
@@ -116,6 +135,29 @@ export default function ReportIssuePage() {
           )}
         </div>
 
+        {CONFIDENTIAL_ISSUE_TYPES.includes(form.values.issueType) && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+            <p className="flex items-start text-sm text-blue-800">
+              <ShieldCheckIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              This report goes confidentially to the anti-ragging committee.
+              Your mentor will not see it.
+            </p>
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                name="anonymous"
+                checked={form.values.anonymous}
+                onChange={form.handleChange}
+                className="mt-0.5 rounded border-gray-300 text-primary focus:ring-primary/50"
+              />
+              <span>
+                File anonymously. The committee will only learn who you are if
+                you agree to it later.
+              </span>
+            </label>
+          </div>
+        )}
+
         <div>
           <label
             htmlFor="description"
@@ -19,6 +19,7 @@ interface Issue {
   issueType: string; // enum: ['Academic', 'Grievances', 'Ragging', 'Harassment', 'Accommodation', 'Other']
   description: string;
   status: string; // enum: ['Open', 'Under Review', 'Resolved', 'Closed']
+  confidential?: boolean;
   comments: Array<any>;
   createdAt: string;
   updatedAt: string;
@@ -157,6 +158,11 @@ export default function IssuesPage() {
                     <div className="text-sm font-medium text-gray-900">
                       {issue.issueType}
                     </div>
+                    {issue.confidential && (
+                      <div className="text-xs text-blue-700">
+                        Confidential · committee
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4">
                     <div className="text-sm text-gray-500 truncate max-w-xs">
@@ -0,0 +1,19 @@
+"use client";
+
+import AccountDetailsCard from "@/components/ui/AccountDetails";
+import ChangePasswordCard from "@/components/ui/ChangePassword";
+import SignedInDevicesCard from "@/components/ui/SignedInDevices";
+import EmailPreferencesCard from "@/components/ui/EmailPreferences";
+
+export default function MenteeSettingsPage() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Settings</h1>
+
+      <AccountDetailsCard />
+      <ChangePasswordCard />
+      <SignedInDevicesCard />
+      <EmailPreferencesCard />
+    </div>
+  );
+}
@@ -0,0 +1,437 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import {
+  ArrowPathIcon,
+  AcademicCapIcon,
+  UsersIcon,
+  InboxStackIcon,
+  TrophyIcon,
+  ClipboardDocumentListIcon,
+} from "@heroicons/react/24/outline";
+import { mentorApi, CohortAnalytics, CohortFilters } from "@/services/api";
+import LineChart from "@/components/ui/charts/LineChart";
+import BarChart from "@/components/ui/charts/BarChart";
+import DonutChart from "@/components/ui/charts/DonutChart";
+
+const selectClass =
+  "px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+const NOT_SET = "Not set";
+
+export default function MentorAnalyticsPage() {
+  const router = useRouter();
+  const [analytics, setAnalytics] = useState<CohortAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState<CohortFilters>({});
+  const [selectedSemester, setSelectedSemester] = useState<number | null>(
+    null
+  );
+
+  const fetchAnalytics = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await mentorApi.getAnalytics(filters);
+      const data: CohortAnalytics = response.data.data;
+      setAnalytics(data);
+
+      // Keep the chosen semester if it still has results, else show the latest
+      const semesters = data.gpaDistribution.map((entry) => entry.semester);
+      setSelectedSemester((current) =>
+        current !== null && semesters.includes(current)
+          ? current
+          : semesters[semesters.length - 1] ?? null
+      );
+    } catch (error: any) {
+      console.error("Failed to load analytics:", error);
+      toast.error(error.response?.data?.error || "Failed to load analytics");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [filters]);
+
+  if (!analytics) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold">Cohort Analytics</h1>
+        <div className="flex justify-center py-12">
+          {isLoading ? (
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+          ) : (
+            <button
+              onClick={fetchAnalytics}
+              className="text-primary text-sm hover:underline"
+            >
+              Try again
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const {
+    gpaDistribution,
+    branches,
+    backlogs,
+    achievements,
+    issueTypes,
+  } = analytics;
+
+  const selectedBranch = branches.find(
+    (branch) => (branch.branch ?? "") === (filters.branch ?? "")
+  );
+  const semester = gpaDistribution.find(
+    (entry) => entry.semester === selectedSemester
+  );
+  const menteesWithBacklogs = backlogs.bins
+    .filter((bin) => bin.label !== "0")
+    .reduce((sum, bin) => sum + bin.count, 0);
+  const totalIssues = issueTypes.reduce((sum, entry) => sum + entry.count, 0);
+
+  const statCards = [
+    {
+      title: filters.branch || filters.section ? "Mentees in View" : "Mentees",
+      value:
+        filters.branch || filters.section
+          ? `${analytics.cohortSize} of ${analytics.totalMentees}`
+          : analytics.totalMentees,
+      icon: UsersIcon,
+      color: "bg-blue-50 text-blue-500",
+    },
+    {
+      title: "Semesters with Results",
+      value: gpaDistribution.length,
+      icon: AcademicCapIcon,
+      color: "bg-green-50 text-green-500",
+    },
+    {
+      title: "Mentees with Backlogs",
+      value: menteesWithBacklogs,
+      icon: InboxStackIcon,
+      color: "bg-red-50 text-red-500",
+    },
+    {
+      title: "Issues Raised",
+      value: totalIssues,
+      icon: ClipboardDocumentListIcon,
+      color: "bg-amber-50 text-amber-500",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Cohort Analytics</h1>
+          <p className="text-gray-600">
+            How your mentees are doing as a group
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={filters.branch ?? ""}
+            onChange={(e) =>
+              setFilters({ branch: e.target.value || undefined })
+            }
+            className={selectClass}
+          >
+            <option value="">All branches</option>
+            {branches
+              .filter((branch) => branch.branch)
+              .map((branch) => (
+                <option key={branch.branch} value={branch.branch!}>
+                  {branch.branch} ({branch.count})
+                </option>
+              ))}
+          </select>
+          <select
+            value={filters.section ?? ""}
+            onChange={(e) =>
+              setFilters((current) => ({
+                ...current,
+                section: e.target.value || undefined,
+              }))
+            }
+            disabled={!filters.branch}
+            className={`${selectClass} disabled:opacity-50`}
+          >
+            <option value="">All sections</option>
+            {selectedBranch?.sections
+              .filter((section) => section.section)
+              .map((section) => (
+                <option key={section.section} value={section.section!}>
+                  Section {section.section} ({section.count})
+                </option>
+              ))}
+          </select>
+          <button
+            onClick={fetchAnalytics}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+          >
+            <ArrowPathIcon
+              className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {statCards.map((stat) => (
+          <div key={stat.title} className="bg-white rounded-lg shadow-sm p-6">
+            <div className="flex items-center space-x-4">
+              <div className={`p-3 rounded-full ${stat.color}`}>
+                <stat.icon className="w-6 h-6" />
+              </div>
+              <div>
+                <p className="text-gray-500 text-sm">{stat.title}</p>
+                <p className="text-2xl font-bold">{stat.value}</p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* GPA distribution per semester */}
+      <div className="bg-white rounded-lg shadow-sm p-6 space-y-6">
+        <h2 className="text-lg font-semibold">GPA by Semester</h2>
+
+        <LineChart
+          labels={gpaDistribution.map((entry) => `Sem ${entry.semester}`)}
+          series={[
+            {
+              name: "Average",
+              values: gpaDistribution.map((entry) => entry.average),
+            },
+            {
+              name: "Highest",
+              values: gpaDistribution.map((entry) => entry.highest),
+              color: "#10b981",
+            },
+            {
+              name: "Lowest",
+              values: gpaDistribution.map((entry) => entry.lowest),
+              color: "#ef4444",
+            },
+          ]}
+          min={0}
+          max={Math.max(10, ...gpaDistribution.map((entry) => entry.highest))}
+          formatValue={(value) => value.toFixed(value % 1 === 0 ? 0 : 2)}
+          emptyMessage="No semester results recorded yet"
+        />
+
+        {gpaDistribution.length > 0 && (
+          <div className="pt-6 border-t">
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <span className="text-sm text-gray-600 mr-2">
+                Distribution for
+              </span>
+              {gpaDistribution.map((entry) => (
+                <button
+                  key={entry.semester}
+                  onClick={() => setSelectedSemester(entry.semester)}
+                  className={`px-3 py-1 text-sm rounded-full transition ${
+                    entry.semester === selectedSemester
+                      ? "bg-primary text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  Semester {entry.semester}
+                </button>
+              ))}
+            </div>
+
+            {semester && (
+              <>
+                <p className="text-sm text-gray-500 mb-2">
+                  {semester.mentees} mentees · average{" "}
+                  {semester.average.toFixed(2)} · range{" "}
+                  {semester.lowest.toFixed(2)}–{semester.highest.toFixed(2)}
+                </p>
+                <BarChart
+                  labels={semester.bands.map(
+                    (band) => `${band.from}–${band.to}`
+                  )}
+                  series={[
+                    {
+                      name: "Mentees",
+                      values: semester.bands.map((band) => band.count),
+                    },
+                  ]}
+                />
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Branch and section breakdown (always the whole group) */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold mb-4">Branches & Sections</h2>
+          <DonutChart
+            slices={branches.map((branch) => ({
+              label: branch.branch || NOT_SET,
+              value: branch.count,
+            }))}
+            totalLabel="mentees"
+            emptyMessage="No mentees yet"
+          />
+          {branches.some((branch) => branch.sections.length > 0) && (
+            <table className="w-full text-sm mt-6">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">
+                    Branch
+                  </th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">
+                    Sections
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {branches
+                  .filter((branch) => branch.sections.length > 0)
+                  .map((branch) => (
+                    <tr
+                      key={branch.branch || NOT_SET}
+                      className="border-t border-gray-200"
+                    >
+                      <td className="px-4 py-2 font-medium">
+                        {branch.branch || NOT_SET}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {branch.sections
+                          .map(
+                            (section) =>
+                              `${section.section || NOT_SET}: ${section.count}`
+                          )
+                          .join(" · ")}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Backlog histogram */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold mb-4">Pending Backlogs</h2>
+          <BarChart
+            labels={backlogs.bins.map((bin) => bin.label)}
+            series={[
+              {
+                name: "Mentees",
+                values: backlogs.bins.map((bin) => bin.count),
+                color: "#ef4444",
+              },
+            ]}
+            emptyMessage="No academic records yet"
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            Mentees by number of pending backlogs
+            {backlogs.noRecord > 0 &&
+              `; ${backlogs.noRecord} without an academic record`}
+          </p>
+        </div>
+
+        {/* Achievement types leaderboard */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold flex items-center mb-4">
+            <TrophyIcon className="w-5 h-5 mr-2 text-amber-500" />
+            Achievement Types
+          </h2>
+          {achievements.types.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              No achievements recorded yet
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {achievements.types.map((entry, index) => (
+                <li key={entry.type} className="flex items-center gap-3">
+                  <span className="w-6 text-sm font-semibold text-gray-400">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-gray-900">
+                        {entry.type}
+                      </span>
+                      <span className="text-gray-600">
+                        {entry.count} by {entry.mentees}{" "}
+                        {entry.mentees === 1 ? "mentee" : "mentees"}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full bg-amber-400"
+                        style={{
+                          width: `${
+                            (entry.count / achievements.types[0].count) * 100
+                          }%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {achievements.topMentees.length > 0 && (
+            <div className="mt-6 pt-4 border-t">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                Most achievements
+              </h3>
+              <ul className="divide-y">
+                {achievements.topMentees.map((mentee) => (
+                  <li
+                    key={mentee.id}
+                    onClick={() => router.push(`/mentor/mentees/${mentee.id}`)}
+                    className="py-2 flex justify-between text-sm cursor-pointer hover:bg-gray-50"
+                  >
+                    <span>{mentee.name || mentee.email}</span>
+                    <span className="font-medium">{mentee.count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Issue type frequency */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold mb-4">Issues by Type</h2>
+          <BarChart
+            labels={issueTypes.map((entry) => entry.issueType)}
+            series={[
+              {
+                name: "Open",
+                values: issueTypes.map((entry) => entry.open),
+                color: "#ef4444",
+              },
+              {
+                name: "Resolved or closed",
+                values: issueTypes.map((entry) => entry.count - entry.open),
+                color: "#10b981",
+              },
+            ]}
+            emptyMessage="No issues raised yet"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,15 +5,23 @@ import { useRouter } from "next/navigation";
 import { mentorApi } from "@/services/api";
 import { useAuth } from "@/lib/auth";
 import { useAPIService } from "@/hooks/useAPIService";
+import {
+  useLiveUpdates,
+  DashboardEvent,
+  IssueEvent,
+} from "@/hooks/useRealtime";
 import {
   UserIcon,
   ClipboardDocumentListIcon,
   ArrowPathIcon,
   UserPlusIcon,
+  StarIcon,
+  ExclamationTriangleIcon,
 } from "@heroicons/react/24/outline";
 import { toast } from "react-hot-toast";
 import { showToast, trackPromise } from "@/components/ui/CustomToasts";
 import IssueSummary from "../issues/components/IssueSummary";
+import AchievementTypeChart from "@/components/ui/charts/AchievementTypeChart";
 
 // Interface aligned with backend response
 interface RecentIssue {
@@ -29,12 +37,41 @@ interface RecentIssue {
   };
 }
 
+// Mirrors utils/issueMetrics getMentorResolutionMetrics
+interface ResolutionQuality {
+  resolved: number;
+  confirmed: number;
+  reopened: number;
+  reopenRate: number | null;
+  rated: number;
+  averageRating: number | null;
+  ratingCounts: Record<string, number>;
+  averageResolutionHours: number | null;
+}
+
+// Mirrors utils/riskScoring getAtRiskMentees
+interface AtRiskMentee {
+  mentee: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  score: number;
+  level: "medium" | "high";
+  reasons: { rule: string; message: string }[];
+}
+
 interface MentorDashboardData {
   totalMentees: number;
   pendingIssues: number;
   recentIssues: RecentIssue[];
+  resolutionQuality?: ResolutionQuality;
+  atRiskMentees?: AtRiskMentee[];
 }
 
+const formatDuration = (hours: number) =>
+  hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+
 export default function MentorDashboardPage() {
   const { user } = useAuth();
   const router = useRouter();
@@ -44,6 +81,9 @@ export default function MentorDashboardPage() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   // For client-side only rendering to avoid hydration errors
   const [isClient, setIsClient] = useState(false);
+  const [achievements, setAchievements] = useState<
+    { type: string; dateOfAchievement: string }[]
+  >([]);
 
   // State to store dashboard data directly
   const [dashboardData, setDashboardData] = useState<MentorDashboardData>({
@@ -69,6 +109,16 @@ export default function MentorDashboardPage() {
     fetchDashboardData();
   }, []);
 
+  // Mentees' achievements for the chart, reloaded with the dashboard
+  useEffect(() => {
+    mentorApi
+      .getAchievements()
+      .then((response) => setAchievements(response.data.data || []))
+      .catch((error) =>
+        console.error("Failed to load achievements for chart:", error)
+      );
+  }, [refreshTrigger]);
+
   // Update local state when dashboardService data changes
   useEffect(() => {
     if (dashboardService.data) {
@@ -76,6 +126,21 @@ export default function MentorDashboardPage() {
     }
   }, [dashboardService.data]);
 
+  // Live counters from the server, and a quiet refetch when an issue is
+  // created so the recent issues list stays current
+  useLiveUpdates<MentorDashboardData, DashboardEvent>(
+    dashboardService,
+    "dashboard",
+    {
+      merge: (current, event) =>
+        current && { ...current, pendingIssues: event.pendingIssues },
+    }
+  );
+  useLiveUpdates<MentorDashboardData, IssueEvent>(dashboardService, "issue", {
+    filter: (event) => event.kind !== "comment",
+    refetch: async () => (await mentorApi.getDashboard()).data.data,
+  });
+
   // Function to fetch dashboard data
   const fetchDashboardData = async () => {
     try {
@@ -169,8 +234,45 @@ export default function MentorDashboardPage() {
     totalMentees: dashboardData.totalMentees,
     pendingIssues: dashboardData.pendingIssues,
     recentIssues: dashboardData.recentIssues || [],
+    resolutionQuality: dashboardData.resolutionQuality,
+    atRiskMentees: dashboardData.atRiskMentees || [],
   };
 
+  const quality = dashboard.resolutionQuality;
+  const qualityStats = quality
+    ? [
+        {
+          label: "Average rating",
+          value:
+            quality.averageRating !== null
+              ? `${quality.averageRating.toFixed(1)} / 5`
+              : "—",
+          hint: `${quality.rated} rated`,
+        },
+        {
+          label: "Reopen rate",
+          value:
+            quality.reopenRate !== null
+              ? `${Math.round(quality.reopenRate * 100)}%`
+              : "—",
+          hint: `${quality.reopened} reopened`,
+        },
+        {
+          label: "Confirmed by mentee",
+          value: quality.confirmed,
+          hint: `of ${quality.resolved} resolved`,
+        },
+        {
+          label: "Average resolution time",
+          value:
+            quality.averageResolutionHours !== null
+              ? formatDuration(quality.averageResolutionHours)
+              : "—",
+          hint: "from report to resolution",
+        },
+      ]
+    : [];
+
   const statCards = [
     {
       title: "Total Mentees",
@@ -254,9 +356,92 @@ export default function MentorDashboardPage() {
           ))}
         </div>
 
+        {/* Mentees flagged by the risk rules, with what triggered each flag */}
+        {dashboard.atRiskMentees.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <ExclamationTriangleIcon className="w-5 h-5 text-red-500" />
+              <h2 className="text-lg font-semibold">At-Risk Mentees</h2>
+              <span className="text-sm text-gray-500">
+                ({dashboard.atRiskMentees.length})
+              </span>
+            </div>
+            <div className="space-y-3">
+              {dashboard.atRiskMentees.map((entry) => (
+                <div
+                  key={entry.mentee.id}
+                  className="border border-gray-100 rounded-lg p-4 hover:bg-gray-50 transition cursor-pointer"
+                  onClick={() =>
+                    router.push(`/mentor/mentees/${entry.mentee.id}`)
+                  }
+                >
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <h3 className="font-medium text-gray-900">
+                        {entry.mentee.name || entry.mentee.email}
+                      </h3>
+                      {entry.mentee.name && (
+                        <p className="text-xs text-gray-500">
+                          {entry.mentee.email}
+                        </p>
+                      )}
+                    </div>
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${
+                        entry.level === "high"
+                          ? "bg-red-100 text-red-800"
+                          : "bg-amber-100 text-amber-800"
+                      }`}
+                    >
+                      {entry.level === "high" ? "High risk" : "At risk"}
+                    </span>
+                  </div>
+                  <ul className="mt-2 flex flex-wrap gap-2">
+                    {entry.reasons.map((reason) => (
+                      <li
+                        key={reason.rule}
+                        className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded"
+                      >
+                        {reason.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Resolution quality from mentee confirmations, reopens and ratings */}
+        {qualityStats.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <StarIcon className="w-5 h-5 text-amber-500" />
+              <h2 className="text-lg font-semibold">Resolution Quality</h2>
+            </div>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {qualityStats.map((stat) => (
+                <div
+                  key={stat.label}
+                  className="border border-gray-100 rounded-lg p-4"
+                >
+                  <p className="text-gray-500 text-sm">{stat.label}</p>
+                  <p className="text-xl font-bold mt-1">{stat.value}</p>
+                  <p className="text-xs text-gray-400 mt-1">{stat.hint}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Issue Summary - pass refreshTrigger to force refresh */}
         <IssueSummary refreshTrigger={refreshTrigger} />
 
+        <AchievementTypeChart
+          achievements={achievements}
+          title="Mentee Achievements Over Time"
+        />
+
         {/* Add Mentee Form */}
         <div className="bg-white rounded-lg shadow-sm p-6">
           <h2 className="text-lg font-semibold mb-4">Add New Mentee</h2>
@@ -9,9 +9,13 @@ import {
   ArrowLeftIcon,
   PaperAirplaneIcon,
   CheckCircleIcon,
+  StarIcon,
 } from "@heroicons/react/24/outline";
 import { toast } from "react-hot-toast";
 import { showToast, trackPromise } from "@/components/ui/CustomToasts";
+import SlaBadge, { IssueSla } from "@/components/ui/SlaBadge";
+import StatusTimeline, { StatusChange } from "@/components/ui/StatusTimeline";
+import { useRealtimeEvent, IssueEvent } from "@/hooks/useRealtime";
 
 interface IssueDetails {
   _id: string;
@@ -35,6 +39,19 @@ interface IssueDetails {
     text: string;
     createdAt: string;
   }[];
+  statusHistory?: StatusChange[];
+  feedback?: {
+    rating: number;
+    comment?: string;
+    submittedAt: string;
+  };
+  sla?: IssueSla;
+  escalations?: {
+    _id: string;
+    kind: "response" | "resolution";
+    note?: string;
+    createdAt: string;
+  }[];
 }
 
 export default function IssueDetailsPage({
@@ -47,6 +64,7 @@ export default function IssueDetailsPage({
   const [issue, setIssue] = useState<IssueDetails | null>(null);
   const [comment, setComment] = useState("");
   const [newStatus, setNewStatus] = useState<string | null>(null);
+  const [statusReason, setStatusReason] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showStatusConfirm, setShowStatusConfirm] = useState(false);
   const [pendingStatus, setPendingStatus] = useState<string | null>(null);
@@ -86,6 +104,18 @@ export default function IssueDetailsPage({
     }
   };
 
+  // Pick up the mentee's replies and status changes without a reload
+  useRealtimeEvent<IssueEvent>("issue", async (event) => {
+    if (event.issueId !== params.issueId) return;
+
+    try {
+      const response = await mentorApi.getIssue(params.issueId);
+      setIssue(response.data.data);
+    } catch (error) {
+      console.error("Error refreshing issue details:", error);
+    }
+  });
+
   const handleSubmitComment = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -109,6 +139,7 @@ export default function IssueDetailsPage({
         mentorApi.addComment(params.issueId, {
           text: comment,
           status: newStatus,
+          reason: issue?.status !== newStatus ? statusReason : undefined,
         }),
         {
           loading: "Submitting your response...",
@@ -135,6 +166,7 @@ export default function IssueDetailsPage({
 
         setIssue(updatedIssue);
         setComment("");
+        setStatusReason("");
       }
     } catch (error) {
       console.error("Error adding comment:", error);
@@ -231,13 +263,16 @@ export default function IssueDetailsPage({
           <ArrowLeftIcon className="w-4 h-4 mr-1" />
           Back to Issues
         </button>
-        <span
-          className={`px-3 py-1 text-sm font-medium rounded-full ${getStatusColor(
-            issue.status
-          )}`}
-        >
-          {issue.status}
-        </span>
+        <div className="flex items-center space-x-2">
+          <SlaBadge status={issue.status} sla={issue.sla} showOnTrack />
+          <span
+            className={`px-3 py-1 text-sm font-medium rounded-full ${getStatusColor(
+              issue.status
+            )}`}
+          >
+            {issue.status}
+          </span>
+        </div>
       </div>
 
       {/* Issue Details */}
@@ -267,10 +302,62 @@ export default function IssueDetailsPage({
                 {issue.description}
               </p>
             </div>
+            {issue.escalations && issue.escalations.length > 0 && (
+              <div className="mt-4 bg-red-50 border border-red-200 p-4 rounded-lg">
+                <p className="text-sm font-medium text-red-800">
+                  Escalated to administrators
+                </p>
+                <ul className="mt-1 space-y-1">
+                  {issue.escalations.map((escalation) => (
+                    <li key={escalation._id} className="text-sm text-red-700">
+                      {new Date(escalation.createdAt).toLocaleString()}:{" "}
+                      {escalation.note ||
+                        `Missed ${escalation.kind} deadline`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Mentee feedback on the resolution */}
+      {issue.feedback && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold mb-3">Mentee Feedback</h2>
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map((star) => (
+              <StarIcon
+                key={star}
+                className={`w-5 h-5 ${
+                  star <= issue.feedback!.rating
+                    ? "text-amber-400 fill-amber-400"
+                    : "text-gray-300"
+                }`}
+              />
+            ))}
+            <span className="ml-2 text-sm text-gray-500">
+              {new Date(issue.feedback.submittedAt).toLocaleDateString()}
+            </span>
+          </div>
+          {issue.feedback.comment && (
+            <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">
+              {issue.feedback.comment}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Status History */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold mb-4">Status History</h2>
+        <StatusTimeline
+          history={issue.statusHistory}
+          createdAt={issue.createdAt}
+        />
+      </div>
+
       {/* Comments */}
       <div className="bg-white rounded-lg shadow-sm overflow-hidden">
         <h2 className="text-lg font-semibold p-6 border-b">Comments</h2>
@@ -411,6 +498,26 @@ export default function IssueDetailsPage({
               </div>
             </div>
 
+            {newStatus && newStatus !== issue.status && (
+              <div>
+                <label
+                  htmlFor="statusReason"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Reason for status change (optional)
+                </label>
+                <input
+                  id="statusReason"
+                  type="text"
+                  value={statusReason}
+                  onChange={(e) => setStatusReason(e.target.value)}
+                  maxLength={300}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm"
+                  placeholder={`Why is this issue now "${newStatus}"?`}
+                />
+              </div>
+            )}
+
             <div className="flex justify-end">
               <button
                 type="submit"
@@ -4,9 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { showToast } from "@/components/ui/CustomToasts";
 import { mentorApi } from "@/services/api";
-
-// Set the threshold in days for an issue to be considered pending for too long
-const DAYS_THRESHOLD = 3;
+import { getSlaState } from "@/components/ui/SlaBadge";
 
 interface IssueNotificationsProps {
   autoCheck?: boolean; // Whether to automatically check for pending issues
@@ -45,31 +43,34 @@ export default function IssueNotifications({
       if (response.data.success) {
         const issues = response.data.data || [];
 
-        // Find issues that have been open or under review for too long
-        const oldPendingIssues = issues.filter((issue: any) => {
-          // Only consider open or under review issues
-          if (issue.status !== "Open" && issue.status !== "Under Review") {
-            return false;
+        // Deadlines come from the server's SLA policy for each issue type
+        const slaStates = issues.map((issue: any) =>
+          getSlaState(issue.status, issue.sla)
+        );
+        const overdueCount = slaStates.filter(
+          (state: any) => state?.overdue
+        ).length;
+        const dueSoonCount = slaStates.filter(
+          (state: any) => state?.dueSoon
+        ).length;
+
+        // If there are issues past or near their deadline, show a notification
+        if (overdueCount > 0 || dueSoonCount > 0) {
+          const plural = (count: number) =>
+            `${count} issue${count === 1 ? "" : "s"}`;
+
+          if (overdueCount > 0) {
+            showToast.error(
+              `${plural(overdueCount)} past the response or resolution deadline`,
+              "Overdue issues are escalated to administrators"
+            );
+          } else {
+            showToast.info(
+              `${plural(dueSoonCount)} due within the next 24 hours`,
+              "Click to view and resolve them"
+            );
           }
 
-          // Calculate how many days the issue has been pending
-          const createdAt = new Date(issue.createdAt);
-          const now = new Date();
-          const diffTime = Math.abs(now.getTime() - createdAt.getTime());
-          const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-          return diffDays >= DAYS_THRESHOLD;
-        });
-
-        // If there are pending issues, show a notification
-        if (oldPendingIssues.length > 0) {
-          showToast.info(
-            `You have ${oldPendingIssues.length} issue${
-              oldPendingIssues.length === 1 ? "" : "s"
-            } pending for more than ${DAYS_THRESHOLD} days`,
-            "Click to view and resolve them"
-          );
-
           // Only show notifications once
           setHasShownNotifications(true);
         }
@@ -3,7 +3,9 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { mentorApi } from "@/services/api";
+import { useRealtimeEvent, IssueEvent } from "@/hooks/useRealtime";
 import { showToast, trackPromise } from "@/components/ui/CustomToasts";
+import IssueStatusChart from "@/components/ui/charts/IssueStatusChart";
 import {
   ClipboardDocumentListIcon,
   ExclamationCircleIcon,
@@ -48,6 +50,13 @@ export default function IssueSummary({
     fetchIssueCounts();
   }, [refreshTrigger]);
 
+  // New issues and status changes move the counts
+  useRealtimeEvent<IssueEvent>("issue", (event) => {
+    if (event.kind === "created" || event.kind === "status") {
+      fetchIssueCounts();
+    }
+  });
+
   const fetchIssueCounts = async () => {
     if (!loading && refreshTrigger === 0) {
       setLoading(true);
@@ -201,6 +210,17 @@ export default function IssueSummary({
           </button>
         ))}
       </div>
+
+      {counts.total > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <IssueStatusChart
+            bare
+            counts={Object.fromEntries(
+              statusCards.map((card) => [card.label, card.count])
+            )}
+          />
+        </div>
+      )}
     </div>
   );
 }
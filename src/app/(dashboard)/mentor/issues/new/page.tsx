@@ -11,25 +11,18 @@ import {
   ArrowLeftIcon,
   UserIcon,
   AcademicCapIcon,
-  ExclamationTriangleIcon,
   HomeIcon,
   ChatBubbleBottomCenterTextIcon,
   EllipsisHorizontalCircleIcon,
 } from "@heroicons/react/24/outline";
 import { showToast, trackPromise } from "@/components/ui/CustomToasts";
 
-// Form validation schema
+// Form validation schema. Ragging and harassment are reported by mentees
+// directly to the anti-ragging committee, so mentors can't raise them.
 const issueSchema = z.object({
   menteeId: z.string().min(1, "Please select a mentee"),
   issueType: z.enum(
-    [
-      "Academic",
-      "Grievances",
-      "Ragging",
-      "Harassment",
-      "Accommodation",
-      "Other",
-    ],
+    ["Academic", "Grievances", "Accommodation", "Other"],
     {
       required_error: "Please select an issue type",
     }
@@ -94,18 +87,6 @@ export default function NewIssuePage() {
       description:
         "Complaints or concerns about university services or policies",
     },
-    {
-      value: "Ragging",
-      label: "Ragging",
-      icon: <ExclamationTriangleIcon className="w-5 h-5" />,
-      description: "Incidents of hazing or bullying by seniors",
-    },
-    {
-      value: "Harassment",
-      label: "Harassment",
-      icon: <ExclamationTriangleIcon className="w-5 h-5" />,
-      description: "Any form of harassment or discrimination",
-    },
     {
       value: "Accommodation",
       label: "Accommodation",
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { mentorApi } from "@/services/api";
 import { useAPIService } from "@/hooks/useAPIService";
+import { useLiveUpdates, IssueEvent } from "@/hooks/useRealtime";
 import {
   ClipboardDocumentListIcon,
   ArrowPathIcon,
@@ -12,6 +13,7 @@ import {
   PlusIcon,
 } from "@heroicons/react/24/outline";
 import { showToast, trackPromise } from "@/components/ui/CustomToasts";
+import SlaBadge, { IssueSla } from "@/components/ui/SlaBadge";
 
 interface Issue {
   _id: string;
@@ -32,6 +34,7 @@ interface Issue {
     text: string;
     createdAt: string;
   }[];
+  sla?: IssueSla;
   createdAt: string;
   updatedAt: string;
 }
@@ -73,6 +76,21 @@ export default function MentorIssuesPage() {
     }
   };
 
+  // Status changes are merged in place; new issues and comments need a refetch
+  useLiveUpdates<Issue[], IssueEvent>(issuesService, "issue", {
+    filter: (event) => event.kind === "status",
+    merge: (current, event) =>
+      (current || []).map((issue) =>
+        issue._id === event.issueId
+          ? { ...issue, status: event.status, updatedAt: event.updatedAt }
+          : issue
+      ),
+  });
+  useLiveUpdates<Issue[], IssueEvent>(issuesService, "issue", {
+    filter: (event) => event.kind === "created" || event.kind === "comment",
+    refetch: async () => (await mentorApi.getIssues()).data.data || [],
+  });
+
   // Function to refresh issues data
   const refreshData = () => {
     trackPromise(
@@ -283,13 +301,16 @@ export default function MentorIssuesPage() {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(
-                          issue.status
-                        )}`}
-                      >
-                        {issue.status}
-                      </span>
+                      <div className="flex flex-col items-start gap-1">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(
+                            issue.status
+                          )}`}
+                        >
+                          {issue.status}
+                        </span>
+                        <SlaBadge status={issue.status} sla={issue.sla} />
+                      </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {new Date(issue.createdAt).toLocaleDateString()}
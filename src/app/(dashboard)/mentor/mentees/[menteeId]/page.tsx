@@ -2,7 +2,12 @@
 
 import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import { mentorApi } from "@/services/api";
+import {
+  mentorApi,
+  transferApi,
+  AcademicSummary,
+  SubjectRecord,
+} from "@/services/api";
 import {
   UserIcon,
   AcademicCapIcon,
@@ -13,8 +18,21 @@ import {
   BuildingOfficeIcon,
   ArrowLeftIcon,
   ExclamationCircleIcon,
+  ArrowsRightLeftIcon,
+  UserMinusIcon,
+  DocumentArrowDownIcon,
 } from "@heroicons/react/24/outline";
 import { toast } from "react-hot-toast";
+import VerificationBadge, {
+  Verification,
+} from "@/components/ui/VerificationBadge";
+import CgpaTrend from "@/components/ui/CgpaTrend";
+import BacklogList from "@/components/ui/BacklogList";
+import GpaTrendChart from "@/components/ui/charts/GpaTrendChart";
+import AchievementTypeChart from "@/components/ui/charts/AchievementTypeChart";
+import IssueStatusChart, {
+  countIssueStatuses,
+} from "@/components/ui/charts/IssueStatusChart";
 
 // Interfaces aligned with backend models
 interface MenteeProfile {
@@ -64,17 +82,28 @@ interface MenteeProfile {
 interface AcademicRecord {
   mentee: string;
   semesterGPA: {
+    _id: string;
     semester: number;
     gpa: number;
+    verification?: Verification;
   }[];
+  subjects?: SubjectRecord[];
   moocCourses: string[];
-  certifications: string[];
+  certifications: {
+    _id: string;
+    name: string;
+    verification?: Verification;
+  }[];
   semesterMarksheets: {
     semester: number;
-    imageUrl: string;
-    _id?: string;
+    fileKey: string;
+    fileName?: string;
+    mimeType?: string;
+    _id: string;
+    verification?: Verification;
   }[];
   backlogs: number;
+  attendance?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -117,6 +146,32 @@ interface Issue {
 
 type TabType = "profile" | "academics" | "achievements" | "issues";
 
+type VerifiableEntryType =
+  | "semesterGPA"
+  | "certifications"
+  | "semesterMarksheets";
+
+interface HistoryUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+// Entry from GET /api/transfers/history/:menteeId, newest first
+interface MentorHistoryEntry {
+  mentor: HistoryUser | null;
+  assignedBy: HistoryUser | null;
+  assignedAt: string;
+  unassignedAt?: string;
+  viaTransfer: boolean;
+}
+
+interface EntryToReject {
+  entryType: VerifiableEntryType;
+  entryId: string;
+  label: string;
+}
+
 export default function MenteeDetailsPage({
   params,
 }: {
@@ -132,10 +187,26 @@ export default function MenteeDetailsPage({
   const [menteeAcademics, setMenteeAcademics] = useState<AcademicRecord | null>(
     null
   );
+  const [academicSummary, setAcademicSummary] =
+    useState<AcademicSummary | null>(null);
   const [menteeAchievements, setMenteeAchievements] = useState<Achievement[]>(
     []
   );
   const [allMentorIssues, setAllMentorIssues] = useState<Issue[]>([]);
+  const [reviewingEntryId, setReviewingEntryId] = useState<string | null>(
+    null
+  );
+  const [entryToReject, setEntryToReject] = useState<EntryToReject | null>(
+    null
+  );
+  const [rejectReason, setRejectReason] = useState("");
+  const [mentorHistory, setMentorHistory] = useState<MentorHistoryEntry[]>([]);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
+  const [transferEmail, setTransferEmail] = useState("");
+  const [transferNote, setTransferNote] = useState("");
+  const [showUnassignDialog, setShowUnassignDialog] = useState(false);
+  const [isReassigning, setIsReassigning] = useState(false);
+  const [isDownloadingReport, setIsDownloadingReport] = useState(false);
 
   // Filter issues for this mentee only
   const menteeIssues = useMemo(() => {
@@ -147,9 +218,57 @@ export default function MenteeDetailsPage({
   useEffect(() => {
     if (params.menteeId) {
       fetchMenteeData();
+      fetchMentorHistory();
     }
   }, [params.menteeId]);
 
+  const fetchMentorHistory = async () => {
+    try {
+      const response = await transferApi.getMentorHistory(params.menteeId);
+      setMentorHistory(response.data.data || []);
+    } catch (error) {
+      console.error("Error fetching mentor history:", error);
+    }
+  };
+
+  // Ask another mentor to take this mentee over
+  const requestTransfer = async () => {
+    if (!transferEmail.trim()) return;
+
+    setIsReassigning(true);
+
+    try {
+      await transferApi.requestTransfer({
+        menteeId: params.menteeId,
+        toMentorEmail: transferEmail.trim(),
+        note: transferNote.trim() || undefined,
+      });
+      toast.success("Transfer requested. It completes once accepted.");
+      setShowTransferDialog(false);
+      setTransferEmail("");
+      setTransferNote("");
+    } catch (error: any) {
+      console.error("Error requesting transfer:", error);
+      toast.error(error.response?.data?.error || "Failed to request transfer");
+    } finally {
+      setIsReassigning(false);
+    }
+  };
+
+  const confirmUnassign = async () => {
+    setIsReassigning(true);
+
+    try {
+      await mentorApi.unassignMentee(params.menteeId);
+      toast.success("Mentee removed from your list");
+      router.push("/mentor/mentees");
+    } catch (error: any) {
+      console.error("Error unassigning mentee:", error);
+      toast.error(error.response?.data?.error || "Failed to unassign mentee");
+      setIsReassigning(false);
+    }
+  };
+
   const fetchMenteeData = async () => {
     setLoading(true);
     setError(null);
@@ -212,6 +331,7 @@ export default function MenteeDetailsPage({
       // Process academics data
       if (academicsRes.data.success) {
         setMenteeAcademics(academicsRes.data.data);
+        setAcademicSummary(academicsRes.data.summary || null);
       } else {
         console.error("Failed to load academic data:", academicsRes.data);
       }
@@ -241,6 +361,128 @@ export default function MenteeDetailsPage({
     }
   };
 
+  // Open a stored marksheet in a new tab
+  const viewMarksheet = async (semester: number) => {
+    try {
+      const response = await mentorApi.getMenteeMarksheet(
+        params.menteeId,
+        semester
+      );
+      const url = URL.createObjectURL(response.data);
+      window.open(url, "_blank", "noopener,noreferrer");
+      // Give the new tab time to load the file before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (error) {
+      console.error("Error fetching marksheet:", error);
+      toast.error("Failed to open marksheet");
+    }
+  };
+
+  // Download the generated PDF report for this mentee
+  const downloadReport = async () => {
+    setIsDownloadingReport(true);
+
+    try {
+      const response = await mentorApi.getMenteeReport(params.menteeId);
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `mentee-report-${
+        menteeProfile?.registrationNo || params.menteeId
+      }.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading report:", error);
+      toast.error("Failed to generate report");
+    } finally {
+      setIsDownloadingReport(false);
+    }
+  };
+
+  // Verify or reject a single academic entry
+  const reviewEntry = async (
+    entryType: VerifiableEntryType,
+    entryId: string,
+    status: "verified" | "rejected",
+    reason?: string
+  ) => {
+    setReviewingEntryId(entryId);
+
+    try {
+      const response = await mentorApi.verifyAcademicEntry(
+        params.menteeId,
+        entryType,
+        entryId,
+        { status, reason }
+      );
+
+      if (response.data.success) {
+        setMenteeAcademics(response.data.data);
+        toast.success(
+          status === "verified" ? "Entry verified" : "Entry rejected"
+        );
+      }
+    } catch (error: any) {
+      console.error("Error reviewing academic entry:", error);
+      toast.error(error.response?.data?.error || "Failed to update review");
+    } finally {
+      setReviewingEntryId(null);
+    }
+  };
+
+  const confirmReject = async () => {
+    if (!entryToReject || !rejectReason.trim()) return;
+
+    await reviewEntry(
+      entryToReject.entryType,
+      entryToReject.entryId,
+      "rejected",
+      rejectReason.trim()
+    );
+    setEntryToReject(null);
+    setRejectReason("");
+  };
+
+  const renderReviewControls = (
+    entryType: VerifiableEntryType,
+    entry: { _id: string; verification?: Verification },
+    label: string
+  ) => {
+    const status = entry.verification?.status || "pending";
+    const isReviewing = reviewingEntryId === entry._id;
+
+    return (
+      <div className="flex flex-col items-center gap-2">
+        <VerificationBadge verification={entry.verification} />
+        <div className="flex gap-2">
+          {status !== "verified" && (
+            <button
+              type="button"
+              disabled={isReviewing}
+              onClick={() => reviewEntry(entryType, entry._id, "verified")}
+              className="px-2 py-1 text-xs font-medium rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+            >
+              Verify
+            </button>
+          )}
+          {status !== "rejected" && (
+            <button
+              type="button"
+              disabled={isReviewing}
+              onClick={() =>
+                setEntryToReject({ entryType, entryId: entry._id, label })
+              }
+              className="px-2 py-1 text-xs font-medium rounded border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              Reject
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   const renderTabContent = () => {
     if (loading) {
       return (
@@ -456,6 +698,7 @@ export default function MenteeDetailsPage({
     const hasNoData =
       (!menteeAcademics.semesterGPA ||
         menteeAcademics.semesterGPA.length === 0) &&
+      (!menteeAcademics.subjects || menteeAcademics.subjects.length === 0) &&
       (!menteeAcademics.moocCourses ||
         menteeAcademics.moocCourses.length === 0) &&
       (!menteeAcademics.certifications ||
@@ -481,20 +724,64 @@ export default function MenteeDetailsPage({
       );
     }
 
+    const pendingReviews = [
+      ...(menteeAcademics.semesterGPA || []),
+      ...(menteeAcademics.certifications || []),
+      ...(menteeAcademics.semesterMarksheets || []),
+    ].filter((entry) => (entry.verification?.status || "pending") === "pending")
+      .length;
+
+    const marksheetFor = (semester: number) =>
+      menteeAcademics.semesterMarksheets?.find(
+        (marksheet) => marksheet.semester === semester
+      );
+
+    const subjectsFor = (semester: number) =>
+      (menteeAcademics.subjects || []).filter(
+        (subject) => subject.semester === semester
+      );
+
     return (
       <div className="space-y-6">
         <div className="bg-white rounded-lg shadow-sm p-6">
           <h3 className="text-lg font-semibold mb-4">Academic Progress</h3>
-          <div className="grid grid-cols-1 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="bg-gray-50 p-4 rounded-lg">
               <p className="text-sm text-gray-500 mb-1">Active Backlogs</p>
               <p className="font-medium text-2xl">
                 {menteeAcademics.backlogs || 0}
               </p>
             </div>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-500 mb-1">Attendance</p>
+              <p className="font-medium text-2xl">
+                {menteeAcademics.attendance !== undefined
+                  ? `${menteeAcademics.attendance}%`
+                  : "—"}
+              </p>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-500 mb-1">
+                Entries Awaiting Review
+              </p>
+              <p
+                className={`font-medium text-2xl ${
+                  pendingReviews > 0 ? "text-amber-600" : ""
+                }`}
+              >
+                {pendingReviews}
+              </p>
+            </div>
           </div>
         </div>
 
+        {academicSummary && academicSummary.semesters.length > 0 && (
+          <>
+            <GpaTrendChart summary={academicSummary} />
+            <CgpaTrend summary={academicSummary} />
+          </>
+        )}
+
         {menteeAcademics.semesterGPA &&
           menteeAcademics.semesterGPA.length > 0 && (
             <div className="bg-white rounded-lg shadow-sm p-6">
@@ -512,10 +799,35 @@ export default function MenteeDetailsPage({
                           Semester {semGPA.semester}
                         </h4>
                       </div>
-                      <div className="p-4 text-center">
+                      <div className="p-4 text-center space-y-3">
                         <p className="text-2xl font-bold">
                           {semGPA.gpa.toFixed(2)}
                         </p>
+                        {subjectsFor(semGPA.semester).length > 0 && (
+                          <p className="text-xs text-gray-500">
+                            Calculated from{" "}
+                            {subjectsFor(semGPA.semester).length} subject
+                            grade(s)
+                          </p>
+                        )}
+                        {marksheetFor(semGPA.semester) ? (
+                          <button
+                            type="button"
+                            onClick={() => viewMarksheet(semGPA.semester)}
+                            className="text-sm text-primary hover:underline"
+                          >
+                            Check against marksheet
+                          </button>
+                        ) : (
+                          <p className="text-xs text-gray-500">
+                            No marksheet uploaded
+                          </p>
+                        )}
+                        {renderReviewControls(
+                          "semesterGPA",
+                          semGPA,
+                          `Semester ${semGPA.semester} GPA`
+                        )}
                       </div>
                     </div>
                   ))}
@@ -523,6 +835,78 @@ export default function MenteeDetailsPage({
             </div>
           )}
 
+        {menteeAcademics.subjects && menteeAcademics.subjects.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h3 className="text-lg font-semibold mb-4">Subjects & Grades</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">
+                      Semester
+                    </th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">
+                      Code
+                    </th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">
+                      Subject
+                    </th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">
+                      Credits
+                    </th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">
+                      Internal / External
+                    </th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">
+                      Grade
+                    </th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">
+                      Attempt
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {menteeAcademics.subjects.map((subject, index) => (
+                    <tr key={index} className="border-t border-gray-200">
+                      <td className="px-4 py-2">{subject.semester}</td>
+                      <td className="px-4 py-2 text-gray-500">
+                        {subject.code || "—"}
+                      </td>
+                      <td className="px-4 py-2">{subject.name}</td>
+                      <td className="px-4 py-2">{subject.credits}</td>
+                      <td className="px-4 py-2">
+                        {subject.internalMarks ?? "—"} /{" "}
+                        {subject.externalMarks ?? "—"}
+                      </td>
+                      <td
+                        className={`px-4 py-2 font-medium ${
+                          subject.passed === false ? "text-red-600" : ""
+                        }`}
+                      >
+                        {subject.grade}
+                      </td>
+                      <td className="px-4 py-2">
+                        {subject.attempt || 1}
+                        {(subject.attempt || 1) > 1 &&
+                          ` (semester ${subject.examSemester})`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {academicSummary &&
+          menteeAcademics.subjects &&
+          menteeAcademics.subjects.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h3 className="text-lg font-semibold mb-4">Backlogs</h3>
+              <BacklogList backlogs={academicSummary.backlogs} />
+            </div>
+          )}
+
         {menteeAcademics.semesterMarksheets &&
         menteeAcademics.semesterMarksheets.length > 0 ? (
           <div className="bg-white rounded-lg shadow-sm p-6">
@@ -540,20 +924,27 @@ export default function MenteeDetailsPage({
                         Semester {marksheet.semester}
                       </h4>
                     </div>
-                    {marksheet.imageUrl ? (
-                      <a
-                        href={marksheet.imageUrl}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="block p-4 text-center text-primary hover:underline"
+                    {marksheet.fileKey ? (
+                      <button
+                        type="button"
+                        onClick={() => viewMarksheet(marksheet.semester)}
+                        className="block w-full p-4 text-center text-primary hover:underline"
                       >
                         View Marksheet
-                      </a>
+                        {marksheet.mimeType === "application/pdf" && " (PDF)"}
+                      </button>
                     ) : (
                       <p className="p-4 text-center text-gray-500">
                         No marksheet uploaded
                       </p>
                     )}
+                    <div className="px-4 pb-4">
+                      {renderReviewControls(
+                        "semesterMarksheets",
+                        marksheet,
+                        `Semester ${marksheet.semester} marksheet`
+                      )}
+                    </div>
                   </div>
                 ))}
             </div>
@@ -580,10 +971,14 @@ export default function MenteeDetailsPage({
           menteeAcademics.certifications.length > 0 && (
             <div className="bg-white rounded-lg shadow-sm p-6">
               <h3 className="text-lg font-semibold mb-4">Certifications</h3>
-              <ul className="list-disc pl-5 space-y-1">
-                {menteeAcademics.certifications.map((cert, index) => (
-                  <li key={index} className="text-gray-700">
-                    {cert}
+              <ul className="divide-y">
+                {menteeAcademics.certifications.map((cert) => (
+                  <li
+                    key={cert._id}
+                    className="py-3 flex items-center justify-between gap-4"
+                  >
+                    <span className="text-gray-700">{cert.name}</span>
+                    {renderReviewControls("certifications", cert, cert.name)}
                   </li>
                 ))}
               </ul>
@@ -613,6 +1008,8 @@ export default function MenteeDetailsPage({
 
     return (
       <div className="space-y-6">
+        <AchievementTypeChart achievements={menteeAchievements} />
+
         <div className="bg-white rounded-lg shadow-sm overflow-hidden">
           <h3 className="text-lg font-semibold p-6 border-b">
             Achievements List
@@ -676,6 +1073,8 @@ export default function MenteeDetailsPage({
 
     return (
       <div className="space-y-6">
+        <IssueStatusChart counts={countIssueStatuses(menteeIssues)} />
+
         <div className="bg-white rounded-lg shadow-sm overflow-hidden">
           <h3 className="text-lg font-semibold p-6 border-b">Issues List</h3>
           <div className="divide-y">
@@ -748,11 +1147,35 @@ export default function MenteeDetailsPage({
           <ArrowLeftIcon className="w-4 h-4 mr-1" />
           Back to Mentees
         </button>
-        {menteeProfile && (
-          <h1 className="text-2xl font-bold">
-            {menteeProfile.name || "Mentee Details"}
-          </h1>
-        )}
+        <div className="flex items-center space-x-3">
+          {menteeProfile && (
+            <h1 className="text-2xl font-bold">
+              {menteeProfile.name || "Mentee Details"}
+            </h1>
+          )}
+          <button
+            onClick={downloadReport}
+            disabled={isDownloadingReport}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+          >
+            <DocumentArrowDownIcon className="w-4 h-4" />
+            {isDownloadingReport ? "Generating..." : "Download Report"}
+          </button>
+          <button
+            onClick={() => setShowTransferDialog(true)}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition"
+          >
+            <ArrowsRightLeftIcon className="w-4 h-4" />
+            Transfer
+          </button>
+          <button
+            onClick={() => setShowUnassignDialog(true)}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-red-300 text-red-600 rounded-md hover:bg-red-50 transition"
+          >
+            <UserMinusIcon className="w-4 h-4" />
+            Unassign
+          </button>
+        </div>
       </div>
 
       {/* Tabs */}
@@ -817,6 +1240,152 @@ export default function MenteeDetailsPage({
         {/* Tab Content */}
         <div className="p-6">{renderTabContent()}</div>
       </div>
+
+      {/* Mentor History */}
+      {mentorHistory.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold mb-4">Mentor History</h2>
+          <ul className="space-y-3">
+            {mentorHistory.map((entry, index) => (
+              <li
+                key={index}
+                className="flex justify-between items-center text-sm"
+              >
+                <div>
+                  <span className="font-medium text-gray-900">
+                    {entry.mentor?.name || entry.mentor?.email || "Unknown"}
+                  </span>
+                  {entry.viaTransfer && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
+                      Transfer
+                    </span>
+                  )}
+                  {!entry.unassignedAt && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <span className="text-gray-500">
+                  {new Date(entry.assignedAt).toLocaleDateString()} –{" "}
+                  {entry.unassignedAt
+                    ? new Date(entry.unassignedAt).toLocaleDateString()
+                    : "present"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Transfer Dialog */}
+      {showTransferDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <h3 className="text-lg font-medium mb-2">Transfer Mentee</h3>
+            <p className="text-gray-600 mb-4">
+              The receiving mentor has to accept before the mentee moves. Open
+              issues and achievements move with the mentee.
+            </p>
+            <input
+              type="email"
+              value={transferEmail}
+              onChange={(e) => setTransferEmail(e.target.value)}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 mb-3 focus:outline-none focus:ring-2 focus:ring-primary/50 sm:text-sm"
+              placeholder="Receiving mentor's email"
+            />
+            <textarea
+              rows={3}
+              value={transferNote}
+              onChange={(e) => setTransferNote(e.target.value)}
+              className="w-full border border-gray-300 rounded-md p-3 focus:outline-none focus:ring-2 focus:ring-primary/50 sm:text-sm"
+              placeholder="Note for the receiving mentor (optional)"
+            />
+            <div className="flex justify-end space-x-4 mt-4">
+              <button
+                onClick={() => setShowTransferDialog(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={requestTransfer}
+                disabled={!transferEmail.trim() || isReassigning}
+                className="px-4 py-2 border border-transparent rounded-md text-white bg-primary hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isReassigning ? "Sending..." : "Request Transfer"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Unassign Dialog */}
+      {showUnassignDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <h3 className="text-lg font-medium mb-2">Unassign Mentee</h3>
+            <p className="text-gray-600 mb-4">
+              This mentee will be left without a mentor until another mentor
+              or an administrator assigns them. Their existing issues stay
+              with you until a new mentor takes them over.
+            </p>
+            <div className="flex justify-end space-x-4">
+              <button
+                onClick={() => setShowUnassignDialog(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmUnassign}
+                disabled={isReassigning}
+                className="px-4 py-2 border border-transparent rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+              >
+                Unassign
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Entry Dialog */}
+      {entryToReject && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <h3 className="text-lg font-medium mb-2">Reject Entry</h3>
+            <p className="text-gray-600 mb-4">
+              Tell the mentee why "{entryToReject.label}" could not be
+              verified.
+            </p>
+            <textarea
+              rows={3}
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              className="w-full border border-gray-300 rounded-md p-3 focus:outline-none focus:ring-2 focus:ring-primary/50 sm:text-sm"
+              placeholder="e.g. GPA does not match the uploaded marksheet"
+            />
+            <div className="flex justify-end space-x-4 mt-4">
+              <button
+                onClick={() => {
+                  setEntryToReject(null);
+                  setRejectReason("");
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmReject}
+                disabled={!rejectReason.trim() || reviewingEntryId !== null}
+                className="px-4 py-2 border border-transparent rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { mentorApi } from "@/services/api";
+import { mentorApi, transferApi } from "@/services/api";
 import { useAPIService } from "@/hooks/useAPIService";
 import {
   UserIcon,
@@ -10,11 +10,13 @@ import {
   ArrowPathIcon,
   ExclamationCircleIcon,
   UserPlusIcon,
-  LinkIcon,
   ClipboardIcon,
+  ArrowsRightLeftIcon,
+  DocumentArrowUpIcon,
+  DocumentChartBarIcon,
 } from "@heroicons/react/24/outline";
 import { toast } from "react-hot-toast";
-import { useAuth } from "@/lib/auth";
+import MenteeInviteLinks from "@/components/ui/MenteeInviteLinks";
 
 // Interface aligned with backend response structure
 interface Mentee {
@@ -26,19 +28,76 @@ interface Mentee {
   branch: string | null;
 }
 
+// Per-row outcome from POST /api/mentor/mentees/import
+interface ImportResult {
+  row: number;
+  email: string;
+  name: string | null;
+  status: "created" | "assigned" | "skipped" | "failed";
+  message: string;
+  inviteToken?: string;
+}
+
+interface ImportReport {
+  summary: Record<ImportResult["status"], number>;
+  data: ImportResult[];
+}
+
+const importStatusStyles: Record<ImportResult["status"], string> = {
+  created: "bg-green-100 text-green-800",
+  assigned: "bg-blue-100 text-blue-800",
+  skipped: "bg-gray-100 text-gray-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+// Background job from /api/mentor/reports/batch
+interface ReportJob {
+  id: string;
+  format: "pdf" | "xlsx";
+  status: "queued" | "running" | "completed" | "failed";
+  progress: { completed: number; total: number };
+  fileName?: string;
+  error?: string;
+  createdAt: string;
+}
+
+// How often to check on a report that is still being generated
+const REPORT_POLL_INTERVAL = 2000;
+
+interface TransferUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+// Pending handover from GET /api/transfers
+interface Transfer {
+  id: string;
+  mentee: TransferUser;
+  fromMentor: TransferUser;
+  toMentor: TransferUser;
+  status: string;
+  note?: string;
+  direction: "incoming" | "outgoing" | null;
+  createdAt: string;
+}
+
 export default function MenteesPage() {
   const router = useRouter();
-  const { user } = useAuth();
   const [menteeEmail, setMenteeEmail] = useState("");
   const [isAssigning, setIsAssigning] = useState(false);
   const [showInviteLink, setShowInviteLink] = useState(false);
-  const [copied, setCopied] = useState(false);
-
-  // Generate invitation link with mentorId
-  const inviteLink =
-    typeof window !== "undefined"
-      ? `${window.location.origin}/register?mentorId=${user?.id || ""}`
-      : "";
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [reportJob, setReportJob] = useState<ReportJob | null>(null);
+  const [reportFormat, setReportFormat] = useState<"pdf" | "xlsx">("pdf");
+  const reportPollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [respondingTransferId, setRespondingTransferId] = useState<
+    string | null
+  >(null);
 
   // Use our enhanced API service hook with caching
   const menteesService = useAPIService<Mentee[]>([], {
@@ -49,8 +108,146 @@ export default function MenteesPage() {
 
   useEffect(() => {
     fetchMentees();
+    fetchTransfers();
+    fetchLatestReport();
+
+    return () => {
+      if (reportPollRef.current) {
+        clearTimeout(reportPollRef.current);
+      }
+    };
   }, []);
 
+  const isReportActive = (job: ReportJob | null) =>
+    job?.status === "queued" || job?.status === "running";
+
+  // Keep checking a report until it completes or fails
+  const pollReport = (jobId: string) => {
+    reportPollRef.current = setTimeout(async () => {
+      try {
+        const response = await mentorApi.getBatchReport(jobId);
+        const job: ReportJob = response.data.data;
+        setReportJob(job);
+
+        if (isReportActive(job)) {
+          pollReport(jobId);
+        } else if (job.status === "completed") {
+          toast.success("Semester report is ready");
+        } else {
+          toast.error(job.error || "Report generation failed");
+        }
+      } catch (error) {
+        console.error("Error checking report progress:", error);
+      }
+    }, REPORT_POLL_INTERVAL);
+  };
+
+  // Pick up the most recent report, resuming progress if it is still running
+  const fetchLatestReport = async () => {
+    try {
+      const response = await mentorApi.getBatchReports();
+      const latest: ReportJob | undefined = response.data.data?.[0];
+
+      if (latest) {
+        setReportJob(latest);
+        if (isReportActive(latest)) {
+          pollReport(latest.id);
+        }
+      }
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+    }
+  };
+
+  const startReport = async () => {
+    try {
+      const response = await mentorApi.startBatchReport(reportFormat);
+      const job: ReportJob = response.data.data;
+      setReportJob(job);
+      pollReport(job.id);
+    } catch (error: any) {
+      console.error("Error starting report:", error);
+      toast.error(error.response?.data?.error || "Failed to start report");
+
+      // A report started elsewhere is still running; follow that one instead
+      if (error.response?.status === 409 && error.response.data?.data) {
+        setReportJob(error.response.data.data);
+        pollReport(error.response.data.data.id);
+      }
+    }
+  };
+
+  const downloadReport = async () => {
+    if (!reportJob) return;
+
+    try {
+      const response = await mentorApi.downloadBatchReport(reportJob.id);
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download =
+        reportJob.fileName || `semester-report.${reportJob.format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading report:", error);
+      toast.error("Failed to download report");
+    }
+  };
+
+  // Function to fetch pending transfers to and from this mentor
+  const fetchTransfers = async () => {
+    try {
+      const response = await transferApi.getTransfers("pending");
+      setTransfers(response.data.data || []);
+    } catch (error) {
+      console.error("Error fetching transfers:", error);
+    }
+  };
+
+  // Function to accept or decline an incoming transfer
+  const respondToTransfer = async (transfer: Transfer, accept: boolean) => {
+    setRespondingTransferId(transfer.id);
+
+    try {
+      await transferApi.respondToTransfer(transfer.id, accept);
+      toast.success(
+        accept
+          ? `${transfer.mentee.name || transfer.mentee.email} is now your mentee`
+          : "Transfer declined"
+      );
+      setTransfers((prev) => prev.filter((t) => t.id !== transfer.id));
+
+      if (accept) {
+        refreshData();
+      }
+    } catch (error: any) {
+      console.error("Error responding to transfer:", error);
+      toast.error(
+        error.response?.data?.error || "Failed to respond to transfer"
+      );
+      fetchTransfers();
+    } finally {
+      setRespondingTransferId(null);
+    }
+  };
+
+  // Function to withdraw an outgoing transfer
+  const cancelTransfer = async (transfer: Transfer) => {
+    setRespondingTransferId(transfer.id);
+
+    try {
+      await transferApi.cancelTransfer(transfer.id);
+      toast.success("Transfer cancelled");
+      setTransfers((prev) => prev.filter((t) => t.id !== transfer.id));
+    } catch (error: any) {
+      console.error("Error cancelling transfer:", error);
+      toast.error(error.response?.data?.error || "Failed to cancel transfer");
+    } finally {
+      setRespondingTransferId(null);
+    }
+  };
+
   // Function to fetch mentees data
   const fetchMentees = async () => {
     try {
@@ -104,16 +301,56 @@ export default function MenteesPage() {
     }
   };
 
-  // Function to copy invitation link to clipboard
-  const copyInviteLink = () => {
-    if (typeof navigator !== "undefined") {
-      navigator.clipboard.writeText(inviteLink);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-      toast.success("Invitation link copied to clipboard");
+  // Function to import mentees from a CSV file
+  const handleImport = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!importFile) {
+      toast.error("Please choose a CSV file");
+      return;
+    }
+
+    setIsImporting(true);
+
+    try {
+      const response = await mentorApi.importMentees(importFile);
+      const report: ImportReport = response.data;
+      setImportReport(report);
+      setImportFile(null);
+      if (importInputRef.current) {
+        importInputRef.current.value = "";
+      }
+
+      toast.success(
+        `Imported ${report.summary.created + report.summary.assigned} mentee(s)`
+      );
+      refreshData();
+    } catch (error: any) {
+      console.error("Error importing mentees:", error);
+      toast.error(error.response?.data?.error || "Failed to import mentees");
+    } finally {
+      setIsImporting(false);
     }
   };
 
+  // Build the link a mentee opens to activate an imported account
+  const getInviteUrl = (token: string) =>
+    typeof window !== "undefined"
+      ? `${window.location.origin}/invite/${token}`
+      : "";
+
+  // Copy "email,link" lines for every invite in the report
+  const copyAllInviteLinks = () => {
+    if (!importReport || typeof navigator === "undefined") return;
+
+    const lines = importReport.data
+      .filter((result) => result.inviteToken)
+      .map((result) => `${result.email},${getInviteUrl(result.inviteToken!)}`);
+
+    navigator.clipboard.writeText(lines.join("\n"));
+    toast.success(`${lines.length} invite link(s) copied to clipboard`);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -170,65 +407,332 @@ export default function MenteesPage() {
             </button>
           </div>
 
-          <div className="grid md:grid-cols-2 gap-6">
-            {/* Assign by Email */}
-            <div className="space-y-4">
-              <h3 className="font-medium flex items-center">
-                <EnvelopeIcon className="w-4 h-4 mr-2" />
-                Assign by Email
-              </h3>
-              <form
-                onSubmit={handleAssignMentee}
-                className="flex items-center gap-2"
+          {/* Assign by Email */}
+          <div className="space-y-4">
+            <h3 className="font-medium flex items-center">
+              <EnvelopeIcon className="w-4 h-4 mr-2" />
+              Assign by Email
+            </h3>
+            <form
+              onSubmit={handleAssignMentee}
+              className="flex items-center gap-2"
+            >
+              <input
+                type="email"
+                value={menteeEmail}
+                onChange={(e) => setMenteeEmail(e.target.value)}
+                placeholder="Enter mentee's email"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+                disabled={isAssigning}
+              />
+              <button
+                type="submit"
+                disabled={isAssigning}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
               >
-                <input
-                  type="email"
-                  value={menteeEmail}
-                  onChange={(e) => setMenteeEmail(e.target.value)}
-                  placeholder="Enter mentee's email"
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
-                  disabled={isAssigning}
-                />
+                {isAssigning ? "Assigning..." : "Assign"}
+              </button>
+            </form>
+          </div>
+
+          {/* Invitation Links */}
+          <div className="border-t mt-6 pt-6">
+            <MenteeInviteLinks />
+          </div>
+
+          {/* Import from CSV */}
+          <div className="space-y-4 border-t mt-6 pt-6">
+            <h3 className="font-medium flex items-center">
+              <DocumentArrowUpIcon className="w-4 h-4 mr-2" />
+              Import from CSV
+            </h3>
+            <div className="text-sm text-gray-600">
+              Upload a CSV with the columns{" "}
+              <code className="bg-gray-100 px-1 rounded">email</code>,{" "}
+              <code className="bg-gray-100 px-1 rounded">name</code>,{" "}
+              <code className="bg-gray-100 px-1 rounded">
+                registration number
+              </code>
+              , <code className="bg-gray-100 px-1 rounded">section</code> and{" "}
+              <code className="bg-gray-100 px-1 rounded">branch</code>. New
+              emails get an account and an invite link; existing unassigned
+              mentees are assigned to you.
+            </div>
+            <form onSubmit={handleImport} className="flex items-center gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                className="flex-1 text-sm text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-md file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+                disabled={isImporting}
+              />
+              <button
+                type="submit"
+                disabled={!importFile || isImporting}
+                className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+              >
+                {isImporting ? "Importing..." : "Import"}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Import Report */}
+      {importReport && (
+        <div className="bg-white rounded-lg shadow-sm p-4">
+          <div className="flex justify-between items-center mb-3">
+            <div>
+              <h2 className="text-lg font-semibold">Import Report</h2>
+              <p className="text-sm text-gray-600">
+                {importReport.summary.created} created,{" "}
+                {importReport.summary.assigned} assigned,{" "}
+                {importReport.summary.skipped} skipped,{" "}
+                {importReport.summary.failed} failed
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              {importReport.data.some((result) => result.inviteToken) && (
                 <button
-                  type="submit"
-                  disabled={isAssigning}
-                  className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+                  onClick={copyAllInviteLinks}
+                  className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition"
                 >
-                  {isAssigning ? "Assigning..." : "Assign"}
+                  <ClipboardIcon className="w-4 h-4" />
+                  Copy Invite Links
                 </button>
-              </form>
+              )}
+              <button
+                onClick={() => setImportReport(null)}
+                className="px-3 py-2 text-sm text-gray-500 hover:text-gray-700"
+              >
+                Dismiss
+              </button>
             </div>
+          </div>
+          <p className="text-xs text-amber-700 mb-3">
+            Invite links are shown only once. Copy them before leaving this
+            page; re-importing a pending mentee issues a new link.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Row
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Email
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Result
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Details
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Invite
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {importReport.data.map((result) => (
+                  <tr key={result.row}>
+                    <td className="px-4 py-2 text-gray-500">{result.row}</td>
+                    <td className="px-4 py-2 text-gray-900">
+                      {result.email || "—"}
+                      {result.name && (
+                        <span className="text-gray-500"> ({result.name})</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full capitalize ${
+                          importStatusStyles[result.status]
+                        }`}
+                      >
+                        {result.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {result.message}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {result.inviteToken && (
+                        <button
+                          onClick={() => {
+                            navigator.clipboard.writeText(
+                              getInviteUrl(result.inviteToken!)
+                            );
+                            toast.success("Invite link copied");
+                          }}
+                          className="text-primary hover:text-primary/80 transition"
+                        >
+                          Copy Link
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
 
-            {/* Invitation Link */}
-            <div className="space-y-4">
-              <h3 className="font-medium flex items-center">
-                <LinkIcon className="w-4 h-4 mr-2" />
-                Invitation Link
-              </h3>
-              <div className="text-sm text-gray-600 mb-2">
-                Share this link with mentees to automatically assign them to you
-                when they register.
+      {/* Semester Report */}
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center">
+              <DocumentChartBarIcon className="w-5 h-5 mr-2" />
+              Semester Report
+            </h2>
+            <p className="text-sm text-gray-600">
+              One report covering every assigned mentee: a summary table plus
+              a section per mentee.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={reportFormat}
+              onChange={(e) =>
+                setReportFormat(e.target.value as "pdf" | "xlsx")
+              }
+              disabled={isReportActive(reportJob)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+            >
+              <option value="pdf">PDF</option>
+              <option value="xlsx">Excel (XLSX)</option>
+            </select>
+            <button
+              onClick={startReport}
+              disabled={isReportActive(reportJob)}
+              className="px-3 py-2 text-sm bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+            >
+              Generate
+            </button>
+          </div>
+        </div>
+
+        {reportJob && (
+          <div className="mt-4">
+            {isReportActive(reportJob) ? (
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>
+                    {reportJob.status === "queued"
+                      ? "Waiting to start..."
+                      : "Collecting mentee records..."}
+                  </span>
+                  <span>
+                    {reportJob.progress.completed} / {reportJob.progress.total}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full transition-all"
+                    style={{
+                      width: `${
+                        reportJob.progress.total
+                          ? (reportJob.progress.completed /
+                              reportJob.progress.total) *
+                            100
+                          : 0
+                      }%`,
+                    }}
+                  />
+                </div>
               </div>
-              <div className="flex items-center gap-2">
-                <input
-                  type="text"
-                  value={inviteLink}
-                  readOnly
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-sm"
-                />
+            ) : reportJob.status === "completed" ? (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">
+                  {reportJob.format.toUpperCase()} report from{" "}
+                  {new Date(reportJob.createdAt).toLocaleString()} is ready.
+                </span>
                 <button
-                  onClick={copyInviteLink}
-                  className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition"
-                  title="Copy to clipboard"
+                  onClick={downloadReport}
+                  className="text-primary hover:text-primary/80 font-medium transition"
                 >
-                  <ClipboardIcon className="w-5 h-5" />
+                  Download
                 </button>
               </div>
-              {copied && (
-                <p className="text-sm text-green-600">Copied to clipboard!</p>
-              )}
-            </div>
+            ) : (
+              <p className="text-sm text-red-600">
+                Last report failed: {reportJob.error || "Unknown error"}
+              </p>
+            )}
           </div>
+        )}
+      </div>
+
+      {/* Pending Transfers */}
+      {transfers.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-4">
+          <h2 className="text-lg font-semibold mb-3 flex items-center">
+            <ArrowsRightLeftIcon className="w-5 h-5 mr-2" />
+            Pending Transfers
+          </h2>
+          <ul className="divide-y divide-gray-200">
+            {transfers.map((transfer) => (
+              <li
+                key={transfer.id}
+                className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+              >
+                <div>
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">
+                      {transfer.mentee.name || transfer.mentee.email}
+                    </span>{" "}
+                    {transfer.direction === "incoming"
+                      ? `from ${
+                          transfer.fromMentor.name || transfer.fromMentor.email
+                        }`
+                      : `to ${
+                          transfer.toMentor.name || transfer.toMentor.email
+                        }`}
+                  </p>
+                  {transfer.note && (
+                    <p className="text-sm text-gray-500 mt-0.5">
+                      {transfer.note}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    Requested{" "}
+                    {new Date(transfer.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {transfer.direction === "incoming" ? (
+                    <>
+                      <button
+                        onClick={() => respondToTransfer(transfer, true)}
+                        disabled={respondingTransferId === transfer.id}
+                        className="px-3 py-1.5 text-sm bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => respondToTransfer(transfer, false)}
+                        disabled={respondingTransferId === transfer.id}
+                        className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+                      >
+                        Decline
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => cancelTransfer(transfer)}
+                      disabled={respondingTransferId === transfer.id}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition disabled:opacity-50"
+                    >
+                      Cancel Transfer
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
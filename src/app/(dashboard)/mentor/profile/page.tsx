@@ -0,0 +1,90 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import { UserIcon, BuildingOfficeIcon } from "@heroicons/react/24/outline";
+import { authApi, AccountDetails } from "@/services/api";
+
+export default function MentorProfilePage() {
+  const [account, setAccount] = useState<AccountDetails | null>(null);
+
+  useEffect(() => {
+    authApi
+      .getAccount()
+      .then((response) => setAccount(response.data.data))
+      .catch((error) => {
+        console.error("Failed to load profile:", error);
+        toast.error("Failed to load profile");
+      });
+  }, []);
+
+  const details = [
+    { label: "Name", value: account?.name },
+    { label: "Email", value: account?.email },
+    { label: "Phone", value: account?.phone },
+  ];
+
+  const mentorDetails = [
+    { label: "Department", value: account?.mentorProfile?.department },
+    { label: "Designation", value: account?.mentorProfile?.designation },
+    { label: "Office Hours", value: account?.mentorProfile?.officeHours },
+    { label: "Cabin", value: account?.mentorProfile?.cabin },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Profile</h1>
+        <Link
+          href="/mentor/settings"
+          className="px-4 py-2 bg-primary text-white rounded hover:bg-primary/90 transition"
+        >
+          Edit Profile
+        </Link>
+      </div>
+
+      {!account ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent"></div>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-medium text-gray-900 flex items-center mb-4 pb-2 border-b">
+              <UserIcon className="w-5 h-5 mr-2 text-primary" />
+              Basic Information
+            </h2>
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+              {details.map((detail) => (
+                <div key={detail.label}>
+                  <dt className="text-gray-500">{detail.label}</dt>
+                  <dd className="font-medium text-gray-900">
+                    {detail.value || "—"}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-medium text-gray-900 flex items-center mb-4 pb-2 border-b">
+              <BuildingOfficeIcon className="w-5 h-5 mr-2 text-primary" />
+              Faculty Details
+            </h2>
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+              {mentorDetails.map((detail) => (
+                <div key={detail.label}>
+                  <dt className="text-gray-500">{detail.label}</dt>
+                  <dd className="font-medium text-gray-900">
+                    {detail.value || "—"}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
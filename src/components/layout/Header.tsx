@@ -5,6 +5,7 @@ import {
   Bars3Icon,
   ArrowRightOnRectangleIcon,
 } from "@heroicons/react/24/outline";
+import NotificationBell from "./NotificationBell";
 
 interface User {
   id: string;
@@ -41,6 +42,8 @@ export default function Header({ user, onMenuClick }: HeaderProps) {
 
         {/* Right section with user name and logout */}
         <div className="flex items-center space-x-4">
+          <NotificationBell />
+
           {/* User name (text only) */}
           <div className="flex flex-col text-right">
             <span className="text-sm font-medium text-gray-900">
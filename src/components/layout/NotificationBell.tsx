@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { BellIcon, CheckIcon } from "@heroicons/react/24/outline";
+import { notificationApi } from "@/services/api";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+
+export interface AppNotification {
+  _id: string;
+  type: string;
+  title: string;
+  message?: string;
+  link?: string;
+  issue?: string;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+// New notifications arrive over the live event stream; polling only catches
+// up after the stream was down
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+const timeAgo = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(dateString).toLocaleDateString();
+};
+
+export default function NotificationBell() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await notificationApi.getNotifications({ limit: 20 });
+      setNotifications(response.data.data || []);
+      setUnreadCount(response.data.unreadCount || 0);
+    } catch (error) {
+      // The bell is secondary; a failed poll shouldn't interrupt the page
+      console.error("Failed to fetch notifications:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useRealtimeEvent<AppNotification>("notification", (notification) => {
+    setNotifications((prev) => [notification, ...prev].slice(0, 20));
+    setUnreadCount((prev) => prev + 1);
+  });
+
+  useEffect(() => {
+    fetchNotifications();
+    const intervalId = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [fetchNotifications]);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(e.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const toggleOpen = () => {
+    if (!isOpen) {
+      setIsLoading(notifications.length === 0);
+      fetchNotifications();
+    }
+    setIsOpen((prev) => !prev);
+  };
+
+  const markRead = (ids?: string[]) => {
+    const now = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((notification) =>
+        !ids || ids.includes(notification._id)
+          ? { ...notification, readAt: notification.readAt || now }
+          : notification
+      )
+    );
+
+    notificationApi
+      .markAsRead(ids)
+      .then((response) => setUnreadCount(response.data.unreadCount))
+      .catch((error) =>
+        console.error("Failed to mark notifications as read:", error)
+      );
+  };
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.readAt) {
+      markRead([notification._id]);
+    }
+    setIsOpen(false);
+
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={toggleOpen}
+        className="relative p-2 rounded-full text-gray-500 hover:text-gray-900 hover:bg-gray-100"
+        aria-label={`Notifications${unreadCount ? ` (${unreadCount} unread)` : ""}`}
+      >
+        <BellIcon className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 flex items-center justify-center rounded-full bg-red-500 text-white text-[10px] font-semibold">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-lg shadow-lg border z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h3 className="text-sm font-semibold text-gray-900">
+              Notifications
+            </h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="flex items-center text-xs text-primary hover:underline"
+              >
+                <CheckIcon className="h-4 w-4 mr-1" />
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+              </div>
+            ) : notifications.length > 0 ? (
+              notifications.map((notification) => (
+                <button
+                  key={notification._id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition flex gap-3 ${
+                    notification.readAt ? "" : "bg-blue-50/50"
+                  }`}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${
+                      notification.readAt ? "bg-transparent" : "bg-primary"
+                    }`}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-medium text-gray-900">
+                      {notification.title}
+                    </span>
+                    {notification.message && (
+                      <span className="block text-sm text-gray-600 truncate">
+                        {notification.message}
+                      </span>
+                    )}
+                    <span className="block text-xs text-gray-400 mt-1">
+                      {timeAgo(notification.createdAt)}
+                    </span>
+                  </span>
+                </button>
+              ))
+            ) : (
+              <div className="py-8 text-center text-sm text-gray-500">
+                <BellIcon className="h-8 w-8 mx-auto text-gray-300 mb-2" />
+                You're all caught up
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
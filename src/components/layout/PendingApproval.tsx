@@ -0,0 +1,40 @@
+"use client";
+
+import Link from "next/link";
+import { ClockIcon, XCircleIcon } from "@heroicons/react/24/outline";
+
+// Shown instead of mentor pages until an administrator approves the account
+export default function PendingApproval({
+  status,
+}: {
+  status: "pending" | "rejected";
+}) {
+  const rejected = status === "rejected";
+  const Icon = rejected ? XCircleIcon : ClockIcon;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm text-center py-16 px-6 max-w-2xl mx-auto">
+      <Icon
+        className={`h-12 w-12 mx-auto mb-4 ${
+          rejected ? "text-red-500" : "text-amber-500"
+        }`}
+      />
+      <h1 className="text-xl font-semibold text-gray-900">
+        {rejected
+          ? "Your mentor account was not approved"
+          : "Your mentor account is awaiting approval"}
+      </h1>
+      <p className="mt-2 text-gray-600">
+        {rejected
+          ? "An administrator did not approve this registration. Contact them if you think this is a mistake."
+          : "You registered without an invite code, so an administrator has to approve your account before you can see mentees and issues. You'll get a notification as soon as they do."}
+      </p>
+      <Link
+        href="/mentor/settings"
+        className="inline-block mt-6 font-medium text-primary hover:text-primary/80 transition-colors"
+      >
+        Account settings
+      </Link>
+    </div>
+  );
+}
@@ -11,6 +11,12 @@ import {
   TrophyIcon,
   UsersIcon,
   XMarkIcon,
+  ArrowsRightLeftIcon,
+  ExclamationTriangleIcon,
+  ShieldCheckIcon,
+  Cog6ToothIcon,
+  KeyIcon,
+  ChartBarIcon,
 } from "@heroicons/react/24/outline";
 
 type SidebarProps = {
@@ -46,6 +52,11 @@ const menteeMenuItems = [
     href: "/mentee/achievements",
     icon: TrophyIcon,
   },
+  {
+    name: "Settings",
+    href: "/mentee/settings",
+    icon: Cog6ToothIcon,
+  },
 ];
 
 // Mentor Sidebar Items
@@ -70,6 +81,59 @@ const mentorMenuItems = [
     href: "/mentor/achievements",
     icon: TrophyIcon,
   },
+  {
+    name: "Analytics",
+    href: "/mentor/analytics",
+    icon: ChartBarIcon,
+  },
+  {
+    name: "Profile",
+    href: "/mentor/profile",
+    icon: UserIcon,
+  },
+  {
+    name: "Settings",
+    href: "/mentor/settings",
+    icon: Cog6ToothIcon,
+  },
+];
+
+// Admin Sidebar Items
+const adminMenuItems = [
+  {
+    name: "Dashboard",
+    href: "/admin/dashboard",
+    icon: HomeIcon,
+  },
+  {
+    name: "Users",
+    href: "/admin/users",
+    icon: UsersIcon,
+  },
+  {
+    name: "Mentor Assignments",
+    href: "/admin/assignments",
+    icon: ArrowsRightLeftIcon,
+  },
+  {
+    name: "Escalations",
+    href: "/admin/escalations",
+    icon: ExclamationTriangleIcon,
+  },
+  {
+    name: "Mentor Access",
+    href: "/admin/mentor-access",
+    icon: KeyIcon,
+  },
+];
+
+// Anti-ragging committee Sidebar Items
+const committeeMenuItems = [
+  {
+    name: "Confidential Cases",
+    href: "/committee/dashboard",
+    icon: ShieldCheckIcon,
+  },
 ];
 
 // Mentee-specific sidebar
@@ -82,6 +146,16 @@ function MentorSidebar({ isOpen, onClose }: Omit<SidebarProps, "userRole">) {
   return <SidebarLayout isOpen={isOpen} onClose={onClose} menuItems={mentorMenuItems} userRole="mentor" />;
 }
 
+// Admin-specific sidebar
+function AdminSidebar({ isOpen, onClose }: Omit<SidebarProps, "userRole">) {
+  return <SidebarLayout isOpen={isOpen} onClose={onClose} menuItems={adminMenuItems} userRole="admin" />;
+}
+
+// Committee-specific sidebar
+function CommitteeSidebar({ isOpen, onClose }: Omit<SidebarProps, "userRole">) {
+  return <SidebarLayout isOpen={isOpen} onClose={onClose} menuItems={committeeMenuItems} userRole="committee" />;
+}
+
 // Common sidebar layout
 function SidebarLayout({ 
   isOpen, 
@@ -192,6 +266,14 @@ export default function Sidebar({ isOpen, onClose, userRole }: SidebarProps) {
   if (userRole === "mentor") {
     return <MentorSidebar isOpen={isOpen} onClose={onClose} />;
   }
+
+  if (userRole === "admin") {
+    return <AdminSidebar isOpen={isOpen} onClose={onClose} />;
+  }
+
+  if (userRole === "committee") {
+    return <CommitteeSidebar isOpen={isOpen} onClose={onClose} />;
+  }
   
   return <MenteeSidebar isOpen={isOpen} onClose={onClose} />;
 }
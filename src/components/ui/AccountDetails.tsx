@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "react-hot-toast";
+import { UserIcon } from "@heroicons/react/24/outline";
+import { authApi, AccountDetails } from "@/services/api";
+import { useAuth } from "@/lib/auth";
+
+const accountSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().email("Invalid email"),
+  phone: z.string().optional(),
+  currentPassword: z.string().optional(),
+  mentorProfile: z
+    .object({
+      department: z.string().optional(),
+      designation: z.string().optional(),
+      officeHours: z.string().optional(),
+      cabin: z.string().optional(),
+    })
+    .optional(),
+});
+
+type AccountFormData = z.infer<typeof accountSchema>;
+
+const MENTOR_FIELDS: Array<{
+  key: "department" | "designation" | "officeHours" | "cabin";
+  label: string;
+  placeholder: string;
+}> = [
+  { key: "department", label: "Department", placeholder: "e.g. Computer Science" },
+  { key: "designation", label: "Designation", placeholder: "e.g. Assistant Professor" },
+  { key: "officeHours", label: "Office Hours", placeholder: "e.g. Mon–Fri, 2–4 pm" },
+  { key: "cabin", label: "Cabin", placeholder: "e.g. Block B, Room 214" },
+];
+
+const inputClass =
+  "w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary/50 bg-white";
+
+// Name, contact details and (for mentors) where to find them. Changing the
+// email asks for the current password and a new verification.
+export default function AccountDetailsCard() {
+  const { refreshUser } = useAuth();
+  const [account, setAccount] = useState<AccountDetails | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setError,
+    formState: { errors },
+  } = useForm<AccountFormData>({
+    resolver: zodResolver(accountSchema),
+  });
+
+  const loadAccount = (details: AccountDetails) => {
+    setAccount(details);
+    reset({
+      name: details.name || "",
+      email: details.email,
+      phone: details.phone || "",
+      currentPassword: "",
+      mentorProfile: details.mentorProfile,
+    });
+  };
+
+  useEffect(() => {
+    authApi
+      .getAccount()
+      .then((response) => loadAccount(response.data.data))
+      .catch((error) => {
+        console.error("Failed to load account:", error);
+        toast.error("Failed to load account details");
+      });
+  }, []);
+
+  const emailChanged =
+    !!account && (watch("email") || "").trim().toLowerCase() !== account.email;
+
+  const onSubmit = async (data: AccountFormData) => {
+    if (emailChanged && !data.currentPassword) {
+      setError("currentPassword", {
+        message: "Enter your current password to change your email",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await authApi.updateAccount({
+        name: data.name,
+        phone: data.phone,
+        ...(emailChanged && {
+          email: data.email,
+          currentPassword: data.currentPassword,
+        }),
+        ...(account?.role === "mentor" && { mentorProfile: data.mentorProfile }),
+      });
+
+      loadAccount(response.data.data);
+      await refreshUser();
+      toast.success(response.data.message || "Account updated");
+    } catch (error: any) {
+      console.error("Failed to update account:", error);
+      toast.error(error.response?.data?.error || "Failed to update account");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 flex items-center mb-4 pb-2 border-b">
+        <UserIcon className="w-5 h-5 mr-2 text-primary" />
+        Account Details
+      </h2>
+
+      {!account ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+        </div>
+      ) : (
+        <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input {...register("name")} className={inputClass} />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.name.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Phone
+              </label>
+              <input
+                type="tel"
+                {...register("phone")}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Email
+              </label>
+              <input
+                type="email"
+                {...register("email")}
+                className={inputClass}
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.email.message}
+                </p>
+              )}
+              {!account.emailVerified && (
+                <p className="mt-1 text-sm text-amber-600">
+                  Not verified yet — check your inbox for the link
+                </p>
+              )}
+            </div>
+
+            {emailChanged && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Current password
+                </label>
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  {...register("currentPassword")}
+                  className={inputClass}
+                />
+                {errors.currentPassword && (
+                  <p className="mt-1 text-sm text-red-600">
+                    {errors.currentPassword.message}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {account.role === "mentor" && (
+            <div className="pt-4 border-t">
+              <p className="text-sm text-gray-500 mb-3">
+                Shown to your mentees on their dashboard
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {MENTOR_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {field.label}
+                    </label>
+                    <input
+                      {...register(`mentorProfile.${field.key}`)}
+                      placeholder={field.placeholder}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-primary text-white rounded hover:bg-primary/90 transition disabled:opacity-50"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
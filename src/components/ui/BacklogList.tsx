@@ -0,0 +1,84 @@
+import {
+  ExclamationTriangleIcon,
+  CheckCircleIcon,
+} from "@heroicons/react/24/outline";
+import { AcademicSummary, BacklogSubject } from "@/services/api";
+
+interface BacklogListProps {
+  backlogs: AcademicSummary["backlogs"];
+}
+
+const subjectLabel = (subject: BacklogSubject) =>
+  subject.code ? `${subject.code} · ${subject.name}` : subject.name;
+
+// Subjects still to be cleared and those cleared on a re-attempt, worked out
+// on the server from the subject records
+export default function BacklogList({ backlogs }: BacklogListProps) {
+  const { pending, cleared } = backlogs;
+
+  return (
+    <div className="space-y-4">
+      {pending.length === 0 ? (
+        <p className="text-sm text-green-700 flex items-center">
+          <CheckCircleIcon className="w-5 h-5 mr-2" />
+          No pending backlogs
+        </p>
+      ) : (
+        <div>
+          <h3 className="text-sm font-medium text-red-700 flex items-center mb-2">
+            <ExclamationTriangleIcon className="w-5 h-5 mr-2" />
+            Pending ({pending.length})
+          </h3>
+          <ul className="divide-y border border-red-100 rounded-lg">
+            {pending.map((subject) => (
+              <li
+                key={`${subject.semester}-${subject.code || subject.name}`}
+                className="px-4 py-2 text-sm flex justify-between gap-4"
+              >
+                <span>
+                  {subjectLabel(subject)}
+                  <span className="text-gray-500">
+                    {" "}
+                    · Semester {subject.semester} · {subject.credits} credits
+                  </span>
+                </span>
+                <span className="text-gray-600 whitespace-nowrap">
+                  Grade {subject.grade} in semester {subject.lastExamSemester}
+                  {subject.attempts > 1 && ` (attempt ${subject.attempts})`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {cleared.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">
+            Cleared ({cleared.length})
+          </h3>
+          <ul className="divide-y border border-gray-200 rounded-lg">
+            {cleared.map((subject) => (
+              <li
+                key={`${subject.semester}-${subject.code || subject.name}`}
+                className="px-4 py-2 text-sm flex justify-between gap-4"
+              >
+                <span>
+                  {subjectLabel(subject)}
+                  <span className="text-gray-500">
+                    {" "}
+                    · Semester {subject.semester}
+                  </span>
+                </span>
+                <span className="text-gray-600 whitespace-nowrap">
+                  Cleared in semester {subject.clearedInSemester} with{" "}
+                  {subject.grade} (attempt {subject.attempts})
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import {
+  ArrowTrendingUpIcon,
+  ArrowTrendingDownIcon,
+  ChartBarIcon,
+} from "@heroicons/react/24/outline";
+import { AcademicSummary } from "@/services/api";
+
+interface CgpaTrendProps {
+  summary: AcademicSummary;
+}
+
+// Change smaller than this is shown as steady
+const STEADY_THRESHOLD = 0.01;
+
+// CGPA with how it moved semester by semester, from the server's academic
+// summary
+export default function CgpaTrend({ summary }: CgpaTrendProps) {
+  const { cgpa, totalCredits, semesters } = summary;
+
+  const renderChange = (index: number) => {
+    if (index === 0) return <span className="text-gray-400">—</span>;
+
+    const change = semesters[index].cgpa - semesters[index - 1].cgpa;
+    if (Math.abs(change) < STEADY_THRESHOLD) {
+      return <span className="text-gray-500">Steady</span>;
+    }
+
+    const Icon = change > 0 ? ArrowTrendingUpIcon : ArrowTrendingDownIcon;
+    return (
+      <span
+        className={`inline-flex items-center gap-1 ${
+          change > 0 ? "text-green-600" : "text-red-600"
+        }`}
+      >
+        <Icon className="w-4 h-4" />
+        {change > 0 ? "+" : ""}
+        {change.toFixed(2)}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold flex items-center mb-4">
+        <ChartBarIcon className="w-5 h-5 mr-2 text-primary" />
+        CGPA Trend
+      </h2>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-500 mb-1">CGPA</p>
+          <p className="font-medium text-2xl">
+            {cgpa === null ? "—" : cgpa.toFixed(2)}
+          </p>
+        </div>
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-500 mb-1">Credits Recorded</p>
+          <p className="font-medium text-2xl">{totalCredits}</p>
+        </div>
+      </div>
+
+      {semesters.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">
+          No semester results yet.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  Semester
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  SGPA
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  Credits
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  CGPA
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  Change
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {semesters.map((semester, index) => (
+                <tr key={semester.semester} className="border-t border-gray-200">
+                  <td className="px-4 py-2">Semester {semester.semester}</td>
+                  <td className="px-4 py-2">
+                    {semester.sgpa.toFixed(2)}
+                    {!semester.fromSubjects && (
+                      <span className="ml-2 text-xs text-gray-400">
+                        entered
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{semester.credits ?? "—"}</td>
+                  <td className="px-4 py-2 font-medium">
+                    {semester.cgpa.toFixed(2)}
+                  </td>
+                  <td className="px-4 py-2">{renderChange(index)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {semesters.some((semester) => !semester.fromSubjects) && (
+        <p className="mt-3 text-xs text-gray-500">
+          Semesters without subject grades use the GPA entered and count with
+          the average credit load of the others.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "react-hot-toast";
+import { LockClosedIcon } from "@heroicons/react/24/outline";
+import { authApi, setAccessToken } from "@/services/api";
+
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: z.string().min(6, "Password must be at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+const FIELDS: Array<{
+  name: keyof ChangePasswordFormData;
+  label: string;
+  autoComplete: string;
+}> = [
+  {
+    name: "currentPassword",
+    label: "Current password",
+    autoComplete: "current-password",
+  },
+  { name: "newPassword", label: "New password", autoComplete: "new-password" },
+  {
+    name: "confirmPassword",
+    label: "Confirm new password",
+    autoComplete: "new-password",
+  },
+];
+
+// Changing the password keeps this device signed in and signs out the rest
+export default function ChangePasswordCard() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+  });
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await authApi.changePassword(
+        data.currentPassword,
+        data.newPassword
+      );
+      setAccessToken(response.data.token);
+      reset();
+      toast.success(response.data.message || "Your password has been changed");
+    } catch (error: any) {
+      console.error("Failed to change password:", error);
+      toast.error(error.response?.data?.error || "Failed to change password");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 flex items-center mb-4 pb-2 border-b">
+        <LockClosedIcon className="w-5 h-5 mr-2 text-primary" />
+        Change Password
+      </h2>
+
+      <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {FIELDS.map((field) => (
+            <div key={field.name}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {field.label}
+              </label>
+              <input
+                type="password"
+                autoComplete={field.autoComplete}
+                {...register(field.name)}
+                className="w-full p-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary/50 bg-white"
+                disabled={isSubmitting}
+              />
+              {errors[field.name] && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors[field.name]?.message}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            className="px-4 py-2 bg-primary text-white rounded hover:bg-primary/90 transition disabled:opacity-50"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Saving..." : "Change password"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { EnvelopeIcon } from "@heroicons/react/24/outline";
+import { authApi, EmailPreferences } from "@/services/api";
+import { useAuth } from "@/lib/auth";
+
+const EVENTS: Array<{
+  key: keyof EmailPreferences;
+  label: string;
+  description: string;
+  roles?: string[];
+}> = [
+  {
+    key: "issueCreated",
+    label: "New issues",
+    description: "An issue is reported to you, or opened on your behalf",
+  },
+  {
+    key: "issueReply",
+    label: "Replies",
+    description: "Someone comments on an issue you are part of",
+  },
+  {
+    key: "issueStatus",
+    label: "Status changes",
+    description: "An issue is resolved, closed or reopened",
+  },
+  {
+    key: "slaBreach",
+    label: "Missed deadlines",
+    description: "An issue you handle or oversee misses a deadline",
+    roles: ["mentor", "admin", "committee"],
+  },
+  {
+    key: "menteeTransfer",
+    label: "Mentee transfers",
+    description: "Another mentor asks you to take over a mentee",
+    roles: ["mentor"],
+  },
+  {
+    key: "weeklyDigest",
+    label: "Weekly summary",
+    description: "Open issues and unread updates, once a week",
+  },
+];
+
+// Per-event email switches; each change is saved as soon as it is made
+export default function EmailPreferencesCard() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<EmailPreferences | null>(
+    null
+  );
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    authApi
+      .getEmailPreferences()
+      .then((response) => setPreferences(response.data.data))
+      .catch((error) => {
+        console.error("Failed to load email preferences:", error);
+        toast.error("Failed to load email preferences");
+      });
+  }, []);
+
+  const events = EVENTS.filter(
+    (event) => !event.roles || (user && event.roles.includes(user.role))
+  );
+
+  const handleToggle = async (key: keyof EmailPreferences) => {
+    if (!preferences) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, [key]: !preferences[key] });
+    setSavingKey(key);
+
+    try {
+      const response = await authApi.updateEmailPreferences({
+        [key]: !previous[key],
+      });
+      setPreferences(response.data.data);
+    } catch (error: any) {
+      console.error("Failed to update email preferences:", error);
+      setPreferences(previous);
+      toast.error(
+        error.response?.data?.error || "Failed to update email preferences"
+      );
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-medium text-gray-900 flex items-center mb-4 pb-2 border-b">
+        <EnvelopeIcon className="w-5 h-5 mr-2 text-primary" />
+        Email Notifications
+      </h2>
+
+      {!preferences ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+        </div>
+      ) : (
+        <ul className="divide-y">
+          {events.map((event) => (
+            <li
+              key={event.key}
+              className="flex items-center justify-between py-3 gap-4"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {event.label}
+                </p>
+                <p className="text-sm text-gray-500">{event.description}</p>
+              </div>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={preferences[event.key]}
+                aria-label={event.label}
+                onClick={() => handleToggle(event.key)}
+                disabled={savingKey === event.key}
+                className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition-colors disabled:opacity-50 ${
+                  preferences[event.key] ? "bg-primary" : "bg-gray-200"
+                }`}
+              >
+                <span
+                  className={`inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transform transition-transform ${
+                    preferences[event.key] ? "translate-x-5" : "translate-x-0.5"
+                  }`}
+                />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
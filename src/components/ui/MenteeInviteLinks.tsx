@@ -0,0 +1,319 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { LinkIcon, ClipboardIcon } from "@heroicons/react/24/outline";
+import { mentorApi } from "@/services/api";
+
+interface LinkMentee {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+// Interface aligned with GET /api/mentor/invite-links
+interface MenteeInviteLink {
+  id: string;
+  token: string;
+  label?: string;
+  section?: string;
+  branch?: string;
+  expiresAt: string;
+  maxUses: number;
+  uses: number;
+  revokedAt?: string;
+  usable: boolean;
+  redemptions: { redeemedAt: string; mentee: LinkMentee | null }[];
+  createdAt: string;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+const linkStatus = (link: MenteeInviteLink) => {
+  if (link.revokedAt) return { label: "Revoked", color: "bg-gray-100 text-gray-700" };
+  if (link.uses >= link.maxUses) return { label: "Used up", color: "bg-blue-100 text-blue-700" };
+  if (new Date(link.expiresAt) <= new Date()) return { label: "Expired", color: "bg-amber-100 text-amber-700" };
+  return { label: "Active", color: "bg-green-100 text-green-700" };
+};
+
+const getLinkUrl = (token: string) =>
+  typeof window !== "undefined"
+    ? `${window.location.origin}/register?invite=${encodeURIComponent(token)}`
+    : "";
+
+// Invite links that register mentees straight into the mentor's group, and
+// who has registered with each
+export default function MenteeInviteLinks() {
+  const [links, setLinks] = useState<MenteeInviteLink[] | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // New link form
+  const [label, setLabel] = useState("");
+  const [section, setSection] = useState("");
+  const [branch, setBranch] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [maxUses, setMaxUses] = useState(30);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    mentorApi
+      .getInviteLinks()
+      .then((response) => setLinks(response.data.data || []))
+      .catch((error) => {
+        console.error("Failed to load invite links:", error);
+        toast.error("Failed to load invite links");
+        setLinks([]);
+      });
+  }, []);
+
+  const copyLink = (link: MenteeInviteLink) => {
+    if (typeof navigator === "undefined") return;
+
+    navigator.clipboard.writeText(getLinkUrl(link.token));
+    toast.success("Invitation link copied to clipboard");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const response = await mentorApi.createInviteLink({
+        label: label.trim() || undefined,
+        section: section.trim() || undefined,
+        branch: branch.trim() || undefined,
+        expiresInDays,
+        maxUses,
+      });
+      const created: MenteeInviteLink = response.data.data;
+      setLinks((current) => [created, ...(current || [])]);
+      setLabel("");
+      copyLink(created);
+    } catch (error: any) {
+      console.error("Failed to create invite link:", error);
+      toast.error(error.response?.data?.error || "Failed to create invite link");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setRevokingId(linkId);
+
+    try {
+      const response = await mentorApi.revokeInviteLink(linkId);
+      setLinks(
+        (current) =>
+          current?.map((link) =>
+            link.id === linkId ? response.data.data : link
+          ) || null
+      );
+      toast.success("Invite link revoked");
+    } catch (error: any) {
+      console.error("Failed to revoke invite link:", error);
+      toast.error(error.response?.data?.error || "Failed to revoke invite link");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium flex items-center">
+        <LinkIcon className="w-4 h-4 mr-2" />
+        Invitation Links
+      </h3>
+      <div className="text-sm text-gray-600">
+        Mentees who register through a link are assigned to you. Section and
+        branch, if set, are filled in on their profile.
+      </div>
+
+      <form
+        onSubmit={handleCreate}
+        className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end"
+      >
+        <div className="col-span-2">
+          <label className="block text-sm text-gray-700 mb-1">Label</label>
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={100}
+            placeholder="e.g. CSE-A first years"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">Section</label>
+          <input
+            value={section}
+            onChange={(e) => setSection(e.target.value)}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">Branch</label>
+          <input
+            value={branch}
+            onChange={(e) => setBranch(e.target.value)}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">
+            Valid for (days)
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={90}
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">
+            Registrations
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={maxUses}
+            onChange={(e) => setMaxUses(Number(e.target.value))}
+            className={inputClass}
+          />
+        </div>
+        <div className="col-span-2 md:col-span-6 flex justify-end">
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+          >
+            {isCreating ? "Creating..." : "Create & copy link"}
+          </button>
+        </div>
+      </form>
+
+      {!links ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-gray-500 text-sm py-2 text-center">
+          No invitation links yet.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  Link
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  Status
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  Registered
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">
+                  Expires
+                </th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {links.map((link) => {
+                const status = linkStatus(link);
+                return (
+                  <tr key={link.id} className="align-top">
+                    <td className="px-4 py-2">
+                      <p className="font-medium text-gray-900">
+                        {link.label || "Untitled link"}
+                      </p>
+                      {(link.section || link.branch) && (
+                        <p className="text-gray-500">
+                          {[link.section && `Section ${link.section}`, link.branch]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs ${status.color}`}
+                      >
+                        {status.label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">
+                      {link.redemptions.length > 0 ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setExpandedId(expandedId === link.id ? null : link.id)
+                          }
+                          className="text-primary hover:text-primary/80"
+                        >
+                          {link.uses} / {link.maxUses}
+                        </button>
+                      ) : (
+                        `${link.uses} / ${link.maxUses}`
+                      )}
+                      {expandedId === link.id && (
+                        <ul className="mt-1 text-gray-600">
+                          {link.redemptions.map((redemption, index) => (
+                            <li key={redemption.mentee?.id || index}>
+                              {redemption.mentee?.name ||
+                                redemption.mentee?.email ||
+                                "Deleted account"}{" "}
+                              <span className="text-gray-400">
+                                {new Date(
+                                  redemption.redeemedAt
+                                ).toLocaleDateString()}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      {new Date(link.expiresAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-2">
+                      {link.usable && (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            onClick={() => copyLink(link)}
+                            className="p-1.5 border border-gray-300 rounded-md hover:bg-gray-50 transition"
+                            title="Copy to clipboard"
+                          >
+                            <ClipboardIcon className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleRevoke(link.id)}
+                            disabled={revokingId === link.id}
+                            className="px-3 py-1.5 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition disabled:opacity-50"
+                          >
+                            Revoke
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { ComputerDesktopIcon } from "@heroicons/react/24/outline";
+import { authApi } from "@/services/api";
+import { useAuth } from "@/lib/auth";
+
+interface DeviceSession {
+  id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// A rough "Chrome on Windows" from the user agent; good enough to tell
+// devices apart
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    ["Edg", "Firefox", "Chrome", "Safari"].find((name) =>
+      userAgent.includes(`${name}/`)
+    ) || "Browser";
+  const platform =
+    ["Android", "iPhone", "iPad", "Windows", "Mac OS", "Linux"].find((name) =>
+      userAgent.includes(name)
+    ) || "unknown platform";
+
+  return `${browser === "Edg" ? "Edge" : browser} on ${
+    platform === "Mac OS" ? "macOS" : platform
+  }`;
+};
+
+// Every device with an active session, with sign-out buttons
+export default function SignedInDevicesCard() {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    authApi
+      .getSessions()
+      .then((response) => setSessions(response.data.data))
+      .catch((error) => {
+        console.error("Failed to load sessions:", error);
+        toast.error("Failed to load signed-in devices");
+      });
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId);
+
+    try {
+      await authApi.revokeSession(sessionId);
+      setSessions(
+        (current) => current?.filter((session) => session.id !== sessionId) || null
+      );
+      toast.success("Device signed out");
+    } catch (error: any) {
+      console.error("Failed to revoke session:", error);
+      toast.error(error.response?.data?.error || "Failed to sign out device");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4 pb-2 border-b">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <ComputerDesktopIcon className="w-5 h-5 mr-2 text-primary" />
+          Signed-in Devices
+        </h2>
+        <button
+          type="button"
+          onClick={() => logout({ allDevices: true })}
+          className="text-sm font-medium text-red-600 hover:text-red-700"
+        >
+          Log out of all devices
+        </button>
+      </div>
+
+      {!sessions ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+        </div>
+      ) : (
+        <ul className="divide-y">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between py-3 gap-4"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {describeDevice(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-green-100 text-green-700 text-xs">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {session.ip ? `${session.ip} · ` : ""}Last active{" "}
+                  {new Date(session.lastUsedAt).toLocaleString()}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={revokingId === session.id}
+                  className="px-3 py-1.5 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition disabled:opacity-50"
+                >
+                  Sign out
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { ClockIcon, ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+
+// SLA deadlines tracked on an Issue (see config/sla.js on the server)
+export interface IssueSla {
+  responseDueAt?: string;
+  resolutionDueAt?: string;
+  respondedAt?: string;
+  resolvedAt?: string;
+  responseBreachedAt?: string;
+  resolutionBreachedAt?: string;
+}
+
+export interface SlaState {
+  kind: "response" | "resolution";
+  dueAt: Date;
+  overdue: boolean;
+  dueSoon: boolean;
+}
+
+// Deadlines closer than this are highlighted
+const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The deadline an open issue is currently working towards, or null once it
+ * is resolved or has no SLA
+ */
+export function getSlaState(
+  status: string,
+  sla?: IssueSla,
+  now: Date = new Date()
+): SlaState | null {
+  if (!sla || status === "Resolved" || status === "Closed") return null;
+
+  const kind = sla.respondedAt ? "resolution" : "response";
+  const due = kind === "response" ? sla.responseDueAt : sla.resolutionDueAt;
+  if (!due) return null;
+
+  const dueAt = new Date(due);
+  const breached =
+    kind === "response" ? sla.responseBreachedAt : sla.resolutionBreachedAt;
+  const remaining = dueAt.getTime() - now.getTime();
+
+  return {
+    kind,
+    dueAt,
+    overdue: Boolean(breached) || remaining <= 0,
+    dueSoon: remaining > 0 && remaining <= DUE_SOON_MS,
+  };
+}
+
+const formatRemaining = (ms: number) => {
+  const hours = Math.max(1, Math.round(ms / (60 * 60 * 1000)));
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+};
+
+// Shows whether an issue is close to or past its SLA deadline
+export default function SlaBadge({
+  status,
+  sla,
+  showOnTrack = false,
+}: {
+  status: string;
+  sla?: IssueSla;
+  showOnTrack?: boolean;
+}) {
+  const state = getSlaState(status, sla);
+  if (!state) return null;
+
+  const label = state.kind === "response" ? "Response" : "Resolution";
+
+  if (state.overdue) {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+        <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1" />
+        {label} overdue
+      </span>
+    );
+  }
+
+  if (!state.dueSoon && !showOnTrack) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+        state.dueSoon ? "bg-amber-100 text-amber-800" : "bg-gray-100 text-gray-700"
+      }`}
+      title={`Due ${state.dueAt.toLocaleString()}`}
+    >
+      <ClockIcon className="w-3.5 h-3.5 mr-1" />
+      {label} due in{" "}
+      {formatRemaining(state.dueAt.getTime() - Date.now())}
+    </span>
+  );
+}
@@ -0,0 +1,112 @@
+import {
+  ArrowRightIcon,
+  ClockIcon,
+  FlagIcon,
+} from "@heroicons/react/24/outline";
+
+// One entry of Issue.statusHistory; from is empty for the opening entry
+export interface StatusChange {
+  _id: string;
+  from?: string;
+  to: string;
+  changedBy: {
+    _id: string | null;
+    email: string | null;
+    name?: string;
+    role: string;
+  } | null;
+  reason?: string;
+  changedAt: string;
+}
+
+const statusColors: Record<string, string> = {
+  Open: "bg-red-100 text-red-800",
+  "Under Review": "bg-amber-100 text-amber-800",
+  Resolved: "bg-green-100 text-green-800",
+  Closed: "bg-gray-100 text-gray-800",
+};
+
+const StatusPill = ({ status }: { status: string }) => (
+  <span
+    className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+      statusColors[status] || "bg-blue-100 text-blue-800"
+    }`}
+  >
+    {status}
+  </span>
+);
+
+// Status changes of an issue, oldest first. Issues opened before the history
+// was recorded get a synthetic "Reported" entry from their creation date.
+export default function StatusTimeline({
+  history = [],
+  createdAt,
+  currentUserId,
+}: {
+  history?: StatusChange[];
+  createdAt: string;
+  currentUserId?: string;
+}) {
+  const hasOpeningEntry = history.some((entry) => !entry.from);
+
+  const describeActor = (actor: StatusChange["changedBy"]) => {
+    if (!actor) return "Unknown user";
+    if (currentUserId && actor._id === currentUserId) return "You";
+
+    const name = actor.name || actor.email || "Anonymous reporter";
+    return `${name} (${actor.role})`;
+  };
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+      {!hasOpeningEntry && (
+        <li className="ml-6">
+          <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-gray-100 ring-4 ring-white">
+            <FlagIcon className="w-3.5 h-3.5 text-gray-500" />
+          </span>
+          <div className="flex items-center gap-2 text-sm">
+            Reported as <StatusPill status="Open" />
+          </div>
+          <time className="text-xs text-gray-500">
+            {new Date(createdAt).toLocaleString()}
+          </time>
+        </li>
+      )}
+      {history.map((entry) => (
+        <li key={entry._id} className="ml-6">
+          <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-gray-100 ring-4 ring-white">
+            {entry.from ? (
+              <ClockIcon className="w-3.5 h-3.5 text-gray-500" />
+            ) : (
+              <FlagIcon className="w-3.5 h-3.5 text-gray-500" />
+            )}
+          </span>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {entry.from ? (
+              <>
+                <StatusPill status={entry.from} />
+                <ArrowRightIcon className="w-3.5 h-3.5 text-gray-400" />
+                <StatusPill status={entry.to} />
+              </>
+            ) : (
+              <>
+                Reported as <StatusPill status={entry.to} />
+              </>
+            )}
+            <span className="text-gray-600">
+              by {describeActor(entry.changedBy)}
+            </span>
+          </div>
+          <time className="text-xs text-gray-500">
+            {new Date(entry.changedAt).toLocaleString()}
+          </time>
+          {entry.reason && (
+            <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">
+              {entry.reason}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
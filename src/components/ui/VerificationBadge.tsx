@@ -0,0 +1,67 @@
+import {
+  CheckBadgeIcon,
+  ClockIcon,
+  XCircleIcon,
+} from "@heroicons/react/24/outline";
+
+export type VerificationStatus = "pending" | "verified" | "rejected";
+
+export interface Verification {
+  status: VerificationStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reason?: string;
+}
+
+const badgeStyles = {
+  pending: {
+    label: "Pending review",
+    className: "bg-amber-100 text-amber-800",
+    icon: ClockIcon,
+  },
+  verified: {
+    label: "Verified",
+    className: "bg-green-100 text-green-800",
+    icon: CheckBadgeIcon,
+  },
+  rejected: {
+    label: "Rejected",
+    className: "bg-red-100 text-red-800",
+    icon: XCircleIcon,
+  },
+};
+
+// Shows the mentor review state of an academic entry
+export default function VerificationBadge({
+  verification,
+  showReason = true,
+}: {
+  verification?: Verification;
+  showReason?: boolean;
+}) {
+  const status = verification?.status || "pending";
+  const style = badgeStyles[status];
+
+  return (
+    <span className="inline-flex flex-col items-start">
+      <span
+        className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}
+        title={
+          verification?.reviewedAt
+            ? `Reviewed on ${new Date(
+                verification.reviewedAt
+              ).toLocaleDateString()}`
+            : undefined
+        }
+      >
+        <style.icon className="w-3.5 h-3.5 mr-1" />
+        {style.label}
+      </span>
+      {showReason && status === "rejected" && verification?.reason && (
+        <span className="mt-1 text-xs text-red-600">
+          Reason: {verification.reason}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,91 @@
+import { TrophyIcon } from "@heroicons/react/24/outline";
+import BarChart from "./BarChart";
+
+interface DatedAchievement {
+  type: string;
+  dateOfAchievement: string;
+}
+
+interface AchievementTypeChartProps {
+  achievements: DatedAchievement[];
+  title?: string;
+}
+
+const MONTHS = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+/**
+ * Count achievements per period and type. Periods are years, or months when
+ * everything falls in a single year; empty periods in between are kept so
+ * gaps show.
+ */
+const countByPeriod = (achievements: DatedAchievement[]) => {
+  const dated = achievements
+    .map((achievement) => ({
+      type: achievement.type || "Other",
+      date: new Date(achievement.dateOfAchievement),
+    }))
+    .filter((achievement) => !isNaN(achievement.date.getTime()));
+
+  if (dated.length === 0) {
+    return { labels: [], series: [] };
+  }
+
+  const years = dated.map((achievement) => achievement.date.getFullYear());
+  const firstYear = Math.min(...years);
+  const byMonth = firstYear === Math.max(...years);
+
+  const periodOf = (date: Date) =>
+    byMonth ? date.getMonth() : date.getFullYear() - firstYear;
+  const periods = dated.map((achievement) => periodOf(achievement.date));
+  const first = Math.min(...periods);
+  const labels = Array.from(
+    { length: Math.max(...periods) - first + 1 },
+    (_, index) =>
+      byMonth
+        ? `${MONTHS[first + index]} ${firstYear}`
+        : String(firstYear + first + index)
+  );
+
+  const counts = new Map<string, number[]>();
+  dated.forEach((achievement) => {
+    if (!counts.has(achievement.type)) {
+      counts.set(achievement.type, labels.map(() => 0));
+    }
+    counts.get(achievement.type)![periodOf(achievement.date) - first]++;
+  });
+
+  // Most common type at the bottom of each bar
+  const series = Array.from(counts, ([name, values]) => ({ name, values }))
+    .sort(
+      (a, b) =>
+        b.values.reduce((sum, value) => sum + value, 0) -
+        a.values.reduce((sum, value) => sum + value, 0)
+    );
+
+  return { labels, series };
+};
+
+// Achievements over time, split by Achievement.type
+export default function AchievementTypeChart({
+  achievements,
+  title = "Achievements Over Time",
+}: AchievementTypeChartProps) {
+  const { labels, series } = countByPeriod(achievements);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-lg font-semibold flex items-center mb-4">
+        <TrophyIcon className="w-5 h-5 mr-2 text-amber-500" />
+        {title}
+      </h2>
+      <BarChart
+        labels={labels}
+        series={series}
+        emptyMessage="No achievements recorded yet"
+      />
+    </div>
+  );
+}
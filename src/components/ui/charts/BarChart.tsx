@@ -0,0 +1,140 @@
+import ChartLegend, { chartColor } from "./ChartLegend";
+
+export interface BarSeries {
+  name: string;
+  values: number[];
+  color?: string;
+}
+
+interface BarChartProps {
+  labels: string[];
+  // Stacked in order, first series at the bottom
+  series: BarSeries[];
+  height?: number;
+  emptyMessage?: string;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 32 };
+
+// Whole-number axis steps that give at most five gridlines
+const countTicks = (max: number) => {
+  const step = Math.max(1, Math.ceil(max / 5));
+  return Array.from(
+    { length: Math.ceil(max / step) + 1 },
+    (_, index) => index * step
+  );
+};
+
+// Counts per label, stacked by series, drawn as an SVG bar chart
+export default function BarChart({
+  labels,
+  series,
+  height = 220,
+  emptyMessage = "No data yet",
+}: BarChartProps) {
+  const totals = labels.map((_, index) =>
+    series.reduce((sum, bar) => sum + (bar.values[index] || 0), 0)
+  );
+
+  if (labels.length === 0 || totals.every((total) => total === 0)) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-6">{emptyMessage}</p>
+    );
+  }
+
+  const ticks = countTicks(Math.max(...totals));
+  const top = ticks[ticks.length - 1];
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const band = plotWidth / labels.length;
+  const barWidth = Math.min(48, band * 0.6);
+
+  const y = (value: number) =>
+    PADDING.top + plotHeight - (value / top) * plotHeight;
+
+  const bars = series.map((bar, index) => ({
+    ...bar,
+    color: bar.color || chartColor(index),
+  }));
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        role="img"
+      >
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={11}
+              fill="#6b7280"
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        {labels.map((label, labelIndex) => {
+          const left = PADDING.left + band * labelIndex + (band - barWidth) / 2;
+          let stacked = 0;
+
+          return (
+            <g key={label}>
+              {bars.map((bar) => {
+                const value = bar.values[labelIndex] || 0;
+                if (value === 0) return null;
+
+                const rectTop = y(stacked + value);
+                const rectHeight = y(stacked) - rectTop;
+                stacked += value;
+
+                return (
+                  <rect
+                    key={bar.name}
+                    x={left}
+                    y={rectTop}
+                    width={barWidth}
+                    height={rectHeight}
+                    fill={bar.color}
+                  >
+                    <title>{`${bar.name} · ${label}: ${value}`}</title>
+                  </rect>
+                );
+              })}
+              <text
+                x={left + barWidth / 2}
+                y={height - 8}
+                textAnchor="middle"
+                fontSize={11}
+                fill="#6b7280"
+              >
+                {label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {bars.length > 1 && (
+        <ChartLegend
+          items={bars
+            .filter((bar) => bar.values.some((value) => value > 0))
+            .map((bar) => ({ label: bar.name, color: bar.color }))}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// Colours handed out to series and slices that don't set their own
+export const CHART_COLORS = [
+  "hsl(var(--primary))",
+  "#3b82f6",
+  "#10b981",
+  "#f59e0b",
+  "#8b5cf6",
+  "#ef4444",
+  "#06b6d4",
+  "#ec4899",
+  "#84cc16",
+  "#6b7280",
+];
+
+export const chartColor = (index: number) =>
+  CHART_COLORS[index % CHART_COLORS.length];
+
+interface ChartLegendProps {
+  items: { label: string; color: string; detail?: string }[];
+  vertical?: boolean;
+}
+
+// Colour key shared by the charts
+export default function ChartLegend({ items, vertical }: ChartLegendProps) {
+  return (
+    <ul
+      className={`text-xs text-gray-600 ${
+        vertical ? "space-y-1.5" : "flex flex-wrap gap-x-4 gap-y-1"
+      }`}
+    >
+      {items.map((item) => (
+        <li key={item.label} className="flex items-center gap-1.5">
+          <span
+            className="inline-block w-2.5 h-2.5 rounded-sm flex-shrink-0"
+            style={{ backgroundColor: item.color }}
+          />
+          <span>{item.label}</span>
+          {item.detail && (
+            <span className="ml-auto pl-2 font-medium text-gray-900">
+              {item.detail}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,105 @@
+import ChartLegend, { chartColor } from "./ChartLegend";
+
+export interface DonutSlice {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+interface DonutChartProps {
+  slices: DonutSlice[];
+  // Shown in the middle, e.g. "issues"
+  totalLabel?: string;
+  emptyMessage?: string;
+}
+
+const RADIUS = 40;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Share of each slice in the total, drawn as an SVG donut with a legend
+export default function DonutChart({
+  slices,
+  totalLabel = "total",
+  emptyMessage = "No data yet",
+}: DonutChartProps) {
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+
+  if (total === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-6">{emptyMessage}</p>
+    );
+  }
+
+  const coloured = slices.map((slice, index) => ({
+    ...slice,
+    color: slice.color || chartColor(index),
+  }));
+
+  let offset = 0;
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <svg viewBox="0 0 100 100" className="w-36 h-36 flex-shrink-0" role="img">
+        <g transform="rotate(-90 50 50)">
+          <circle
+            cx={50}
+            cy={50}
+            r={RADIUS}
+            fill="none"
+            stroke="#f3f4f6"
+            strokeWidth={14}
+          />
+          {coloured.map((slice) => {
+            if (slice.value === 0) return null;
+
+            const length = (slice.value / total) * CIRCUMFERENCE;
+            const dashOffset = -offset;
+            offset += length;
+
+            return (
+              <circle
+                key={slice.label}
+                cx={50}
+                cy={50}
+                r={RADIUS}
+                fill="none"
+                stroke={slice.color}
+                strokeWidth={14}
+                strokeDasharray={`${length} ${CIRCUMFERENCE - length}`}
+                strokeDashoffset={dashOffset}
+              >
+                <title>{`${slice.label}: ${slice.value}`}</title>
+              </circle>
+            );
+          })}
+        </g>
+        <text
+          x={50}
+          y={48}
+          textAnchor="middle"
+          fontSize={16}
+          fontWeight={700}
+          fill="#111827"
+        >
+          {total}
+        </text>
+        <text x={50} y={61} textAnchor="middle" fontSize={8} fill="#6b7280">
+          {totalLabel}
+        </text>
+      </svg>
+
+      <div className="w-full sm:w-auto sm:min-w-[10rem]">
+        <ChartLegend
+          vertical
+          items={coloured.map((slice) => ({
+            label: slice.label,
+            color: slice.color,
+            detail: `${slice.value} (${Math.round(
+              (slice.value / total) * 100
+            )}%)`,
+          }))}
+        />
+      </div>
+    </div>
+  );
+}
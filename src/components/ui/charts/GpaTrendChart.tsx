@@ -0,0 +1,41 @@
+import { ChartBarIcon } from "@heroicons/react/24/outline";
+import { AcademicSummary } from "@/services/api";
+import LineChart from "./LineChart";
+
+interface GpaTrendChartProps {
+  summary: AcademicSummary | null;
+  title?: string;
+}
+
+// SGPA of each semester against the running CGPA
+export default function GpaTrendChart({
+  summary,
+  title = "GPA Trend",
+}: GpaTrendChartProps) {
+  const semesters = summary?.semesters || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-lg font-semibold flex items-center mb-4">
+        <ChartBarIcon className="w-5 h-5 mr-2 text-primary" />
+        {title}
+      </h2>
+      <LineChart
+        labels={semesters.map((semester) => `Sem ${semester.semester}`)}
+        series={[
+          { name: "SGPA", values: semesters.map((semester) => semester.sgpa) },
+          {
+            name: "CGPA",
+            values: semesters.map((semester) => semester.cgpa),
+            color: "#3b82f6",
+          },
+        ]}
+        min={0}
+        // Usual 10-point scale, stretched if the grading scale goes higher
+        max={Math.max(10, ...semesters.map((semester) => semester.sgpa))}
+        formatValue={(value) => value.toFixed(value % 1 === 0 ? 0 : 2)}
+        emptyMessage="No semester results yet"
+      />
+    </div>
+  );
+}
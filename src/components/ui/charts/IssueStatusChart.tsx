@@ -0,0 +1,66 @@
+import { ClipboardDocumentListIcon } from "@heroicons/react/24/outline";
+import DonutChart from "./DonutChart";
+
+interface IssueStatusChartProps {
+  // Issue count per status, e.g. { Open: 2, Resolved: 5 }
+  counts: Record<string, number>;
+  title?: string;
+  // Render just the chart, for use inside another card
+  bare?: boolean;
+}
+
+// Same colours as the status badges across the app
+const STATUS_COLORS: Record<string, string> = {
+  Open: "#ef4444",
+  "Under Review": "#f59e0b",
+  Resolved: "#10b981",
+  Closed: "#9ca3af",
+};
+
+const STATUS_ORDER = Object.keys(STATUS_COLORS);
+
+/**
+ * Tally issues by status for the chart
+ * @param issues - Anything with a status, e.g. the issues list response
+ */
+export const countIssueStatuses = (issues: { status: string }[]) =>
+  issues.reduce<Record<string, number>>((counts, issue) => {
+    counts[issue.status] = (counts[issue.status] || 0) + 1;
+    return counts;
+  }, {});
+
+// How issues are spread across their statuses
+export default function IssueStatusChart({
+  counts,
+  title = "Issue Status",
+  bare,
+}: IssueStatusChartProps) {
+  const statuses = [
+    ...STATUS_ORDER,
+    ...Object.keys(counts).filter((status) => !STATUS_ORDER.includes(status)),
+  ];
+
+  const chart = (
+    <DonutChart
+      slices={statuses.map((status) => ({
+        label: status,
+        value: counts[status] || 0,
+        color: STATUS_COLORS[status],
+      }))}
+      totalLabel="issues"
+      emptyMessage="No issues reported yet"
+    />
+  );
+
+  if (bare) return chart;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-lg font-semibold flex items-center mb-4">
+        <ClipboardDocumentListIcon className="w-5 h-5 mr-2 text-primary" />
+        {title}
+      </h2>
+      {chart}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import ChartLegend, { chartColor } from "./ChartLegend";
+
+export interface LineSeries {
+  name: string;
+  // Missing points leave a gap in the line
+  values: (number | null)[];
+  color?: string;
+}
+
+interface LineChartProps {
+  labels: string[];
+  series: LineSeries[];
+  min?: number;
+  max?: number;
+  ticks?: number;
+  height?: number;
+  formatValue?: (value: number) => string;
+  emptyMessage?: string;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 40 };
+
+// Series of values over the same labels, drawn as an SVG line chart
+export default function LineChart({
+  labels,
+  series,
+  min = 0,
+  max,
+  ticks = 5,
+  height = 220,
+  formatValue = (value) => String(value),
+  emptyMessage = "No data yet",
+}: LineChartProps) {
+  const values = series.flatMap((line) =>
+    line.values.filter((value): value is number => value !== null)
+  );
+
+  if (labels.length === 0 || values.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-6">{emptyMessage}</p>
+    );
+  }
+
+  const top = max ?? Math.max(...values);
+  const range = top - min || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left +
+    (labels.length === 1
+      ? plotWidth / 2
+      : (index / (labels.length - 1)) * plotWidth);
+  const y = (value: number) =>
+    PADDING.top + plotHeight - ((value - min) / range) * plotHeight;
+
+  const tickValues = Array.from(
+    { length: ticks + 1 },
+    (_, index) => min + (range / ticks) * index
+  );
+
+  const lines = series.map((line, index) => ({
+    ...line,
+    color: line.color || chartColor(index),
+  }));
+
+  // Start a new segment after each gap
+  const pathFor = (lineValues: (number | null)[]) =>
+    lineValues
+      .map((value, index) => {
+        if (value === null) return "";
+        const command =
+          index === 0 || lineValues[index - 1] === null ? "M" : "L";
+        return `${command}${x(index)},${y(value)}`;
+      })
+      .join(" ");
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        role="img"
+      >
+        {tickValues.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={11}
+              fill="#6b7280"
+            >
+              {formatValue(Number(tick.toFixed(2)))}
+            </text>
+          </g>
+        ))}
+
+        {labels.map((label, index) => (
+          <text
+            key={label}
+            x={x(index)}
+            y={height - 8}
+            textAnchor="middle"
+            fontSize={11}
+            fill="#6b7280"
+          >
+            {label}
+          </text>
+        ))}
+
+        {lines.map((line) => (
+          <g key={line.name}>
+            <path
+              d={pathFor(line.values)}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2.5}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+            {line.values.map(
+              (value, index) =>
+                value !== null && (
+                  <circle
+                    key={index}
+                    cx={x(index)}
+                    cy={y(value)}
+                    r={4}
+                    fill="white"
+                    stroke={line.color}
+                    strokeWidth={2}
+                  >
+                    <title>{`${line.name} · ${labels[index]}: ${formatValue(
+                      value
+                    )}`}</title>
+                  </circle>
+                )
+            )}
+          </g>
+        ))}
+      </svg>
+
+      {lines.length > 1 && (
+        <ChartLegend
+          items={lines.map((line) => ({ label: line.name, color: line.color }))}
+        />
+      )}
+    </div>
+  );
+}
@@ -146,6 +146,22 @@ export function useAPIService<T>(
     });
   }, [initialData]);
 
+  /**
+   * Replace the data without a request, e.g. to merge in a live update
+   */
+  const setData = useCallback(
+    (updater: T | null | ((current: T | null) => T | null)) => {
+      setState((prev) => ({
+        ...prev,
+        data:
+          typeof updater === "function"
+            ? (updater as (current: T | null) => T | null)(prev.data)
+            : updater,
+      }));
+    },
+    []
+  );
+
   /**
    * Refresh data by forcing a re-fetch
    */
@@ -161,6 +177,7 @@ export function useAPIService<T>(
     execute,
     reset,
     refresh,
+    setData,
     // Helper to check if data exists and is not loading
     isReady: !state.isLoading && state.data !== null,
   };
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/lib/auth";
+import { getAccessToken } from "@/services/api";
 import { toast } from "react-hot-toast";
 
 type ValidationStatus = "idle" | "loading" | "error" | "success";
@@ -68,7 +69,7 @@ export const useApiValidation = () => {
       await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/mentee/profile`, {
         method: "GET",
         headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
+          Authorization: `Bearer ${getAccessToken()}`,
         },
       });
 
@@ -97,7 +98,7 @@ export const useApiValidation = () => {
       await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/mentor/profile`, {
         method: "GET",
         headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
+          Authorization: `Bearer ${getAccessToken()}`,
         },
       });
 
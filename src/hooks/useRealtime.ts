@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { getAccessToken, refreshAccessToken } from "@/services/api";
+
+type Handler = (data: any) => void;
+
+// Payloads published by utils/realtime.js
+export interface IssueEvent {
+  issueId: string;
+  kind: "created" | "comment" | "status" | "identity";
+  status: string;
+  updatedAt: string;
+}
+
+export interface DashboardEvent {
+  pendingIssues: number;
+}
+
+const EVENTS_URL = `${
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api"
+}/events`;
+
+// Wait before reopening a stream the server refused, e.g. after the token expired
+const RECONNECT_DELAY_MS = 10 * 1000;
+
+// One EventSource per tab, shared by every subscriber and closed when the
+// last one unsubscribes
+const handlers = new Map<string, Set<Handler>>();
+const listening = new Set<string>();
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const dispatch = (event: string) => (message: MessageEvent) => {
+  let data: any;
+  try {
+    data = JSON.parse(message.data);
+  } catch {
+    return;
+  }
+  handlers.get(event)?.forEach((handler) => handler(data));
+};
+
+const listen = (event: string) => {
+  if (!source || listening.has(event)) return;
+  source.addEventListener(event, dispatch(event) as EventListener);
+  listening.add(event);
+};
+
+const disconnect = () => {
+  source?.close();
+  source = null;
+  listening.clear();
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+};
+
+const connect = () => {
+  if (source || reconnectTimer || typeof window === "undefined") return;
+
+  const token = getAccessToken();
+  if (!token) return;
+
+  source = new EventSource(`${EVENTS_URL}?token=${encodeURIComponent(token)}`);
+  handlers.forEach((_, event) => listen(event));
+
+  source.onerror = () => {
+    // The browser retries dropped connections itself; a closed stream means
+    // the server refused it, so try again later with a fresh token
+    if (source?.readyState === EventSource.CLOSED) {
+      disconnect();
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (handlers.size === 0) return;
+
+        // Access tokens are short-lived, so get a new one before retrying
+        refreshAccessToken()
+          .then(() => connect())
+          .catch(() => {});
+      }, RECONNECT_DELAY_MS);
+    }
+  };
+};
+
+/**
+ * Listen for a server-sent event from /api/events
+ * @returns a function that removes the listener
+ */
+export function subscribe(event: string, handler: Handler) {
+  const eventHandlers = handlers.get(event) || new Set<Handler>();
+  eventHandlers.add(handler);
+  handlers.set(event, eventHandlers);
+
+  connect();
+  listen(event);
+
+  return () => {
+    eventHandlers.delete(handler);
+    if (eventHandlers.size === 0) {
+      handlers.delete(event);
+    }
+    if (handlers.size === 0) {
+      disconnect();
+    }
+  };
+}
+
+/**
+ * Run a handler for each live event of a type while the component is mounted
+ */
+export function useRealtimeEvent<E = any>(
+  event: string,
+  handler: (data: E) => void
+) {
+  // Keep the latest handler so callers don't need to memoize it
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => subscribe(event, (data) => handlerRef.current(data)),
+    [event]
+  );
+}
+
+/**
+ * Keep useAPIService data up to date from live events: either merge the
+ * event into the current data, or refetch it quietly in the background.
+ */
+export function useLiveUpdates<T, E = any>(
+  service: {
+    setData: (updater: T | null | ((current: T | null) => T | null)) => void;
+  },
+  event: string,
+  options: {
+    filter?: (data: E) => boolean;
+    merge?: (current: T | null, data: E) => T | null;
+    refetch?: () => Promise<T>;
+  }
+) {
+  useRealtimeEvent<E>(event, (data) => {
+    if (options.filter && !options.filter(data)) return;
+
+    if (options.merge) {
+      const merge = options.merge;
+      service.setData((current) => merge(current, data));
+    } else if (options.refetch) {
+      options
+        .refetch()
+        .then((fresh) => service.setData(fresh))
+        .catch((error) =>
+          console.error(`Failed to refresh after ${event} event:`, error)
+        );
+    }
+  });
+}
@@ -2,7 +2,12 @@
 
 import { createContext, useContext, useState, useEffect } from "react";
 import { useRouter, usePathname } from "next/navigation";
-import { api } from "@/services/api";
+import {
+  api,
+  getAccessToken,
+  refreshAccessToken,
+  setAccessToken,
+} from "@/services/api";
 import toast from "react-hot-toast";
 
 interface User {
@@ -10,19 +15,36 @@ interface User {
   email: string;
   name?: string;
   role: string;
+  // Mentors only; pending and rejected mentors can't use mentor pages
+  approvalStatus?: "pending" | "approved" | "rejected";
 }
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
-  register: (userData: any, role: string) => Promise<void>;
-  logout: () => void;
+  // Resolves false when the account must verify its email before signing in
+  register: (userData: any, role: string) => Promise<boolean>;
+  // Signs out this device, or every device the account is signed in on
+  logout: (options?: { allDevices?: boolean }) => Promise<void>;
+  // Reloads the signed-in user, e.g. after account details change
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Landing page for each role after login
+const dashboardPaths: Record<string, string> = {
+  mentor: "/mentor/dashboard",
+  mentee: "/mentee/dashboard",
+  admin: "/admin/dashboard",
+  committee: "/committee/dashboard",
+};
+
+export const getDashboardPath = (role?: string) =>
+  dashboardPaths[role || ""] || "/mentee/dashboard";
+
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -32,36 +54,36 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   // Check if user is authenticated when component mounts
   useEffect(() => {
     const checkAuth = async () => {
-      const token = localStorage.getItem("token");
-      if (token) {
-        try {
-          // Set the auth token for API calls
-          api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-
-          // Get current user
-          const { data } = await api.get("/auth/me");
-
-          // Ensure we have the correct data structure
-          if (!data || !data.data) {
-            throw new Error("Invalid user data received");
-          }
-
-          setUser(data.data);
-
-          // Redirect from auth pages if already logged in
-          if (pathname?.includes("/login") || pathname?.includes("/register")) {
-            if (data.data.role === "mentor") {
-              router.push("/mentor/dashboard");
-            } else {
-              router.push("/mentee/dashboard");
-            }
-          }
-        } catch (error) {
+      // Tokens used to be kept in localStorage; drop any left behind
+      localStorage.removeItem("token");
+
+      try {
+        // The refresh token cookie survives page loads; the access token doesn't
+        if (!getAccessToken()) {
+          await refreshAccessToken();
+        }
+
+        // Get current user
+        const { data } = await api.get("/auth/me");
+
+        // Ensure we have the correct data structure
+        if (!data || !data.data) {
+          throw new Error("Invalid user data received");
+        }
+
+        setUser(data.data);
+
+        // Redirect from auth pages if already logged in
+        if (pathname?.includes("/login") || pathname?.includes("/register")) {
+          router.push(getDashboardPath(data.data.role));
+        }
+      } catch (error: any) {
+        // No session is the usual case on the public pages
+        if (error.response?.status !== 401) {
           console.error("Auth check error:", error);
-          localStorage.removeItem("token");
-          delete api.defaults.headers.common["Authorization"];
-          setUser(null);
         }
+        setAccessToken(null);
+        setUser(null);
       }
       setIsLoading(false);
     };
@@ -80,8 +102,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         throw new Error("No token received from server");
       }
 
-      localStorage.setItem("token", data.token);
-      api.defaults.headers.common["Authorization"] = `Bearer ${data.token}`;
+      setAccessToken(data.token);
 
       try {
         // Get user details
@@ -96,24 +117,18 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         toast.success("Login successful");
 
         // Redirect based on role
-        if (userResponse.data.data.role === "mentor") {
-          router.push("/mentor/dashboard");
-        } else {
-          router.push("/mentee/dashboard");
-        }
+        router.push(getDashboardPath(userResponse.data.data.role));
       } catch (error) {
         // Handle errors from the /me endpoint
         console.error("Error fetching user details:", error);
-        localStorage.removeItem("token");
-        delete api.defaults.headers.common["Authorization"];
+        setAccessToken(null);
         toast.error("Failed to get user information");
         throw error;
       }
     } catch (error: any) {
       // Handle login errors
       console.error("Login error:", error);
-      localStorage.removeItem("token");
-      delete api.defaults.headers.common["Authorization"];
+      setAccessToken(null);
       setUser(null);
 
       // Display appropriate error message
@@ -133,6 +148,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     try {
       const { data } = await api.post(`/auth/register/${role}`, userData);
 
+      // No token until the email address is verified
+      if (data.verificationRequired) {
+        toast.success(data.message || "Check your email to verify your account");
+        router.push(`/verify-email?email=${encodeURIComponent(userData.email)}`);
+        return false;
+      }
+
       // Verify we get a token and store it
       if (!data.token) {
         throw new Error("No token received from server");
@@ -141,8 +163,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       toast.success("Registration successful");
 
       // Auto login after registration
-      localStorage.setItem("token", data.token);
-      api.defaults.headers.common["Authorization"] = `Bearer ${data.token}`;
+      setAccessToken(data.token);
 
       try {
         // Get user details
@@ -156,24 +177,19 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         setUser(userResponse.data.data);
 
         // Redirect based on role
-        if (role === "mentor") {
-          router.push("/mentor/dashboard");
-        } else {
-          router.push("/mentee/dashboard");
-        }
+        router.push(getDashboardPath(role));
+        return true;
       } catch (error) {
         // Handle errors from the /me endpoint
         console.error("Error fetching user details:", error);
-        localStorage.removeItem("token");
-        delete api.defaults.headers.common["Authorization"];
+        setAccessToken(null);
         toast.error("Failed to get user information");
         throw error;
       }
     } catch (error: any) {
       // Handle registration errors
       console.error("Registration error:", error);
-      localStorage.removeItem("token");
-      delete api.defaults.headers.common["Authorization"];
+      setAccessToken(null);
 
       // Display appropriate error message
       const errorMessage =
@@ -187,13 +203,26 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  const refreshUser = async () => {
+    const { data } = await api.get("/auth/me");
+    setUser(data.data);
+  };
+
   // Logout function
-  const logout = () => {
-    localStorage.removeItem("token");
-    delete api.defaults.headers.common["Authorization"];
+  const logout = async ({ allDevices = false } = {}) => {
+    try {
+      // Revoke the session server-side so its refresh token can't be reused
+      await api.post(allDevices ? "/auth/logout-all" : "/auth/logout");
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+
+    setAccessToken(null);
     setUser(null);
     router.push("/login");
-    toast.success("Logged out successfully");
+    toast.success(
+      allDevices ? "Logged out of all devices" : "Logged out successfully"
+    );
   };
 
   return (
@@ -204,6 +233,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         login,
         register,
         logout,
+        refreshUser,
         isAuthenticated: !!user,
       }}
     >
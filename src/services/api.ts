@@ -1,23 +1,64 @@
 import axios from "axios";
 import toast from "react-hot-toast";
 
-// Create an Axios instance with default config
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api";
+
+// Create an Axios instance with default config. Credentials are sent so the
+// auth routes receive the httpOnly refresh token cookie.
 export const api = axios.create({
-  baseURL: process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api",
+  baseURL: API_URL,
+  withCredentials: true,
   headers: {
     "Content-Type": "application/json",
   },
 });
 
+// The short-lived access token only lives in memory, out of reach of
+// anything that can read localStorage; a page load gets a new one from the
+// refresh token cookie
+let accessToken: string | null = null;
+
+export const getAccessToken = () => accessToken;
+
+export const setAccessToken = (token: string | null) => {
+  accessToken = token;
+};
+
+// Only one refresh runs at a time; requests that fail meanwhile wait for it
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchange the refresh token cookie for a new access token. Uses plain axios
+ * so a failed refresh doesn't go through the interceptors below.
+ */
+export const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = axios
+      .post(`${API_URL}/auth/refresh`, null, { withCredentials: true })
+      .then(({ data }) => {
+        setAccessToken(data.token);
+        return data.token as string;
+      })
+      .catch((error) => {
+        setAccessToken(null);
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+};
+
+// Routes where a 401 means bad credentials rather than an expired token
+const NO_REFRESH_PATHS = ["/auth/login", "/auth/refresh", "/auth/logout"];
+
 // Request interceptor for adding auth token
 api.interceptors.request.use(
   (config) => {
-    // Check if we're in the browser
-    if (typeof window !== "undefined") {
-      const token = localStorage.getItem("token");
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
+    if (accessToken) {
+      config.headers.Authorization = `Bearer ${accessToken}`;
     }
     return config;
   },
@@ -29,17 +70,34 @@ api.interceptors.request.use(
 // Response interceptor for handling errors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    // Handle session expiration
-    if (error.response?.status === 401) {
-      if (typeof window !== "undefined" && localStorage.getItem("token")) {
-        localStorage.removeItem("token");
-
-        // Only show toast if we're in the browser
-        toast.error("Your session has expired. Please login again.");
-
-        // Redirect to login
-        window.location.href = "/login";
+  async (error) => {
+    const original = error.config;
+
+    // Refresh an expired access token once, then replay the request
+    if (
+      error.response?.status === 401 &&
+      original &&
+      !original._retry &&
+      !NO_REFRESH_PATHS.some((path) => original.url?.startsWith(path))
+    ) {
+      const hadSession = !!accessToken;
+      original._retry = true;
+
+      try {
+        // Another request may already have refreshed the token
+        const sentToken = String(original.headers.Authorization || "").slice(7);
+        const token =
+          accessToken && accessToken !== sentToken
+            ? accessToken
+            : await refreshAccessToken();
+        original.headers.Authorization = `Bearer ${token}`;
+        return api(original);
+      } catch {
+        // Only interrupt users who were signed in
+        if (hadSession && typeof window !== "undefined") {
+          toast.error("Your session has expired. Please login again.");
+          window.location.href = "/login";
+        }
       }
     }
 
@@ -63,7 +121,45 @@ export interface RegisterData {
   email: string;
   password: string;
   phone?: string;
-  mentorId?: string; // Optional mentorId for auto-assigning mentees
+  inviteToken?: string; // Mentees registering through a mentor's invite link
+  inviteCode?: string; // Mentors with an admin's invite code skip approval
+}
+
+// Which events the user is also emailed about (User.emailPreferences)
+export interface EmailPreferences {
+  issueCreated: boolean;
+  issueReply: boolean;
+  issueStatus: boolean;
+  slaBreach: boolean;
+  menteeTransfer: boolean;
+  weeklyDigest: boolean;
+}
+
+// Mentor details shown to their mentees (User.mentorProfile)
+export interface MentorProfile {
+  department: string;
+  designation: string;
+  officeHours: string;
+  cabin: string;
+}
+
+export interface AccountDetails {
+  id: string;
+  email: string;
+  name?: string;
+  phone?: string;
+  role: string;
+  emailVerified: boolean;
+  mentorProfile?: MentorProfile;
+}
+
+// Changing the email also needs currentPassword
+export interface AccountUpdate {
+  name?: string;
+  phone?: string;
+  email?: string;
+  currentPassword?: string;
+  mentorProfile?: Partial<MentorProfile>;
 }
 
 // Auth API functions
@@ -75,8 +171,101 @@ export const authApi = {
     api.post(`/auth/register/${role}`, userData),
 
   getCurrentUser: () => api.get("/auth/me"),
+
+  // Account settings
+  getAccount: () => api.get("/auth/account"),
+
+  updateAccount: (update: AccountUpdate) => api.put("/auth/account", update),
+
+  // Responds with a new access token for this device; others are signed out
+  changePassword: (currentPassword: string, newPassword: string) =>
+    api.put("/auth/account/password", { currentPassword, newPassword }),
+
+  // Sessions (one per signed-in device)
+  logout: () => api.post("/auth/logout"),
+
+  logoutAll: () => api.post("/auth/logout-all"),
+
+  getSessions: () => api.get("/auth/sessions"),
+
+  revokeSession: (sessionId: string) =>
+    api.delete(`/auth/sessions/${sessionId}`),
+
+  // Invites created by a mentor's bulk import
+  getInvite: (token: string) => api.get(`/auth/invite/${token}`),
+
+  acceptInvite: (token: string, password: string) =>
+    api.post(`/auth/invite/${token}`, { password }),
+
+  // Invite links a mentor shares for mentees to register with
+  getMenteeInvite: (token: string) => api.get(`/auth/mentee-invite/${token}`),
+
+  // Password reset and email verification links
+  forgotPassword: (email: string) =>
+    api.post("/auth/forgot-password", { email }),
+
+  getPasswordReset: (token: string) => api.get(`/auth/reset-password/${token}`),
+
+  resetPassword: (token: string, password: string) =>
+    api.post(`/auth/reset-password/${token}`, { password }),
+
+  verifyEmail: (token: string) => api.post(`/auth/verify-email/${token}`),
+
+  resendVerification: (email: string) =>
+    api.post("/auth/resend-verification", { email }),
+
+  getEmailPreferences: () => api.get("/auth/email-preferences"),
+
+  updateEmailPreferences: (preferences: Partial<EmailPreferences>) =>
+    api.put("/auth/email-preferences", preferences),
 };
 
+// Academic types. AcademicSummary comes with every academic record response.
+// One attempt at a subject; re-attempts repeat the semester and code/name
+export interface SubjectRecord {
+  semester: number;
+  code?: string;
+  name: string;
+  credits: number;
+  internalMarks?: number;
+  externalMarks?: number;
+  grade: string;
+  passed?: boolean;
+  attempt?: number;
+  examSemester?: number;
+}
+
+export interface BacklogSubject {
+  semester: number;
+  code?: string;
+  name: string;
+  credits: number;
+  grade: string;
+  attempts: number;
+  lastExamSemester?: number; // Pending backlogs
+  clearedInSemester?: number; // Cleared backlogs
+}
+
+export interface GradeScaleEntry {
+  grade: string;
+  points: number;
+}
+
+export interface SemesterResult {
+  semester: number;
+  sgpa: number;
+  credits: number | null; // null when the GPA was entered, not calculated
+  fromSubjects: boolean;
+  cgpa: number; // Cumulative up to and including this semester
+}
+
+export interface AcademicSummary {
+  cgpa: number | null;
+  totalCredits: number;
+  semesters: SemesterResult[];
+  backlogs: { pending: BacklogSubject[]; cleared: BacklogSubject[] };
+}
+
 // Mentee API functions
 export const menteeApi = {
   getProfile: () => api.get("/mentee/profile"),
@@ -92,15 +281,62 @@ export const menteeApi = {
 
   createIssue: (issueData: any) => api.post("/mentee/issues", issueData),
 
+  addComment: (issueId: string, text: string) =>
+    api.post(`/mentee/issues/${issueId}/comments`, { text }),
+
+  respondToIdentityRequest: (issueId: string, consent: boolean) =>
+    api.patch(`/mentee/issues/${issueId}/identity`, { consent }),
+  confirmResolution: (
+    issueId: string,
+    feedback: { rating?: number; comment?: string } = {}
+  ) => api.post(`/mentee/issues/${issueId}/confirm`, feedback),
+  reopenIssue: (issueId: string, reason: string) =>
+    api.post(`/mentee/issues/${issueId}/reopen`, { reason }),
+  submitFeedback: (
+    issueId: string,
+    feedback: { rating: number; comment?: string }
+  ) => api.put(`/mentee/issues/${issueId}/feedback`, feedback),
+
   // Academics
   getAcademics: () => api.get("/mentee/academics"),
 
-  updateAcademics: (academicsData: any) => {
-    // Convert the data to FormData if there are files to upload
-    // For this version, we're just simulating with base64 data
-    return api.post("/mentee/academics", academicsData);
+  getGradingScale: () => api.get("/mentee/academics/grading-scale"),
+
+  // Uploads any new marksheet files first, then saves the remaining fields.
+  // Marksheets are stored server-side and only referenced by storage key.
+  updateAcademics: async (
+    academicsData: any,
+    marksheetFiles: Record<number, File | null> = {}
+  ) => {
+    const { semesterMarksheets, ...fields } = academicsData;
+
+    for (const [semester, file] of Object.entries(marksheetFiles)) {
+      if (file) {
+        await menteeApi.uploadMarksheet(Number(semester), file);
+      }
+    }
+
+    return api.post("/mentee/academics", fields);
+  },
+
+  uploadMarksheet: (semester: number, file: File) => {
+    const formData = new FormData();
+    formData.append("semester", String(semester));
+    formData.append("file", file);
+
+    return api.post("/mentee/academics/marksheets", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
   },
 
+  getMarksheet: (semester: number) =>
+    api.get(`/mentee/academics/marksheets/${semester}`, {
+      responseType: "blob",
+    }),
+
+  deleteMarksheet: (semester: number) =>
+    api.delete(`/mentee/academics/marksheets/${semester}`),
+
   // Achievements
   getAchievements: () => api.get("/mentee/achievements"),
 
@@ -111,16 +347,87 @@ export const menteeApi = {
   getDashboard: () => api.get("/mentee/dashboard"),
 };
 
+// Section and branch are prefilled on the profile of everyone who registers
+export interface MenteeInviteLinkOptions {
+  label?: string;
+  section?: string;
+  branch?: string;
+  expiresInDays?: number;
+  maxUses?: number;
+}
+
+// Aligned with GET /api/mentor/analytics (utils/cohortAnalytics.js)
+export interface CohortAnalytics {
+  totalMentees: number;
+  cohortSize: number; // Mentees left after the branch/section filter
+  gpaDistribution: {
+    semester: number;
+    mentees: number;
+    average: number;
+    lowest: number;
+    highest: number;
+    bands: { from: number; to: number; count: number }[];
+  }[];
+  branches: {
+    branch: string | null;
+    count: number;
+    sections: { section: string | null; count: number }[];
+  }[];
+  backlogs: {
+    bins: { label: string; count: number }[];
+    noRecord: number; // Mentees without an academic record
+  };
+  achievements: {
+    types: { type: string; count: number; mentees: number; latest: string }[];
+    topMentees: {
+      id: string;
+      name?: string;
+      email: string;
+      count: number;
+    }[];
+  };
+  issueTypes: { issueType: string; count: number; open: number }[];
+}
+
+export interface CohortFilters {
+  branch?: string;
+  section?: string;
+}
+
 // Mentor API functions
 export const mentorApi = {
   // Dashboard
   getDashboard: () => api.get("/mentor/dashboard"),
 
+  getAnalytics: (filters: CohortFilters = {}) =>
+    api.get("/mentor/analytics", { params: filters }),
+
   // Mentees
   getMentees: () => api.get("/mentor/mentees"),
   assignMentee: (email: string) =>
     api.post("/mentor/mentees/assign", { email }),
 
+  unassignMentee: (menteeId: string) =>
+    api.delete(`/mentor/mentees/${menteeId}`),
+
+  importMentees: (file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    return api.post("/mentor/mentees/import", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+  },
+
+  // Invite links for new mentees
+  getInviteLinks: () => api.get("/mentor/invite-links"),
+
+  createInviteLink: (options: MenteeInviteLinkOptions) =>
+    api.post("/mentor/invite-links", options),
+
+  revokeInviteLink: (linkId: string) =>
+    api.delete(`/mentor/invite-links/${linkId}`),
+
   getMenteeProfile: (menteeId: string) =>
     api.get(`/mentor/mentees/${menteeId}/profile`),
 
@@ -130,6 +437,38 @@ export const mentorApi = {
   getMenteeAchievements: (menteeId: string) =>
     api.get(`/mentor/mentees/${menteeId}/achievements`),
 
+  getMenteeMarksheet: (menteeId: string, semester: number) =>
+    api.get(`/mentor/mentees/${menteeId}/marksheets/${semester}`, {
+      responseType: "blob",
+    }),
+
+  getMenteeReport: (menteeId: string) =>
+    api.get(`/mentor/mentees/${menteeId}/report`, { responseType: "blob" }),
+
+  // Consolidated reports (generated in the background)
+  startBatchReport: (format: "pdf" | "xlsx") =>
+    api.post("/mentor/reports/batch", { format }),
+
+  getBatchReports: () => api.get("/mentor/reports/batch"),
+
+  getBatchReport: (jobId: string) => api.get(`/mentor/reports/batch/${jobId}`),
+
+  downloadBatchReport: (jobId: string) =>
+    api.get(`/mentor/reports/batch/${jobId}/download`, {
+      responseType: "blob",
+    }),
+
+  verifyAcademicEntry: (
+    menteeId: string,
+    entryType: "semesterGPA" | "certifications" | "semesterMarksheets",
+    entryId: string,
+    review: { status: "verified" | "rejected" | "pending"; reason?: string }
+  ) =>
+    api.patch(
+      `/mentor/mentees/${menteeId}/academics/${entryType}/${entryId}/verification`,
+      review
+    ),
+
   // Issues
   getIssues: () => api.get("/mentor/issues"),
 
@@ -144,3 +483,112 @@ export const mentorApi = {
   getAchievements: (options?: { params?: Record<string, string> }) =>
     api.get("/mentor/achievements", options),
 };
+
+// Admin API types
+export interface AdminUserFilters {
+  role?: "mentor" | "mentee" | "admin" | "committee";
+  status?: "active" | "inactive";
+  search?: string;
+  unassigned?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface MentorInviteCodeOptions {
+  label?: string;
+  expiresInDays?: number;
+  maxUses?: number;
+}
+
+// Admin API functions
+export const adminApi = {
+  getStats: () => api.get("/admin/stats"),
+
+  getUsers: (filters: AdminUserFilters = {}) =>
+    api.get("/admin/users", { params: filters }),
+
+  updateUserStatus: (userId: string, isActive: boolean) =>
+    api.patch(`/admin/users/${userId}/status`, { isActive }),
+
+  reassignMentee: (menteeId: string, mentorId: string | null) =>
+    api.put(`/admin/mentees/${menteeId}/mentor`, { mentorId }),
+
+  getEscalatedIssues: (includeResolved = false) =>
+    api.get("/admin/issues/escalated", {
+      params: includeResolved ? { includeResolved: true } : {},
+    }),
+
+  // Mentor access: invite codes and mentors awaiting approval
+  getMentorInviteCodes: () => api.get("/admin/mentor-codes"),
+
+  createMentorInviteCode: (options: MentorInviteCodeOptions) =>
+    api.post("/admin/mentor-codes", options),
+
+  revokeMentorInviteCode: (codeId: string) =>
+    api.delete(`/admin/mentor-codes/${codeId}`),
+
+  getPendingMentors: (status: "pending" | "rejected" = "pending") =>
+    api.get("/admin/mentors/pending", { params: { status } }),
+
+  reviewMentor: (mentorId: string, approve: boolean) =>
+    api.patch(`/admin/mentors/${mentorId}/approval`, { approve }),
+};
+
+// Mentee transfer API types
+export interface TransferRequest {
+  menteeId: string;
+  toMentorEmail: string;
+  note?: string;
+}
+
+// Mentee transfer API functions (mentors and admins)
+export const transferApi = {
+  getTransfers: (status?: string) =>
+    api.get("/transfers", { params: status ? { status } : {} }),
+
+  requestTransfer: (transferData: TransferRequest) =>
+    api.post("/transfers", transferData),
+
+  respondToTransfer: (transferId: string, accept: boolean) =>
+    api.patch(`/transfers/${transferId}/respond`, { accept }),
+
+  cancelTransfer: (transferId: string) =>
+    api.patch(`/transfers/${transferId}/cancel`),
+
+  getMentorHistory: (menteeId: string) =>
+    api.get(`/transfers/history/${menteeId}`),
+};
+
+// Anti-ragging committee API functions (confidential issues)
+export const committeeApi = {
+  getIssues: (status?: string) =>
+    api.get("/committee/issues", { params: status ? { status } : {} }),
+
+  getIssue: (issueId: string) => api.get(`/committee/issues/${issueId}`),
+
+  addComment: (
+    issueId: string,
+    text: string,
+    status?: string,
+    reason?: string
+  ) =>
+    api.post(`/committee/issues/${issueId}/comments`, {
+      text,
+      status,
+      reason,
+    }),
+
+  requestIdentity: (issueId: string, reason: string) =>
+    api.post(`/committee/issues/${issueId}/identity-request`, { reason }),
+};
+
+export const notificationApi = {
+  getNotifications: (params: { unread?: boolean; limit?: number } = {}) =>
+    api.get("/notifications", { params }),
+
+  // Marks the given notifications as read, or all of them when no ids are given
+  markAsRead: (ids?: string[]) => api.patch("/notifications", { ids }),
+
+  setRead: (notificationId: string, read: boolean) =>
+    api.patch(`/notifications/${notificationId}`, { read }),
+};
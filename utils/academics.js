@@ -0,0 +1,195 @@
+const { getGradePoints, isPassingGrade } = require('../config/grading');
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Helper function to tell which attempts belong to the same subject
+ * @param {Object} subject - Subject record
+ * @returns {string}
+ */
+const subjectKey = (subject) =>
+    `${Number(subject.semester)}:${String(subject.code || subject.name || '').trim().toLowerCase()}`;
+
+/**
+ * Group subject records into subjects, each with its attempts in order
+ * @param {Array} subjects - AcademicRecord.subjects
+ * @returns {Array<Array>} - Attempts per subject, first attempt first
+ */
+const groupAttempts = (subjects = []) => {
+    const bySubject = new Map();
+    subjects.forEach((subject) => {
+        const key = subjectKey(subject);
+        bySubject.set(key, [...(bySubject.get(key) || []), subject]);
+    });
+
+    return [...bySubject.values()].map((attempts) =>
+        [...attempts].sort((a, b) => (a.attempt || 1) - (b.attempt || 1)));
+};
+
+/**
+ * The latest attempt of every subject; earlier attempts don't count towards
+ * the SGPA
+ * @param {Array} subjects - AcademicRecord.subjects
+ * @returns {Array}
+ */
+const latestAttempts = (subjects = []) => groupAttempts(subjects).map((attempts) => attempts[attempts.length - 1]);
+
+/**
+ * Subjects still to be cleared and those cleared on a later attempt
+ * @param {Array} subjects - AcademicRecord.subjects
+ * @returns {{ pending: Array, cleared: Array }}
+ */
+const getBacklogs = (subjects = []) => {
+    const pending = [];
+    const cleared = [];
+
+    groupAttempts(subjects).forEach((attempts) => {
+        const latest = attempts[attempts.length - 1];
+        const failedBefore = attempts.slice(0, -1).some((attempt) => !isPassingGrade(attempt.grade));
+        const details = {
+            semester: latest.semester,
+            code: latest.code,
+            name: latest.name,
+            credits: latest.credits,
+            attempts: attempts.length
+        };
+
+        if (!isPassingGrade(latest.grade)) {
+            pending.push({
+                ...details,
+                grade: latest.grade,
+                lastExamSemester: latest.examSemester || latest.semester
+            });
+        } else if (failedBefore) {
+            cleared.push({
+                ...details,
+                grade: latest.grade,
+                clearedInSemester: latest.examSemester || latest.semester
+            });
+        }
+    });
+
+    const bySemester = (a, b) => a.semester - b.semester;
+    return { pending: pending.sort(bySemester), cleared: cleared.sort(bySemester) };
+};
+
+/**
+ * SGPA of one semester: grade points weighted by credits
+ * @param {Array<{ credits: number, grade: string }>} subjects - The semester's subjects
+ * @returns {{ gpa: number, credits: number }|null} - null when no subject carries credits
+ */
+const calculateSGPA = (subjects = []) => {
+    let credits = 0;
+    let points = 0;
+
+    subjects.forEach((subject) => {
+        const gradePoints = getGradePoints(subject.grade);
+        if (gradePoints === null || !(subject.credits > 0)) return;
+
+        credits += subject.credits;
+        points += subject.credits * gradePoints;
+    });
+
+    return credits > 0 ? { gpa: round2(points / credits), credits } : null;
+};
+
+/**
+ * SGPA of every semester that has subject records, from the latest attempt
+ * of each subject
+ * @param {Array} subjects - AcademicRecord.subjects
+ * @returns {Array<{ semester: number, gpa: number, credits: number }>} - Oldest semester first
+ */
+const getSubjectSGPAs = (subjects = []) => {
+    const bySemester = new Map();
+    latestAttempts(subjects).forEach((subject) => {
+        const semester = Number(subject.semester);
+        bySemester.set(semester, [...(bySemester.get(semester) || []), subject]);
+    });
+
+    return [...bySemester.entries()]
+        .map(([semester, semesterSubjects]) => ({ semester, ...calculateSGPA(semesterSubjects) }))
+        .filter((result) => result.gpa !== undefined)
+        .sort((a, b) => a.semester - b.semester);
+};
+
+/**
+ * Semester GPA entries with those of semesters that have subjects replaced by
+ * the calculated SGPA, so an entered GPA can't disagree with the grades
+ * @param {Array} semesterGPA - Entered { semester, gpa } entries
+ * @param {Array} subjects - Subject records
+ * @returns {Array<{ semester: number, gpa: number }>}
+ */
+const withSubjectSGPAs = (semesterGPA = [], subjects = []) => {
+    const calculated = getSubjectSGPAs(subjects);
+
+    return [
+        ...semesterGPA
+            .filter((entry) => !calculated.some((result) => result.semester === Number(entry.semester)))
+            .map(({ semester, gpa }) => ({ semester, gpa })),
+        ...calculated.map(({ semester, gpa }) => ({ semester, gpa }))
+    ].sort((a, b) => a.semester - b.semester);
+};
+
+/**
+ * Cumulative GPA, weighted by credits. Semesters with only an entered GPA
+ * count with the average credits of the others, or equally when no semester
+ * has credits.
+ * @param {Array<{ gpa: number, credits?: number|null }>} semesters - Semester results
+ * @returns {number|null} - CGPA rounded to two decimals, or null with no semesters
+ */
+const calculateCGPA = (semesters = []) => {
+    if (semesters.length === 0) {
+        return null;
+    }
+
+    const withCredits = semesters.filter((semester) => semester.credits > 0);
+    const fallbackCredits = withCredits.length
+        ? withCredits.reduce((sum, semester) => sum + semester.credits, 0) / withCredits.length
+        : 1;
+
+    let weight = 0;
+    let total = 0;
+    semesters.forEach((semester) => {
+        const credits = semester.credits > 0 ? semester.credits : fallbackCredits;
+        weight += credits;
+        total += credits * semester.gpa;
+    });
+
+    return round2(total / weight);
+};
+
+/**
+ * SGPA, credits and CGPA after each semester, plus the overall figures and
+ * the backlogs worked out from the subjects
+ * @param {Object|null} record - AcademicRecord
+ * @returns {{ cgpa: number|null, totalCredits: number, semesters: Array, backlogs: Object }}
+ */
+const getAcademicSummary = (record) => {
+    const calculated = getSubjectSGPAs(record ? record.subjects : []);
+    const entered = (record ? record.semesterGPA : [])
+        .filter((entry) => !calculated.some((result) => result.semester === entry.semester))
+        .map((entry) => ({ semester: entry.semester, gpa: entry.gpa, credits: null }));
+    const semesters = [...calculated, ...entered].sort((a, b) => a.semester - b.semester);
+
+    return {
+        cgpa: calculateCGPA(semesters),
+        totalCredits: semesters.reduce((sum, semester) => sum + (semester.credits || 0), 0),
+        semesters: semesters.map((semester, index) => ({
+            semester: semester.semester,
+            sgpa: semester.gpa,
+            credits: semester.credits,
+            // Whether the SGPA comes from subject grades rather than being entered
+            fromSubjects: semester.credits !== null,
+            cgpa: calculateCGPA(semesters.slice(0, index + 1))
+        })),
+        backlogs: getBacklogs(record ? record.subjects : [])
+    };
+};
+
+module.exports = {
+    getBacklogs,
+    calculateSGPA,
+    calculateCGPA,
+    withSubjectSGPAs,
+    getAcademicSummary
+};
@@ -0,0 +1,283 @@
+const MenteeProfile = require('../models/MenteeProfile');
+const AcademicRecord = require('../models/AcademicRecord');
+const Achievement = require('../models/Achievement');
+const Issue = require('../models/Issue');
+const { getGradingScale } = require('../config/grading');
+const { OPEN_ISSUE_STATUSES } = require('./menteeAssignment');
+
+// Backlog counts at or above the last boundary share one bin
+const BACKLOG_BOUNDARIES = [0, 1, 2, 3, 4, 5];
+const BACKLOG_OVERFLOW = `${BACKLOG_BOUNDARIES[BACKLOG_BOUNDARIES.length - 1]}+`;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// Missing and blank profile fields group together as null
+const valueOrNull = (field) => ({
+    $cond: [{ $eq: [{ $ifNull: [field, ''] }, ''] }, null, field]
+});
+
+/**
+ * Mentees out of a group whose profile matches the branch and section
+ * @param {Array<ObjectId>} menteeIds - Mentee user IDs
+ * @param {Object} filters - { branch, section }; empty values match everyone
+ * @returns {Promise<Array<ObjectId>>}
+ */
+const filterMentees = async (menteeIds, { branch, section } = {}) => {
+    if (!branch && !section) {
+        return menteeIds;
+    }
+
+    return MenteeProfile.distinct('user', {
+        user: { $in: menteeIds },
+        ...(branch && { branch }),
+        ...(section && { section })
+    });
+};
+
+/**
+ * How many mentees got an SGPA in each one-point band, per semester
+ * @param {Array<ObjectId>} menteeIds - Mentee user IDs
+ * @returns {Promise<Array>} - { semester, mentees, average, lowest, highest, bands: [{ from, to, count }] }
+ */
+const getGpaDistribution = async (menteeIds) => {
+    const maxPoints = Math.max(...Object.values(getGradingScale()));
+    const topBand = Math.max(0, Math.ceil(maxPoints) - 1);
+
+    const semesters = await AcademicRecord.aggregate([
+        { $match: { mentee: { $in: menteeIds } } },
+        { $unwind: '$semesterGPA' },
+        {
+            $group: {
+                _id: {
+                    semester: '$semesterGPA.semester',
+                    // A perfect score goes in the top band
+                    band: { $min: [{ $floor: '$semesterGPA.gpa' }, topBand] }
+                },
+                count: { $sum: 1 },
+                total: { $sum: '$semesterGPA.gpa' },
+                lowest: { $min: '$semesterGPA.gpa' },
+                highest: { $max: '$semesterGPA.gpa' }
+            }
+        },
+        {
+            $group: {
+                _id: '$_id.semester',
+                bands: { $push: { band: '$_id.band', count: '$count' } },
+                mentees: { $sum: '$count' },
+                total: { $sum: '$total' },
+                lowest: { $min: '$lowest' },
+                highest: { $max: '$highest' }
+            }
+        },
+        { $sort: { _id: 1 } }
+    ]);
+
+    return semesters.map((semester) => ({
+        semester: semester._id,
+        mentees: semester.mentees,
+        average: round2(semester.total / semester.mentees),
+        lowest: semester.lowest,
+        highest: semester.highest,
+        bands: Array.from({ length: topBand + 1 }, (_, band) => {
+            const match = semester.bands.find((entry) => entry.band === band);
+            return { from: band, to: band + 1, count: match ? match.count : 0 };
+        })
+    }));
+};
+
+/**
+ * Mentees per branch, and per section within each branch
+ * @param {Array<ObjectId>} menteeIds - Mentee user IDs
+ * @returns {Promise<Array>} - { branch, count, sections: [{ section, count }] }; branch or
+ *   section is null where the profile doesn't say
+ */
+const getBranchBreakdown = async (menteeIds) => {
+    const groups = await MenteeProfile.aggregate([
+        { $match: { user: { $in: menteeIds } } },
+        {
+            $group: {
+                _id: {
+                    branch: valueOrNull('$branch'),
+                    section: valueOrNull('$section')
+                },
+                count: { $sum: 1 }
+            }
+        },
+        { $sort: { '_id.section': 1 } },
+        {
+            $group: {
+                _id: '$_id.branch',
+                count: { $sum: '$count' },
+                sections: { $push: { section: '$_id.section', count: '$count' } }
+            }
+        },
+        { $sort: { count: -1, _id: 1 } }
+    ]);
+
+    const branches = groups.map((group) => ({
+        branch: group._id,
+        count: group.count,
+        sections: group.sections
+    }));
+
+    // Mentees who haven't filled in a profile yet
+    const withProfile = branches.reduce((sum, branch) => sum + branch.count, 0);
+    const withoutProfile = menteeIds.length - withProfile;
+    if (withoutProfile > 0) {
+        const unknown = branches.find((branch) => branch.branch === null);
+        if (unknown) {
+            unknown.count += withoutProfile;
+        } else {
+            branches.push({ branch: null, count: withoutProfile, sections: [] });
+        }
+    }
+
+    return branches;
+};
+
+/**
+ * Mentees by number of pending backlogs
+ * @param {Array<ObjectId>} menteeIds - Mentee user IDs
+ * @returns {Promise<{ bins: Array<{ label: string, count: number }>, noRecord: number }>}
+ */
+const getBacklogHistogram = async (menteeIds) => {
+    const buckets = await AcademicRecord.aggregate([
+        { $match: { mentee: { $in: menteeIds } } },
+        {
+            $bucket: {
+                groupBy: { $ifNull: ['$backlogs', 0] },
+                boundaries: BACKLOG_BOUNDARIES,
+                default: BACKLOG_OVERFLOW,
+                output: { count: { $sum: 1 } }
+            }
+        }
+    ]);
+
+    const countFor = (id) => {
+        const bucket = buckets.find((entry) => entry._id === id);
+        return bucket ? bucket.count : 0;
+    };
+
+    const bins = BACKLOG_BOUNDARIES.slice(0, -1)
+        .map((boundary) => ({ label: String(boundary), count: countFor(boundary) }))
+        .concat({ label: BACKLOG_OVERFLOW, count: countFor(BACKLOG_OVERFLOW) });
+
+    const withRecord = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+
+    return { bins, noRecord: menteeIds.length - withRecord };
+};
+
+/**
+ * Achievement types ranked by how often mentees report them, and the mentees
+ * with the most achievements
+ * @param {Array<ObjectId>} menteeIds - Mentee user IDs
+ * @param {number} [limit] - Number of top mentees to return
+ * @returns {Promise<{ types: Array, topMentees: Array }>}
+ */
+const getAchievementLeaderboard = async (menteeIds, limit = 5) => {
+    const [types, topMentees] = await Promise.all([
+        Achievement.aggregate([
+            { $match: { mentee: { $in: menteeIds } } },
+            {
+                $group: {
+                    _id: '$type',
+                    count: { $sum: 1 },
+                    mentees: { $addToSet: '$mentee' },
+                    latest: { $max: '$dateOfAchievement' }
+                }
+            },
+            {
+                $project: {
+                    _id: 0,
+                    type: '$_id',
+                    count: 1,
+                    mentees: { $size: '$mentees' },
+                    latest: 1
+                }
+            },
+            { $sort: { count: -1, type: 1 } }
+        ]),
+        Achievement.aggregate([
+            { $match: { mentee: { $in: menteeIds } } },
+            { $group: { _id: '$mentee', count: { $sum: 1 } } },
+            { $sort: { count: -1 } },
+            { $limit: limit },
+            {
+                $lookup: {
+                    from: 'users',
+                    localField: '_id',
+                    foreignField: '_id',
+                    as: 'user'
+                }
+            },
+            { $unwind: '$user' },
+            {
+                $project: {
+                    _id: 0,
+                    id: '$_id',
+                    name: '$user.name',
+                    email: '$user.email',
+                    count: 1
+                }
+            }
+        ])
+    ]);
+
+    return { types, topMentees };
+};
+
+/**
+ * Issues raised with the mentor per issue type, and how many are still open.
+ * Confidential issues go to the committee and aren't counted.
+ * @param {ObjectId} mentorId - Mentor user ID
+ * @param {Array<ObjectId>} menteeIds - Mentee user IDs
+ * @returns {Promise<Array>} - { issueType, count, open }
+ */
+const getIssueTypeFrequency = async (mentorId, menteeIds) => {
+    return Issue.aggregate([
+        { $match: { mentor: mentorId, mentee: { $in: menteeIds } } },
+        {
+            $group: {
+                _id: '$issueType',
+                count: { $sum: 1 },
+                open: { $sum: { $cond: [{ $in: ['$status', OPEN_ISSUE_STATUSES] }, 1, 0] } }
+            }
+        },
+        { $project: { _id: 0, issueType: '$_id', count: 1, open: 1 } },
+        { $sort: { count: -1, issueType: 1 } }
+    ]);
+};
+
+/**
+ * Everything on the cohort analytics page for a mentor's mentees
+ * @param {Object} mentor - Mentor user document
+ * @param {Object} [filters] - { branch, section } to narrow the cohort
+ * @returns {Promise<Object>}
+ */
+const getCohortAnalytics = async (mentor, filters = {}) => {
+    const allMentees = mentor.mentees || [];
+    const menteeIds = await filterMentees(allMentees, filters);
+
+    const [gpaDistribution, branches, backlogs, achievements, issueTypes] = await Promise.all([
+        getGpaDistribution(menteeIds),
+        // The breakdown always covers the whole group, so it can be used to pick a filter
+        getBranchBreakdown(allMentees),
+        getBacklogHistogram(menteeIds),
+        getAchievementLeaderboard(menteeIds),
+        getIssueTypeFrequency(mentor._id, menteeIds)
+    ]);
+
+    return {
+        totalMentees: allMentees.length,
+        cohortSize: menteeIds.length,
+        gpaDistribution,
+        branches,
+        backlogs,
+        achievements,
+        issueTypes
+    };
+};
+
+module.exports = {
+    getCohortAnalytics
+};
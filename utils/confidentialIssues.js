@@ -0,0 +1,71 @@
+/**
+ * Whether the committee may see who reported a confidential issue
+ * @param {Object} issue - Issue document
+ * @returns {boolean}
+ */
+const isIdentityRevealed = (issue) => !issue.anonymous || issue.identityDisclosure.status === 'granted';
+
+/**
+ * Shape a confidential issue for the committee. The reporter's details, and
+ * their authorship of comments and status changes, stay hidden until the
+ * issue is revealed.
+ * @param {Object} issue - Issue with mentee, comments.user and statusHistory.changedBy populated
+ * @returns {Object} - Issue summary safe to show to committee members
+ */
+const formatCommitteeIssue = (issue) => {
+    const revealed = isIdentityRevealed(issue);
+    const menteeId = issue.mentee && issue.mentee._id ? issue.mentee._id : issue.mentee;
+
+    const formatAuthor = (user) => {
+        if (!user) return null;
+
+        const userId = user._id || user;
+        if (menteeId && userId.equals(menteeId)) {
+            return revealed
+                ? { _id: userId, email: user.email, name: user.name, role: 'mentee' }
+                : { _id: null, email: null, name: 'Anonymous reporter', role: 'mentee' };
+        }
+
+        return { _id: userId, email: user.email, name: user.name, role: user.role };
+    };
+
+    return {
+        _id: issue._id,
+        issueType: issue.issueType,
+        description: issue.description,
+        status: issue.status,
+        anonymous: issue.anonymous,
+        identityDisclosure: {
+            status: issue.identityDisclosure.status,
+            reason: issue.identityDisclosure.reason,
+            requestedAt: issue.identityDisclosure.requestedAt,
+            respondedAt: issue.identityDisclosure.respondedAt
+        },
+        reporter: revealed && issue.mentee && issue.mentee.email
+            ? { _id: issue.mentee._id, email: issue.mentee.email, name: issue.mentee.name }
+            : null,
+        comments: issue.comments.map((comment) => ({
+            _id: comment._id,
+            user: formatAuthor(comment.user),
+            text: comment.text,
+            createdAt: comment.createdAt
+        })),
+        statusHistory: issue.statusHistory.map((entry) => ({
+            _id: entry._id,
+            from: entry.from,
+            to: entry.to,
+            changedBy: formatAuthor(entry.changedBy),
+            reason: entry.reason,
+            changedAt: entry.changedAt
+        })),
+        sla: issue.sla,
+        escalations: issue.escalations,
+        createdAt: issue.createdAt,
+        updatedAt: issue.updatedAt
+    };
+};
+
+module.exports = {
+    isIdentityRevealed,
+    formatCommitteeIssue
+};
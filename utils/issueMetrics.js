@@ -0,0 +1,118 @@
+const Issue = require('../models/Issue');
+
+const RESOLVED_STATUSES = ['Resolved', 'Closed'];
+
+/**
+ * Roll a mentor's issues up into resolution quality metrics: how many they
+ * resolved, how quickly, how often mentees reopened them and how mentees
+ * rated the outcome
+ * @param {ObjectId} mentorId - Mentor user ID
+ * @returns {Promise<Object>} - { resolved, confirmed, reopened, reopenRate,
+ *   rated, averageRating, ratingCounts, averageResolutionHours }
+ */
+const getMentorResolutionMetrics = async (mentorId) => {
+    const [totals] = await Issue.aggregate([
+        { $match: { mentor: mentorId } },
+        {
+            $project: {
+                resolved: { $in: ['$status', RESOLVED_STATUSES] },
+                rating: '$feedback.rating',
+                resolutionMs: {
+                    $cond: [
+                        { $ifNull: ['$sla.resolvedAt', false] },
+                        { $subtract: ['$sla.resolvedAt', '$createdAt'] },
+                        null
+                    ]
+                },
+                // Moved back out of Resolved/Closed at least once; Resolved
+                // to Closed is the mentee confirming, not a reopen
+                reopened: {
+                    $gt: [{
+                        $size: {
+                            $filter: {
+                                input: { $ifNull: ['$statusHistory', []] },
+                                as: 'change',
+                                cond: {
+                                    $and: [
+                                        { $in: ['$$change.from', RESOLVED_STATUSES] },
+                                        { $not: [{ $in: ['$$change.to', RESOLVED_STATUSES] }] }
+                                    ]
+                                }
+                            }
+                        }
+                    }, 0]
+                },
+                // Closed by the mentee confirming the resolution
+                confirmed: {
+                    $gt: [{
+                        $size: {
+                            $filter: {
+                                input: { $ifNull: ['$statusHistory', []] },
+                                as: 'change',
+                                cond: {
+                                    $and: [
+                                        { $eq: ['$$change.to', 'Closed'] },
+                                        { $eq: ['$$change.changedBy', '$mentee'] }
+                                    ]
+                                }
+                            }
+                        }
+                    }, 0]
+                }
+            }
+        },
+        {
+            $group: {
+                _id: null,
+                resolved: { $sum: { $cond: ['$resolved', 1, 0] } },
+                // Reopened issues were resolved at least once even if open again now
+                everResolved: { $sum: { $cond: [{ $or: ['$resolved', '$reopened'] }, 1, 0] } },
+                confirmed: { $sum: { $cond: ['$confirmed', 1, 0] } },
+                reopened: { $sum: { $cond: ['$reopened', 1, 0] } },
+                rated: { $sum: { $cond: [{ $ifNull: ['$rating', false] }, 1, 0] } },
+                averageRating: { $avg: '$rating' },
+                averageResolutionMs: { $avg: '$resolutionMs' },
+                ratings: { $push: '$rating' }
+            }
+        }
+    ]);
+
+    if (!totals) {
+        return {
+            resolved: 0,
+            confirmed: 0,
+            reopened: 0,
+            reopenRate: null,
+            rated: 0,
+            averageRating: null,
+            ratingCounts: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+            averageResolutionHours: null
+        };
+    }
+
+    const ratingCounts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    totals.ratings.forEach((rating) => {
+        if (ratingCounts[rating] !== undefined) {
+            ratingCounts[rating] += 1;
+        }
+    });
+
+    return {
+        resolved: totals.resolved,
+        confirmed: totals.confirmed,
+        reopened: totals.reopened,
+        reopenRate: totals.everResolved > 0 ? totals.reopened / totals.everResolved : null,
+        rated: totals.rated,
+        averageRating: totals.averageRating !== null
+            ? Math.round(totals.averageRating * 100) / 100
+            : null,
+        ratingCounts,
+        averageResolutionHours: totals.averageResolutionMs !== null
+            ? Math.round(totals.averageResolutionMs / (60 * 60 * 1000))
+            : null
+    };
+};
+
+module.exports = {
+    getMentorResolutionMetrics
+};
@@ -1,9 +1,10 @@
 const jwt = require('jsonwebtoken');
 
-// Generate JWT token
-const generateToken = (id) => {
-    return jwt.sign({ id }, process.env.JWT_SECRET, {
-        expiresIn: process.env.JWT_EXPIRE
+// Generate a short-lived access token for a session; the session's refresh
+// token cookie is used to get a new one when it expires
+const generateToken = (id, sessionId) => {
+    return jwt.sign({ id, sid: sessionId }, process.env.JWT_SECRET, {
+        expiresIn: process.env.JWT_ACCESS_EXPIRE || '15m'
     });
 };
 
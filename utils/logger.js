@@ -16,6 +16,12 @@ const timestamp = () => {
     return new Date().toISOString();
 };
 
+// Hides credentials passed in the query string (the event stream sends its
+// access token as ?token=) so they never reach the log files
+const redactUrl = (url = '') => {
+    return url.replace(/([?&]token=)[^&#]*/gi, '$1[REDACTED]');
+};
+
 // Formats error objects for logging
 const formatError = (err) => {
     if (!(err instanceof Error)) {
@@ -99,7 +105,7 @@ const httpRequest = (req, res, duration) => {
         level: 'INFO',
         type: 'HTTP',
         method: req.method,
-        url: req.originalUrl,
+        url: redactUrl(req.originalUrl),
         status: res.statusCode,
         duration: `${duration}ms`,
         ip: req.ip || req.headers['x-forwarded-for'] || req.connection.remoteAddress
@@ -135,5 +141,6 @@ module.exports = {
     info,
     warn,
     httpRequest,
+    redactUrl,
     setupGlobalHandlers
 }; 
\ No newline at end of file
@@ -0,0 +1,91 @@
+const logger = require('./logger');
+const { getRateLimitStore, secondsUntil } = require('./rateLimit');
+
+// An account locks after 5 failed logins (override with LOGIN_MAX_FAILURES)
+const MAX_ACCOUNT_FAILURES = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+
+// An IP locks after 50 failed logins across any accounts (override with
+// LOGIN_IP_MAX_FAILURES); a whole campus may share one address
+const MAX_IP_FAILURES = Number(process.env.LOGIN_IP_MAX_FAILURES) || 50;
+
+// Failures are counted, and lockouts last, for 15 minutes (override with LOGIN_LOCKOUT_MINUTES)
+const LOCKOUT_MS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+
+const accountKey = (email) => `login:account:${String(email).trim().toLowerCase()}`;
+const ipKey = (ip) => `login:ip:${ip}`;
+
+/**
+ * Check whether logins for an account, or from an IP, are locked out
+ * @param {string} email - Email the client is trying to log in as
+ * @param {string} ip - Client IP
+ * @returns {Promise<{ resetAt: Date, message: string }|null>} - The lockout, or null
+ */
+const getLoginLockout = async (email, ip) => {
+    try {
+        const store = getRateLimitStore();
+        const [account, address] = await Promise.all([
+            store.get(accountKey(email)),
+            store.get(ipKey(ip))
+        ]);
+
+        const locked = [
+            account && account.count >= MAX_ACCOUNT_FAILURES && account,
+            address && address.count >= MAX_IP_FAILURES && address
+        ].filter(Boolean);
+
+        if (locked.length === 0) return null;
+
+        // Whichever lockout lasts longer is the one that matters
+        const resetAt = new Date(Math.max(...locked.map((counter) => counter.resetAt.getTime())));
+        const minutes = Math.ceil(secondsUntil(resetAt) / 60);
+
+        return {
+            resetAt,
+            message: `Too many failed login attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'} or reset your password.`
+        };
+    } catch (error) {
+        logger.error(error, 'Failed to check login lockout');
+        return null;
+    }
+};
+
+/**
+ * Count a failed login against the account and the IP
+ * @param {string} email - Email the client tried to log in as
+ * @param {string} ip - Client IP
+ * @returns {Promise<void>}
+ */
+const recordLoginFailure = async (email, ip) => {
+    try {
+        const store = getRateLimitStore();
+        const [account] = await Promise.all([
+            store.increment(accountKey(email), LOCKOUT_MS),
+            store.increment(ipKey(ip), LOCKOUT_MS)
+        ]);
+
+        if (account.count === MAX_ACCOUNT_FAILURES) {
+            logger.warn(`Logins for ${email} locked after ${MAX_ACCOUNT_FAILURES} failed attempts (last from ${ip})`);
+        }
+    } catch (error) {
+        logger.error(error, 'Failed to record login failure');
+    }
+};
+
+/**
+ * Forget an account's failed logins after it signs in successfully
+ * @param {string} email - Email that logged in
+ * @returns {Promise<void>}
+ */
+const clearLoginFailures = async (email) => {
+    try {
+        await getRateLimitStore().reset(accountKey(email));
+    } catch (error) {
+        logger.error(error, 'Failed to clear login failures');
+    }
+};
+
+module.exports = {
+    getLoginLockout,
+    recordLoginFailure,
+    clearLoginFailures
+};
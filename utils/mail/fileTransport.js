@@ -0,0 +1,31 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+/**
+ * Mail transport that writes each message to a JSON file instead of sending
+ * it, so local development and tests can inspect what would have been sent
+ * @param {Object} options - Transport options
+ * @param {string} options.dir - Directory the messages are written to
+ * @returns {Object} - Mail transport
+ */
+const createFileTransport = ({ dir }) => {
+    const outbox = path.resolve(dir);
+
+    return {
+        name: 'file',
+
+        async send(message) {
+            const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+
+            await fs.promises.mkdir(outbox, { recursive: true });
+            await fs.promises.writeFile(
+                path.join(outbox, `${id}.json`),
+                JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+            );
+            return { id };
+        }
+    };
+};
+
+module.exports = createFileTransport;
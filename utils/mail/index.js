@@ -0,0 +1,82 @@
+const path = require('path');
+const logger = require('../logger');
+const createConsoleTransport = require('./consoleTransport');
+const createFileTransport = require('./fileTransport');
+const createSmtpTransport = require('./smtpTransport');
+
+// Transport instance, created lazily so environment variables are loaded first
+let transport = null;
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT ("console" by default,
+ * except in production where it has to be set)
+ * @returns {Object} - Mail transport with a send method
+ */
+const createTransport = () => {
+    const production = process.env.NODE_ENV === 'production';
+
+    if (production && !process.env.MAIL_TRANSPORT) {
+        throw new Error('MAIL_TRANSPORT must be set in production');
+    }
+
+    const driver = (process.env.MAIL_TRANSPORT || 'console').toLowerCase();
+
+    if (production && driver === 'console') {
+        logger.warn('MAIL_TRANSPORT is "console" in production: no email will be delivered');
+    }
+
+    switch (driver) {
+        case 'console':
+            return createConsoleTransport();
+        case 'file':
+            return createFileTransport({
+                dir: process.env.MAIL_DIR || path.join(__dirname, '../../mail-outbox')
+            });
+        case 'smtp':
+            return createSmtpTransport({
+                host: process.env.SMTP_HOST,
+                port: Number(process.env.SMTP_PORT) || undefined,
+                secure: process.env.SMTP_SECURE === 'true',
+                user: process.env.SMTP_USER,
+                pass: process.env.SMTP_PASS
+            });
+        default:
+            throw new Error(`Unknown mail transport: ${driver}`);
+    }
+};
+
+/**
+ * Get the configured mail transport
+ * @returns {Object} - Mail transport
+ */
+const getMailTransport = () => {
+    if (!transport) {
+        transport = createTransport();
+        logger.info(`Mail initialized using "${transport.name}" transport`);
+    }
+    return transport;
+};
+
+/**
+ * Send an email. Failures are logged and reported as false rather than
+ * thrown, since email is never the only way users learn about an event.
+ * @param {Object} message - { to, subject, text, html }
+ * @returns {Promise<boolean>} - Whether the message was handed to the transport
+ */
+const sendMail = async (message) => {
+    try {
+        await getMailTransport().send({
+            from: process.env.MAIL_FROM || 'ReportVerse <no-reply@reportverse.local>',
+            ...message
+        });
+        return true;
+    } catch (error) {
+        logger.error(error, `Failed to send email "${message.subject}" to ${message.to}`);
+        return false;
+    }
+};
+
+module.exports = {
+    getMailTransport,
+    sendMail
+};
@@ -0,0 +1,45 @@
+const User = require('../../models/User');
+const logger = require('../logger');
+const { sendMail } = require('./index');
+const { NOTIFICATION_TEMPLATES } = require('./templates');
+
+/**
+ * Email the recipients of new notifications who have that kind of email
+ * turned on. Notification types without a template are in-app only.
+ * @param {Array} notifications - Notification documents, all of one event
+ * @returns {Promise<number>} - Number of emails sent
+ */
+const sendNotificationEmails = async (notifications) => {
+    const template = notifications.length > 0 && NOTIFICATION_TEMPLATES[notifications[0].type];
+
+    if (!template) return 0;
+
+    const recipients = await User.find({
+        _id: { $in: notifications.map((notification) => notification.recipient) },
+        isActive: { $ne: false },
+        [`emailPreferences.${template.preference}`]: { $ne: false }
+    }).select('email name role');
+
+    const byId = new Map(recipients.map((user) => [user._id.toString(), user]));
+    let sent = 0;
+
+    for (const notification of notifications) {
+        const recipient = byId.get(notification.recipient.toString());
+        if (!recipient) continue;
+
+        const message = template.render(notification, recipient);
+        if (await sendMail({ to: recipient.email, ...message })) {
+            sent += 1;
+        }
+    }
+
+    if (sent > 0) {
+        logger.info(`Sent ${sent} ${notifications[0].type} email(s)`);
+    }
+
+    return sent;
+};
+
+module.exports = {
+    sendNotificationEmails
+};
@@ -0,0 +1,36 @@
+/**
+ * Mail transport that delivers through an SMTP server.
+ * Nodemailer is only required when this transport is selected.
+ * @param {Object} options - Transport options
+ * @param {string} options.host - SMTP host
+ * @param {number} [options.port] - SMTP port (587 by default)
+ * @param {boolean} [options.secure] - Use TLS from the start (port 465)
+ * @param {string} [options.user] - SMTP username
+ * @param {string} [options.pass] - SMTP password
+ * @returns {Object} - Mail transport
+ */
+const createSmtpTransport = ({ host, port, secure, user, pass }) => {
+    if (!host) {
+        throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT is "smtp"');
+    }
+
+    const nodemailer = require('nodemailer');
+
+    const transporter = nodemailer.createTransport({
+        host,
+        port: port || 587,
+        secure: Boolean(secure),
+        ...(user && { auth: { user, pass } })
+    });
+
+    return {
+        name: 'smtp',
+
+        async send(message) {
+            const info = await transporter.sendMail(message);
+            return { id: info.messageId };
+        }
+    };
+};
+
+module.exports = createSmtpTransport;
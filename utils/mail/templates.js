@@ -0,0 +1,207 @@
+/**
+ * Base URL of the web app, used to turn notification links into absolute URLs
+ * @returns {string}
+ */
+const appUrl = () => (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const escapeHtml = (value = '') => String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const FOOTER = 'You can choose which emails you receive from your profile page in ReportVerse.';
+
+// Account emails are sent regardless of preferences
+const ACCOUNT_FOOTER = 'If you did not ask for this, you can safely ignore this email.';
+
+/**
+ * Render a message in both plain text and HTML from the same parts
+ * @param {Object} parts
+ * @param {string} parts.subject - Email subject
+ * @param {string} parts.greeting - Opening line
+ * @param {Array<string>} parts.lines - Body paragraphs
+ * @param {string} [parts.link] - App path for the call to action
+ * @param {string} [parts.linkLabel] - Call to action text
+ * @param {string} [parts.footer] - Small print below the message
+ * @returns {Object} - { subject, text, html }
+ */
+const render = ({ subject, greeting, lines, link, linkLabel = 'Open in ReportVerse', footer = FOOTER }) => {
+    const url = link ? `${appUrl()}${link}` : null;
+
+    const text = [
+        greeting,
+        '',
+        ...lines.flatMap((line) => [line, '']),
+        ...(url ? [`${linkLabel}: ${url}`, ''] : []),
+        '--',
+        footer
+    ].join('\n');
+
+    const html = `<!DOCTYPE html>
+<html>
+<body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+  <div style="max-width: 560px; margin: 0 auto; padding: 24px;">
+    <p>${escapeHtml(greeting)}</p>
+    ${lines.map((line) => `<p style="white-space: pre-line;">${escapeHtml(line)}</p>`).join('\n    ')}
+    ${url ? `<p><a href="${escapeHtml(url)}" style="display: inline-block; padding: 10px 16px; background: #4f46e5; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(linkLabel)}</a></p>` : ''}
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;">
+    <p style="font-size: 12px; color: #6b7280;">${escapeHtml(footer)}</p>
+  </div>
+</body>
+</html>`;
+
+    return { subject, text, html };
+};
+
+const greet = (recipient) => `Hi ${recipient.name || recipient.email},`;
+
+/**
+ * Templates for emails that mirror an in-app notification, keyed by the
+ * notification type. Each names the emailPreferences key that switches it off.
+ */
+const NOTIFICATION_TEMPLATES = {
+    issue_created: {
+        preference: 'issueCreated',
+        render: (notification, recipient) => render({
+            subject: notification.title,
+            greeting: greet(recipient),
+            lines: [
+                'A new issue needs your attention.',
+                notification.message
+            ].filter(Boolean),
+            link: notification.link,
+            linkLabel: 'View the issue'
+        })
+    },
+    issue_comment: {
+        preference: 'issueReply',
+        render: (notification, recipient) => render({
+            subject: notification.title,
+            greeting: greet(recipient),
+            lines: [
+                'There is a new reply on an issue you are following:',
+                notification.message
+            ].filter(Boolean),
+            link: notification.link,
+            linkLabel: 'Read and reply'
+        })
+    },
+    issue_status: {
+        preference: 'issueStatus',
+        render: (notification, recipient) => render({
+            subject: notification.title,
+            greeting: greet(recipient),
+            lines: [
+                `${notification.title}.`,
+                notification.message
+            ].filter(Boolean),
+            link: notification.link,
+            linkLabel: 'View the issue'
+        })
+    },
+    issue_escalated: {
+        preference: 'slaBreach',
+        render: (notification, recipient) => render({
+            subject: `Escalation: ${notification.title}`,
+            greeting: greet(recipient),
+            lines: [
+                `${notification.title}.`,
+                notification.message
+            ].filter(Boolean),
+            link: notification.link,
+            linkLabel: 'Review escalations'
+        })
+    },
+    transfer_requested: {
+        preference: 'menteeTransfer',
+        render: (notification, recipient) => render({
+            subject: notification.title,
+            greeting: greet(recipient),
+            lines: [
+                `${notification.message}. Please accept or decline the transfer.`
+            ],
+            link: notification.link,
+            linkLabel: 'Respond to the transfer'
+        })
+    }
+};
+
+/**
+ * Weekly summary of a user's unread notifications and, for mentors, their
+ * outstanding issues
+ * @param {Object} data
+ * @param {Object} data.recipient - User receiving the digest
+ * @param {Array} data.notifications - Unread notifications from the past week
+ * @param {Object} [data.issues] - { open, overdue } counts for mentors
+ * @returns {Object} - { subject, text, html }
+ */
+const weeklyDigest = ({ recipient, notifications, issues }) => {
+    const lines = [];
+
+    if (issues) {
+        lines.push(`You have ${issues.open} open issue${issues.open === 1 ? '' : 's'}`
+            + (issues.overdue > 0 ? `, ${issues.overdue} of them past a deadline.` : '.'));
+    }
+
+    if (notifications.length > 0) {
+        lines.push(`You have ${notifications.length} unread update${notifications.length === 1 ? '' : 's'} from the past week:`);
+        lines.push(notifications.slice(0, 10).map((notification) => `• ${notification.title}`).join('\n'));
+        if (notifications.length > 10) {
+            lines.push(`…and ${notifications.length - 10} more.`);
+        }
+    } else {
+        lines.push('You are all caught up on updates from the past week.');
+    }
+
+    return render({
+        subject: 'Your weekly ReportVerse summary',
+        greeting: greet(recipient),
+        lines,
+        link: `/${recipient.role}/dashboard`,
+        linkLabel: 'Go to your dashboard'
+    });
+};
+
+/**
+ * Link for choosing a new password
+ * @param {Object} data
+ * @param {Object} data.recipient - User who asked for the reset
+ * @param {string} data.token - Raw reset token
+ * @param {number} data.ttlMinutes - How long the link works
+ * @returns {Object} - { subject, text, html }
+ */
+const passwordReset = ({ recipient, token, ttlMinutes }) => render({
+    subject: 'Reset your ReportVerse password',
+    greeting: greet(recipient),
+    lines: [
+        'We received a request to reset the password for your ReportVerse account.',
+        `The link below works once and expires in ${ttlMinutes} minutes.`
+    ],
+    link: `/reset-password/${token}`,
+    linkLabel: 'Choose a new password',
+    footer: ACCOUNT_FOOTER
+});
+
+/**
+ * Link for confirming a new account's email address
+ * @param {Object} data
+ * @param {Object} data.recipient - Newly registered user
+ * @param {string} data.token - Raw verification token
+ * @returns {Object} - { subject, text, html }
+ */
+const emailVerification = ({ recipient, token }) => render({
+    subject: 'Confirm your email address',
+    greeting: greet(recipient),
+    lines: ['Please confirm this is your email address to finish setting up your ReportVerse account.'],
+    link: `/verify-email/${token}`,
+    linkLabel: 'Confirm email address',
+    footer: ACCOUNT_FOOTER
+});
+
+module.exports = {
+    NOTIFICATION_TEMPLATES,
+    weeklyDigest,
+    passwordReset,
+    emailVerification
+};
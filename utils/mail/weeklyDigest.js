@@ -0,0 +1,115 @@
+const User = require('../../models/User');
+const Issue = require('../../models/Issue');
+const Notification = require('../../models/Notification');
+const logger = require('../logger');
+const { OPEN_ISSUE_STATUSES } = require('../menteeAssignment');
+const { sendMail } = require('./index');
+const { weeklyDigest } = require('./templates');
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How often due digests are looked for (override with DIGEST_CHECK_INTERVAL_MINUTES)
+const CHECK_INTERVAL_MS = (Number(process.env.DIGEST_CHECK_INTERVAL_MINUTES) || 60) * 60 * 1000;
+
+// Issues each role is responsible for; mentees get notifications only
+const ISSUE_SCOPES = {
+    mentor: (user) => ({ mentor: user._id }),
+    committee: () => ({ confidential: true }),
+    admin: () => ({ confidential: { $ne: true } })
+};
+
+/**
+ * Count the open and overdue issues a user is responsible for
+ * @param {Object} user - User document
+ * @returns {Promise<Object|null>} - { open, overdue }, or null for mentees
+ */
+const countIssues = async (user) => {
+    const scope = ISSUE_SCOPES[user.role];
+    if (!scope) return null;
+
+    const open = { ...scope(user), status: { $in: OPEN_ISSUE_STATUSES } };
+    const [openCount, overdueCount] = await Promise.all([
+        Issue.countDocuments(open),
+        Issue.countDocuments({
+            ...open,
+            $or: [
+                { 'sla.responseBreachedAt': { $ne: null } },
+                { 'sla.resolutionBreachedAt': { $ne: null } }
+            ]
+        })
+    ]);
+
+    return { open: openCount, overdue: overdueCount };
+};
+
+/**
+ * Send the weekly digest to every user who wants one and hasn't had one in
+ * the past week. New accounts get their first digest a week after signing up.
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<number>} - Number of digests sent
+ */
+const sendWeeklyDigests = async (now = new Date()) => {
+    const weekAgo = new Date(now.getTime() - WEEK_MS);
+    const users = await User.find({
+        isActive: { $ne: false },
+        'emailPreferences.weeklyDigest': { $ne: false },
+        $or: [
+            { digestSentAt: { $lte: weekAgo } },
+            { digestSentAt: null, createdAt: { $lte: weekAgo } }
+        ]
+    }).select('email name role digestSentAt');
+
+    let sent = 0;
+
+    for (const user of users) {
+        // Claim the digest first so concurrent runs send it only once
+        const claimed = await User.updateOne(
+            { _id: user._id, digestSentAt: user.digestSentAt || null },
+            { digestSentAt: now }
+        );
+        if (claimed.modifiedCount === 0) continue;
+
+        const [notifications, issues] = await Promise.all([
+            Notification.find({ recipient: user._id, readAt: null, createdAt: { $gt: weekAgo } })
+                .sort('-createdAt')
+                .select('title'),
+            countIssues(user)
+        ]);
+
+        const message = weeklyDigest({ recipient: user, notifications, issues });
+        if (await sendMail({ to: user.email, ...message })) {
+            sent += 1;
+        }
+    }
+
+    if (sent > 0) {
+        logger.info(`Sent ${sent} weekly digest email(s)`);
+    }
+
+    return sent;
+};
+
+let intervalId = null;
+
+/**
+ * Send due digests now and then every CHECK_INTERVAL_MS
+ */
+const startDigestScheduler = () => {
+    if (intervalId) return;
+
+    const run = () => {
+        sendWeeklyDigests().catch((error) => {
+            logger.error(error, 'Weekly digest run failed');
+        });
+    };
+
+    run();
+    intervalId = setInterval(run, CHECK_INTERVAL_MS);
+    // Don't keep the process alive just for the scheduler
+    intervalId.unref();
+};
+
+module.exports = {
+    sendWeeklyDigests,
+    startDigestScheduler
+};
@@ -0,0 +1,126 @@
+const User = require('../models/User');
+const Issue = require('../models/Issue');
+const Achievement = require('../models/Achievement');
+const MenteeTransfer = require('../models/MenteeTransfer');
+const { notify } = require('./notifications');
+
+// Issues in these states are still being worked on and follow the mentee
+const OPEN_ISSUE_STATUSES = ['Open', 'Under Review'];
+
+/**
+ * Move a mentee to a new mentor, or unassign them when no mentor is given.
+ * Keeps User.mentees of both mentors and User.assignedMentor in sync, records
+ * the change in the mentee's mentorHistory and hands the mentee's open issues
+ * and their achievements over to the new mentor. Resolved and closed issues
+ * stay with the mentor who handled them.
+ * @param {Object} mentee - Mentee user document
+ * @param {Object|null} newMentor - Mentor user document, or null to unassign
+ * @param {Object} [options]
+ * @param {string} [options.assignedBy] - User making the change
+ * @param {string} [options.transfer] - Accepted MenteeTransfer, if any
+ * @returns {Promise<Object>} - Updated mentee document
+ */
+const reassignMentee = async (mentee, newMentor, options = {}) => {
+    const previousMentorId = mentee.assignedMentor;
+    const newMentorId = newMentor ? newMentor._id : null;
+
+    if (previousMentorId && newMentorId && previousMentorId.equals(newMentorId)) {
+        return mentee;
+    }
+
+    const now = new Date();
+
+    if (previousMentorId) {
+        await User.updateOne(
+            { _id: previousMentorId },
+            { $pull: { mentees: mentee._id } }
+        );
+    }
+
+    if (newMentorId) {
+        await User.updateOne(
+            { _id: newMentorId },
+            { $addToSet: { mentees: mentee._id } }
+        );
+    }
+
+    // Close the current history entry; mentees assigned before history was
+    // recorded get one backfilled from their registration date
+    const currentEntry = mentee.mentorHistory.find((entry) => !entry.unassignedAt);
+    if (currentEntry) {
+        currentEntry.unassignedAt = now;
+    } else if (previousMentorId) {
+        mentee.mentorHistory.push({
+            mentor: previousMentorId,
+            assignedAt: mentee.createdAt,
+            unassignedAt: now
+        });
+    }
+
+    if (newMentorId) {
+        mentee.mentorHistory.push({
+            mentor: newMentorId,
+            assignedAt: now,
+            assignedBy: options.assignedBy,
+            transfer: options.transfer
+        });
+    }
+
+    mentee.assignedMentor = newMentorId || undefined;
+    await mentee.save();
+
+    // Issue and Achievement require a mentor, so an unassigned mentee's
+    // records stay with the previous mentor until the next assignment. That
+    // one takes them over from whichever mentor holds them, not just the
+    // mentor being replaced. Confidential issues have no mentor to move.
+    if (newMentorId) {
+        await Promise.all([
+            Issue.updateMany(
+                {
+                    mentee: mentee._id,
+                    mentor: { $exists: true, $ne: newMentorId },
+                    confidential: { $ne: true },
+                    status: { $in: OPEN_ISSUE_STATUSES }
+                },
+                { mentor: newMentorId }
+            ),
+            Achievement.updateMany(
+                { mentee: mentee._id, mentor: { $ne: newMentorId } },
+                { mentor: newMentorId }
+            )
+        ]);
+    }
+
+    // Any other handover in flight no longer applies
+    const staleTransfers = { mentee: mentee._id, status: 'pending' };
+    if (options.transfer) {
+        staleTransfers._id = { $ne: options.transfer };
+    }
+    await MenteeTransfer.updateMany(staleTransfers, { status: 'cancelled', respondedAt: now });
+
+    if (newMentorId) {
+        await notify(mentee._id, {
+            type: 'mentee_assigned',
+            title: 'You have a new mentor',
+            message: `${newMentor.name || newMentor.email} is now your mentor`,
+            link: '/mentee/dashboard'
+        });
+
+        // Mentors who added the mentee themselves don't need telling
+        if (!options.assignedBy || options.assignedBy.toString() !== newMentorId.toString()) {
+            await notify(newMentorId, {
+                type: 'mentee_assigned',
+                title: 'New mentee assigned',
+                message: `${mentee.name || mentee.email} has been assigned to you`,
+                link: `/mentor/mentees/${mentee._id}`
+            });
+        }
+    }
+
+    return mentee;
+};
+
+module.exports = {
+    OPEN_ISSUE_STATUSES,
+    reassignMentee
+};
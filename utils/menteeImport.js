@@ -0,0 +1,166 @@
+const crypto = require('crypto');
+const validator = require('validator');
+const User = require('../models/User');
+const MenteeProfile = require('../models/MenteeProfile');
+const { reassignMentee } = require('./menteeAssignment');
+const { createSecureToken } = require('./secureToken');
+
+// Invite links stay valid for two weeks (override with INVITE_TTL_DAYS)
+const INVITE_TTL_MS = (Number(process.env.INVITE_TTL_DAYS) || 14) * 24 * 60 * 60 * 1000;
+
+// Header spellings accepted for each column, compared without case or punctuation
+const IMPORT_COLUMNS = {
+    email: ['email', 'emailid', 'emailaddress'],
+    name: ['name', 'fullname', 'studentname'],
+    registrationNo: ['registrationnumber', 'registrationno', 'regno', 'regnumber'],
+    section: ['section'],
+    branch: ['branch', 'department']
+};
+
+/**
+ * Map header cells to the fields they hold
+ * @param {string[]} header - First CSV row
+ * @returns {Object} - Field name to column index, e.g. { email: 0, name: 2 }
+ */
+const mapColumns = (header) => {
+    const columns = {};
+
+    header.forEach((cell, index) => {
+        const key = cell.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const field = Object.keys(IMPORT_COLUMNS).find((name) => IMPORT_COLUMNS[name].includes(key));
+
+        if (field && columns[field] === undefined) {
+            columns[field] = index;
+        }
+    });
+
+    return columns;
+};
+
+/**
+ * Issue a fresh invite token on a mentee account (not saved)
+ * @param {Object} mentee - Mentee user document
+ * @returns {string} - Raw token to hand to the mentee
+ */
+const issueInvite = (mentee) => {
+    const { token, hash, expires } = createSecureToken(INVITE_TTL_MS);
+    mentee.inviteTokenHash = hash;
+    mentee.inviteExpires = expires;
+    return token;
+};
+
+/**
+ * Import one CSV row for a mentor: create the mentee with an invite if the
+ * email is new, or assign an existing unassigned mentee
+ * @param {Object} mentor - Mentor user document
+ * @param {Object} details - { email, name, registrationNo, section, branch }
+ * @returns {Promise<Object>} - { status, message, inviteToken? }
+ */
+const importMentee = async (mentor, details) => {
+    const existing = await User.findOne({ email: details.email }).select('+inviteTokenHash');
+
+    if (!existing) {
+        const mentee = new User({
+            email: details.email,
+            // Never revealed; the mentee chooses a password through the invite
+            password: crypto.randomBytes(24).toString('hex'),
+            role: 'mentee',
+            name: details.name || details.email.split('@')[0]
+        });
+        const inviteToken = issueInvite(mentee);
+        await mentee.save();
+
+        // Prefill the profile so the mentee only has to complete it
+        await MenteeProfile.create({
+            user: mentee._id,
+            name: details.name,
+            registrationNo: details.registrationNo,
+            section: details.section,
+            branch: details.branch
+        });
+
+        await reassignMentee(mentee, mentor, { assignedBy: mentor._id });
+
+        return { status: 'created', message: 'Account created and invite issued', inviteToken };
+    }
+
+    if (existing.role !== 'mentee') {
+        return { status: 'failed', message: `Email belongs to a ${existing.role} account` };
+    }
+
+    if (existing.assignedMentor && existing.assignedMentor.equals(mentor._id)) {
+        // Re-importing is the way to get a new link for someone who lost theirs
+        if (existing.inviteTokenHash) {
+            const inviteToken = issueInvite(existing);
+            await existing.save();
+            return { status: 'skipped', message: 'Already your mentee; invite re-issued', inviteToken };
+        }
+
+        return { status: 'skipped', message: 'Already your mentee' };
+    }
+
+    if (existing.assignedMentor) {
+        return { status: 'failed', message: 'Assigned to another mentor; ask them to transfer this mentee' };
+    }
+
+    if (existing.isActive === false) {
+        return { status: 'failed', message: 'Account has been deactivated' };
+    }
+
+    await reassignMentee(existing, mentor, { assignedBy: mentor._id });
+
+    return { status: 'assigned', message: 'Existing account assigned to you' };
+};
+
+/**
+ * Import mentees for a mentor from parsed CSV rows. Rows are processed one
+ * at a time so duplicates within the file are caught.
+ * @param {Object} mentor - Mentor user document
+ * @param {string[][]} rows - Parsed CSV including the header row
+ * @returns {Promise<Object[]>} - One result per data row:
+ *   { row, email, name, status: created|assigned|skipped|failed, message, inviteToken? }
+ */
+const importMentees = async (mentor, rows) => {
+    const columns = mapColumns(rows[0]);
+    const seen = new Set();
+    const results = [];
+
+    for (let i = 1; i < rows.length; i++) {
+        const cell = (field) => (columns[field] !== undefined ? rows[i][columns[field]] || '' : '').trim();
+        const details = {
+            email: cell('email').toLowerCase(),
+            name: cell('name') || undefined,
+            registrationNo: cell('registrationNo') || undefined,
+            section: cell('section') || undefined,
+            branch: cell('branch') || undefined
+        };
+        // Row numbers match what the mentor sees in a spreadsheet
+        const result = { row: i + 1, email: details.email, name: details.name || null };
+
+        if (!validator.isEmail(details.email)) {
+            results.push({ ...result, status: 'failed', message: 'Invalid or missing email' });
+            continue;
+        }
+
+        if (seen.has(details.email)) {
+            results.push({ ...result, status: 'skipped', message: 'Duplicate of an earlier row' });
+            continue;
+        }
+        seen.add(details.email);
+
+        try {
+            results.push({ ...result, ...(await importMentee(mentor, details)) });
+        } catch (error) {
+            console.error(`Error importing mentee row ${result.row}:`, error);
+            results.push({ ...result, status: 'failed', message: error.message });
+        }
+    }
+
+    return results;
+};
+
+module.exports = {
+    IMPORT_COLUMNS,
+    mapColumns,
+    importMentees
+};
@@ -0,0 +1,78 @@
+const mongoose = require('mongoose');
+const MenteeInviteLink = require('../models/MenteeInviteLink');
+const { signValue, verifySignedValue } = require('./secureToken');
+
+/**
+ * Build the token that goes in a link's URL
+ * @param {Object} inviteLink - Invite link document
+ * @returns {string}
+ */
+const getInviteLinkToken = (inviteLink) => signValue(inviteLink._id.toString());
+
+/**
+ * Helper function to get the link id out of a token, if the signature holds
+ * @param {string} token - Token from the URL
+ * @returns {string|null}
+ */
+const parseInviteLinkToken = (token) => {
+    const id = verifySignedValue(token);
+    return id && mongoose.Types.ObjectId.isValid(id) ? id : null;
+};
+
+/**
+ * Conditions a link has to meet to be used
+ * @returns {Object}
+ */
+const usableFilter = () => ({
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+    $expr: { $lt: ['$uses', '$maxUses'] }
+});
+
+/**
+ * Look up a link that can still be used, e.g. to show who it's from
+ * @param {string} token - Token from the URL
+ * @returns {Promise<Object|null>} - The invite link, or null if invalid, expired or used up
+ */
+const findUsableInviteLink = (token) => {
+    const id = parseInviteLinkToken(token);
+    if (!id) return Promise.resolve(null);
+
+    return MenteeInviteLink.findOne({ _id: id, ...usableFilter() });
+};
+
+/**
+ * Use up one registration on a link, if it is still valid. The check and the
+ * increment are a single update so two registrations can't share the last use.
+ * @param {string} token - Token from the URL
+ * @returns {Promise<Object|null>} - The invite link, or null if invalid, expired or used up
+ */
+const redeemInviteLink = (token) => {
+    const id = parseInviteLinkToken(token);
+    if (!id) return Promise.resolve(null);
+
+    return MenteeInviteLink.findOneAndUpdate({
+        _id: id,
+        ...usableFilter()
+    }, {
+        $inc: { uses: 1 }
+    }, {
+        new: true
+    });
+};
+
+/**
+ * Give back a use taken by redeemInviteLink when the registration fails
+ * @param {Object} inviteLink - Invite link document
+ * @returns {Promise<void>}
+ */
+const releaseInviteLink = async (inviteLink) => {
+    await MenteeInviteLink.updateOne({ _id: inviteLink._id }, { $inc: { uses: -1 } });
+};
+
+module.exports = {
+    getInviteLinkToken,
+    findUsableInviteLink,
+    redeemInviteLink,
+    releaseInviteLink
+};
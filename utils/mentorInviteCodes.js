@@ -0,0 +1,67 @@
+const crypto = require('crypto');
+const MentorInviteCode = require('../models/MentorInviteCode');
+const { hashToken } = require('./secureToken');
+
+// Letters and digits that can't be confused with each other when read aloud
+// or copied by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 12;
+
+/**
+ * Normalize a code as typed: case, spaces and dashes don't matter
+ * @param {string} code - Code as entered
+ * @returns {string}
+ */
+const normalizeCode = (code) => String(code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Create a random invite code, formatted in groups of four (ABCD-EFGH-JKLM)
+ * @returns {{ code: string, hash: string, hint: string }}
+ */
+const generateInviteCode = () => {
+    const bytes = crypto.randomBytes(CODE_LENGTH);
+    const raw = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+
+    return {
+        code: raw.match(/.{4}/g).join('-'),
+        hash: hashToken(raw),
+        hint: raw.slice(-4)
+    };
+};
+
+/**
+ * Use up one registration on a code, if it is still valid. The check and the
+ * increment are a single update so two registrations can't share the last use.
+ * @param {string} code - Code as entered
+ * @returns {Promise<Object|null>} - The invite code, or null if invalid, expired or used up
+ */
+const redeemInviteCode = (code) => {
+    const normalized = normalizeCode(code);
+    if (!normalized) return Promise.resolve(null);
+
+    return MentorInviteCode.findOneAndUpdate({
+        codeHash: hashToken(normalized),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+        $expr: { $lt: ['$uses', '$maxUses'] }
+    }, {
+        $inc: { uses: 1 }
+    }, {
+        new: true
+    });
+};
+
+/**
+ * Give back a use taken by redeemInviteCode when the registration fails
+ * @param {Object} inviteCode - Invite code document
+ * @returns {Promise<void>}
+ */
+const releaseInviteCode = async (inviteCode) => {
+    await MentorInviteCode.updateOne({ _id: inviteCode._id }, { $inc: { uses: -1 } });
+};
+
+module.exports = {
+    generateInviteCode,
+    redeemInviteCode,
+    releaseInviteCode
+};
@@ -0,0 +1,103 @@
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const logger = require('./logger');
+const { publish } = require('./realtime');
+const { sendNotificationEmails } = require('./mail/notificationEmails');
+
+// Longest comment excerpt copied into a notification
+const EXCERPT_LENGTH = 140;
+
+/**
+ * Shorten text for a notification body
+ * @param {string} text - Full text
+ * @returns {string}
+ */
+const excerpt = (text = '') => (text.length > EXCERPT_LENGTH
+    ? `${text.slice(0, EXCERPT_LENGTH - 1)}…`
+    : text);
+
+/**
+ * Store a notification for each recipient, push it to their open event
+ * streams and email those who opted in.
+ * Failures are logged rather than thrown so a notification problem never
+ * fails the action that caused it; emails are sent in the background.
+ * @param {Array|ObjectId|string} recipients - User IDs; duplicates and empty values are ignored
+ * @param {Object} notification - { type, title, message, link, issue }
+ * @returns {Promise<Array>} - Created notifications
+ */
+const notify = async (recipients, notification) => {
+    const ids = [...new Set([].concat(recipients).filter(Boolean).map(String))];
+
+    if (ids.length === 0) return [];
+
+    try {
+        const created = await Notification.insertMany(ids.map((recipient) => ({
+            ...notification,
+            recipient
+        })));
+
+        created.forEach((doc) => publish(doc.recipient, 'notification', doc));
+
+        sendNotificationEmails(created).catch((error) => {
+            logger.error(error, `Failed to email ${notification.type} notification`);
+        });
+
+        return created;
+    } catch (error) {
+        logger.error(error, `Failed to store ${notification.type} notification`);
+        return [];
+    }
+};
+
+/**
+ * IDs of every active user with a role
+ * @param {string} role - User role
+ * @returns {Promise<Array>}
+ */
+const findActiveUserIds = async (role) => {
+    const users = await User.find({ role, isActive: { $ne: false } }).select('_id');
+    return users.map((user) => user._id);
+};
+
+/**
+ * Notify whoever handles an issue: its mentor, or the committee when it is
+ * confidential. Committee notifications never name the reporter.
+ * @param {Object} issue - Issue document
+ * @param {Object} notification - { type, title, message }
+ * @returns {Promise<Array>}
+ */
+const notifyIssueHandlers = async (issue, notification) => {
+    try {
+        const recipients = issue.confidential
+            ? await findActiveUserIds('committee')
+            : issue.mentor;
+        const link = issue.confidential
+            ? `/committee/issues/${issue._id}`
+            : `/mentor/issues/${issue._id}`;
+
+        return await notify(recipients, { ...notification, link, issue: issue._id });
+    } catch (error) {
+        logger.error(error, `Failed to notify handlers of issue ${issue._id}`);
+        return [];
+    }
+};
+
+/**
+ * Notify the mentee who reported an issue
+ * @param {Object} issue - Issue document
+ * @param {Object} notification - { type, title, message }
+ * @returns {Promise<Array>}
+ */
+const notifyIssueReporter = (issue, notification) => notify(issue.mentee._id || issue.mentee, {
+    ...notification,
+    link: `/mentee/issues/${issue._id}`,
+    issue: issue._id
+});
+
+module.exports = {
+    excerpt,
+    notify,
+    findActiveUserIds,
+    notifyIssueHandlers,
+    notifyIssueReporter
+};
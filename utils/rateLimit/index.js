@@ -0,0 +1,69 @@
+const logger = require('../logger');
+const createMemoryStore = require('./memoryStore');
+const createRedisStore = require('./redisStore');
+
+// Store instance, created lazily so environment variables are loaded first
+let store = null;
+
+/**
+ * Build the store selected by RATE_LIMIT_STORE ("memory" by default)
+ * @returns {Object} - Rate limit store with increment, get and reset methods
+ */
+const createStore = () => {
+    const driver = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+
+    switch (driver) {
+        case 'memory':
+            return createMemoryStore();
+        case 'redis':
+            return createRedisStore({
+                url: process.env.REDIS_URL,
+                prefix: process.env.RATE_LIMIT_PREFIX
+            });
+        default:
+            throw new Error(`Unknown rate limit store: ${driver}`);
+    }
+};
+
+/**
+ * Get the configured rate limit store
+ * @returns {Object} - Rate limit store
+ */
+const getRateLimitStore = () => {
+    if (!store) {
+        store = createStore();
+        logger.info(`Rate limiting initialized using "${store.name}" store`);
+    }
+    return store;
+};
+
+/**
+ * Seconds until a counter resets, for Retry-After headers
+ * @param {Date} resetAt - When the counter resets
+ * @returns {number}
+ */
+const secondsUntil = (resetAt) => Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+
+/**
+ * Answer a request that went over a limit
+ * @param {Object} res - Express response object
+ * @param {Date} resetAt - When the client may try again
+ * @param {Object} body - code and error message for the response
+ */
+const sendTooManyRequests = (res, resetAt, { code, error }) => {
+    const retryAfter = secondsUntil(resetAt);
+
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({
+        success: false,
+        code,
+        error,
+        retryAfter
+    });
+};
+
+module.exports = {
+    getRateLimitStore,
+    secondsUntil,
+    sendTooManyRequests
+};
@@ -0,0 +1,49 @@
+// How often expired counters are swept out of memory
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Rate limit store that keeps counters in process memory. Counters are lost
+ * on restart and not shared between server instances; use the Redis store
+ * when running more than one.
+ * @returns {Object} - Rate limit store
+ */
+const createMemoryStore = () => {
+    const counters = new Map();
+
+    const sweep = setInterval(() => {
+        const now = Date.now();
+        counters.forEach((counter, key) => {
+            if (counter.resetAt <= now) counters.delete(key);
+        });
+    }, SWEEP_INTERVAL_MS);
+    // Don't keep the process alive just to sweep
+    sweep.unref();
+
+    const current = (key) => {
+        const counter = counters.get(key);
+        if (!counter || counter.resetAt <= Date.now()) return null;
+        return counter;
+    };
+
+    return {
+        name: 'memory',
+
+        async increment(key, windowMs) {
+            const counter = current(key) || { count: 0, resetAt: Date.now() + windowMs };
+            counter.count += 1;
+            counters.set(key, counter);
+            return { count: counter.count, resetAt: new Date(counter.resetAt) };
+        },
+
+        async get(key) {
+            const counter = current(key);
+            return counter ? { count: counter.count, resetAt: new Date(counter.resetAt) } : null;
+        },
+
+        async reset(key) {
+            counters.delete(key);
+        }
+    };
+};
+
+module.exports = createMemoryStore;
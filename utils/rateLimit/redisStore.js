@@ -0,0 +1,77 @@
+const logger = require('../logger');
+
+/**
+ * Rate limit store backed by Redis, so counters are shared by every server
+ * instance and survive restarts. The redis client is only required when this
+ * store is selected.
+ * @param {Object} options - Store options
+ * @param {string} options.url - Redis connection URL
+ * @param {string} [options.prefix] - Prefix for every key
+ * @returns {Object} - Rate limit store
+ */
+const createRedisStore = ({ url, prefix = 'ratelimit:' }) => {
+    if (!url) {
+        throw new Error('REDIS_URL must be set when RATE_LIMIT_STORE is "redis"');
+    }
+
+    const { createClient } = require('redis');
+
+    const client = createClient({ url });
+    // Without a listener every dropped connection and reconnect attempt
+    // would be thrown as an uncaught exception
+    client.on('error', (error) => {
+        logger.error(error, 'Rate limit Redis client error');
+    });
+
+    // Connect on first use; node-redis reconnects by itself afterwards. A
+    // failed first connect is retried on the next request.
+    let connecting = null;
+    const connected = () => {
+        if (!connecting) {
+            connecting = client.connect().catch((error) => {
+                connecting = null;
+                throw error;
+            });
+        }
+        return connecting;
+    };
+
+    return {
+        name: 'redis',
+
+        async increment(key, windowMs) {
+            await connected();
+
+            // The expiry is set in the same transaction, so a key can't be
+            // left without one. NX only starts the window for a new key and
+            // needs Redis 7 or later.
+            const [count, , ttl] = await client.multi()
+                .incr(prefix + key)
+                .pExpire(prefix + key, windowMs, 'NX')
+                .pTTL(prefix + key)
+                .exec();
+
+            return { count, resetAt: new Date(Date.now() + ttl) };
+        },
+
+        async get(key) {
+            await connected();
+
+            const [count, ttl] = await client.multi()
+                .get(prefix + key)
+                .pTTL(prefix + key)
+                .exec();
+
+            if (count === null || ttl < 0) return null;
+
+            return { count: Number(count), resetAt: new Date(Date.now() + ttl) };
+        },
+
+        async reset(key) {
+            await connected();
+            await client.del(prefix + key);
+        }
+    };
+};
+
+module.exports = createRedisStore;
@@ -0,0 +1,193 @@
+const Issue = require('../models/Issue');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const logger = require('./logger');
+
+// Comment line sent periodically so proxies don't close idle streams
+const HEARTBEAT_MS = 25 * 1000;
+
+// Open event streams per user id: { role, streams: Map<res, sessionId> }. Streams live
+// in this process only, so with several API instances each client receives
+// the events of the instance it is connected to.
+const clients = new Map();
+
+let heartbeatId = null;
+
+const write = (res, event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const removeStream = (userId, res) => {
+    const entry = clients.get(userId);
+    if (!entry) return;
+
+    entry.streams.delete(res);
+    if (entry.streams.size === 0) {
+        clients.delete(userId);
+    }
+    if (clients.size === 0 && heartbeatId) {
+        clearInterval(heartbeatId);
+        heartbeatId = null;
+    }
+};
+
+const closeStream = (userId, res) => {
+    removeStream(userId, res);
+    res.end();
+};
+
+/**
+ * Close the streams of users who signed out, were deactivated or whose
+ * session ran out since they connected. The stream is only authenticated
+ * when it opens, so this runs with every heartbeat.
+ * @returns {Promise<void>}
+ */
+const closeRevokedStreams = async () => {
+    const sessionIds = [];
+    clients.forEach(({ streams }) => streams.forEach((sessionId) => sessionIds.push(sessionId)));
+
+    const [sessions, users] = await Promise.all([
+        Session.find({ _id: { $in: sessionIds } }).select('user expiresAt revokedAt'),
+        User.find({ _id: { $in: [...clients.keys()] }, isActive: { $ne: false } }).select('_id').lean()
+    ]);
+
+    const liveSessions = new Set(sessions.filter((session) => session.isActive()).map((session) => String(session._id)));
+    const activeUsers = new Set(users.map((user) => String(user._id)));
+
+    clients.forEach(({ streams }, userId) => {
+        streams.forEach((sessionId, stream) => {
+            if (!activeUsers.has(userId) || !liveSessions.has(String(sessionId))) {
+                closeStream(userId, stream);
+            }
+        });
+    });
+};
+
+/**
+ * Register an open server-sent events response for a user
+ * @param {Object} user - req.user of the authenticated request
+ * @param {Object} res - Express response with event-stream headers sent
+ * @returns {Function} - Call to unregister the stream
+ */
+const addClient = (user, res) => {
+    const userId = user.id.toString();
+    const entry = clients.get(userId) || { role: user.role, streams: new Map() };
+
+    entry.streams.set(res, user.sessionId);
+    clients.set(userId, entry);
+
+    if (!heartbeatId) {
+        heartbeatId = setInterval(() => {
+            clients.forEach(({ streams }) => streams.forEach((_, stream) => stream.write(': ping\n\n')));
+            closeRevokedStreams().catch((error) => logger.error(error, 'Failed to check event stream sessions'));
+        }, HEARTBEAT_MS);
+        heartbeatId.unref();
+    }
+
+    return () => removeStream(userId, res);
+};
+
+/**
+ * Close a user's open streams right away, e.g. when they sign out
+ * @param {ObjectId|string} userId - User ID
+ * @param {Object} [options]
+ * @param {ObjectId|string} [options.sessionId] - Only close the streams of this session
+ * @param {ObjectId|string} [options.exceptSessionId] - Keep the streams of this session open
+ */
+const disconnectUser = (userId, { sessionId, exceptSessionId } = {}) => {
+    const entry = clients.get(String(userId));
+    if (!entry) return;
+
+    entry.streams.forEach((streamSessionId, stream) => {
+        if (sessionId && String(streamSessionId) !== String(sessionId)) return;
+        if (exceptSessionId && String(streamSessionId) === String(exceptSessionId)) return;
+        closeStream(String(userId), stream);
+    });
+};
+
+/**
+ * Whether a user has at least one open stream on this instance
+ * @param {ObjectId|string} userId - User ID
+ * @returns {boolean}
+ */
+const isConnected = (userId) => Boolean(userId) && clients.has(userId.toString());
+
+/**
+ * Push an event to every open stream of the given users
+ * @param {Array|ObjectId|string} userIds - Recipients; offline users are skipped
+ * @param {string} event - Event name
+ * @param {Object} data - JSON payload
+ */
+const publish = (userIds, event, data) => {
+    [...new Set([].concat(userIds).filter(Boolean).map(String))].forEach((userId) => {
+        const entry = clients.get(userId);
+        if (entry) {
+            entry.streams.forEach((_, stream) => write(stream, event, data));
+        }
+    });
+};
+
+/**
+ * Push an event to every connected user with a role
+ * @param {string} role - User role
+ * @param {string} event - Event name
+ * @param {Object} data - JSON payload
+ */
+const publishToRole = (role, event, data) => {
+    clients.forEach((entry) => {
+        if (entry.role === role) {
+            entry.streams.forEach((_, stream) => write(stream, event, data));
+        }
+    });
+};
+
+/**
+ * Tell everyone looking at an issue that it changed, and refresh the pending
+ * issue counters on the dashboards of its mentor and mentee. The payload
+ * carries no user details, so it is safe to send for confidential issues;
+ * clients refetch the issue to see what changed.
+ * @param {Object} issue - Issue document after saving
+ * @param {string} kind - 'created', 'comment', 'status' or 'identity'
+ * @returns {Promise<void>}
+ */
+const publishIssueUpdate = async (issue, kind) => {
+    try {
+        const menteeId = issue.mentee._id || issue.mentee;
+        const payload = {
+            issueId: issue._id,
+            kind,
+            status: issue.status,
+            updatedAt: issue.updatedAt
+        };
+
+        publish([menteeId, issue.mentor], 'issue', payload);
+        if (issue.confidential) {
+            publishToRole('committee', 'issue', payload);
+        }
+
+        // Counted the same way as the dashboards count them. Required here
+        // because menteeAssignment reaches this module through notifications.
+        const { OPEN_ISSUE_STATUSES } = require('./menteeAssignment');
+        const pending = { $in: OPEN_ISSUE_STATUSES };
+
+        if (issue.mentor && isConnected(issue.mentor)) {
+            const pendingIssues = await Issue.countDocuments({ mentor: issue.mentor, status: pending });
+            publish(issue.mentor, 'dashboard', { pendingIssues });
+        }
+        if (isConnected(menteeId)) {
+            const pendingIssues = await Issue.countDocuments({ mentee: menteeId, status: pending });
+            publish(menteeId, 'dashboard', { pendingIssues });
+        }
+    } catch (error) {
+        logger.error(error, `Failed to publish update for issue ${issue._id}`);
+    }
+};
+
+module.exports = {
+    addClient,
+    disconnectUser,
+    isConnected,
+    publish,
+    publishToRole,
+    publishIssueUpdate
+};
@@ -0,0 +1,346 @@
+const os = require('os');
+const crypto = require('crypto');
+const User = require('../../models/User');
+const ReportJob = require('../../models/ReportJob');
+const logger = require('../logger');
+const { getStorage } = require('../storage');
+const { getAcademicSummary } = require('../academics');
+const { OPEN_ISSUE_STATUSES } = require('../menteeAssignment');
+const { getMenteeReportData, writeMenteeReport } = require('./menteeReport');
+const {
+    createPdfDocument,
+    title,
+    heading,
+    table,
+    addFooters,
+    formatDate
+} = require('./pdf');
+
+// Recorded on the jobs this API instance runs
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+// Running jobs report in this often; one that hasn't for STALE_JOB_MS is
+// taken to be left behind by an instance that stopped
+const HEARTBEAT_MS = 30 * 1000;
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+// Finished reports are deleted after a week (override with REPORT_RETENTION_DAYS)
+const RETENTION_MS = (Number(process.env.REPORT_RETENTION_DAYS) || 7) * 24 * 60 * 60 * 1000;
+
+// How often stale jobs and expired reports are cleaned up
+const CLEANUP_INTERVAL_MS = STALE_JOB_MS;
+
+const MIME_TYPES = {
+    pdf: 'application/pdf',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * One summary row per mentee
+ * @param {Object} data - From getMenteeReportData
+ * @returns {Object}
+ */
+const summarize = (data) => {
+    const { mentee, profile, academics, achievements, issues } = data;
+
+    return {
+        name: (profile && profile.name) || mentee.name || mentee.email,
+        email: mentee.email,
+        registrationNo: (profile && profile.registrationNo) || '',
+        branch: (profile && profile.branch) || '',
+        cgpa: getAcademicSummary(academics).cgpa,
+        backlogs: academics ? academics.backlogs : 0,
+        openIssues: issues.filter((issue) => OPEN_ISSUE_STATUSES.includes(issue.status)).length,
+        achievements: achievements.length
+    };
+};
+
+/**
+ * Render the consolidated PDF: a summary table followed by one section per mentee
+ * @param {Object} mentor - Mentor user document
+ * @param {Object[]} reports - Report data per mentee
+ * @returns {Promise<Buffer>}
+ */
+const buildPdf = (mentor, reports) => new Promise((resolve, reject) => {
+    const doc = createPdfDocument({ Title: 'Semester Mentee Report', Author: 'ReportVerse' });
+    const chunks = [];
+
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    title(doc, 'Semester Mentee Report',
+        `${mentor.name || mentor.email} · ${reports.length} mentees · generated ${formatDate(new Date())}`);
+
+    heading(doc, 'Summary');
+    table(doc, [
+        { header: 'Name', width: 0.26 },
+        { header: 'Reg. No.', width: 0.16 },
+        { header: 'Branch', width: 0.16 },
+        { header: 'CGPA', width: 0.1, align: 'right' },
+        { header: 'Backlogs', width: 0.1, align: 'right' },
+        { header: 'Open Issues', width: 0.11, align: 'right' },
+        { header: 'Achievements', width: 0.11, align: 'right' }
+    ], reports.map(({ summary }) => [
+        summary.name,
+        summary.registrationNo,
+        summary.branch,
+        summary.cgpa === null ? '-' : summary.cgpa.toFixed(2),
+        summary.backlogs,
+        summary.openIssues,
+        summary.achievements
+    ]), { emptyText: 'No mentees assigned.' });
+
+    reports.forEach(({ data }) => {
+        doc.addPage();
+        writeMenteeReport(doc, data);
+    });
+
+    addFooters(doc, `ReportVerse · ${mentor.name || mentor.email}`);
+    doc.end();
+});
+
+/**
+ * Render the consolidated workbook: a summary sheet plus one sheet each for
+ * semester GPAs, achievements and issues across all mentees
+ * @param {Object} mentor - Mentor user document
+ * @param {Object[]} reports - Report data per mentee
+ * @returns {Promise<Buffer>}
+ */
+const buildXlsx = async (mentor, reports) => {
+    // Loaded on demand so the API starts without the dependency
+    const ExcelJS = require('exceljs');
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'ReportVerse';
+    workbook.created = new Date();
+
+    const addSheet = (name, columns, rows) => {
+        const sheet = workbook.addWorksheet(name);
+        sheet.columns = columns;
+        sheet.addRows(rows);
+        sheet.getRow(1).font = { bold: true };
+        sheet.views = [{ state: 'frozen', ySplit: 1 }];
+        return sheet;
+    };
+
+    const menteeColumns = [
+        { header: 'Name', key: 'name', width: 28 },
+        { header: 'Registration No.', key: 'registrationNo', width: 18 }
+    ];
+
+    addSheet('Summary', [
+        ...menteeColumns,
+        { header: 'Email', key: 'email', width: 30 },
+        { header: 'Branch', key: 'branch', width: 16 },
+        { header: 'CGPA', key: 'cgpa', width: 8 },
+        { header: 'Backlogs', key: 'backlogs', width: 10 },
+        { header: 'Open Issues', key: 'openIssues', width: 12 },
+        { header: 'Achievements', key: 'achievements', width: 13 }
+    ], reports.map(({ summary }) => summary));
+
+    addSheet('Semester GPAs', [
+        ...menteeColumns,
+        { header: 'Semester', key: 'semester', width: 10 },
+        { header: 'GPA', key: 'gpa', width: 8 },
+        { header: 'Mentor Review', key: 'review', width: 14 }
+    ], reports.flatMap(({ summary, data }) => (data.academics ? data.academics.semesterGPA : [])
+        .map((entry) => ({
+            name: summary.name,
+            registrationNo: summary.registrationNo,
+            semester: entry.semester,
+            gpa: entry.gpa,
+            review: (entry.verification && entry.verification.status) || 'pending'
+        }))));
+
+    addSheet('Achievements', [
+        ...menteeColumns,
+        { header: 'Date', key: 'date', width: 12, style: { numFmt: 'dd-mmm-yyyy' } },
+        { header: 'Type', key: 'type', width: 20 },
+        { header: 'Position', key: 'position', width: 14 },
+        { header: 'Description', key: 'description', width: 60 }
+    ], reports.flatMap(({ summary, data }) => data.achievements.map((achievement) => ({
+        name: summary.name,
+        registrationNo: summary.registrationNo,
+        date: achievement.dateOfAchievement,
+        type: achievement.type,
+        position: achievement.position,
+        description: achievement.description
+    }))));
+
+    addSheet('Issues', [
+        ...menteeColumns,
+        { header: 'Raised', key: 'raised', width: 12, style: { numFmt: 'dd-mmm-yyyy' } },
+        { header: 'Type', key: 'type', width: 16 },
+        { header: 'Status', key: 'status', width: 14 },
+        { header: 'Description', key: 'description', width: 60 }
+    ], reports.flatMap(({ summary, data }) => data.issues.map((issue) => ({
+        name: summary.name,
+        registrationNo: summary.registrationNo,
+        raised: issue.createdAt,
+        type: issue.issueType,
+        status: issue.status,
+        description: issue.description
+    }))));
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+/**
+ * Generate the report for a queued job, recording progress as each mentee
+ * is loaded so the client can poll it
+ * @param {string} jobId - ReportJob ID
+ * @returns {Promise<void>}
+ */
+const runBatchReportJob = async (jobId) => {
+    const job = await ReportJob.findById(jobId);
+    if (!job) return;
+
+    const heartbeat = setInterval(() => {
+        ReportJob.updateOne({ _id: job._id }, { heartbeatAt: new Date() }).catch((error) => {
+            logger.error(error, `Failed to record heartbeat of report job ${jobId}`);
+        });
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+
+    try {
+        const mentor = await User.findById(job.mentor);
+        const menteeIds = mentor ? mentor.mentees : [];
+
+        job.status = 'running';
+        job.owner = INSTANCE_ID;
+        job.heartbeatAt = new Date();
+        job.progress = { completed: 0, total: menteeIds.length };
+        await job.save();
+
+        const reports = [];
+        for (const menteeId of menteeIds) {
+            const data = await getMenteeReportData(menteeId);
+            if (data) {
+                reports.push({ data, summary: summarize(data) });
+            }
+
+            await ReportJob.updateOne({ _id: job._id }, { $inc: { 'progress.completed': 1 } });
+        }
+
+        reports.sort((a, b) => a.summary.name.localeCompare(b.summary.name));
+
+        const buffer = job.format === 'xlsx'
+            ? await buildXlsx(mentor, reports)
+            : await buildPdf(mentor, reports);
+
+        const fileKey = `reports/${job.mentor}/${job._id}.${job.format}`;
+        await getStorage().save(fileKey, buffer, MIME_TYPES[job.format]);
+
+        await ReportJob.updateOne({ _id: job._id }, {
+            status: 'completed',
+            fileKey,
+            fileName: `semester-report-${new Date().toISOString().slice(0, 10)}.${job.format}`,
+            mimeType: MIME_TYPES[job.format],
+            completedAt: new Date(),
+            expiresAt: new Date(Date.now() + RETENTION_MS)
+        });
+    } catch (error) {
+        logger.error(error, `Batch report job ${jobId} failed`);
+        await ReportJob.updateOne({ _id: job._id }, {
+            status: 'failed',
+            error: error.message,
+            completedAt: new Date(),
+            expiresAt: new Date(Date.now() + RETENTION_MS)
+        });
+    } finally {
+        clearInterval(heartbeat);
+    }
+};
+
+/**
+ * Queue a job to run in the background after the current request finishes
+ * @param {Object} job - Saved ReportJob document
+ */
+const startBatchReportJob = (job) => {
+    setImmediate(() => {
+        runBatchReportJob(job._id).catch((error) => {
+            logger.error(error, `Batch report job ${job._id} crashed`);
+        });
+    });
+};
+
+/**
+ * Jobs run in-process, so any left unfinished by a stopped instance will
+ * never complete. Mark them failed so mentors can start a new one; jobs
+ * another instance is still running keep their heartbeat fresh.
+ * @returns {Promise<void>}
+ */
+const failInterruptedJobs = async () => {
+    const now = new Date();
+    const result = await ReportJob.updateMany(
+        {
+            status: { $in: ['queued', 'running'] },
+            heartbeatAt: { $not: { $gte: new Date(now.getTime() - STALE_JOB_MS) } }
+        },
+        {
+            status: 'failed',
+            error: 'Interrupted because the server generating it stopped',
+            completedAt: now,
+            expiresAt: new Date(now.getTime() + RETENTION_MS)
+        }
+    );
+
+    if (result.modifiedCount > 0) {
+        logger.warn(`Marked ${result.modifiedCount} interrupted report job(s) as failed`);
+    }
+};
+
+/**
+ * Delete finished reports past their retention period, with their files
+ * @returns {Promise<void>}
+ */
+const removeExpiredReports = async () => {
+    const now = new Date();
+    const expired = await ReportJob.find({
+        $or: [
+            { expiresAt: { $lte: now } },
+            // Finished before reports had an expiry
+            { expiresAt: null, completedAt: { $lte: new Date(now.getTime() - RETENTION_MS) } }
+        ]
+    }).select('fileKey');
+
+    for (const job of expired) {
+        if (job.fileKey) {
+            await getStorage().remove(job.fileKey);
+        }
+        await ReportJob.deleteOne({ _id: job._id });
+    }
+
+    if (expired.length > 0) {
+        logger.info(`Removed ${expired.length} expired report(s)`);
+    }
+};
+
+let intervalId = null;
+
+/**
+ * Clean up interrupted jobs and expired reports now and then every
+ * CLEANUP_INTERVAL_MS
+ */
+const startReportCleanup = () => {
+    if (intervalId) return;
+
+    const run = () => {
+        failInterruptedJobs()
+            .then(removeExpiredReports)
+            .catch((error) => {
+                logger.error(error, 'Report cleanup failed');
+            });
+    };
+
+    run();
+    intervalId = setInterval(run, CLEANUP_INTERVAL_MS);
+    // Don't keep the process alive just for the cleanup
+    intervalId.unref();
+};
+
+module.exports = {
+    startBatchReportJob,
+    startReportCleanup
+};
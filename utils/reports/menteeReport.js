@@ -0,0 +1,188 @@
+const User = require('../../models/User');
+const MenteeProfile = require('../../models/MenteeProfile');
+const AcademicRecord = require('../../models/AcademicRecord');
+const Achievement = require('../../models/Achievement');
+const Issue = require('../../models/Issue');
+const {
+    createPdfDocument,
+    title,
+    heading,
+    keyValueRows,
+    note,
+    table,
+    addFooters,
+    formatDate
+} = require('./pdf');
+const { getAcademicSummary } = require('../academics');
+
+/**
+ * Load everything that goes into a mentee report
+ * @param {string} menteeId - Mentee user ID
+ * @returns {Promise<Object|null>} - Report data, or null if the mentee does not exist
+ */
+const getMenteeReportData = async (menteeId) => {
+    const mentee = await User.findOne({ _id: menteeId, role: 'mentee' })
+        .populate('assignedMentor', 'name email');
+
+    if (!mentee) {
+        return null;
+    }
+
+    const [profile, academics, achievements, issues] = await Promise.all([
+        MenteeProfile.findOne({ user: menteeId }),
+        AcademicRecord.findOne({ mentee: menteeId }),
+        Achievement.find({ mentee: menteeId }).sort('-dateOfAchievement'),
+        // Confidential issues are for the committee only
+        Issue.find({ mentee: menteeId, confidential: { $ne: true } }).sort('-createdAt')
+    ]);
+
+    return {
+        mentee,
+        mentor: mentee.assignedMentor,
+        profile,
+        academics,
+        achievements,
+        issues,
+        generatedAt: new Date()
+    };
+};
+
+/**
+ * Label for an entry's mentor review state
+ * @param {Object} entry - Academic entry with a verification subdocument
+ * @returns {string}
+ */
+const reviewLabel = (entry) => {
+    const status = entry.verification && entry.verification.status;
+    if (status === 'verified') return 'Verified';
+    if (status === 'rejected') return 'Rejected';
+    return 'Pending';
+};
+
+/**
+ * Write one mentee's report starting on the current page. Used on its own
+ * for single reports and repeatedly for batch reports.
+ * @param {PDFDocument} doc
+ * @param {Object} data - From getMenteeReportData
+ */
+const writeMenteeReport = (doc, data) => {
+    const { mentee, mentor, profile, academics, achievements, issues } = data;
+    const name = (profile && profile.name) || mentee.name || mentee.email;
+
+    title(doc, 'Mentee Report', `${name} · generated ${formatDate(data.generatedAt)}`);
+
+    heading(doc, 'Student Details');
+    keyValueRows(doc, [
+        ['Name', name],
+        ['Email', mentee.email],
+        ['Registration No.', profile && profile.registrationNo],
+        ['Branch', profile && profile.branch],
+        ['Section / Roll No.', profile && [profile.section, profile.rollNo].filter(Boolean).join(' / ')],
+        ['Mobile', (profile && profile.mobileNo) || mentee.phone],
+        ['Hostel', profile && [profile.hostelBlockNo, profile.roomNo].filter(Boolean).join(', Room ')],
+        ['Mentor', mentor ? `${mentor.name || ''} (${mentor.email})`.trim() : 'Unassigned']
+    ]);
+
+    if (profile && (profile.fatherDetails || profile.motherDetails)) {
+        const parent = (details) => details && details.name
+            ? [details.name, details.occupation, details.mobileNo].filter(Boolean).join(', ')
+            : null;
+
+        keyValueRows(doc, [
+            ['Father', parent(profile.fatherDetails)],
+            ['Mother', parent(profile.motherDetails)]
+        ]);
+    }
+
+    if (!mentee.profileCompleted) {
+        note(doc, 'The mentee has not completed their profile yet.');
+    }
+
+    heading(doc, 'Academic Performance');
+
+    if (!academics) {
+        note(doc, 'No academic records have been added yet.');
+    } else {
+        const semesters = [...academics.semesterGPA].sort((a, b) => a.semester - b.semester);
+
+        table(doc, [
+            { header: 'Semester', width: 0.25 },
+            { header: 'GPA', width: 0.25, align: 'right' },
+            { header: 'Mentor Review', width: 0.5 }
+        ], semesters.map((entry) => [
+            entry.semester,
+            entry.gpa.toFixed(2),
+            reviewLabel(entry)
+        ]), { emptyText: 'No semester GPAs recorded.' });
+
+        doc.moveDown(0.5);
+        const { cgpa, totalCredits, backlogs } = getAcademicSummary(academics);
+
+        keyValueRows(doc, [
+            ['CGPA', cgpa === null ? 'Not available' : cgpa.toFixed(2)],
+            ['Credits Recorded', totalCredits],
+            ['Active Backlogs', academics.backlogs],
+            ['Pending Subjects', backlogs.pending.length
+                ? backlogs.pending.map((subject) => `${subject.code || subject.name} (semester ${subject.semester})`).join(', ')
+                : 'None'],
+            ['MOOC Courses', academics.moocCourses.length ? academics.moocCourses.join(', ') : 'None'],
+            ['Certifications', academics.certifications.length
+                ? academics.certifications.map((cert) => `${cert.name} (${reviewLabel(cert)})`).join(', ')
+                : 'None']
+        ]);
+    }
+
+    heading(doc, `Achievements (${achievements.length})`);
+    table(doc, [
+        { header: 'Date', width: 0.15 },
+        { header: 'Type', width: 0.2 },
+        { header: 'Position', width: 0.15 },
+        { header: 'Description', width: 0.5 }
+    ], achievements.map((achievement) => [
+        formatDate(achievement.dateOfAchievement),
+        achievement.type,
+        achievement.position,
+        achievement.description
+    ]), { emptyText: 'No achievements recorded.' });
+
+    heading(doc, `Issue History (${issues.length})`);
+    table(doc, [
+        { header: 'Raised', width: 0.15 },
+        { header: 'Type', width: 0.15 },
+        { header: 'Status', width: 0.15 },
+        { header: 'Description', width: 0.43 },
+        { header: 'Comments', width: 0.12, align: 'right' }
+    ], issues.map((issue) => [
+        formatDate(issue.createdAt),
+        issue.issueType,
+        issue.status,
+        issue.description,
+        issue.comments.length
+    ]), { emptyText: 'No issues raised.' });
+};
+
+/**
+ * Stream a single mentee report as a PDF download
+ * @param {Object} res - Express response
+ * @param {Object} data - From getMenteeReportData
+ */
+const sendMenteeReportPdf = (res, data) => {
+    const name = (data.profile && data.profile.name) || data.mentee.name || data.mentee.email;
+    const doc = createPdfDocument({ Title: `Mentee Report - ${name}`, Author: 'ReportVerse' });
+    const fileName = `mentee-report-${(data.profile && data.profile.registrationNo) || data.mentee._id}.pdf`
+        .replace(/[^\w.-]/g, '_');
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    doc.pipe(res);
+    writeMenteeReport(doc, data);
+    addFooters(doc, `ReportVerse · ${name}`);
+    doc.end();
+};
+
+module.exports = {
+    getMenteeReportData,
+    writeMenteeReport,
+    sendMenteeReportPdf
+};
@@ -0,0 +1,234 @@
+const PDFDocument = require('pdfkit');
+
+const MARGIN = 50;
+
+// Matches the app's primary colour (hsl(19 65% 50%)) so printouts look familiar
+const COLORS = {
+    primary: '#D2612D',
+    text: '#111827',
+    muted: '#6B7280',
+    rule: '#E5E7EB',
+    headerFill: '#F9FAFB'
+};
+
+/**
+ * Create an A4 document with buffered pages so footers can be added at the end
+ * @param {Object} info - PDF metadata, e.g. { Title, Author }
+ * @returns {PDFDocument}
+ */
+const createPdfDocument = (info = {}) => new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info
+});
+
+/**
+ * Start a new page if fewer than `height` points are left on the current one
+ * @param {PDFDocument} doc
+ * @param {number} height - Space needed
+ */
+const ensureSpace = (doc, height) => {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+    }
+};
+
+/**
+ * Width available between the page margins
+ * @param {PDFDocument} doc
+ * @returns {number}
+ */
+const contentWidth = (doc) => doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+/**
+ * Write a report title with an optional subtitle line
+ * @param {PDFDocument} doc
+ * @param {string} text
+ * @param {string} [subtitle]
+ */
+const title = (doc, text, subtitle) => {
+    doc.font('Helvetica-Bold').fontSize(20).fillColor(COLORS.primary)
+        .text(text, doc.page.margins.left, doc.y);
+
+    if (subtitle) {
+        doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted).text(subtitle);
+    }
+
+    doc.moveDown(0.5);
+};
+
+/**
+ * Write a section heading with a rule underneath
+ * @param {PDFDocument} doc
+ * @param {string} text
+ */
+const heading = (doc, text) => {
+    doc.moveDown(0.8);
+    ensureSpace(doc, 60);
+
+    const x = doc.page.margins.left;
+    doc.font('Helvetica-Bold').fontSize(13).fillColor(COLORS.primary).text(text, x, doc.y);
+
+    const y = doc.y + 2;
+    doc.moveTo(x, y).lineTo(x + contentWidth(doc), y).lineWidth(0.5).strokeColor(COLORS.rule).stroke();
+    doc.y = y + 6;
+};
+
+/**
+ * Write label/value pairs in two columns; empty values are shown as "N/A"
+ * @param {PDFDocument} doc
+ * @param {Array<[string, any]>} pairs
+ */
+const keyValueRows = (doc, pairs) => {
+    const x = doc.page.margins.left;
+    const labelWidth = 150;
+    const valueWidth = contentWidth(doc) - labelWidth;
+
+    doc.fontSize(10);
+
+    pairs.forEach(([label, value]) => {
+        const text = value === undefined || value === null || value === '' ? 'N/A' : String(value);
+        const height = Math.max(
+            doc.heightOfString(text, { width: valueWidth }),
+            doc.heightOfString(label, { width: labelWidth })
+        ) + 4;
+
+        ensureSpace(doc, height);
+        const y = doc.y;
+
+        doc.font('Helvetica').fillColor(COLORS.muted).text(label, x, y, { width: labelWidth });
+        doc.font('Helvetica').fillColor(COLORS.text).text(text, x + labelWidth, y, { width: valueWidth });
+        doc.y = y + height;
+    });
+};
+
+/**
+ * Write a paragraph in muted text, e.g. for "nothing recorded" notes
+ * @param {PDFDocument} doc
+ * @param {string} text
+ */
+const note = (doc, text) => {
+    ensureSpace(doc, 20);
+    doc.font('Helvetica-Oblique').fontSize(10).fillColor(COLORS.muted)
+        .text(text, doc.page.margins.left, doc.y, { width: contentWidth(doc) });
+};
+
+/**
+ * Draw a table that wraps cell text and repeats its header on new pages
+ * @param {PDFDocument} doc
+ * @param {Array<{ header: string, width: number, align?: string }>} columns -
+ *   Widths are fractions of the content width and should add up to 1
+ * @param {Array<Array<any>>} rows - Cell values in column order
+ * @param {Object} [options]
+ * @param {string} [options.emptyText] - Shown instead of an empty table
+ */
+const table = (doc, columns, rows, options = {}) => {
+    if (rows.length === 0) {
+        note(doc, options.emptyText || 'Nothing recorded.');
+        return;
+    }
+
+    const x = doc.page.margins.left;
+    const totalWidth = contentWidth(doc);
+    const padding = 4;
+    const widths = columns.map((column) => column.width * totalWidth);
+
+    const toText = (cell) => (cell === undefined || cell === null || cell === '' ? '-' : String(cell));
+
+    const rowHeight = (texts, bold) => {
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+        return Math.max(...texts.map((text, i) =>
+            doc.heightOfString(text, { width: widths[i] - padding * 2 })
+        )) + padding * 2;
+    };
+
+    const drawRow = (texts, { bold = false, fill = null } = {}) => {
+        const height = rowHeight(texts, bold);
+        const y = doc.y;
+
+        if (fill) {
+            doc.rect(x, y, totalWidth, height).fill(fill);
+        }
+
+        let cellX = x;
+        texts.forEach((text, i) => {
+            doc.fillColor(COLORS.text).text(text, cellX + padding, y + padding, {
+                width: widths[i] - padding * 2,
+                align: columns[i].align || 'left'
+            });
+            cellX += widths[i];
+        });
+
+        doc.moveTo(x, y + height).lineTo(x + totalWidth, y + height)
+            .lineWidth(0.5).strokeColor(COLORS.rule).stroke();
+        doc.y = y + height;
+    };
+
+    const headerTexts = columns.map((column) => column.header);
+    const drawHeader = () => drawRow(headerTexts, { bold: true, fill: COLORS.headerFill });
+
+    ensureSpace(doc, rowHeight(headerTexts, true) * 2);
+    drawHeader();
+
+    rows.forEach((row) => {
+        const texts = row.map(toText);
+
+        if (doc.y + rowHeight(texts, false) > doc.page.height - doc.page.margins.bottom) {
+            doc.addPage();
+            drawHeader();
+        }
+
+        drawRow(texts);
+    });
+
+    doc.x = x;
+};
+
+/**
+ * Write a footer with page numbers on every buffered page. Call once, just
+ * before doc.end().
+ * @param {PDFDocument} doc
+ * @param {string} text - Left-aligned footer text
+ */
+const addFooters = (doc, text) => {
+    const range = doc.bufferedPageRange();
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+
+        // Writing inside the bottom margin would otherwise add a new page
+        const bottomMargin = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+
+        const y = doc.page.height - bottomMargin + 15;
+        const width = contentWidth(doc);
+        doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted);
+        doc.text(text, doc.page.margins.left, y, { width, align: 'left', lineBreak: false });
+        doc.text(`Page ${i + 1} of ${range.count}`, doc.page.margins.left, y, { width, align: 'right', lineBreak: false });
+
+        doc.page.margins.bottom = bottomMargin;
+    }
+};
+
+/**
+ * Format a date for printing, or "-" when missing
+ * @param {Date|string} date
+ * @returns {string}
+ */
+const formatDate = (date) => (date
+    ? new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+    : '-');
+
+module.exports = {
+    COLORS,
+    createPdfDocument,
+    ensureSpace,
+    title,
+    heading,
+    keyValueRows,
+    note,
+    table,
+    addFooters,
+    formatDate
+};
@@ -0,0 +1,133 @@
+const User = require('../models/User');
+const MenteeProfile = require('../models/MenteeProfile');
+const AcademicRecord = require('../models/AcademicRecord');
+const Issue = require('../models/Issue');
+const { getAcademicSummary } = require('./academics');
+const { OPEN_ISSUE_STATUSES } = require('./menteeAssignment');
+const { FLAG_SCORE, HIGH_SCORE, getRiskRules } = require('../config/risk');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check a mentee against the risk rules
+ * @param {Object} facts
+ * @param {Object|null} facts.academics - AcademicRecord
+ * @param {number} facts.openIssues - Issues not yet resolved
+ * @param {Date} [facts.lastActiveAt] - Last sign-in or refresh; without it the
+ *   inactivity rule is skipped
+ * @param {Date} [now] - Time to measure inactivity against
+ * @returns {{ score: number, level: string|null, reasons: Array<{ rule: string, message: string }> }}
+ */
+const assessMenteeRisk = ({ academics, openIssues, lastActiveAt }, now = new Date()) => {
+    const rules = getRiskRules();
+    const reasons = [];
+
+    const check = (rule, fired, message) => {
+        if (rules[rule].enabled && fired) {
+            reasons.push({ rule, message, weight: rules[rule].weight });
+        }
+    };
+
+    const { semesters } = getAcademicSummary(academics);
+    if (semesters.length >= 2) {
+        const [previous, latest] = semesters.slice(-2);
+        const drop = previous.sgpa - latest.sgpa;
+        check('gpaDrop', drop >= rules.gpaDrop.threshold,
+            `SGPA dropped by ${drop.toFixed(2)} from semester ${previous.semester} to ${latest.semester}`);
+    }
+
+    const backlogs = academics ? academics.backlogs || 0 : 0;
+    check('backlogs', backlogs >= rules.backlogs.threshold, `${backlogs} pending backlogs`);
+
+    check('openIssues', openIssues >= rules.openIssues.threshold, `${openIssues} unresolved issues`);
+
+    // Only judged when the mentee has recorded it
+    if (academics && typeof academics.attendance === 'number') {
+        check('attendance', academics.attendance < rules.attendance.threshold,
+            `Attendance at ${academics.attendance}%`);
+    }
+
+    if (lastActiveAt) {
+        const inactiveDays = Math.floor((now - new Date(lastActiveAt)) / DAY_MS);
+        check('inactivity', inactiveDays >= rules.inactivity.threshold,
+            `Not active for ${inactiveDays} days`);
+    }
+
+    const score = reasons.reduce((sum, reason) => sum + reason.weight, 0);
+    let level = null;
+    if (score >= HIGH_SCORE) {
+        level = 'high';
+    } else if (score >= FLAG_SCORE) {
+        level = 'medium';
+    }
+
+    return {
+        score,
+        level,
+        reasons: reasons.map(({ rule, message }) => ({ rule, message }))
+    };
+};
+
+/**
+ * Assess a group of mentees and keep the ones who are flagged, highest risk first
+ * @param {Array<ObjectId>} menteeIds - Mentee user IDs, e.g. a mentor's mentees
+ * @returns {Promise<Array>} - { mentee: { id, name, email }, score, level, reasons }
+ */
+const getAtRiskMentees = async (menteeIds = []) => {
+    if (menteeIds.length === 0) {
+        return [];
+    }
+
+    const [users, profiles, records, issueCounts] = await Promise.all([
+        User.find({ _id: { $in: menteeIds } }).select('email name lastActiveAt').lean(),
+        MenteeProfile.find({ user: { $in: menteeIds } }).select('user name').lean(),
+        AcademicRecord.find({ mentee: { $in: menteeIds } }).lean(),
+        Issue.aggregate([
+            // Confidential reports go to the committee and stay hidden from the mentor
+            {
+                $match: {
+                    mentee: { $in: menteeIds },
+                    status: { $in: OPEN_ISSUE_STATUSES },
+                    confidential: { $ne: true }
+                }
+            },
+            { $group: { _id: '$mentee', count: { $sum: 1 } } }
+        ])
+    ]);
+
+    const byMentee = (items, key) => new Map(items.map((item) => [String(item[key]), item]));
+    const profileMap = byMentee(profiles, 'user');
+    const recordMap = byMentee(records, 'mentee');
+    const issueMap = byMentee(issueCounts, '_id');
+
+    const now = new Date();
+
+    return users
+        .map((user) => {
+            const id = String(user._id);
+            const profile = profileMap.get(id);
+            const issues = issueMap.get(id);
+
+            return {
+                mentee: {
+                    id,
+                    name: user.name || (profile && profile.name) || null,
+                    email: user.email
+                },
+                ...assessMenteeRisk({
+                    academics: recordMap.get(id) || null,
+                    openIssues: issues ? issues.count : 0,
+                    // Unset until the mentee signs in (see scripts/backfill-last-active.js),
+                    // which skips the inactivity rule
+                    lastActiveAt: user.lastActiveAt
+                }, now)
+            };
+        })
+        .filter((result) => result.level)
+        .sort((a, b) => b.score - a.score);
+};
+
+module.exports = {
+    assessMenteeRisk,
+    getAtRiskMentees
+};
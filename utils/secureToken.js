@@ -0,0 +1,62 @@
+const crypto = require('crypto');
+
+/**
+ * Hash a token for storage; only the hash is kept in the database so a leaked
+ * collection cannot be used to redeem tokens
+ * @param {string} token - Raw token
+ * @returns {string} - SHA-256 hex digest
+ */
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+/**
+ * Create a single-use token to be sent to a user
+ * @param {number} ttlMs - How long the token stays valid
+ * @returns {{ token: string, hash: string, expires: Date }}
+ */
+const createSecureToken = (ttlMs) => {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    return {
+        token,
+        hash: hashToken(token),
+        expires: new Date(Date.now() + ttlMs)
+    };
+};
+
+/**
+ * Sign a value so it can be handed out in a link and checked when it comes
+ * back, without storing anything secret alongside it
+ * @param {string} value - Value to sign, e.g. a document id
+ * @returns {string} - "<value>.<signature>"
+ */
+const signValue = (value) => {
+    const signature = crypto.createHmac('sha256', process.env.JWT_SECRET).update(String(value)).digest('base64url');
+    return `${value}.${signature}`;
+};
+
+/**
+ * Check a value produced by signValue
+ * @param {string} signed - Signed value as received
+ * @returns {string|null} - The original value, or null if the signature doesn't match
+ */
+const verifySignedValue = (signed) => {
+    const separator = String(signed || '').lastIndexOf('.');
+    if (separator <= 0) return null;
+
+    const value = signed.slice(0, separator);
+    const expected = Buffer.from(signValue(value));
+    const received = Buffer.from(String(signed));
+
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+        return null;
+    }
+
+    return value;
+};
+
+module.exports = {
+    hashToken,
+    createSecureToken,
+    signValue,
+    verifySignedValue
+};
@@ -0,0 +1,196 @@
+const Session = require('../models/Session');
+const User = require('../models/User');
+const generateToken = require('./jwtGenerator');
+const { hashToken, createSecureToken } = require('./secureToken');
+const { disconnectUser } = require('./realtime');
+
+// Refresh tokens keep a device signed in for 30 days (override with REFRESH_TOKEN_TTL_DAYS)
+const REFRESH_TOKEN_TTL_MS = (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+// Two tabs refreshing at once both send the same cookie; the slower one is
+// answered from the session instead of being treated as a replay
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const REFRESH_COOKIE = 'refreshToken';
+
+// The cookie is only sent to the auth routes, which are the only ones that read it
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+/**
+ * Read a cookie from the request without pulling in a cookie parser
+ * @param {Object} req - Express request object
+ * @param {string} name - Cookie name
+ * @returns {string|undefined}
+ */
+const readCookie = (req, name) => {
+    const header = req.headers.cookie;
+    if (!header) return undefined;
+
+    for (const part of header.split(';')) {
+        const index = part.indexOf('=');
+        if (index === -1) continue;
+
+        if (part.slice(0, index).trim() === name) {
+            try {
+                return decodeURIComponent(part.slice(index + 1).trim());
+            } catch (error) {
+                return undefined;
+            }
+        }
+    }
+
+    return undefined;
+};
+
+const cookieOptions = () => ({
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: REFRESH_COOKIE_PATH
+});
+
+/**
+ * Store the refresh token in an httpOnly cookie so page scripts can't read it
+ * @param {Object} res - Express response object
+ * @param {string} token - Raw refresh token
+ * @param {Date} expires - When the session expires
+ */
+const setRefreshCookie = (res, token, expires) => {
+    res.cookie(REFRESH_COOKIE, token, { ...cookieOptions(), expires });
+};
+
+/**
+ * Remove the refresh token cookie
+ * @param {Object} res - Express response object
+ */
+const clearRefreshCookie = (res) => {
+    res.clearCookie(REFRESH_COOKIE, cookieOptions());
+};
+
+/**
+ * Get the refresh token sent with the request
+ * @param {Object} req - Express request object
+ * @returns {string|undefined}
+ */
+const getRefreshToken = (req) => readCookie(req, REFRESH_COOKIE);
+
+/**
+ * Record that the user is using the app; refreshes happen for as long as a
+ * tab stays open, so this is close enough to their last activity
+ * @param {string} userId - User to mark
+ * @returns {Promise<void>}
+ */
+const markActive = async (userId) => {
+    await User.updateOne({ _id: userId }, { lastActiveAt: new Date() });
+};
+
+/**
+ * Sign a user in on this device: start a session, set its refresh cookie and
+ * return an access token for it
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Object} user - User document
+ * @returns {Promise<string>} - Access token
+ */
+const startSession = async (req, res, user) => {
+    const { token, hash, expires } = createSecureToken(REFRESH_TOKEN_TTL_MS);
+
+    const session = await Session.create({
+        user: user._id,
+        refreshTokenHash: hash,
+        userAgent: req.get('user-agent'),
+        ip: req.ip,
+        expiresAt: expires
+    });
+
+    setRefreshCookie(res, token, expires);
+    await markActive(user._id);
+
+    return generateToken(user._id, session._id);
+};
+
+/**
+ * Exchange a refresh token for a new one. A token that was already rotated
+ * out is treated as stolen and revokes its session, unless it was rotated
+ * moments ago by a concurrent request from the same device.
+ * @param {string} token - Raw refresh token from the cookie
+ * @returns {Promise<{ session: Object, token?: string }|null>} - The session and
+ * its new refresh token (omitted when answering inside the grace period), or
+ * null if the token can't be used
+ */
+const rotateSession = async (token) => {
+    const hash = hashToken(token);
+
+    const session = await Session.findOne({ refreshTokenHash: hash });
+
+    if (!session) {
+        const replayed = await Session.findOne({ previousTokenHash: hash });
+
+        if (replayed && replayed.isActive()) {
+            if (Date.now() - replayed.lastUsedAt.getTime() < ROTATION_GRACE_MS) {
+                return { session: replayed };
+            }
+
+            replayed.revokedAt = new Date();
+            await replayed.save();
+        }
+
+        return null;
+    }
+
+    if (!session.isActive()) {
+        return null;
+    }
+
+    const next = createSecureToken(REFRESH_TOKEN_TTL_MS);
+
+    session.previousTokenHash = hash;
+    session.refreshTokenHash = next.hash;
+    session.lastUsedAt = new Date();
+    // Keep the original expiry; a session can't be extended forever
+    await session.save();
+    await markActive(session.user);
+
+    return { session, token: next.token };
+};
+
+/**
+ * Revoke a single session
+ * @param {string} token - Raw refresh token from the cookie
+ * @returns {Promise<void>}
+ */
+const revokeSessionByToken = async (token) => {
+    await Session.updateOne(
+        { refreshTokenHash: hashToken(token), revokedAt: { $exists: false } },
+        { revokedAt: new Date() }
+    );
+};
+
+/**
+ * Sign a user out everywhere
+ * @param {string} userId - User whose sessions are revoked
+ * @param {string} [exceptSessionId] - Session to keep, e.g. the one making the request
+ * @returns {Promise<number>} - Number of sessions revoked
+ */
+const revokeUserSessions = async (userId, exceptSessionId) => {
+    const filter = { user: userId, revokedAt: { $exists: false } };
+
+    if (exceptSessionId) {
+        filter._id = { $ne: exceptSessionId };
+    }
+
+    const result = await Session.updateMany(filter, { revokedAt: new Date() });
+    disconnectUser(userId, { exceptSessionId });
+
+    return result.modifiedCount;
+};
+
+module.exports = {
+    startSession,
+    rotateSession,
+    revokeSessionByToken,
+    revokeUserSessions,
+    getRefreshToken,
+    setRefreshCookie,
+    clearRefreshCookie
+};
@@ -0,0 +1,119 @@
+const Issue = require('../models/Issue');
+const logger = require('./logger');
+const { OPEN_ISSUE_STATUSES } = require('./menteeAssignment');
+const { notify, findActiveUserIds } = require('./notifications');
+
+// How often deadlines are checked (override with SLA_CHECK_INTERVAL_MINUTES)
+const CHECK_INTERVAL_MS = (Number(process.env.SLA_CHECK_INTERVAL_MINUTES) || 5) * 60 * 1000;
+
+// What has to be missing for each kind of deadline to count as breached
+const BREACH_QUERIES = {
+    response: {
+        status: { $in: OPEN_ISSUE_STATUSES },
+        dueField: 'sla.responseDueAt',
+        doneField: 'sla.respondedAt',
+        breachedField: 'sla.responseBreachedAt',
+        note: 'No response within the response deadline'
+    },
+    resolution: {
+        status: { $in: OPEN_ISSUE_STATUSES },
+        dueField: 'sla.resolutionDueAt',
+        doneField: 'sla.resolvedAt',
+        breachedField: 'sla.resolutionBreachedAt',
+        note: 'Issue has not been resolved within the resolution deadline'
+    }
+};
+
+/**
+ * Mark issues whose deadlines have passed as breached and escalate them to
+ * every active administrator, or to the anti-ragging committee for
+ * confidential issues. Each deadline escalates at most once, even with
+ * several API instances running the scheduler.
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<Array<{ issue: Object, kind: string, escalatedTo: Array }>>} - New escalations
+ */
+const checkIssueSlas = async (now = new Date()) => {
+    const recipients = {
+        admin: await findActiveUserIds('admin'),
+        committee: await findActiveUserIds('committee')
+    };
+    const escalated = [];
+
+    for (const [kind, rule] of Object.entries(BREACH_QUERIES)) {
+        const candidates = await Issue.find({
+            status: rule.status,
+            [rule.dueField]: { $lte: now },
+            [rule.doneField]: null,
+            [rule.breachedField]: null
+        }).select('_id issueType confidential mentor mentee');
+
+        for (const issue of candidates) {
+            const recipientRole = issue.confidential ? 'committee' : 'admin';
+            const escalatedTo = recipients[recipientRole];
+
+            // Guard on the breach field so concurrent runs escalate only once
+            const result = await Issue.updateOne(
+                { _id: issue._id, [rule.breachedField]: null },
+                {
+                    $set: { [rule.breachedField]: now },
+                    $push: { escalations: { kind, escalatedTo, note: rule.note, createdAt: now } }
+                }
+            );
+
+            if (result.modifiedCount > 0) {
+                logger.warn(`Issue ${issue._id} (${issue.issueType}) breached its ${kind} deadline; escalated to ${escalatedTo.length} ${recipientRole} account(s)`);
+                escalated.push({ issue, kind, escalatedTo });
+
+                await notify(escalatedTo, {
+                    type: 'issue_escalated',
+                    title: `${issue.issueType} issue missed its ${kind} deadline`,
+                    message: rule.note,
+                    link: issue.confidential ? `/committee/issues/${issue._id}` : '/admin/escalations',
+                    issue: issue._id
+                });
+
+                // Let the mentor know their issue has gone over their head
+                if (!issue.confidential && issue.mentor) {
+                    await notify(issue.mentor, {
+                        type: 'issue_escalated',
+                        title: `${issue.issueType} issue missed its ${kind} deadline`,
+                        message: `${rule.note}; it has been escalated to the administrators`,
+                        link: `/mentor/issues/${issue._id}`,
+                        issue: issue._id
+                    });
+                }
+
+                if (escalatedTo.length === 0) {
+                    logger.warn(`Issue ${issue._id} was escalated but there are no active ${recipientRole} accounts to receive it`);
+                }
+            }
+        }
+    }
+
+    return escalated;
+};
+
+let intervalId = null;
+
+/**
+ * Check deadlines now and then every CHECK_INTERVAL_MS
+ */
+const startSlaScheduler = () => {
+    if (intervalId) return;
+
+    const run = () => {
+        checkIssueSlas().catch((error) => {
+            logger.error(error, 'SLA check failed');
+        });
+    };
+
+    run();
+    intervalId = setInterval(run, CHECK_INTERVAL_MS);
+    // Don't keep the process alive just for the scheduler
+    intervalId.unref();
+};
+
+module.exports = {
+    checkIssueSlas,
+    startSlaScheduler
+};
@@ -0,0 +1,88 @@
+const path = require('path');
+const logger = require('../logger');
+const createLocalStorage = require('./localStorage');
+const createS3Storage = require('./s3Storage');
+
+// Adapter instance, created lazily so environment variables are loaded first
+let storage = null;
+
+/**
+ * Build the storage adapter selected by STORAGE_DRIVER ("local" by default)
+ * @returns {Object} - Storage adapter with save, getStream and remove methods
+ */
+const createStorage = () => {
+    const driver = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+
+    switch (driver) {
+        case 'local':
+            return createLocalStorage({
+                rootDir: process.env.UPLOAD_DIR || path.join(__dirname, '../../uploads')
+            });
+        case 's3':
+            return createS3Storage({
+                bucket: process.env.S3_BUCKET,
+                region: process.env.S3_REGION,
+                endpoint: process.env.S3_ENDPOINT,
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+                forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true'
+            });
+        default:
+            throw new Error(`Unknown storage driver: ${driver}`);
+    }
+};
+
+/**
+ * Get the configured storage adapter
+ * @returns {Object} - Storage adapter
+ */
+const getStorage = () => {
+    if (!storage) {
+        storage = createStorage();
+        logger.info(`File storage initialized using "${storage.name}" driver`);
+    }
+    return storage;
+};
+
+// Missing files as reported by the local disk and by S3
+const isNotFound = (error) => error.code === 'ENOENT' || error.name === 'NoSuchKey' ||
+    (error.$metadata && error.$metadata.httpStatusCode === 404);
+
+/**
+ * Stream a stored file to an HTTP response. A file that can't be read is
+ * answered with a generic error, since the storage error names the path.
+ * @param {Object} res - Express response object
+ * @param {Object} file - Stored file metadata ({ fileKey, fileName, mimeType })
+ * @returns {Promise<void>}
+ */
+const sendStoredFile = async (res, file) => {
+    let stream;
+
+    try {
+        stream = await getStorage().getStream(file.fileKey);
+    } catch (error) {
+        logger.error(error, `Failed to read stored file ${file.fileKey}`);
+
+        const notFound = isNotFound(error);
+        res.status(notFound ? 404 : 500).json({
+            success: false,
+            error: notFound ? 'File not found' : 'Failed to read file'
+        });
+        return;
+    }
+
+    res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(file.fileName || 'file')}"`);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+
+    stream.on('error', (error) => {
+        logger.error(error, 'Stored file stream error');
+        res.destroy(error);
+    });
+    stream.pipe(res);
+};
+
+module.exports = {
+    getStorage,
+    sendStoredFile
+};
@@ -0,0 +1,49 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Storage adapter that keeps uploaded files on the local disk
+ * @param {Object} options - Adapter options
+ * @param {string} options.rootDir - Directory under which all keys are stored
+ * @returns {Object} - Storage adapter
+ */
+const createLocalStorage = ({ rootDir }) => {
+    const root = path.resolve(rootDir);
+
+    // Resolve a storage key to an absolute path, refusing anything outside the root
+    const resolveKey = (key) => {
+        const filePath = path.resolve(root, key);
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    };
+
+    return {
+        name: 'local',
+
+        async save(key, buffer) {
+            const filePath = resolveKey(key);
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, buffer);
+            return key;
+        },
+
+        async getStream(key) {
+            const filePath = resolveKey(key);
+            await fs.promises.access(filePath, fs.constants.R_OK);
+            return fs.createReadStream(filePath);
+        },
+
+        async remove(key) {
+            try {
+                await fs.promises.unlink(resolveKey(key));
+            } catch (error) {
+                // Removing a file that is already gone is not an error
+                if (error.code !== 'ENOENT') throw error;
+            }
+        }
+    };
+};
+
+module.exports = createLocalStorage;
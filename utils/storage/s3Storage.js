@@ -0,0 +1,58 @@
+/**
+ * Storage adapter for S3-compatible object stores (AWS S3, MinIO, R2, ...)
+ * The AWS SDK is only required when this adapter is selected.
+ * @param {Object} options - Adapter options
+ * @param {string} options.bucket - Bucket name
+ * @param {string} [options.region] - Bucket region
+ * @param {string} [options.endpoint] - Custom endpoint for non-AWS providers
+ * @param {string} [options.accessKeyId] - Access key id
+ * @param {string} [options.secretAccessKey] - Secret access key
+ * @param {boolean} [options.forcePathStyle] - Use path-style URLs (required by MinIO)
+ * @returns {Object} - Storage adapter
+ */
+const createS3Storage = ({ bucket, region, endpoint, accessKeyId, secretAccessKey, forcePathStyle }) => {
+    if (!bucket) {
+        throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is "s3"');
+    }
+
+    const {
+        S3Client,
+        PutObjectCommand,
+        GetObjectCommand,
+        DeleteObjectCommand
+    } = require('@aws-sdk/client-s3');
+
+    const client = new S3Client({
+        region: region || 'us-east-1',
+        ...(endpoint && { endpoint }),
+        ...(forcePathStyle && { forcePathStyle: true }),
+        ...(accessKeyId && secretAccessKey && {
+            credentials: { accessKeyId, secretAccessKey }
+        })
+    });
+
+    return {
+        name: 's3',
+
+        async save(key, buffer, contentType) {
+            await client.send(new PutObjectCommand({
+                Bucket: bucket,
+                Key: key,
+                Body: buffer,
+                ContentType: contentType
+            }));
+            return key;
+        },
+
+        async getStream(key) {
+            const result = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+            return result.Body;
+        },
+
+        async remove(key) {
+            await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+        }
+    };
+};
+
+module.exports = createS3Storage;